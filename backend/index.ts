@@ -18,34 +18,51 @@ import appSettingsRouter from './routes/app-settings';
 import uploadRouter from './routes/upload';
 import livekitRouter from './routes/livekit';
 import avatarRouter from './routes/avatar';
+import authRouter from './routes/auth';
+import reportsRouter from './routes/reports';
+import createAdminRouter from './routes/admin';
+import createMetricsRouter from './routes/metrics';
 import registerFriendSockets from './sockets/friends';
+import registerBlockSockets from './sockets/blocks';
+import registerReportSockets from './sockets/reports';
 import registerIdentitySockets, { bindUser as bindUserIdentity } from './sockets/identity';
-import registerMessageSockets from './sockets/messagesReliable';
+import registerMessageSockets, { flushPendingDeliveries, sendTextMessage } from './sockets/messagesReliable';
+import registerPushSockets from './sockets/push';
+import registerCallSockets from './sockets/calls';
+import registerDeviceSockets from './sockets/devices';
 import { socketHandler } from './sockets/handler';
 import { bindAvatarSockets } from './sockets/avatar';
 import { setIoInstance } from './utils/ioInstance';
+import { attachClusterAdapter, closeClusterAdapter, fetchUserSockets, getOnlineUserIds, isClustered, userRoom } from './utils/socketCluster';
 import User from './models/User';
 import Install from './models/Install';
 import createChatRouter from './routes/chat';
 import { buildAvatarDataUris } from './utils/avatars';
 import { createToken, getLiveKitUrl } from './routes/livekit';
 import * as queueStore from './utils/queueStore';
-import { startQueueCleanup, stopQueueCleanup, tryMatch } from './sockets/match';
+import { getBearerToken, verifyAccessToken } from './utils/sessionTokens';
+import { queueMetaOf, registerMatchCluster, startQueueCleanup, stopQueueCleanup, tryMatch } from './sockets/match';
+import { isBlockedEitherWay } from './utils/blockUtils';
+import { MAX_CALL_PARTICIPANTS } from './sockets/webrtc';
+import { hasPushTarget, notifyIncomingCall } from './utils/push';
+import { recordCallBusy, recordCallEnded, recordCallOutcome, recordCallStarted } from './utils/callLog';
+import { addCallbackRequest, cancelCallbackRequest, fireCallbackRequests } from './utils/callbackRequests';
+import { areFriendsCached } from './utils/friendshipUtils';
+import { resolveQuickReply } from './utils/callConfig';
+import { getTunables, isFeatureEnabled } from './utils/remoteConfig';
+import callsRouter from './routes/calls';
+import {
+  correlationFor,
+  httpLogContextMiddleware,
+  linkCorrelation,
+  setLogContext,
+  socketLogContextMiddleware,
+} from './utils/logContext';
+import { metrics } from './utils/metrics';
+import { socketRateLimitMiddleware } from './utils/rateLimit';
+import { beginDraining, drainingPayload, isDraining, SHUTDOWN_GRACE_MS } from './utils/draining';
+import { isInstallLinked } from './utils/deviceLinking';
 
-// Закрываем Redis соединение при завершении приложения
-process.on('SIGTERM', async () => {
-  logger.info('SIGTERM received, closing Redis connection');
-  stopQueueCleanup();
-  await queueStore.close();
-  process.exit(0);
-});
-
-process.on('SIGINT', async () => {
-  logger.info('SIGINT received, closing Redis connection');
-  stopQueueCleanup();
-  await queueStore.close();
-  process.exit(0);
-});
 
 
 /* ========= Типы ========= */
@@ -102,46 +119,33 @@ const isMongoReady = () => mongoose.connection.readyState === 1;
 /* ========= App / HTTP / IO ========= */
 const app = express();
 
+// Контекст логов (cid) для каждого запроса — раньше всех остальных middleware
+app.use(httpLogContextMiddleware);
+
 app.use(
   cors({
     origin: '*',
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'x-user-id', 'x-install-id'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'x-user-id', 'x-install-id', 'x-request-id'],
+    exposedHeaders: ['X-Request-Id'],
   })
 );
 
 // json/urlencoded парсеры — один раз и до роутеров
-app.use(express.json({ limit: '500mb' })); // Увеличиваем лимит для очень больших видео
+// Медиа идут multipart/чанками через routes/upload.ts — в JSON остаются только аватары (dataUri) и служебные запросы
+app.use(express.json({ limit: '20mb' }));
 app.use('/chat', createChatRouter());
-app.use(express.urlencoded({ extended: true, limit: '500mb' }));
+app.use(express.urlencoded({ extended: true, limit: '1mb' }));
 
-/** Резолвим userId из заголовков/квери/инсталла */
-app.use(async (req, _res, next) => {
+/** Резолвим userId из подписанного сессионного токена (Authorization: Bearer) */
+app.use((req, _res, next) => {
   try {
-    const hUser = req.header('x-user-id') || undefined;
-    const qUser = typeof req.query.userId === 'string' ? (req.query.userId as string) : undefined;
-
-    let uid: string | undefined = [hUser, qUser].find((x): x is string => !!x && isOid(x));
-
-    if (!uid) {
-      const inst = req.header('x-install-id') || '';
-      // КРИТИЧНО: Проверяем готовность MongoDB перед использованием моделей
-      // Это предотвращает ошибки буферизации при отсутствии подключения
-      if (inst && mongoose.connection.readyState === 1) {
-        try {
-          const rec = (await Install.findOne({ installId: inst }).select('user').lean()) as
-            | { user?: any }
-            | null;
-          if (rec?.user && isOid(String(rec.user))) {
-            uid = String(rec.user);
-          }
-        } catch (e) {
-          // Игнорируем ошибки MongoDB, продолжаем без userId из installId
-        }
-      }
+    const claims = verifyAccessToken(getBearerToken(req));
+    if (claims && isOid(claims.sub)) {
+      (req as any).userId = claims.sub;
+      (req as any).auth = { userId: claims.sub, installId: claims.iid };
+      setLogContext({ userId: claims.sub });
     }
-
-    if (uid) (req as any).userId = uid;
   } catch {}
   next();
 });
@@ -161,11 +165,36 @@ const io = new Server(server, {
   pingTimeout: 30000,
 });
 
+// Redis-адаптер: комнаты u:<userId> и fetchSockets работают через все ноды backend
+attachClusterAdapter(io);
+
 // Сохраняем глобально для использования в роутах
 setIoInstance(io);
 
+// Контекст логов (cid, socketId, userId) для подключения и каждого входящего события
+io.use(socketLogContextMiddleware);
+// Draining: новые подключения отправляем на другие ноды (клиент получит connect_error и переподключится)
+io.use((_sock, next) => next(isDraining() ? new Error('server_draining') : undefined));
+
+// Общий rate limit на события (message:send, call:initiate, friends:add, …) — см. utils/rateLimit
+io.use(socketRateLimitMiddleware);
+
+// Проверяем сессионный токен из socket.auth при handshake.
+// Без токена пускаем гостем (нужно для первого identity:attach), с невалидным/просроченным — connect_error,
+// клиент обновит токен через /api/auth/refresh и переподключится.
+io.use((sock, next) => {
+  const token = (sock.handshake.auth as any)?.token;
+  if (!token) return next();
+  const claims = verifyAccessToken(String(token));
+  if (!claims || !isOid(claims.sub)) return next(new Error('invalid_token'));
+  (sock as AuthedSocket).data.session = { userId: claims.sub, installId: claims.iid };
+  next();
+});
+
 // Запускаем периодическую очистку устаревших сокетов из очереди матчинга
 startQueueCleanup(io);
+// Пары рандома, где партнёр подключён к другой ноде (через Redis-адаптер)
+registerMatchCluster(io);
 
 
 // пробрасываем io в req ДО подключения роутеров
@@ -178,7 +207,11 @@ app.use((req, _res, next) => {
 
 /* ========= Базовые маршруты ========= */
 app.get('/', (_req, res) => res.send('🚀 Сервер работает!'));
-app.get('/health', (_req, res) => res.json({ ok: true, mongo: mongoose.connection.readyState }));
+// 503 во время draining — балансировщик перестаёт слать сюда новых клиентов
+app.get('/health', (_req, res) => {
+  if (isDraining()) return res.status(503).json({ ok: false, draining: true, mongo: mongoose.connection.readyState });
+  res.json({ ok: true, mongo: mongoose.connection.readyState });
+});
 
 /* ========= Static files ========= */
 app.use('/uploads', express.static(path.join(__dirname, 'public/uploads')));
@@ -221,12 +254,24 @@ app.get('/invite/:code', (req, res) => {
 app.use(express.static(path.join(__dirname, 'public')));
 
 /* ========= REST API ========= */
+app.use('/api', authRouter);
 app.use('/api', appSettingsRouter);
 app.use('/api', meRouter);
 app.use('/api', friendsRouter);
 app.use('/api', uploadRouter);
 app.use('/api', avatarRouter);
 app.use('/api', livekitRouter);
+app.use('/api', reportsRouter);
+app.use('/api', callsRouter);
+
+/* ========= Admin (дашборд + операционный API) ========= */
+app.use('/admin', createAdminRouter({
+  io,
+  getDirectCalls: async () => (await queueStore.listCalls()).map(({ callId, call: { a, b } }) => ({ callId, a, b })),
+}));
+
+/* ========= Prometheus ========= */
+app.use('/metrics', createMetricsRouter({ io, getDirectCallCount: () => ringTimers.size }));
 
 // Stream utility убран - больше не используется
 
@@ -475,14 +520,6 @@ mongoose
   });
 
 /* ========= Presence helpers ========= */
-function getOnlineListFromIo(io: Server): string[] {
-  const set = new Set<string>();
-  for (const s of io.sockets.sockets.values()) {
-    const uid = (s as any)?.data?.userId;
-    if (uid) set.add(String(uid));
-  }
-  return Array.from(set);
-}
 function bindUser(sock: AuthedSocket, userId: string) {
   (sock as any).data.userId = String(userId);
   try {
@@ -498,8 +535,8 @@ function unbindUser(sock: AuthedSocket) {
     } catch {}
   }
 }
-function emitPresence(io: Server) {
-  const list = getOnlineListFromIo(io);
+async function emitPresence(io: Server) {
+  const list = await getOnlineUserIds(io);
   io.emit('presence_update', list);
   io.emit('presence:update', list);
 }
@@ -537,6 +574,9 @@ async function emitPresenceUpdateToFriends(io: Server, userId: string, busy: boo
     
     // Также отправляем самому пользователю для синхронизации состояния
     io.to(`u:${userId}`).emit('presence:update', { userId, busy });
+
+    // Освободился — сообщаем тем, кто просил перезвонить
+    if (!busy) void fireCallbackRequests(io, userId);
   } catch (e) {
     // В случае ошибки отправляем только самому пользователю (fallback)
     try {
@@ -559,8 +599,8 @@ const unpair = async (id: string) => {
 const removeFromWaitingQueue = async (sid: string) => {
   await queueStore.removeFromQueue(sid);
 };
-const enqueueWaiting = async (sid: string) => {
-  await queueStore.addToQueue(sid);
+const enqueueWaiting = async (s: AuthedSocket) => {
+  await queueStore.addToQueue(s.id, queueMetaOf(s));
 };
 const isConnected = (sid: string) => io.sockets.sockets.has(sid);
 const getUserIdBySid = (sid: string): string | undefined => {
@@ -634,20 +674,207 @@ const updateFriendRoomState = (io: Server, roomId: string) => {
 // findRandom/cancelRandom удалены - используется match.ts
 
 /* ========= Direct Calls (P2P invite) ========= */
-type CallLink = { a: string; b: string; timer?: NodeJS.Timeout };
-const callsById = new Map<string, CallLink>();
-const callOfUser = new Map<string, { with: string; callId: string }>();
-// Активный callId для конкретного socket.id (после accept)
+// Звонки в дозвоне (queueStore.CallRecord) лежат в общем сторе: принять/отклонить/отменить можно с сокета на любой ноде,
+// а "занят ли пользователь" видят все ноды. Здесь — только таймеры дозвона звонков, созданных этой нодой
+type CallLink = queueStore.CallRecord;
+const ringTimers = new Map<string, NodeJS.Timeout>();
+// Запись звонка переживает таймаут дозвона с запасом: если нода с таймером упала, звонок всё равно освободится
+const CALL_RECORD_GRACE_MS = 30_000;
+// Активный roomId для конкретного socket.id (после accept) — только сокеты этой ноды
 const activeCallBySocket = new Map<string, string>();
-// Пользователь занят рандом-видеочатом (по userId) — используется также для findRandom
-
-function cleanupCall(callId: string, reason?: 'accepted' | 'declined' | 'canceled' | 'timeout') {
-  const link = callsById.get(callId);
-  if (!link) return;
-  if (link.timer) { try { clearTimeout(link.timer); } catch {} }
-  callsById.delete(callId);
-  callOfUser.delete(link.a);
-  callOfUser.delete(link.b);
+
+/**
+ * Состояние звонка в socket.data. Сокет может жить на другой ноде — тогда патч применяет она (CALL_SOCKET_STATE_EVENT).
+ * null — снять поле. join — войти в комнату звонка (и запомнить её в activeCallBySocket), ended — звонок в этой комнате завершён.
+ */
+type CallSocketPatch = {
+  busy?: boolean;
+  roomId?: string | null;
+  partnerSid?: string | null;
+  inCall?: boolean | null;
+  join?: string;
+  ended?: string;
+};
+const CALL_SOCKET_STATE_EVENT = 'call:socket:state';
+
+function applyLocalCallState(sid: string, patch: CallSocketPatch): boolean {
+  const s = io.sockets.sockets.get(sid) as AuthedSocket | undefined;
+  if (!s) return false;
+  const data = (s as any).data = (s as any).data || {};
+  for (const key of ['busy', 'roomId', 'partnerSid', 'inCall'] as const) {
+    if (patch[key] === null) delete data[key];
+    else if (patch[key] !== undefined) data[key] = patch[key];
+  }
+  if (patch.join) {
+    try { s.join(patch.join); } catch {}
+    activeCallBySocket.set(sid, patch.join);
+  }
+  if (patch.ended && activeCallBySocket.get(sid) === patch.ended) activeCallBySocket.delete(sid);
+  return true;
+}
+
+function setCallSocketState(sid: string, patch: CallSocketPatch) {
+  if (applyLocalCallState(sid, patch)) return;
+  if (isClustered()) io.serverSideEmit(CALL_SOCKET_STATE_EVENT, { sid, patch });
+}
+io.of('/').on(CALL_SOCKET_STATE_EVENT, ({ sid, patch }: { sid: string; patch: CallSocketPatch }) => {
+  applyLocalCallState(String(sid || ''), patch || {});
+});
+
+/** Сокет участника звонка на любой ноде: preferSid — если он ещё подключён (звонили именно с него) */
+async function findCallSocket(userId: string, preferSid?: string) {
+  const sockets = await fetchUserSockets(io, userId);
+  return sockets.find((s) => s.id === preferSid) || sockets[0];
+}
+
+/** Получатель ответил на одном устройстве — на остальных его устройствах звонок гасим */
+function stopRingingOnOtherDevices(sock: AuthedSocket, callId: string, link: CallLink) {
+  if (String(sock.data?.userId || '') !== link.b) return;
+  try { sock.to(userRoom(link.b)).emit('call:cancel', { callId, from: link.a, reason: 'answered_elsewhere' }); } catch {}
+}
+
+/** userId из токена в payload (reauth/attach_user, сессия сокета обновляется), иначе из проверенного при handshake */
+function resolveSessionUserId(sock: AuthedSocket, payload: any): string | null {
+  if (payload?.token) {
+    const claims = verifyAccessToken(String(payload.token));
+    if (!claims || !isOid(claims.sub)) return null;
+    sock.data.session = { userId: claims.sub, installId: claims.iid };
+    return claims.sub;
+  }
+  return sock.data.session?.userId || null;
+}
+
+/**
+ * Забираем звонок из стора и фиксируем исход. undefined — звонок уже обработан (в том числе другой нодой):
+ * вызывающий код дальше ничего не делает.
+ */
+async function cleanupCall(callId: string, reason: 'accepted' | 'declined' | 'canceled' | 'timeout'): Promise<CallLink | undefined> {
+  const timer = ringTimers.get(callId);
+  if (timer) { try { clearTimeout(timer); } catch {} }
+  ringTimers.delete(callId);
+  const link = await queueStore.takeCall(callId);
+  if (!link) return undefined;
+  const group = link.roomId ? 'true' : 'false';
+  metrics.callOutcomes.inc({ outcome: reason, group });
+  if (reason === 'accepted') metrics.callRingToAcceptSeconds.observe((Date.now() - link.startedAt) / 1000, { group });
+  const [x, y] = [link.a, link.b].sort();
+  void recordCallOutcome(callId, reason, link.roomId || `room_${x}_${y}`);
+  return link;
+}
+
+/** Снимаем busy с участников несостоявшегося звонка (таймаут/отказ/отмена) */
+async function releaseCallParticipants(link: CallLink) {
+  const aSock = await findCallSocket(link.a, link.aSid);
+  if (aSock) {
+    setCallSocketState(aSock.id, { busy: false });
+    await emitPresenceUpdateToFriends(io, link.a, false);
+  }
+  // На второй линии получатель продолжает свой разговор — его busy не трогаем
+  const bSock = link.waiting ? undefined : await findCallSocket(link.b);
+  if (bSock) {
+    setCallSocketState(bSock.id, { busy: false });
+    await emitPresenceUpdateToFriends(io, link.b, false);
+  }
+}
+
+/** userId участников комнаты звонка (по всем нодам) */
+async function getCallRoomUserIds(roomId: string): Promise<string[]> {
+  const ids = new Set<string>();
+  for (const s of await io.in(roomId).fetchSockets()) {
+    const uid = (s.data as any)?.userId;
+    if (uid) ids.add(String(uid));
+  }
+  return Array.from(ids);
+}
+
+/**
+ * Получатель был офлайн и его разбудили push'ем: как только он подключился,
+ * повторяем call:incoming, пока звонок ещё не отвечен и не истёк.
+ */
+async function replayPendingIncomingCall(sock: AuthedSocket, userId: string) {
+  const callId = await queueStore.getUserCall(userId);
+  const link = callId ? await queueStore.getCall(callId) : undefined;
+  if (!callId || !link || link.b !== userId || link.roomId) return;
+
+  const sortedUserIds = [link.a, link.b].sort();
+  const roomId = `room_${sortedUserIds[0]}_${sortedUserIds[1]}`;
+  const initiatorSocket = (await fetchUserSockets(io, link.a))[0];
+  (sock as any).data.busy = true;
+  (sock as any).data.roomId = roomId;
+  if (initiatorSocket) (sock as any).data.partnerSid = initiatorSocket.id;
+
+  let fromNick: string | undefined;
+  try {
+    if (isMongoReady()) {
+      const u = await User.findById(link.a).select('nick').lean();
+      if (u && typeof (u as any).nick === 'string') fromNick = String((u as any).nick).trim() || undefined;
+    }
+  } catch {}
+
+  sock.emit('call:incoming', { callId, from: link.a, fromNick });
+  sock.emit('friend:call:incoming', { callId, from: link.a, nick: fromNick });
+  logger.debug('Pending incoming call replayed', { callId, to: userId });
+}
+
+/**
+ * Приглашение в групповой звонок: комната roomId уже есть (инициатор в ней),
+ * получателю уходит call:incoming с roomId, по call:accept он подключается к той же LiveKit комнате.
+ */
+async function inviteToGroupCall(
+  me: string,
+  roomId: string,
+  peerId: string
+): Promise<{ ok: boolean; userId: string; callId?: string; error?: string }> {
+  if (!isOid(peerId)) return { ok: false, userId: peerId, error: 'bad_peer' };
+  if (peerId === me) return { ok: false, userId: peerId, error: 'self' };
+
+  const participants = await getCallRoomUserIds(roomId);
+  if (participants.includes(peerId)) return { ok: false, userId: peerId, error: 'already_in_call' };
+  const pending = (await queueStore.listCalls()).filter(({ call }) => call.roomId === roomId).length;
+  if (participants.length + pending >= MAX_CALL_PARTICIPANTS) return { ok: false, userId: peerId, error: 'room_full' };
+
+  // Чёрный список — с любым из участников, не только с приглашающим
+  for (const uid of participants.length ? participants : [me]) {
+    if (await isBlockedEitherWay(uid, peerId)) return { ok: false, userId: peerId, error: 'blocked' };
+  }
+
+  const peerSocket = (await fetchUserSockets(io, peerId))[0];
+  if (!peerSocket) return { ok: false, userId: peerId, error: 'peer_offline' };
+  const { ringTimeoutSeconds } = getTunables();
+  const callId = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  // У инициатора может быть несколько приглашений сразу — занятым отмечаем только приглашённого
+  const created = (peerSocket.data as any)?.busy !== true
+    && await queueStore.createCall(callId, { a: me, b: peerId, roomId, startedAt: Date.now() }, [peerId], ringTimeoutSeconds * 1000 + CALL_RECORD_GRACE_MS);
+  if (!created) {
+    metrics.callOutcomes.inc({ outcome: 'busy', group: 'true' });
+    void recordCallBusy({ initiator: me, callee: peerId, roomId, group: true });
+    return { ok: false, userId: peerId, error: 'peer_busy' };
+  }
+  // Ответ на приглашение (по callId) логируется в сценарии группового звонка
+  linkCorrelation(callId, correlationFor(roomId));
+  void recordCallStarted({ callId, initiator: me, callee: peerId, roomId, group: true });
+
+  ringTimers.set(callId, setTimeout(async () => {
+    ringTimers.delete(callId);
+    if (!(await cleanupCall(callId, 'timeout'))) return;
+    try { io.to(userRoom(peerId)).emit('call:timeout', { callId }); } catch {}
+    try { io.to(roomId).emit('call:participant:declined', { roomId, userId: peerId, reason: 'timeout' }); } catch {}
+  }, ringTimeoutSeconds * 1000));
+
+  let fromNick: string | undefined;
+  try {
+    if (isMongoReady()) {
+      const u = await User.findById(me).select('nick').lean();
+      if (u && typeof (u as any).nick === 'string') fromNick = String((u as any).nick).trim() || undefined;
+    }
+  } catch {}
+
+  const payload = { callId, from: me, fromNick, roomId, group: true, participants, ringTimeout: ringTimeoutSeconds };
+  io.to(userRoom(peerId)).emit('call:incoming', payload);
+  io.to(userRoom(peerId)).emit('friend:call:incoming', { ...payload, nick: fromNick });
+
+  logger.debug('Group call invite sent', { from: me, to: peerId, callId, roomId });
+  return { ok: true, userId: peerId, callId };
 }
 
 /* ========= Socket.IO ========= */
@@ -671,11 +898,16 @@ io.on('connection', async (sock: AuthedSocket) => {
   // Обработчик события reauth для мягкой переавторизации
   sock.on('reauth', async (payload: any, ack?: Function) => {
     try {
-      const userId = String(payload?.userId || '').trim();
-      
-      if (!userId || !isOid(userId)) {
-        logger.warn('Reauth failed: invalid userId', userId);
-        return ack?.({ ok: false, error: 'invalid_userId' });
+      const userId = resolveSessionUserId(sock, payload);
+      if (!userId) {
+        logger.warn('Reauth failed: invalid session token', { socketId: sock.id });
+        return ack?.({ ok: false, error: 'invalid_token' });
+      }
+      // userId в payload оставлен для совместимости, но должен совпадать с токеном
+      const claimedUserId = String(payload?.userId || '').trim();
+      if (claimedUserId && claimedUserId !== userId) {
+        logger.warn('Reauth failed: userId does not match token', { socketId: sock.id });
+        return ack?.({ ok: false, error: 'unauthorized' });
       }
       
       // КРИТИЧНО: Проверяем готовность MongoDB перед операциями
@@ -689,10 +921,16 @@ io.on('connection', async (sock: AuthedSocket) => {
         logger.warn('Reauth failed: user not found', userId);
         return ack?.({ ok: false, error: 'user_not_found' });
       }
+      // Устройство могли отвязать с другого устройства — такая сессия больше не действует
+      if (!(await isInstallLinked(userId, sock.data.session?.installId))) {
+        logger.warn('Reauth failed: device unlinked', { socketId: sock.id });
+        return ack?.({ ok: false, error: 'invalid_token' });
+      }
       
       // Привязываем пользователя к сокету
-      bindUserIdentity(io, sock, userId);
-      emitPresence(io);
+      await bindUserIdentity(io, sock, userId);
+      await emitPresence(io);
+      await replayPendingIncomingCall(sock, userId);
       
       logger.debug('User reauthorized successfully', userId);
       ack?.({ ok: true, userId });
@@ -702,40 +940,23 @@ io.on('connection', async (sock: AuthedSocket) => {
     }
   });
 
-  // ВОССТАНАВЛИВАЕМ: привязка по handshake: userId/installId
-  const hs: any = sock.handshake || {};
-  const rawUserId =
-    (typeof hs.auth?.userId === 'string' && hs.auth.userId) ||
-    (typeof hs.query?.userId === 'string' && hs.query.userId) ||
-    '';
-  const rawInstallId =
-    (typeof hs.auth?.installId === 'string' && hs.auth.installId) ||
-    (typeof hs.query?.installId === 'string' && hs.query.installId) ||
-    '';
-
+  // Привязка по handshake: userId берём только из проверенного токена (см. io.use выше)
+  const sessionUserId = sock.data.session?.userId;
   let bindUid: string | null = null;
   // КРИТИЧНО: Проверяем готовность MongoDB перед операциями
-  if (isMongoReady()) {
-    if (isOid(rawUserId) && (await User.exists({ _id: rawUserId }))) {
-      bindUid = String(rawUserId);
-    } else if (rawInstallId.trim()) {
-      try {
-        const inst = (await Install.findOne({ installId: rawInstallId.trim() })
-          .select('user')
-          .lean()) as { user?: any } | null;
-        if (inst?.user) {
-          bindUid = String(inst.user);
-        }
-      } catch (e) {
-        // Игнорируем ошибки MongoDB при поиске installId
-      }
-    }
+  if (
+    sessionUserId && isMongoReady() &&
+    (await User.exists({ _id: sessionUserId })) &&
+    (await isInstallLinked(sessionUserId, sock.data.session?.installId))
+  ) {
+    bindUid = sessionUserId;
   }
   
   if (bindUid) {
     // Привязываем пользователя к сокету
-    bindUserIdentity(io, sock, String(bindUid));
-    emitPresence(io);
+    await bindUserIdentity(io, sock, String(bindUid));
+    await emitPresence(io);
+    await replayPendingIncomingCall(sock, String(bindUid));
   }
 
   // === call:end → транслируем call:ended обоим участникам (УПРОЩЕНО для 1-на-1) ===
@@ -771,108 +992,106 @@ io.on('connection', async (sock: AuthedSocket) => {
         return;
       }
       
-      // Получаем участников комнаты
-      const room = io.sockets.adapter.rooms.get(id);
-      const participantCount = room ? room.size : 0;
+      // Получаем участников комнаты (сокеты всех нод кластера)
+      const members = await io.in(id).fetchSockets();
+      const participantCount = members.length;
+      
+      // Групповой звонок: уходит только этот участник, остальные продолжают разговор
+      if (participantCount > 2 && members.some((s) => s.id === sock.id)) {
+        const leftUserId = String((sock as any)?.data?.userId || '');
+        sock.leave(id);
+        activeCallBySocket.delete(sock.id);
+        (sock as any).data.busy = false;
+        delete (sock as any).data.roomId;
+        delete (sock as any).data.partnerSid;
+        delete (sock as any).data.inCall;
+        if (leftUserId) await emitPresenceUpdateToFriends(io, leftUserId, false);
+        void recordCallEnded(id, leftUserId);
+        
+        io.to(id).emit('call:participant:left', { roomId: id, userId: leftUserId });
+        sock.emit('call:ended', { callId: id, roomId: id, reason: 'left', scope: 'direct' });
+        logger.info('📥 [call:end] Participant left group call', { roomId: id, userId: leftUserId, remaining: participantCount - 1 });
+        return;
+      }
+      void recordCallEnded(id);
       logger.info('📥 [call:end] Room info', {
         roomId: id,
         participants: participantCount,
-        socketIds: room ? Array.from(room) : [],
-        roomExists: !!room
+        socketIds: members.map((s) => s.id),
+        roomExists: participantCount > 0
       });
       
-      // КРИТИЧНО: Если комната не найдена, все равно отправляем call:ended всем сокетам
-      // которые могут быть в звонке (через activeCallBySocket или socket.data.roomId)
-      const socketsToNotify = new Set<string>();
+      // КРИТИЧНО: Если комната не найдена, все равно отправляем call:ended всем сокетам,
+      // которые могут быть в звонке (socket.data.roomId / partnerSid) — на любой ноде
+      const socketsToNotify = new Map<string, string | undefined>(); // sid -> userId
       
       // Добавляем всех участников комнаты
-      if (room) {
-        for (const sid of room) {
-          socketsToNotify.add(sid);
-        }
-      }
+      for (const s of members) socketsToNotify.set(s.id, (s.data as any)?.userId);
       
       // Добавляем сокеты, которые могут быть в звонке, но не в комнате
-      // (например, если комната была удалена, но звонок еще активен)
-      for (const [socketId, activeRoomId] of activeCallBySocket.entries()) {
-        if (activeRoomId === id) {
-          socketsToNotify.add(socketId);
-          logger.debug('📥 [call:end] Добавлен сокет из activeCallBySocket', {
-            socketId,
-            roomId: id
-          });
-        }
-      }
-      
-      // Также проверяем socket.data.roomId для всех подключенных сокетов
-      // КРИТИЧНО: Это важно для случаев, когда комната не найдена, но звонок активен
-      for (const [socketId, socket] of io.sockets.sockets.entries()) {
-        const socketRoomId = (socket as any)?.data?.roomId;
+      // (например, если комната была удалена, но звонок еще активен).
+      // Звонок 1-на-1 — room_<userA>_<userB>: смотрим сокеты обоих пользователей, а не все сокеты кластера
+      const direct = /^room_([a-f\d]{24})_([a-f\d]{24})$/i.exec(id);
+      const candidates = direct
+        ? [...(await fetchUserSockets(io, direct[1])), ...(await fetchUserSockets(io, direct[2]))]
+        : [];
+      for (const s of candidates) {
+        const socketRoomId = (s.data as any)?.roomId;
         if (socketRoomId === id) {
-          socketsToNotify.add(socketId);
+          socketsToNotify.set(s.id, (s.data as any)?.userId);
           logger.debug('📥 [call:end] Добавлен сокет из socket.data.roomId', {
-            socketId,
-            userId: (socket as any)?.data?.userId,
+            socketId: s.id,
+            userId: (s.data as any)?.userId,
             roomId: id
           });
         }
       }
       
-      // КРИТИЧНО: Также проверяем partnerSid для всех сокетов
+      // КРИТИЧНО: Также проверяем partnerSid
       // Если один участник имеет partnerSid другого, значит они в звонке
-      for (const [socketId, socket] of io.sockets.sockets.entries()) {
-        const partnerSid = (socket as any)?.data?.partnerSid;
-        if (partnerSid && socketsToNotify.has(partnerSid)) {
+      for (const s of candidates) {
+        const partnerSid = (s.data as any)?.partnerSid;
+        if (partnerSid && socketsToNotify.has(partnerSid) && !socketsToNotify.has(s.id)) {
           // Если партнер уже в списке, добавляем и этого участника
-          socketsToNotify.add(socketId);
+          socketsToNotify.set(s.id, (s.data as any)?.userId);
           logger.debug('📥 [call:end] Добавлен сокет через partnerSid', {
-            socketId,
+            socketId: s.id,
             partnerSid,
-            userId: (socket as any)?.data?.userId,
+            userId: (s.data as any)?.userId,
             roomId: id
           });
         }
       }
+      // Этот сокет мог выйти из комнаты раньше (activeCallBySocket помнит только сокеты этой ноды)
+      if (activeCallBySocket.get(sock.id) === id) socketsToNotify.set(sock.id, (sock as any)?.data?.userId);
       
       logger.info('📥 [call:end] Sockets to notify', {
         roomId: id,
         totalSockets: socketsToNotify.size,
-        socketIds: Array.from(socketsToNotify)
+        socketIds: Array.from(socketsToNotify.keys())
       });
       
-      // Снимаем busy со всех участников и очищаем состояние
-      for (const sid of socketsToNotify) {
-        const peerSocket = io.sockets.sockets.get(sid);
-        if (peerSocket) {
-          const peerUserId = (peerSocket as any)?.data?.userId;
-          (peerSocket as any).data = (peerSocket as any).data || {};
-          
-          // КРИТИЧНО: Очищаем все состояние участника звонка
-          (peerSocket as any).data.busy = false;
-          delete (peerSocket as any).data.roomId;
-          delete (peerSocket as any).data.partnerSid;
-          delete (peerSocket as any).data.inCall;
-          
-          logger.debug('📥 [call:end] Cleaning up participant state', {
-            socketId: sid,
-            userId: peerUserId
-          });
-          
-          // Снимаем presence (только друзьям)
-          if (peerUserId) {
-            await emitPresenceUpdateToFriends(io, peerUserId, false);
-          }
-        }
+      // Снимаем busy со всех участников и очищаем состояние (на их нодах)
+      for (const [sid, peerUserId] of socketsToNotify) {
+        // КРИТИЧНО: Очищаем все состояние участника звонка
+        setCallSocketState(sid, { busy: false, roomId: null, partnerSid: null, inCall: null, ended: id });
         
-        // Очищаем activeCallBySocket
-        try { activeCallBySocket.delete(sid); } catch {}
+        logger.debug('📥 [call:end] Cleaning up participant state', {
+          socketId: sid,
+          userId: peerUserId
+        });
+        
+        // Снимаем presence (только друзьям)
+        if (peerUserId) {
+          await emitPresenceUpdateToFriends(io, String(peerUserId), false);
+        }
       }
       
       // Отправляем call:ended всем участникам
       logger.info('📤 [call:end] Sending call:ended to all participants', {
         roomId: id,
         participantCount: socketsToNotify.size,
-        socketIds: Array.from(socketsToNotify)
+        socketIds: Array.from(socketsToNotify.keys())
       });
       
       // КРИТИЧНО: Отправляем call:ended ВСЕМ участникам двумя способами для максимальной надежности:
@@ -880,7 +1099,7 @@ io.on('connection', async (sock: AuthedSocket) => {
       // 2. Напрямую каждому сокету - гарантирует доставку даже если комната не найдена
       
       // Способ 1: Отправка через комнату (если комната существует)
-      if (room && room.size > 0) {
+      if (participantCount > 0) {
         io.to(id).emit('call:ended', { 
           callId: id, 
           roomId: id,
@@ -889,36 +1108,31 @@ io.on('connection', async (sock: AuthedSocket) => {
         });
         logger.info('📤 [call:end] ✅ Отправлено call:ended через комнату', {
           roomId: id,
-          participantCount: room.size
+          participantCount
         });
       }
       
-      // Способ 2: Отправка напрямую каждому сокету (гарантирует доставку)
-      const notifiedSockets: string[] = [];
-      for (const sid of socketsToNotify) {
-        const socket = io.sockets.sockets.get(sid);
-        if (socket) {
-          socket.emit('call:ended', { 
-            callId: id, 
-            roomId: id,
-            reason: 'ended',
-            scope: 'direct'
-          });
-          notifiedSockets.push(sid);
-          logger.info('📤 [call:end] ✅ Отправлено call:ended напрямую сокету', {
-            socketId: sid,
-            userId: (socket as any)?.data?.userId,
-            roomId: id,
-            callId: id
-          });
-        }
+      // Способ 2: Отправка напрямую каждому сокету (гарантирует доставку, адаптер доставит и на другую ноду)
+      for (const [sid, peerUserId] of socketsToNotify) {
+        io.to(sid).emit('call:ended', { 
+          callId: id, 
+          roomId: id,
+          reason: 'ended',
+          scope: 'direct'
+        });
+        logger.info('📤 [call:end] ✅ Отправлено call:ended напрямую сокету', {
+          socketId: sid,
+          userId: peerUserId,
+          roomId: id,
+          callId: id
+        });
       }
       
       logger.info('✅ [call:end] Call cleanup completed', { 
         callId: id,
         roomId: id,
         participants: socketsToNotify.size,
-        notifiedSockets: Array.from(socketsToNotify)
+        notifiedSockets: Array.from(socketsToNotify.keys())
       });
       
     } catch (e) {
@@ -968,15 +1182,19 @@ io.on('connection', async (sock: AuthedSocket) => {
 
   /* ---- профиль ---- */
   sock.on('attach_user', async (payload: any, ack?: Function) => {
-    const uid = String(payload?.userId || '').trim();
+    const uid = resolveSessionUserId(sock, payload) || '';
+    const claimedUserId = String(payload?.userId || '').trim();
+    if (!uid || (claimedUserId && claimedUserId !== uid)) {
+      return ack?.({ ok: false, error: 'unauthorized' });
+    }
 
     // КРИТИЧНО: Проверяем готовность MongoDB перед операциями
     if (!isMongoReady()) {
       return ack?.({ ok: false, error: 'database_unavailable' });
     }
-    if (uid && isOid(uid) && (await User.exists({ _id: uid }))) {
-      bindUserIdentity(io, sock, uid);
-      emitPresence(io);
+    if (uid && isOid(uid) && (await User.exists({ _id: uid })) && (await isInstallLinked(uid, sock.data.session?.installId))) {
+      await bindUserIdentity(io, sock, uid);
+      await emitPresence(io);
       return ack?.({ ok: true, userId: uid });
     }
     return ack?.({ ok: false, error: 'not_found' });
@@ -985,9 +1203,9 @@ io.on('connection', async (sock: AuthedSocket) => {
   // ВОТ ЗДЕСЬ: читаем профиль (ник + нормализованный https-аватар)
   sock.on('profile:me', async (_: any, ack?: Function) => {
     const me = String((sock as any).data?.userId || '');
-    console.log('[profile:me] Request received (index.ts)', { userId: me || 'guest' });
+    logger.info('[profile:me] Request received (index.ts)', { userId: me || 'guest' });
     if (!me) {
-      console.log('[profile:me] No userId, returning empty profile for guest');
+      logger.info('[profile:me] No userId, returning empty profile for guest');
       return ack?.({ ok: true, profile: {} }); // гость
     }
     const u = (await User.findById(me).select('nick avatar avatarVer avatarB64 avatarThumbB64').lean()) as any;
@@ -996,7 +1214,7 @@ io.on('connection', async (sock: AuthedSocket) => {
     const avatarB64 = u?.avatarB64 || '';
     const avatarThumbB64 = u?.avatarThumbB64 || '';
     const profile = u ? { nick: u.nick || '', avatar: rawAvatar, avatarVer, avatarB64, avatarThumbB64 } : {};
-    console.log('[profile:me] Profile found (index.ts)', { 
+    logger.info('[profile:me] Profile found (index.ts)', { 
       userId: me, 
       hasUser: !!u, 
       nick: profile.nick || '', 
@@ -1175,7 +1393,7 @@ io.on('connection', async (sock: AuthedSocket) => {
   // Обработчики start/next/stop перенесены в match.ts для избежания дублирования
   
   /* ---- WebRTC и Matchmaking через handler ---- */
-  socketHandler(io, sock);
+  socketHandler(io, sock, { callRoomOf: (sid) => activeCallBySocket.get(sid) });
 
   /* ---- Avatar sockets ---- */
   bindAvatarSockets(io, sock);
@@ -1205,46 +1423,71 @@ io.on('connection', async (sock: AuthedSocket) => {
       if (!me) return ack?.({ ok: false, error: 'unauthorized' });
       const peerId = String(to || '').trim();
       if (!peerId || !peerId.match(/^[a-f\d]{24}$/i)) return ack?.({ ok: false, error: 'bad_peer' });
+      // Нода останавливается: таймер дозвона остался бы на процессе, который вот-вот завершится
+      if (isDraining()) return ack?.({ ok: false, error: 'server_draining' });
+      // Дозвон берём из remote config на момент звонка — изменение конфига не трогает уже идущие
+      const { ringTimeoutSeconds } = getTunables();
 
       // Проверяем busy флаг инициатора
-      const initiatorSocket = io.sockets.sockets.get(sock.id);
-      if (initiatorSocket && (initiatorSocket as any)?.data?.busy === true) {
+      if ((sock as any)?.data?.busy === true) {
         return ack?.({ ok: false, error: 'initiator_busy' });
       }
       
       // Убрано: проверка randomBusyByUser - рандомный поиск не блокирует звонки другу
 
-      // Уже в звонке?
-      if (callOfUser.has(me)) return ack?.({ ok: false, error: 'busy' });
+      // Уже в звонке (дозвон мог начаться с другого устройства, на другой ноде)?
+      if (await queueStore.getUserCall(me)) return ack?.({ ok: false, error: 'busy' });
       
-      // Найдём любой сокет получателя
-      const peerSocket = Array.from(io.sockets.sockets.values()).find((s) => (s as any)?.data?.userId === peerId);
-      if (!peerSocket) return ack?.({ ok: false, error: 'peer_offline' });
+      // Чёрный список (в любую сторону)
+      if (await isBlockedEitherWay(me, peerId)) return ack?.({ ok: false, error: 'blocked' });
       
+      // Найдём любой сокет получателя (на любой ноде кластера)
+      const peerSocket = (await fetchUserSockets(io, peerId))[0];
+      // Не в сети, но есть push-токен — звоним через push: устройство проснётся, подключится и получит call:incoming
+      const ringViaPush = !peerSocket && (await hasPushTarget(peerId));
+      if (!peerSocket && !ringViaPush) return ack?.({ ok: false, error: 'peer_offline' });
+      
+      // Получатель разговаривает с другим другом — вторая линия (call:waiting) вместо отказа.
+      // Занят рандом-чатом или ему уже звонят — обычное "занято"
+      const peerData = (peerSocket as any)?.data || {};
+      const peerRinging = !!(await queueStore.getUserCall(peerId));
+      const waiting = peerData.busy === true && !!peerData.roomId && !peerRinging;
+
       // Проверяем busy флаг получателя
-      if ((peerSocket as any)?.data?.busy === true) {
+      if (peerData.busy === true && !waiting) {
         try { sock.emit('call:busy', { from: peerId, userId: peerId }); } catch {}
+        metrics.callOutcomes.inc({ outcome: 'busy', group: 'false' });
+        void recordCallBusy({ initiator: me, callee: peerId });
         return ack?.({ ok: false, error: 'peer_busy' });
       }
       
       // Убрано: проверка randomBusyByUser - рандомный поиск не блокирует звонки другу
       
-      if (callOfUser.has(peerId)) {
+      const callId = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+      // Запись в общем сторе атомарно проверяет обоих: пока мы дошли сюда, получателю мог позвонить кто-то с другой ноды
+      const created = !peerRinging && await queueStore.createCall(
+        callId,
+        { a: me, b: peerId, aSid: sock.id, waiting, startedAt: Date.now() },
+        [me, peerId],
+        ringTimeoutSeconds * 1000 + CALL_RECORD_GRACE_MS
+      );
+      if (!created) {
         // Получатель уже в активном звонке
         try { sock.emit('call:busy', { from: peerId, userId: peerId }); } catch {}
+        metrics.callOutcomes.inc({ outcome: 'busy', group: 'false' });
+        void recordCallBusy({ initiator: me, callee: peerId });
         return ack?.({ ok: false, error: 'peer_busy' });
       }
 
-      const callId = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-      callsById.set(callId, { a: me, b: peerId });
-      callOfUser.set(me, { with: peerId, callId });
-      callOfUser.set(peerId, { with: me, callId });
-
       // КРИТИЧНО: Создаем комнату при инициации звонка (инициатором)
       // Используем user IDs для имени комнаты, чтобы совпадало с LiveKit roomName
       const sortedUserIds = [me, peerId].sort();
       const roomId = `room_${sortedUserIds[0]}_${sortedUserIds[1]}`;
-      console.log('[call:initiate] roomId created', { me, peerId, roomId });
+      // Сценарий звонка в логах: cid = callId, дальше по roomId (call:accept, livekit:token, call:end)
+      setLogContext({ cid: callId });
+      linkCorrelation(roomId, callId);
+      logger.info('[call:initiate] roomId created', { me, peerId, roomId });
+      void recordCallStarted({ callId, initiator: me, callee: peerId, roomId });
       
       // Инициатор сразу присоединяется к комнате
       try { 
@@ -1258,14 +1501,16 @@ io.on('connection', async (sock: AuthedSocket) => {
       (sock as any).data = (sock as any).data || {};
       (sock as any).data.busy = true;
       (sock as any).data.roomId = roomId;
-      (sock as any).data.partnerSid = peerSocket.id;
+      // На второй линии partnerSid не ставим: иначе call:end текущего разговора получателя завершит и наш звонок
+      (sock as any).data.partnerSid = waiting ? undefined : peerSocket?.id;
       
       // КРИТИЧНО: Получатель также должен иметь roomId и partnerSid
       // Это позволяет восстановить состояние звонка, если инициатор отключится
-      (peerSocket as any).data = (peerSocket as any).data || {};
-      (peerSocket as any).data.busy = true;
-      (peerSocket as any).data.roomId = roomId;
-      (peerSocket as any).data.partnerSid = sock.id;
+      // peerSocket может быть RemoteSocket с другой ноды (снимок data) — состояние меняет его нода
+      // (на второй линии у получателя идёт другой разговор — его состояние не трогаем)
+      if (peerSocket && !waiting) {
+        setCallSocketState(peerSocket.id, { busy: true, roomId, partnerSid: sock.id });
+      }
       
       // Рассылаем presence:update (только друзьям)
       await emitPresenceUpdateToFriends(io, me, true);
@@ -1275,43 +1520,29 @@ io.on('connection', async (sock: AuthedSocket) => {
       // КРИТИЧНО: Отправляем инициатору roomId для немедленного использования
       // Включаем from (socket.id получателя) для сохранения partnerSocketId
       try {
-        sock.emit('call:room:created', { callId, roomId, partnerId: peerId, from: peerSocket.id });
-        logger.debug('Room created event sent to initiator', { socketId: sock.id, roomId, callId, from: peerSocket.id });
+        sock.emit('call:room:created', { callId, roomId, partnerId: peerId, from: peerSocket?.id });
+        logger.debug('Room created event sent to initiator', { socketId: sock.id, roomId, callId, from: peerSocket?.id });
       } catch {}
 
-      // таймаут 20с
-      const timer = setTimeout(async () => {
-        const link = callsById.get(callId);
+      // таймаут дозвона (tunables.ringTimeoutSeconds в remote config)
+      ringTimers.set(callId, setTimeout(async () => {
+        ringTimers.delete(callId);
+        // Звонок могли принять/отклонить на другой ноде — тогда его в сторе уже нет
+        const link = await cleanupCall(callId, 'timeout');
         if (!link) return;
         
         // Снимаем busy статус с обоих участников при таймауте
-        const aSock = Array.from(io.sockets.sockets.values()).find((s) => (s as any)?.data?.userId === link.a);
-        const bSock = Array.from(io.sockets.sockets.values()).find((s) => (s as any)?.data?.userId === link.b);
-        
-        if (aSock) {
-          (aSock as any).data = (aSock as any).data || {};
-          (aSock as any).data.busy = false;
-          await emitPresenceUpdateToFriends(io, link.a, false);
-        }
-        
-        if (bSock) {
-          (bSock as any).data = (bSock as any).data || {};
-          (bSock as any).data.busy = false;
-          await emitPresenceUpdateToFriends(io, link.b, false);
-        }
+        await releaseCallParticipants(link);
         
         // уведомляем инициатора о таймауте
         try {
-          io.to(`u:${link.a}`).emit('call:timeout', { callId });
+          io.to(userRoom(link.a)).emit('call:timeout', { callId });
         } catch {}
         // уведомим получателя, чтобы оба закрыли модалки
         try {
-          io.to(`u:${link.b}`).emit('call:timeout', { callId });
+          io.to(userRoom(link.b)).emit('call:timeout', { callId });
         } catch {}
-        cleanupCall(callId, 'timeout');
-      }, 20000);
-      const link = callsById.get(callId);
-      if (link) link.timer = timer;
+      }, ringTimeoutSeconds * 1000));
 
       // отправим входящий вызов получателю (с ником инициатора, если есть)
       try {
@@ -1324,24 +1555,91 @@ io.on('connection', async (sock: AuthedSocket) => {
           }
         } catch {}
         
-        // КРИТИЧНО: Отправляем call:incoming напрямую на все сокеты получателя для гарантированной доставки
-        const recipientSockets = Array.from(io.sockets.sockets.values()).filter((s) => 
-          String((s as any)?.data?.userId || '') === String(peerId)
-        );
-        for (const recipientSocket of recipientSockets) {
-          try {
-            (recipientSocket as any).emit('call:incoming', { callId, from: me, fromNick });
-            // Также отправляем friend:call:incoming для совместимости
-            (recipientSocket as any).emit('friend:call:incoming', { callId, from: me, nick: fromNick });
-          } catch {}
+        // Комната u:<peerId> доставляется адаптером на все сокеты получателя на всех нодах
+        if (waiting) {
+          // Идёт другой разговор: баннер второй линии (принять с переключением / отклонить)
+          io.to(userRoom(peerId)).emit('call:waiting', { callId, from: me, fromNick, ringTimeout: ringTimeoutSeconds });
+        } else {
+          io.to(userRoom(peerId)).emit('call:incoming', { callId, from: me, fromNick, ringTimeout: ringTimeoutSeconds });
+          // Также отправляем friend:call:incoming для совместимости
+          io.to(userRoom(peerId)).emit('friend:call:incoming', { callId, from: me, nick: fromNick, ringTimeout: ringTimeoutSeconds });
         }
-        
-        // Также отправляем через комнаты на случай, если сокеты не найдены напрямую
-        io.to(`u:${peerId}`).emit('call:incoming', { callId, from: me, fromNick });
-        io.to(`u:${peerId}`).emit('friend:call:incoming', { callId, from: me, nick: fromNick });
+        // Звонок должен "звонить" и на заблокированном экране: high priority, время жизни — до таймаута дозвона
+        if (ringViaPush) void notifyIncomingCall(peerId, { callId, from: me, fromNick }, ringTimeoutSeconds);
       } catch {}
 
-      return ack?.({ ok: true, callId });
+      return ack?.({ ok: true, callId, viaPush: ringViaPush, waiting, ringTimeout: ringTimeoutSeconds });
+    } catch (e: any) {
+      return ack?.({ ok: false, error: e?.message || 'server_error' });
+    }
+  });
+
+  /* ---- Групповые звонки ---- */
+  // Звонок сразу нескольким друзьям: создаём комнату, инициатор подключается к LiveKit сразу
+  sock.on('call:group:start', async ({ to }: { to?: string[] }, ack?: Function) => {
+    try {
+      const me = String((sock as any).data?.userId || '');
+      if (!me) return ack?.({ ok: false, error: 'unauthorized' });
+      const peers = Array.from(new Set((Array.isArray(to) ? to : []).map((x) => String(x || '').trim())))
+        .filter((x) => isOid(x) && x !== me)
+        .slice(0, MAX_CALL_PARTICIPANTS - 1);
+      if (!peers.length) return ack?.({ ok: false, error: 'bad_peer' });
+      if (isDraining()) return ack?.({ ok: false, error: 'server_draining' });
+      if (!isFeatureEnabled('groupCalls', me)) return ack?.({ ok: false, error: 'feature_disabled' });
+      if ((sock as any).data?.busy === true) return ack?.({ ok: false, error: 'initiator_busy' });
+      if (await queueStore.getUserCall(me)) return ack?.({ ok: false, error: 'busy' });
+
+      const roomId = `room_g_${crypto.randomBytes(8).toString('hex')}`;
+      linkCorrelation(roomId);
+      sock.join(roomId);
+      (sock as any).data.busy = true;
+      (sock as any).data.roomId = roomId;
+      (sock as any).data.inCall = true;
+      activeCallBySocket.set(sock.id, roomId);
+
+      const invites = [];
+      for (const peerId of peers) invites.push(await inviteToGroupCall(me, roomId, peerId));
+
+      if (!invites.some((i) => i.ok)) {
+        sock.leave(roomId);
+        (sock as any).data.busy = false;
+        delete (sock as any).data.roomId;
+        delete (sock as any).data.inCall;
+        activeCallBySocket.delete(sock.id);
+        return ack?.({ ok: false, error: 'no_one_invited', invites });
+      }
+
+      await emitPresenceUpdateToFriends(io, me, true);
+      const livekitToken = await createToken({ identity: me, roomName: roomId });
+      logger.info('Group call started', { from: me, roomId, invited: invites.filter((i) => i.ok).length });
+
+      return ack?.({
+        ok: true,
+        roomId,
+        invites,
+        livekitToken,
+        livekitRoomName: roomId,
+        livekitUrl: getLiveKitUrl() || null,
+      });
+    } catch (e: any) {
+      return ack?.({ ok: false, error: e?.message || 'server_error' });
+    }
+  });
+
+  // Добавить друга в идущий звонок (1:1 превращается в групповой в той же комнате)
+  sock.on('call:invite', async ({ roomId, to }: { roomId?: string; to?: string }, ack?: Function) => {
+    try {
+      const me = String((sock as any).data?.userId || '');
+      if (!me) return ack?.({ ok: false, error: 'unauthorized' });
+      const rid = String(roomId || '');
+      // Звать можно только из звонка, в который сервер сам пустил этот сокет (не из рандом-чата и не из чужой комнаты)
+      if (!rid.startsWith('room_') || !sock.rooms.has(rid) || activeCallBySocket.get(sock.id) !== rid) {
+        return ack?.({ ok: false, error: 'not_in_call' });
+      }
+      if (!isFeatureEnabled('groupCalls', me)) return ack?.({ ok: false, error: 'feature_disabled' });
+
+      const res = await inviteToGroupCall(me, rid, String(to || '').trim());
+      return ack?.(res);
     } catch (e: any) {
       return ack?.({ ok: false, error: e?.message || 'server_error' });
     }
@@ -1361,33 +1659,12 @@ io.on('connection', async (sock: AuthedSocket) => {
         return ack?.({ ok: false, error: 'missing_user_or_roomName' });
       }
       
-      console.log('[livekit:token] 📤 Creating token request', { 
-        userId: me, 
-        roomName, 
-        socketId: sock.id,
-        socketDataUserId: (sock as any)?.data?.userId,
-      });
-      
       logger.debug('[livekit:token] Creating token', { userId: me, roomName, socketId: sock.id });
       const token = await createToken({ identity: me, roomName });
       
-      console.log('[livekit:token] ✅ Token created successfully', { 
-        userId: me, 
-        roomName, 
-        tokenLength: token?.length || 0,
-        identity: me,
-        socketId: sock.id,
-      });
-      
       logger.debug('[livekit:token] Token created successfully', { userId: me, roomName, tokenLength: token?.length || 0 });
       return ack?.({ ok: true, token, url: getLiveKitUrl() || undefined });
     } catch (e: any) {
-      console.error('[livekit:token] ❌ Error creating token:', {
-        error: e?.message,
-        userId: (sock as any)?.data?.userId,
-        roomName,
-        socketId: sock.id,
-      });
       logger.error('[livekit:token] Error creating token:', { 
         error: e?.message, 
         stack: e?.stack,
@@ -1402,14 +1679,55 @@ io.on('connection', async (sock: AuthedSocket) => {
 
   sock.on('call:accept', async ({ callId }: { callId?: string }) => {
     const id = String(callId || '');
-    const link = callsById.get(id);
+    // Звонок мог начаться на другой ноде — запись в общем сторе
+    const link = await queueStore.getCall(id);
     if (!link) return;
     
     logger.debug('Call accepted', { callId: id });
+    stopRingingOnOtherDevices(sock, id, link);
+    
+    // Приглашение в групповой звонок: подключаем только принявшего, остальные уже в комнате
+    if (link.roomId) {
+      const me = String((sock as any).data?.userId || '');
+      if (me !== link.b) return;
+      const roomId = link.roomId;
+      if (!(await cleanupCall(id, 'accepted'))) return;
+      
+      sock.join(roomId);
+      activeCallBySocket.set(sock.id, roomId);
+      (sock as any).data.busy = true;
+      (sock as any).data.roomId = roomId;
+      (sock as any).data.inCall = true;
+      await emitPresenceUpdateToFriends(io, me, true);
+      
+      let livekitToken: string | null = null;
+      try {
+        livekitToken = await createToken({ identity: me, roomName: roomId });
+      } catch (e: any) {
+        logger.error('Failed to create LiveKit token for group call:', e);
+      }
+      
+      sock.emit('call:accepted', {
+        callId: id,
+        fromUserId: link.a,
+        roomId,
+        livekitToken,
+        livekitRoomName: roomId,
+        livekitUrl: getLiveKitUrl() || null,
+        group: true,
+        participants: await getCallRoomUserIds(roomId),
+      });
+      sock.to(roomId).emit('call:participant:joined', { roomId, userId: me });
+      logger.debug('Group call participant joined', { roomId, userId: me, callId: id });
+      return;
+    }
     
-    // Найдём активные сокеты обоих участников
-    const aSock = Array.from(io.sockets.sockets.values()).find((s) => (s as any)?.data?.userId === link.a) as AuthedSocket | undefined;
-    const bSock = Array.from(io.sockets.sockets.values()).find((s) => (s as any)?.data?.userId === link.b) as AuthedSocket | undefined;
+    // Забираем звонок из стора: одновременный accept с другого устройства или таймаут на другой ноде его уже не найдут
+    if (!(await cleanupCall(id, 'accepted'))) return;
+    
+    // Найдём активные сокеты обоих участников (на любой ноде): звонивший — тот сокет, с которого позвонили, принявший — этот
+    const aSock = await findCallSocket(link.a, link.aSid);
+    const bSock = String((sock as any).data?.userId || '') === link.b ? sock : await findCallSocket(link.b);
     
     if (aSock && bSock) {
       // КРИТИЧНО: Используем user IDs для имени комнаты, чтобы совпадало с LiveKit
@@ -1418,40 +1736,21 @@ io.on('connection', async (sock: AuthedSocket) => {
       if (link.a && link.b) {
         const sortedUserIds = [link.a, link.b].sort();
         roomId = `room_${sortedUserIds[0]}_${sortedUserIds[1]}`;
-        console.log('[call:accept] roomId from user IDs', { linkA: link.a, linkB: link.b, roomId });
+        logger.info('[call:accept] roomId from user IDs', { linkA: link.a, linkB: link.b, roomId });
       } else {
         // Fallback на socket IDs если user IDs недоступны
         const sorted = [aSock.id, bSock.id].sort();
         roomId = `room_${sorted[0]}_${sorted[1]}`;
-        console.log('[call:accept] FALLBACK roomId from socket IDs', { aSockId: aSock.id, bSockId: bSock.id, roomId });
+        logger.info('[call:accept] FALLBACK roomId from socket IDs', { aSockId: aSock.id, bSockId: bSock.id, roomId });
       }
+      linkCorrelation(roomId);
       
-      // КРИТИЧНО: Принимающий ОБЯЗАТЕЛЬНО присоединяется к комнате
-      try { 
-        aSock.join(roomId);
-        logger.debug('Participant A joined room', { socketId: aSock.id, roomId, callId: id });
-      } catch {}
-      try { 
-        bSock.join(roomId);
-        logger.debug('Participant B joined room', { socketId: bSock.id, roomId, callId: id });
-      } catch {}
-      
-      // КРИТИЧНО: Сохраняем roomId в activeCallBySocket, а не callId, чтобы fallback для call:end всегда был корректным именем комнаты
-      try { activeCallBySocket.set(aSock.id, roomId); } catch {}
-      try { activeCallBySocket.set(bSock.id, roomId); } catch {}
-      
-      // Устанавливаем busy для обоих
-      (aSock as any).data = (aSock as any).data || {};
-      (aSock as any).data.busy = true;
-      (aSock as any).data.roomId = roomId;
-      (aSock as any).data.partnerSid = bSock.id;
-      (aSock as any).data.inCall = true;
-      
-      (bSock as any).data = (bSock as any).data || {};
-      (bSock as any).data.busy = true;
-      (bSock as any).data.roomId = roomId;
-      (bSock as any).data.partnerSid = aSock.id;
-      (bSock as any).data.inCall = true;
+      // КРИТИЧНО: Принимающий ОБЯЗАТЕЛЬНО присоединяется к комнате; состояние меняет нода, на которой живёт сокет.
+      // activeCallBySocket хранит roomId, а не callId, чтобы fallback для call:end всегда был корректным именем комнаты
+      setCallSocketState(aSock.id, { join: roomId, busy: true, roomId, partnerSid: bSock.id, inCall: true });
+      logger.debug('Participant A joined room', { socketId: aSock.id, roomId, callId: id });
+      setCallSocketState(bSock.id, { join: roomId, busy: true, roomId, partnerSid: aSock.id, inCall: true });
+      logger.debug('Participant B joined room', { socketId: bSock.id, roomId, callId: id });
       
       // Рассылаем presence:update (только друзьям)
       if (link.a) {
@@ -1475,7 +1774,7 @@ io.on('connection', async (sock: AuthedSocket) => {
       }
       
       // КРИТИЧНО: Логируем детали перед созданием токенов
-      console.log('[call:accept] Creating LiveKit tokens', {
+      logger.info('[call:accept] Creating LiveKit tokens', {
         linkA: link.a,
         linkB: link.b,
         aSockId: aSock.id,
@@ -1495,8 +1794,7 @@ io.on('connection', async (sock: AuthedSocket) => {
         ]);
         livekitTokenA = tokenA;
         livekitTokenB = tokenB;
-        // КРИТИЧНО: Используем console.log вместо logger.debug для гарантированного вывода
-        console.log('[call:accept] ✅ LiveKit tokens created successfully', { 
+        logger.info('[call:accept] ✅ LiveKit tokens created successfully', { 
           roomName: livekitRoomName, 
           identityA: livekitIdentityA, 
           identityB: livekitIdentityB,
@@ -1505,16 +1803,14 @@ io.on('connection', async (sock: AuthedSocket) => {
           linkA: link.a,
           linkB: link.b,
         });
-        logger.debug('LiveKit tokens created for call:accept', { roomName: livekitRoomName, identityA: livekitIdentityA, identityB: livekitIdentityB });
       } catch (e: any) {
-        console.error('[call:accept] ❌ Failed to create LiveKit tokens:', e);
-        logger.error('Failed to create LiveKit tokens for call:accept:', e);
+        logger.error('[call:accept] ❌ Failed to create LiveKit tokens:', e);
       }
       
       // Отправляем call:accepted с LiveKit credentials
       if (aSock) {
         try {
-          console.log('[call:accept] 📤 Sending call:accepted to participant A', {
+          logger.info('[call:accept] 📤 Sending call:accepted to participant A', {
             callId: id,
             socketId: aSock.id,
             userId: link.a,
@@ -1523,7 +1819,7 @@ io.on('connection', async (sock: AuthedSocket) => {
             tokenLength: livekitTokenA?.length || 0,
             identity: livekitIdentityA,
           });
-          aSock.emit('call:accepted', { 
+          io.to(aSock.id).emit('call:accepted', { 
             callId: id, 
             from: bSock.id, 
             fromUserId: link.b, 
@@ -1532,14 +1828,14 @@ io.on('connection', async (sock: AuthedSocket) => {
             livekitRoomName,
             livekitUrl: getLiveKitUrl() || null,
           });
-          console.log('[call:accept] ✅ call:accepted sent to participant A');
+          logger.info('[call:accept] ✅ call:accepted sent to participant A');
         } catch (e) {
-          console.error('[call:accept] ❌ Error sending call:accepted to participant A:', e);
+          logger.error('[call:accept] ❌ Error sending call:accepted to participant A:', e);
         }
       }
       if (bSock) {
         try {
-          console.log('[call:accept] 📤 Sending call:accepted to participant B', {
+          logger.info('[call:accept] 📤 Sending call:accepted to participant B', {
             callId: id,
             socketId: bSock.id,
             userId: link.b,
@@ -1548,7 +1844,7 @@ io.on('connection', async (sock: AuthedSocket) => {
             tokenLength: livekitTokenB?.length || 0,
             identity: livekitIdentityB,
           });
-          bSock.emit('call:accepted', { 
+          io.to(bSock.id).emit('call:accepted', { 
             callId: id, 
             from: aSock.id, 
             fromUserId: link.a, 
@@ -1557,9 +1853,9 @@ io.on('connection', async (sock: AuthedSocket) => {
             livekitRoomName,
             livekitUrl: getLiveKitUrl() || null,
           });
-          console.log('[call:accept] ✅ call:accepted sent to participant B');
+          logger.info('[call:accept] ✅ call:accepted sent to participant B');
         } catch (e) {
-          console.error('[call:accept] ❌ Error sending call:accepted to participant B:', e);
+          logger.error('[call:accept] ❌ Error sending call:accepted to participant B:', e);
         }
       }
       
@@ -1592,65 +1888,92 @@ io.on('connection', async (sock: AuthedSocket) => {
       
       logger.debug('Direct call room established', { roomId, callId: id, participants: 2 });
     }
-    
-    cleanupCall(id, 'accepted');
   });
 
-  sock.on('call:decline', async ({ callId }: { callId?: string }) => {
+  sock.on('call:decline', async ({ callId, replyId, message }: { callId?: string; replyId?: string; message?: string }) => {
     const id = String(callId || '');
-    const link = callsById.get(id);
+    const link = await queueStore.getCall(id);
     if (!link) return;
+
+    // Быстрый ответ ("Не могу говорить, перезвоню позже"): готовый по replyId или свой текст.
+    // Показываем вместе с отказом и кладём в чат обычным сообщением — только от имени того, кому звонили
+    const declineMessage = String((sock as any).data?.userId || '') === link.b
+      ? resolveQuickReply({ replyId, message })
+      : undefined;
+    // Звонок уже принят/отменён/истёк (в том числе на другой ноде) — отказывать не в чем
+    if (!(await cleanupCall(id, 'declined'))) return;
+    if (declineMessage) void sendTextMessage(io, link.b, link.a, declineMessage);
+    stopRingingOnOtherDevices(sock, id, link);
     
-    // Снимаем busy статус с обоих участников при отклонении
-    const aSock = Array.from(io.sockets.sockets.values()).find((s) => (s as any)?.data?.userId === link.a);
-    const bSock = Array.from(io.sockets.sockets.values()).find((s) => (s as any)?.data?.userId === link.b);
-    
-    if (aSock) {
-      (aSock as any).data = (aSock as any).data || {};
-      (aSock as any).data.busy = false;
-      await emitPresenceUpdateToFriends(io, link.a, false);
+    // Отказ от группового приглашения не трогает идущий звонок
+    if (link.roomId) {
+      try { io.to(link.roomId).emit('call:participant:declined', { roomId: link.roomId, userId: link.b, reason: 'declined', message: declineMessage }); } catch {}
+      return;
     }
     
-    if (bSock) {
-      (bSock as any).data = (bSock as any).data || {};
-      (bSock as any).data.busy = false;
-      await emitPresenceUpdateToFriends(io, link.b, false);
-    }
+    // Снимаем busy статус с обоих участников при отклонении
+    await releaseCallParticipants(link);
     
-    try { io.to(`u:${link.a}`).emit('call:declined', { callId: id, from: link.b }); } catch {}
-    cleanupCall(id, 'declined');
+    try { io.to(userRoom(link.a)).emit('call:declined', { callId: id, from: link.b, message: declineMessage }); } catch {}
   });
 
   sock.on('call:cancel', async ({ callId }: { callId?: string }) => {
     const id = String(callId || '');
-    const link = callsById.get(id);
+    // Звонок уже принят/отклонён/истёк (в том числе на другой ноде) — отменять нечего
+    const link = await cleanupCall(id, 'canceled');
     if (!link) return;
     
-    // Снимаем busy статус с обоих участников при отмене
-    const aSock = Array.from(io.sockets.sockets.values()).find((s) => (s as any)?.data?.userId === link.a);
-    const bSock = Array.from(io.sockets.sockets.values()).find((s) => (s as any)?.data?.userId === link.b);
-    
-    if (aSock) {
-      (aSock as any).data = (aSock as any).data || {};
-      (aSock as any).data.busy = false;
-      await emitPresenceUpdateToFriends(io, link.a, false);
+    // Отзыв группового приглашения — закрываем UI только у приглашённого
+    if (link.roomId) {
+      try { io.to(userRoom(link.b)).emit('call:cancel', { callId: id, from: link.a }); } catch {}
+      return;
     }
     
-    if (bSock) {
-      (bSock as any).data = (bSock as any).data || {};
-      (bSock as any).data.busy = false;
-      await emitPresenceUpdateToFriends(io, link.b, false);
-    }
+    // Снимаем busy статус с обоих участников при отмене
+    await releaseCallParticipants(link);
     
     // уведомим получателя и инициатора одинаковым событием call:cancel,
     // чтобы оба клиента синхронно закрыли UI входящего/исходящего звонка
-    try { io.to(`u:${link.a}`).emit('call:cancel', { callId: id, from: link.a }); } catch {}
-    try { io.to(`u:${link.b}`).emit('call:cancel', { callId: id, from: link.a }); } catch {}
-    cleanupCall(id, 'canceled');
+    try { io.to(userRoom(link.a)).emit('call:cancel', { callId: id, from: link.a }); } catch {}
+    try { io.to(userRoom(link.b)).emit('call:cancel', { callId: id, from: link.a }); } catch {}
+  });
+
+  /* ---- "перезвоните, когда освободится" ---- */
+  sock.on('call:callback:request', async ({ to }: { to?: string }, ack?: Function) => {
+    try {
+      const me = String((sock as any).data?.userId || '');
+      const peerId = String(to || '');
+      if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+      if (!isOid(peerId) || peerId === me) return ack?.({ ok: false, error: 'bad_peer' });
+      if (!(await areFriendsCached(me, peerId))) return ack?.({ ok: false, error: 'not_friends' });
+      if (await isBlockedEitherWay(me, peerId)) return ack?.({ ok: false, error: 'blocked' });
+
+      await addCallbackRequest(peerId, me);
+      // Пока запрос летел, друг мог уже освободиться
+      const peerSocket = (await fetchUserSockets(io, peerId))[0];
+      if (peerSocket && (peerSocket as any).data?.busy !== true) void fireCallbackRequests(io, peerId);
+      return ack?.({ ok: true });
+    } catch (e: any) {
+      logger.error('Callback request error:', e);
+      return ack?.({ ok: false, error: 'server_error' });
+    }
+  });
+
+  sock.on('call:callback:cancel', async ({ to }: { to?: string }, ack?: Function) => {
+    try {
+      const me = String((sock as any).data?.userId || '');
+      const peerId = String(to || '');
+      if (!isOid(me) || !isOid(peerId)) return ack?.({ ok: false, error: 'bad_peer' });
+      await cancelCallbackRequest(peerId, me);
+      return ack?.({ ok: true });
+    } catch (e: any) {
+      logger.error('Callback cancel error:', e);
+      return ack?.({ ok: false, error: 'server_error' });
+    }
   });
 
   // Обработчик: партнер ушел (активировал PiP)
-  sock.on('partner:away', ({ partnerId, partnerUserId }: { partnerId?: string; partnerUserId?: string }) => {
+  sock.on('partner:away', async ({ partnerId, partnerUserId }: { partnerId?: string; partnerUserId?: string }) => {
     try {
       const me = String((sock as any).data?.userId || '');
       if (!me) return;
@@ -1659,9 +1982,9 @@ io.on('connection', async (sock: AuthedSocket) => {
       
       // Находим сокет партнера и отправляем ему уведомление
       if (partnerUserId) {
-        const partnerSocket = Array.from(io.sockets.sockets.values()).find((s) => (s as any)?.data?.userId === partnerUserId);
+        const partnerSocket = (await fetchUserSockets(io, String(partnerUserId)))[0];
         if (partnerSocket) {
-          (partnerSocket as any).emit('partner:away');
+          partnerSocket.emit('partner:away');
           logger.debug('Sent partner:away to partner', { partnerUserId });
         }
       }
@@ -1671,7 +1994,7 @@ io.on('connection', async (sock: AuthedSocket) => {
   });
 
   // Обработчик: партнер вернулся (деактивировал PiP)
-  sock.on('partner:returned', ({ partnerId, partnerUserId }: { partnerId?: string; partnerUserId?: string }) => {
+  sock.on('partner:returned', async ({ partnerId, partnerUserId }: { partnerId?: string; partnerUserId?: string }) => {
     try {
       const me = String((sock as any).data?.userId || '');
       if (!me) return;
@@ -1680,9 +2003,9 @@ io.on('connection', async (sock: AuthedSocket) => {
       
       // Находим сокет партнера и отправляем ему уведомление
       if (partnerUserId) {
-        const partnerSocket = Array.from(io.sockets.sockets.values()).find((s) => (s as any)?.data?.userId === partnerUserId);
+        const partnerSocket = (await fetchUserSockets(io, String(partnerUserId)))[0];
         if (partnerSocket) {
-          (partnerSocket as any).emit('partner:returned');
+          partnerSocket.emit('partner:returned');
           logger.debug('Sent partner:returned to partner', { partnerUserId });
         }
       }
@@ -1707,16 +2030,28 @@ io.on('connection', async (sock: AuthedSocket) => {
         partnerSock.data.inCall = false;
         partnerSock.data.roomId = undefined;
         partnerSock.data.busy = false;
-        // Добавляем в очередь и пытаемся сматчить через единую систему
-        await enqueueWaiting(p);
-        // Используем единую систему матчинга из match.ts
-        tryMatch(io, partnerSock).catch((e: any) => {
-          logger.error('Failed to re-pair partner after disconnect', { socketId: partnerSock.id, error: e?.message || e });
-        });
+        if (isDraining()) {
+          // Нода останавливается — партнёр встанет в очередь уже на другой ноде
+          partnerSock.emit('server:draining', drainingPayload());
+        } else {
+          // Добавляем в очередь и пытаемся сматчить через единую систему
+          await enqueueWaiting(partnerSock);
+          // Используем единую систему матчинга из match.ts
+          tryMatch(io, partnerSock).catch((e: any) => {
+            logger.error('Failed to re-pair partner after disconnect', { socketId: partnerSock.id, error: e?.message || e });
+          });
+        }
       }
     }
+    // Участник группового звонка отвалился — остальные в комнате продолжают
+    const activeRoomId = activeCallBySocket.get(sock.id);
+    if (activeRoomId) {
+      activeCallBySocket.delete(sock.id);
+      if (userId) io.to(activeRoomId).emit('call:participant:left', { roomId: activeRoomId, userId: String(userId) });
+      if (userId) void recordCallEnded(activeRoomId, String(userId));
+    }
     unbindUser(sock);
-    emitPresence(io);
+    await emitPresence(io);
     // Удаляем из очереди random и снимаем занятость
     await removeFromWaitingQueue(sock.id);
     await setRandomBusy(String(userId || ''), false);
@@ -1736,7 +2071,12 @@ io.on('connection', async (sock: AuthedSocket) => {
 /* ========= Регистрация доменных сокетов ========= */
 registerIdentitySockets(io);
 registerFriendSockets(io);
+registerBlockSockets(io);
+registerReportSockets(io);
 registerMessageSockets(io);
+registerPushSockets(io);
+registerCallSockets(io);
+registerDeviceSockets(io);
 
 /* ========= REST whoami (как в старой версии) ========= */
 app.get('/whoami', async (req, res) => {
@@ -1760,7 +2100,7 @@ app.get('/whoami', async (req, res) => {
 });
 
 /* ========= REST presence ========= */
-app.get('/api/presence', (_req, res) => res.json({ ok: true, list: getOnlineListFromIo(io) }));
+app.get('/api/presence', async (_req, res) => res.json({ ok: true, list: await getOnlineUserIds(io) }));
 
 /* ========= REST chat history REMOVED - using in-memory only ========= */
 
@@ -1784,27 +2124,56 @@ function printLanUrls(port: number) {
 
 server.listen(PORT, HOST, () => printLanUrls(PORT));
 
-// Graceful shutdown
-process.on('SIGTERM', async () => {
-  logger.info('SIGTERM received, shutting down gracefully...');
-  
-  // Закрываем Redis соединение
-  await queueStore.close();
-  
-  server.close(() => {
-    logger.info('Server closed');
-    process.exit(0);
-  });
-});
+/* ========= Graceful shutdown ========= */
+// Сколько ждём недописанные офлайн-сообщения/push после отключения клиентов
+const SHUTDOWN_FLUSH_TIMEOUT_MS = 5000;
+// Закрытие хранилищ может зависнуть (например, Mongo ещё подключается) — выходим принудительно
+const SHUTDOWN_CLOSE_TIMEOUT_MS = 10_000;
+const DRAIN_POLL_MS = 1000;
 
-process.on('SIGINT', async () => {
-  logger.info('SIGINT received, shutting down gracefully...');
-  
-  // Закрываем Redis соединение
-  await queueStore.close();
-  
-  server.close(() => {
-    logger.info('Server closed');
-    process.exit(0);
-  });
-});
+/**
+ * Draining (см. utils/draining): /health отвечает 503, новые сокеты, поиски и звонки не принимаем,
+ * рассылаем server:draining, убираем своих из общей очереди. Уже идущие звонки и дозвоны
+ * доживают до конца grace периода (или пока не разойдутся все клиенты), затем отключаем остальных,
+ * дописываем офлайн-сообщения и закрываем хранилища. Повторный сигнал — немедленный выход.
+ */
+async function shutdown(signal: string) {
+  if (!beginDraining()) {
+    logger.warn(`${signal} received again, exiting immediately`);
+    process.exit(1);
+  }
+  logger.info(`${signal} received, draining`, { graceMs: SHUTDOWN_GRACE_MS, sockets: io.of('/').sockets.size, calls: ringTimers.size });
+
+  setTimeout(() => {
+    logger.error('Shutdown timed out, forcing exit');
+    process.exit(1);
+  }, SHUTDOWN_GRACE_MS + SHUTDOWN_FLUSH_TIMEOUT_MS + SHUTDOWN_CLOSE_TIMEOUT_MS).unref();
+
+  stopQueueCleanup();
+  // Только свои сокеты: остальные ноды продолжают работать
+  io.local.emit('server:draining', drainingPayload());
+  for (const sid of io.of('/').sockets.keys()) {
+    await removeFromWaitingQueue(sid).catch(() => {});
+  }
+
+  const deadline = Date.now() + SHUTDOWN_GRACE_MS;
+  while (Date.now() < deadline && (io.of('/').sockets.size > 0 || ringTimers.size > 0)) {
+    await new Promise((resolve) => setTimeout(resolve, Math.min(DRAIN_POLL_MS, Math.max(0, deadline - Date.now()))));
+  }
+
+  logger.info('Drain finished, disconnecting remaining clients', { sockets: io.of('/').sockets.size, calls: ringTimers.size });
+  io.local.disconnectSockets(true);
+  server.close();
+  if (!(await flushPendingDeliveries(SHUTDOWN_FLUSH_TIMEOUT_MS))) {
+    logger.warn('Some message deliveries did not finish before shutdown');
+  }
+
+  await queueStore.close().catch(() => {});
+  await closeClusterAdapter().catch(() => {});
+  await mongoose.disconnect().catch(() => {});
+  logger.info('Shutdown complete');
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+process.on('SIGINT', () => void shutdown('SIGINT'));
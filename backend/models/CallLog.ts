@@ -0,0 +1,48 @@
+// models/CallLog.ts
+import { Schema, model, models, type Types, type Model } from 'mongoose';
+
+export const CALL_OUTCOMES = ['accepted', 'declined', 'canceled', 'timeout', 'busy'] as const;
+export type CallOutcome = (typeof CALL_OUTCOMES)[number];
+
+export interface ICallLog {
+  _id: Types.ObjectId;
+  callId: string;
+  initiator: Types.ObjectId;
+  callee: Types.ObjectId;
+  roomId?: string; // комната звонка (для группового — общая на всех приглашённых)
+  group: boolean;
+  startedAt: Date; // начало дозвона
+  acceptedAt?: Date;
+  endedAt?: Date;
+  duration: number; // секунды разговора (от принятия до завершения)
+  outcome?: CallOutcome; // пусто, пока звонок ещё звонит
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CallLogSchema = new Schema<ICallLog>(
+  {
+    callId: { type: String, required: true, unique: true },
+    initiator: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    callee: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    roomId: { type: String },
+    group: { type: Boolean, default: false },
+    startedAt: { type: Date, required: true },
+    acceptedAt: { type: Date },
+    endedAt: { type: Date },
+    duration: { type: Number, default: 0 },
+    outcome: { type: String, enum: CALL_OUTCOMES },
+  },
+  { timestamps: true, collection: 'call_logs' }
+);
+
+// История звонков пользователя (исходящие / входящие), новые сверху
+CallLogSchema.index({ initiator: 1, startedAt: -1 });
+CallLogSchema.index({ callee: 1, startedAt: -1 });
+// Завершение идущих разговоров по комнате
+CallLogSchema.index({ roomId: 1, endedAt: 1 });
+
+const CallLogModel: Model<ICallLog> =
+  (models.CallLog as Model<ICallLog>) || model<ICallLog>('CallLog', CallLogSchema);
+
+export default CallLogModel;
@@ -5,9 +5,14 @@ export interface IMessageItem {
   id: string; // Уникальный ID сообщения
   from: mongoose.Types.ObjectId;
   to: mongoose.Types.ObjectId;
-  type: 'text' | 'image';
+  type: 'text' | 'image' | 'video' | 'document' | 'audio';
   text?: string; // Текст сообщения
-  uri?: string; // URL изображения
+  uri?: string; // URL вложения
+  name?: string; // Имя файла (документы)
+  size?: number; // Размер файла в байтах
+  thumbnailUri?: string; // Превью-кадр видео
+  duration?: number; // Длительность голосового/видео, сек
+  waveform?: number[]; // Превью волны голосового 0..100
   timestamp: Date;
   read: boolean;
 }
@@ -43,7 +48,7 @@ const MessageItemSchema = new Schema<IMessageItem>({
   },
   type: {
     type: String,
-    enum: ['text', 'image'],
+    enum: ['text', 'image', 'video', 'document', 'audio'],
     required: true
   },
   text: {
@@ -52,6 +57,22 @@ const MessageItemSchema = new Schema<IMessageItem>({
   uri: {
     type: String
   },
+  name: {
+    type: String
+  },
+  size: {
+    type: Number
+  },
+  thumbnailUri: {
+    type: String
+  },
+  duration: {
+    type: Number
+  },
+  waveform: {
+    type: [Number],
+    default: undefined
+  },
   timestamp: {
     type: Date,
     default: Date.now
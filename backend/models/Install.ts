@@ -5,12 +5,21 @@ export interface IInstall {
   _id: Types.ObjectId;
   installId: string;
   user: Types.ObjectId;
+  // push-токен устройства (Expo) — регистрируется через push:register
+  pushToken?: string;
+  pushPlatform?: 'ios' | 'android';
+  pushTokenUpdatedAt?: Date;
+  lang?: string; // язык приложения на устройстве — для текстов push (utils/pushTexts)
 }
 
 const InstallSchema = new Schema<IInstall>(
   {
     installId: { type: String, required: true, unique: true, index: true },
     user: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    pushToken: { type: String, index: true, sparse: true },
+    pushPlatform: { type: String, enum: ['ios', 'android'] },
+    pushTokenUpdatedAt: { type: Date },
+    lang: { type: String },
   },
   { timestamps: true, collection: 'installs' }
 );
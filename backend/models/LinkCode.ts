@@ -0,0 +1,31 @@
+// models/LinkCode.ts
+import { Schema, model, models, type Types, type Model } from 'mongoose';
+
+/** Одноразовый код привязки нового устройства к аккаунту (показывается кодом и QR на уже вошедшем устройстве) */
+export interface ILinkCode {
+  _id: Types.ObjectId;
+  codeHash: string; // sha256 нормализованного кода
+  user: Types.ObjectId;
+  createdByInstall: string; // installId устройства, которое показало код
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LinkCodeSchema = new Schema<ILinkCode>(
+  {
+    codeHash: { type: String, required: true, unique: true },
+    user: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    createdByInstall: { type: String, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  { timestamps: true, collection: 'link_codes' }
+);
+
+// Просроченные коды Mongo удаляет сама
+LinkCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const LinkCodeModel: Model<ILinkCode> =
+  (models.LinkCode as Model<ILinkCode>) || model<ILinkCode>('LinkCode', LinkCodeSchema);
+
+export default LinkCodeModel;
@@ -1,17 +1,38 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export interface IMessageReplyPreview {
+  id: string; // clientId цитируемого сообщения
+  from: mongoose.Types.ObjectId;
+  type: string;
+  text: string; // Обрезанный текст для цитаты
+}
+
+export interface IMessageReaction {
+  userId: mongoose.Types.ObjectId;
+  emoji: string;
+}
+
 export interface IMessage extends Document {
   _id: mongoose.Types.ObjectId;
   clientId?: string; // Кастомный ID с фронтенда (msg_...)
   from: mongoose.Types.ObjectId;
   to: mongoose.Types.ObjectId;
-  type: 'text' | 'image' | 'video' | 'document';
+  type: 'text' | 'image' | 'video' | 'document' | 'audio';
   text?: string;
   uri?: string;
   name?: string;
   size?: number;
+  duration?: number; // Голосовые и видео: длительность в секундах
+  waveform?: number[]; // Голосовые: превью волны 0..100
+  thumbnailUri?: string; // Видео: превью-кадр
   timestamp: Date;
   read: boolean;
+  deliveredAt?: Date; // Устройство получателя подтвердило приём (message:delivered)
+  readAt?: Date;
+  replyTo?: string; // clientId сообщения, на которое отвечают
+  replyPreview?: IMessageReplyPreview;
+  editedAt?: Date;
+  reactions: IMessageReaction[]; // Не больше одной реакции от пользователя
   createdAt: Date;
   updatedAt: Date;
 }
@@ -32,7 +53,7 @@ const MessageSchema = new Schema<IMessage>({
   },
   type: {
     type: String,
-    enum: ['text', 'image', 'video', 'document'],
+    enum: ['text', 'image', 'video', 'document', 'audio'],
     default: 'text'
   },
   text: {
@@ -51,6 +72,16 @@ const MessageSchema = new Schema<IMessage>({
     type: Number,
     default: 0
   },
+  duration: {
+    type: Number
+  },
+  waveform: {
+    type: [Number],
+    default: undefined
+  },
+  thumbnailUri: {
+    type: String
+  },
   timestamp: {
     type: Date,
     default: Date.now
@@ -58,15 +89,44 @@ const MessageSchema = new Schema<IMessage>({
   read: {
     type: Boolean,
     default: false
+  },
+  deliveredAt: {
+    type: Date
+  },
+  readAt: {
+    type: Date
+  },
+  replyTo: {
+    type: String
+  },
+  replyPreview: {
+    type: new Schema({
+      id: { type: String, required: true },
+      from: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+      type: { type: String, default: 'text' },
+      text: { type: String, default: '' }
+    }, { _id: false }),
+    default: undefined
+  },
+  editedAt: {
+    type: Date
+  },
+  reactions: {
+    type: [new Schema({
+      userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+      emoji: { type: String, required: true }
+    }, { _id: false })],
+    default: []
   }
 }, {
   timestamps: true
 });
 
 // Индексы для быстрого поиска
-MessageSchema.index({ from: 1, to: 1, timestamp: -1 });
+MessageSchema.index({ from: 1, to: 1, timestamp: -1, _id: -1 }); // Переписка пары + курсор (timestamp, _id)
 MessageSchema.index({ to: 1, timestamp: -1 });
 MessageSchema.index({ from: 1, timestamp: -1 });
 MessageSchema.index({ clientId: 1 }); // Для поиска по клиентскому ID
+MessageSchema.index({ to: 1, read: 1, from: 1 }); // Счётчики непрочитанных
 
 export default mongoose.model<IMessage>('Message', MessageSchema);
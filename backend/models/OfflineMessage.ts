@@ -10,9 +10,16 @@ export interface IOfflineMessage extends Document {
     id: string;
     from: string;
     to: string;
-    type: 'text' | 'image';
+    type: 'text' | 'image' | 'video' | 'document' | 'audio';
     text?: string;
     uri?: string;
+    name?: string;
+    size?: number;
+    duration?: number;
+    waveform?: number[];
+    thumbnailUri?: string;
+    replyTo?: string;
+    replyPreview?: { id: string; from: string; type: string; text: string };
     timestamp: Date;
     read: boolean;
   };
@@ -43,9 +50,25 @@ const OfflineMessageSchema = new Schema<IOfflineMessage>({
     id: { type: String, required: true },
     from: { type: String, required: true },
     to: { type: String, required: true },
-    type: { type: String, enum: ['text', 'image'], required: true },
+    type: { type: String, enum: ['text', 'image', 'video', 'document', 'audio'], required: true },
     text: { type: String },
     uri: { type: String },
+    // Всё, что клиент показывает в пузыре: иначе strict-схема молча отрежет поля при офлайн-доставке
+    name: { type: String },
+    size: { type: Number },
+    duration: { type: Number },
+    waveform: { type: [Number], default: undefined },
+    thumbnailUri: { type: String },
+    replyTo: { type: String },
+    replyPreview: {
+      type: new Schema({
+        id: String,
+        from: String,
+        type: { type: String },
+        text: String
+      }, { _id: false }),
+      default: undefined
+    },
     timestamp: { type: Date, required: true },
     read: { type: Boolean, default: false }
   },
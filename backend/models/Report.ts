@@ -0,0 +1,55 @@
+// models/Report.ts
+import { Schema, model, models, type Types, type Model } from 'mongoose';
+
+export const REPORT_REASONS = ['spam', 'nudity', 'harassment', 'underage', 'violence', 'other'] as const;
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export const REPORT_STATUSES = ['open', 'reviewing', 'resolved', 'dismissed'] as const;
+export type ReportStatus = (typeof REPORT_STATUSES)[number];
+
+export const REPORT_ACTIONS = ['none', 'warn', 'suspend', 'unsuspend'] as const;
+export type ReportAction = (typeof REPORT_ACTIONS)[number];
+
+export interface IReport {
+  _id: Types.ObjectId;
+  reporter: Types.ObjectId;
+  reported: Types.ObjectId;
+  reason: ReportReason;
+  comment?: string;
+  context: 'random' | 'chat';
+  roomName?: string; // LiveKit room, где произошло нарушение
+  snapshotB64?: string; // data URI последнего кадра собеседника (jpeg)
+  status: ReportStatus;
+  action?: ReportAction;
+  resolutionNote?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReportSchema = new Schema<IReport>(
+  {
+    reporter: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    reported: { type: Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+    reason: { type: String, enum: REPORT_REASONS, required: true },
+    comment: { type: String, default: '', maxlength: 500 },
+    context: { type: String, enum: ['random', 'chat'], default: 'random' },
+    roomName: { type: String, default: '' },
+    snapshotB64: { type: String, default: '' },
+    status: { type: String, enum: REPORT_STATUSES, default: 'open', index: true },
+    action: { type: String, enum: REPORT_ACTIONS },
+    resolutionNote: { type: String, default: '' },
+    reviewedAt: { type: Date },
+  },
+  { timestamps: true, collection: 'reports' }
+);
+
+// Очередь модерации: новые открытые жалобы сверху
+ReportSchema.index({ status: 1, createdAt: -1 });
+// Подсчёт жалоб на пользователя за окно (авто-блокировка)
+ReportSchema.index({ reported: 1, createdAt: -1 });
+
+const ReportModel: Model<IReport> =
+  (models.Report as Model<IReport>) || model<IReport>('Report', ReportSchema);
+
+export default ReportModel;
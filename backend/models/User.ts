@@ -16,6 +16,11 @@ export interface IUser {
   avatarVer?: number; // Версия аватара для инвалидации кеша
   friends: Types.ObjectId[];
   friendRequests?: Types.ObjectId[]; // входящие заявки (userIds, кто пригласил)
+  blockedUsers?: Types.ObjectId[]; // кого пользователь заблокировал
+  suspendedUntil?: Date | null; // отстранён от рандом-поиска до этого времени
+  suspendReason?: string;
+  recoveryCodeHash?: string; // sha256 кода восстановления (сам код видит только пользователь)
+  recoveryCodeCreatedAt?: Date;
 }
 
 const isHttp = (s?: string) =>
@@ -75,6 +80,36 @@ const UserSchema = new Schema<IUser>(
       default: [],
       index: true,
     },
+
+    // Чёрный список: эти пользователи не попадут в рандом, не позвонят, не напишут и не добавятся в друзья
+    blockedUsers: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+      default: [],
+      index: true,
+    },
+
+    // Отстранение от рандом-поиска (авто по жалобам или модератором)
+    suspendedUntil: {
+      type: Date,
+      default: null,
+    },
+
+    suspendReason: {
+      type: String,
+      default: '',
+    },
+
+    // Код восстановления аккаунта на новом устройстве. Хэш не отдаём наружу даже случайно
+    recoveryCodeHash: {
+      type: String,
+      index: true,
+      sparse: true,
+      select: false,
+    },
+
+    recoveryCodeCreatedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
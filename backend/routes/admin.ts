@@ -0,0 +1,243 @@
+// routes/admin.ts
+import fs from 'fs';
+import path from 'path';
+import { Router } from 'express';
+import mongoose from 'mongoose';
+import type { Server } from 'socket.io';
+import User from '../models/User';
+import Install from '../models/Install';
+import Report from '../models/Report';
+import * as queueStore from '../utils/queueStore';
+import { requireAdmin } from '../utils/adminAuth';
+import { wipeUserAccount } from '../utils/accountWipe';
+import { getSuspension, liftSuspension, suspendUser } from '../utils/moderation';
+import { fetchUserSockets, getOnlineUserIds } from '../utils/socketCluster';
+import { logger } from '../utils/logger';
+
+export type AdminDirectCall = { callId: string; a: string; b: string };
+
+type AdminRouterDeps = {
+  io: Server;
+  // Звонки в дозвоне — из общего queueStore, со всех нод
+  getDirectCalls: () => Promise<AdminDirectCall[]>;
+};
+
+const isOid = (s?: string) => !!s && mongoose.Types.ObjectId.isValid(String(s));
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// dist/ после сборки, корень backend при ts-node
+function resolveDashboardPath(): string | null {
+  const candidates = [
+    path.join(__dirname, '..', 'public', 'admin.html'),
+    path.join(__dirname, '..', '..', 'public', 'admin.html'),
+  ];
+  return candidates.find((p) => fs.existsSync(p)) || null;
+}
+
+/**
+ * Операционная админка: GET /admin — HTML-дашборд (без авторизации, токен вводится на странице),
+ * всё остальное — JSON под x-admin-token (см. requireAdmin).
+ */
+export default function createAdminRouter({ io, getDirectCalls }: AdminRouterDeps) {
+  const router = Router();
+
+  router.get('/', (_req, res) => {
+    const htmlPath = resolveDashboardPath();
+    if (!htmlPath) return res.status(500).send('Admin page not found');
+    res.sendFile(htmlPath);
+  });
+
+  router.use(requireAdmin);
+
+  /** Живое состояние: очередь, пары рандома, прямые звонки, онлайн */
+  router.get('/stats', async (_req, res) => {
+    try {
+      const now = Date.now();
+      const entries = await queueStore.getQueueEntries();
+      const waits = entries.map((e) => Math.max(0, now - e.addedAt));
+
+      // fetchSockets отдаёт сокеты всех нод вместе с data (partnerSid, inCall, busy)
+      const sockets = await io.fetchSockets();
+      const users = new Set<string>();
+      let paired = 0;
+      let inCall = 0;
+      for (const s of sockets) {
+        const d = s.data as any;
+        if (d?.userId) users.add(String(d.userId));
+        if (d?.partnerSid) paired++;
+        if (d?.inCall) inCall++;
+      }
+
+      const calls = await getDirectCalls();
+      res.json({
+        ok: true,
+        queue: {
+          size: entries.length,
+          oldestWaitMs: waits.length ? Math.max(...waits) : 0,
+          avgWaitMs: waits.length ? Math.round(waits.reduce((a, b) => a + b, 0) / waits.length) : 0,
+        },
+        randomPairs: Math.floor(paired / 2),
+        directCalls: { active: calls.length, list: calls },
+        online: { users: users.size, sockets: sockets.length, inCall },
+        process: {
+          pid: process.pid,
+          uptimeSec: Math.round(process.uptime()),
+          rssMb: Math.round(process.memoryUsage().rss / 1024 / 1024),
+        },
+        mongo: mongoose.connection.readyState,
+      });
+    } catch (e: any) {
+      res.status(500).json({ ok: false, error: String(e?.message || e) });
+    }
+  });
+
+  router.use('/users', (_req, res, next) => {
+    if (mongoose.connection.readyState !== 1) {
+      return res.status(503).json({ ok: false, error: 'database_unavailable' });
+    }
+    next();
+  });
+
+  /** Поиск: ?q=<userId | часть ника> */
+  router.get('/users', async (req, res) => {
+    try {
+      const q = String(req.query.q || '').trim();
+      if (!q) return res.status(400).json({ ok: false, error: 'no_query' });
+
+      const filter = isOid(q) ? { _id: q } : { nick: { $regex: escapeRegex(q.slice(0, 64)), $options: 'i' } };
+      const docs = await User.find(filter)
+        .select('nick avatarVer suspendedUntil createdAt')
+        .sort({ createdAt: -1 })
+        .limit(20)
+        .lean();
+
+      const online = new Set(await getOnlineUserIds(io));
+      const list = docs.map((u: any) => ({
+        _id: String(u._id),
+        nick: u.nick || '',
+        suspendedUntil: u.suspendedUntil || null,
+        createdAt: u.createdAt,
+        online: online.has(String(u._id)),
+      }));
+      res.json({ ok: true, list });
+    } catch (e: any) {
+      res.status(500).json({ ok: false, error: String(e?.message || e) });
+    }
+  });
+
+  /** Карточка пользователя: профиль, сокеты, жалобы, отстранение */
+  router.get('/users/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (!isOid(id)) return res.status(400).json({ ok: false, error: 'invalid_id' });
+
+      const u: any = await User.findById(id)
+        .select('nick avatarVer friends blockedUsers suspendedUntil suspendReason createdAt updatedAt')
+        .lean();
+      if (!u) return res.status(404).json({ ok: false, error: 'not_found' });
+
+      const [installs, reportsAgainst, reportsFiled, suspension, sockets] = await Promise.all([
+        Install.countDocuments({ user: id }),
+        Report.countDocuments({ reported: id }),
+        Report.countDocuments({ reporter: id }),
+        getSuspension(id),
+        fetchUserSockets(io, id),
+      ]);
+
+      res.json({
+        ok: true,
+        user: {
+          _id: String(u._id),
+          nick: u.nick || '',
+          avatarVer: u.avatarVer || 0,
+          friends: (u.friends || []).length,
+          blocked: (u.blockedUsers || []).length,
+          createdAt: u.createdAt,
+          updatedAt: u.updatedAt,
+        },
+        installs,
+        reports: { against: reportsAgainst, filed: reportsFiled },
+        suspension,
+        sockets: sockets.map((s) => ({
+          id: s.id,
+          partnerSid: (s.data as any)?.partnerSid || null,
+          inCall: !!(s.data as any)?.inCall,
+          busy: !!(s.data as any)?.busy,
+        })),
+      });
+    } catch (e: any) {
+      res.status(500).json({ ok: false, error: String(e?.message || e) });
+    }
+  });
+
+  /** Принудительно отключить все сокеты пользователя (на всех нодах) */
+  router.post('/users/:id/disconnect', async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (!isOid(id)) return res.status(400).json({ ok: false, error: 'invalid_id' });
+
+      const sockets = await fetchUserSockets(io, id);
+      for (const s of sockets) s.disconnect(true);
+
+      logger.info('[admin] User disconnected', { userId: id, sockets: sockets.length });
+      res.json({ ok: true, disconnected: sockets.length });
+    } catch (e: any) {
+      res.status(500).json({ ok: false, error: String(e?.message || e) });
+    }
+  });
+
+  /** Отстранить от рандом-поиска: { hours, reason? } */
+  router.post('/users/:id/suspend', async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (!isOid(id)) return res.status(400).json({ ok: false, error: 'invalid_id' });
+      const hours = Number(req.body?.hours);
+      if (!(hours > 0)) return res.status(400).json({ ok: false, error: 'invalid_hours' });
+
+      const exists = await User.exists({ _id: id });
+      if (!exists) return res.status(404).json({ ok: false, error: 'not_found' });
+
+      const suspension = await suspendUser(id, hours * 60 * 60 * 1000, String(req.body?.reason || 'admin').slice(0, 200));
+      res.json({ ok: true, suspension });
+    } catch (e: any) {
+      res.status(500).json({ ok: false, error: String(e?.message || e) });
+    }
+  });
+
+  router.post('/users/:id/unsuspend', async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (!isOid(id)) return res.status(400).json({ ok: false, error: 'invalid_id' });
+
+      await liftSuspension(id);
+      res.json({ ok: true });
+    } catch (e: any) {
+      res.status(500).json({ ok: false, error: String(e?.message || e) });
+    }
+  });
+
+  /** Удаление аккаунта — та же очистка, что и identity:wipeMe, плюс отключение сокетов */
+  router.delete('/users/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (!isOid(id)) return res.status(400).json({ ok: false, error: 'invalid_id' });
+
+      const exists = await User.exists({ _id: id });
+      if (!exists) return res.status(404).json({ ok: false, error: 'not_found' });
+
+      await wipeUserAccount(id);
+      for (const s of await fetchUserSockets(io, id)) s.disconnect(true);
+
+      const list = await getOnlineUserIds(io);
+      io.emit('presence_update', list);
+      io.emit('presence:update', list);
+
+      logger.info('[admin] User wiped', { userId: id });
+      res.json({ ok: true });
+    } catch (e: any) {
+      res.status(500).json({ ok: false, error: String(e?.message || e) });
+    }
+  });
+
+  return router;
+}
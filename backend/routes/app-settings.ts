@@ -1,5 +1,7 @@
 // backend/routes/app-settings.ts
 import { Router } from 'express';
+import { CALL_QUICK_REPLIES, CALL_QUICK_REPLY_MAX } from '../utils/callConfig';
+import { resolveClientConfig } from '../utils/remoteConfig';
 
 const r = Router();
 
@@ -11,12 +13,24 @@ const streamApiKey =
   process.env.STREAM_API_KEY ||
   '';
 
-r.get('/app-settings', (_req, res) => {
+r.get('/app-settings', (req, res) => {
+  // Флаги с частичной раскаткой вычисляются по userId (если запрос с токеном)
+  const config = resolveClientConfig(String((req as any).userId || '').trim() || null);
+  // Конфиг зависит от пользователя — кэшировать можно только на клиенте
+  res.setHeader('Cache-Control', 'private, no-cache');
   res.json({
     ok: true,
     // оставляем как было, чтобы ничего не сломать
     streamApiKey,
     // Cloudinary больше не используется, аватары хранятся в MongoDB
+    // Звонки: длительность дозвона и готовые ответы при отклонении
+    calls: {
+      ringTimeoutSeconds: config.tunables.ringTimeoutSeconds,
+      quickReplies: CALL_QUICK_REPLIES,
+      quickReplyMaxLength: CALL_QUICK_REPLY_MAX,
+    },
+    // Remote config: фич-флаги, tunables, минимальная версия клиента, баннер техработ
+    config,
   });
 });
 
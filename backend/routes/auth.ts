@@ -0,0 +1,40 @@
+// backend/routes/auth.ts
+import { Router } from 'express';
+import mongoose from 'mongoose';
+import Install from '../models/Install';
+import { issueSession, verifyRefreshToken } from '../utils/sessionTokens';
+import { rateLimit } from '../utils/rateLimit';
+
+const router = Router();
+
+// POST /api/auth/refresh { refreshToken, installId }
+// Меняем refresh-токен на новую пару. Install должен по-прежнему принадлежать тому же пользователю
+// (после identity:wipeMe инсталлы удаляются — старые refresh-токены перестают работать).
+router.post('/auth/refresh', rateLimit('auth:refresh'), async (req, res) => {
+  try {
+    const claims = verifyRefreshToken(String(req.body?.refreshToken || ''));
+    if (!claims) return res.status(401).json({ ok: false, error: 'invalid_refresh_token' });
+
+    const installId = String(req.body?.installId || '').trim();
+    if (installId && installId !== claims.iid) {
+      return res.status(401).json({ ok: false, error: 'install_mismatch' });
+    }
+
+    if (mongoose.connection.readyState !== 1) {
+      return res.status(503).json({ ok: false, error: 'database_unavailable' });
+    }
+    const inst = (await Install.findOne({ installId: claims.iid }).select('user').lean()) as
+      | { user?: any }
+      | null;
+    if (!inst?.user || String(inst.user) !== claims.sub) {
+      return res.status(401).json({ ok: false, error: 'session_revoked' });
+    }
+
+    const session = issueSession(claims.sub, claims.iid);
+    return res.json({ ok: true, userId: claims.sub, ...session });
+  } catch (e: any) {
+    return res.status(500).json({ ok: false, error: e?.message || 'server_error' });
+  }
+});
+
+export default router;
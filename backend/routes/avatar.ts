@@ -1,35 +1,17 @@
 import { Router } from 'express';
 import mongoose from 'mongoose';
 import User from '../models/User';
-import Install from '../models/Install';
 import { buildAvatarDataUris } from '../utils/avatars';
+import { rateLimit } from '../utils/rateLimit';
 
 const router = Router();
 
 const isOid = (s?: string) => !!s && /^[a-f\d]{24}$/i.test(String(s || '').trim());
 
+// userId проставляет глобальный middleware в index.ts из проверенного Bearer-токена
 async function resolveAuthedUserId(req: any): Promise<{ userId?: string; error?: string }> {
-  const headerUserId = String(req.header('x-user-id') || '').trim();
-  const installId = String(req.header('x-install-id') || '').trim();
-
-  // Prefer installId when present (prevents spoofing x-user-id).
-  if (installId) {
-    if (mongoose.connection.readyState !== 1) {
-      return { error: 'database_unavailable' };
-    }
-    const inst = await Install.findOne({ installId }).select('user').lean();
-    const fromInstall = inst?.user ? String((inst as any).user) : '';
-    if (!isOid(fromInstall)) return { error: 'unauthorized' };
-    if (headerUserId && isOid(headerUserId) && headerUserId !== fromInstall) {
-      return { error: 'unauthorized' };
-    }
-    return { userId: fromInstall };
-  }
-
-  if (isOid(headerUserId)) return { userId: headerUserId };
-
-  const fallback = String(req.userId || '').trim();
-  if (isOid(fallback)) return { userId: fallback };
+  const fromToken = String(req.userId || '').trim();
+  if (isOid(fromToken)) return { userId: fromToken };
   return { error: 'unauthorized' };
 }
 
@@ -45,7 +27,7 @@ function parseDataUriToBuffer(dataUriOrB64: string): { buf: Buffer; mime: string
 }
 
 // POST /api/upload/avatar/dataUri
-router.post('/upload/avatar/dataUri', async (req, res) => {
+router.post('/upload/avatar/dataUri', rateLimit('upload:avatar'), async (req, res) => {
   try {
     const { userId, error } = await resolveAuthedUserId(req);
     if (!userId) return res.status(error === 'database_unavailable' ? 503 : 401).json({ ok: false, error: error || 'unauthorized' });
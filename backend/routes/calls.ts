@@ -0,0 +1,28 @@
+// routes/calls.ts
+import { Router } from 'express';
+import mongoose from 'mongoose';
+import { getCallHistory } from '../utils/callLog';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+/** История звонков: ?limit=30&before=<ISO date> */
+router.get('/calls/history', async (req, res) => {
+  try {
+    const userId = (req as any)?.auth?.userId as string | undefined;
+    if (!userId) return res.status(401).json({ ok: false, error: 'unauthorized' });
+    if (mongoose.connection.readyState !== 1) {
+      return res.status(503).json({ ok: false, error: 'database_unavailable' });
+    }
+
+    const before = req.query.before ? new Date(String(req.query.before)) : null;
+    const limit = parseInt(String(req.query.limit || ''), 10) || undefined;
+    const { calls, nextBefore } = await getCallHistory(userId, { limit, before });
+    res.json({ ok: true, calls, nextBefore });
+  } catch (e: any) {
+    logger.error('Calls history error:', e);
+    res.status(500).json({ ok: false, error: 'server_error' });
+  }
+});
+
+export default router;
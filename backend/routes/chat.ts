@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import mongoose from 'mongoose';
 import User from '../models/User';
+import { logger } from '../utils/logger';
 
 const isOid = (s?: string) => !!s && mongoose.Types.ObjectId.isValid(String(s));
 
@@ -20,7 +21,7 @@ export default function createChatRouter() {
       // Stream Chat токен убран - больше не используется
       return res.json({ ok: true, token: 'stream_disabled' });
     } catch (e: any) {
-      console.error('[chat/token] error:', e);
+      logger.error('[chat/token] error:', e);
       return res.status(500).json({ ok: false, error: 'token_failed' });
     }
   });
@@ -50,8 +51,8 @@ export default function createChatRouter() {
 
       return res.json({ ok: true });
     } catch (e: any) {
-      console.error('[chat/ensure-dm] error:', e?.message || e);
-      console.error('[chat/ensure-dm] stack:', e);
+      logger.error('[chat/ensure-dm] error:', e?.message || e);
+      logger.error('[chat/ensure-dm] stack:', e);
       return res.status(500).json({ ok: false, error: 'ensure_dm_failed' });
     }
   });
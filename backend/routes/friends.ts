@@ -2,6 +2,8 @@
 import { Router } from 'express';
 import User from '../models/User';
 import { getFriendsPaginated, areFriendsCached } from '../utils/friendshipUtils';
+import { isBlockedEitherWay } from '../utils/blockUtils';
+import { logger } from '../utils/logger';
 
 const router = Router();
 
@@ -62,11 +64,11 @@ router.get('/invite/:code', async (req, res) => {
     const code = String(req.params.code || '').trim();
     const me = (req as any)?.userId as string | undefined; // Текущий пользователь (если авторизован)
     
-    console.log('[friends] /api/invite/:code called', { code, me, url: req.url, path: req.path });
+    logger.info('[friends] /api/invite/:code called', { code, me, url: req.url, path: req.path });
     
     // Проверяем валидность кода (должен быть ObjectId)
     if (!code || !/^[a-f\d]{24}$/i.test(code)) {
-      console.log('[friends] Invalid code format:', code);
+      logger.info('[friends] Invalid code format:', code);
       return res.status(400).json({ ok: false, error: 'invalid_code' });
     }
 
@@ -77,6 +79,11 @@ router.get('/invite/:code', async (req, res) => {
       return res.status(404).json({ ok: false, error: 'user_not_found' });
     }
 
+    // Заблокированным (в любую сторону) профиль по ссылке не показываем
+    if (me && me !== code && (await isBlockedEitherWay(me, code))) {
+      return res.status(403).json({ ok: false, error: 'blocked' });
+    }
+
     // Если пользователь авторизован, проверяем статус дружбы
     let areFriends = false;
     let hasPendingRequest = false;
@@ -108,10 +115,10 @@ router.get('/invite/:code', async (req, res) => {
       canAdd: me && me !== code && !areFriends && !hasPendingRequest,
     };
     
-    console.log('[friends] /api/invite/:code success', { code, hasInviter: !!inviter, areFriends, hasPendingRequest });
+    logger.info('[friends] /api/invite/:code success', { code, hasInviter: !!inviter, areFriends, hasPendingRequest });
     res.json(response);
   } catch (e: any) {
-    console.error('[friends] /api/invite/:code error:', e);
+    logger.error('[friends] /api/invite/:code error:', e);
     res.status(500).json({ ok: false, error: String(e?.message || e) });
   }
 });
@@ -2,6 +2,7 @@
 import { Router } from 'express';
 import { AccessToken } from 'livekit-server-sdk';
 import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
 
 const router = Router();
 
@@ -51,6 +52,7 @@ export async function createToken({ identity, roomName }: { identity: string; ro
   if (!apiKey || !apiSecret) {
     const error = 'LIVEKIT_API_KEY or LIVEKIT_API_SECRET not configured';
     logger.error('[LiveKit] createToken failed:', error);
+    metrics.livekitTokenErrors.inc({ reason: 'not_configured' });
     throw new Error(error);
   }
 
@@ -66,16 +68,22 @@ export async function createToken({ identity, roomName }: { identity: string; ro
     return token;
   } catch (e: any) {
     logger.error('[LiveKit] Token creation error:', { error: e?.message, identity, roomName });
+    metrics.livekitTokenErrors.inc({ reason: 'sign_failed' });
     throw e;
   }
 }
 
 router.post('/livekit/token', async (req, res) => {
   try {
-    const { userId, roomName } = req.body;
+    // identity берём из сессионного токена, а не из тела запроса
+    const userId = (req as any).userId as string | undefined;
+    const { roomName } = req.body;
 
-    if (!userId || !roomName) {
-      return res.status(400).json({ ok: false, error: 'missing_userId_or_roomName' });
+    if (!userId) {
+      return res.status(401).json({ ok: false, error: 'unauthorized' });
+    }
+    if (!roomName) {
+      return res.status(400).json({ ok: false, error: 'missing_roomName' });
     }
 
     const token = await createToken({ identity: userId, roomName });
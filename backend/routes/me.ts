@@ -2,6 +2,7 @@
 import { Router } from 'express';
 import UserModel from '../models/User';
 import type { Server as IOServer } from 'socket.io';
+import { logger } from '../utils/logger';
 
 const router = Router();
 
@@ -10,7 +11,7 @@ router.get('/exists/:userId', async (req, res) => {
   try {
     const { userId } = req.params;
     // Убираем избыточное логирование - функция вызывается слишком часто
-    // console.log('[user-exists] Checking user existence:', userId);
+    // logger.info('[user-exists] Checking user existence:', userId);
     
     if (!userId) {
       return res.status(400).json({ ok: false, error: 'userId required' });
@@ -20,7 +21,7 @@ router.get('/exists/:userId', async (req, res) => {
     
     if (user) {
       // Убираем избыточное логирование
-      // console.log('[user-exists] User found:', userId);
+      // logger.info('[user-exists] User found:', userId);
       return res.json({
         ok: true,
         exists: true,
@@ -31,14 +32,14 @@ router.get('/exists/:userId', async (req, res) => {
       });
     } else {
       // Убираем избыточное логирование
-      // console.log('[user-exists] User not found:', userId);
+      // logger.info('[user-exists] User not found:', userId);
       return res.json({
         ok: true,
         exists: false
       });
     }
   } catch (e) {
-    console.error('[user-exists] Error:', e);
+    logger.error('[user-exists] Error:', e);
     return res.status(500).json({
       ok: false,
       error: 'Failed to check user existence'
@@ -204,7 +205,7 @@ router.patch('/me', async (req, res) => {
         }
       }
     } catch (e) {
-      console.warn('friends notify error:', e);
+      logger.warn('friends notify error:', e);
     }
 
     return res.json({
@@ -219,7 +220,7 @@ router.patch('/me', async (req, res) => {
       },
     });
   } catch (e: any) {
-    console.error('PATCH /api/me ERROR:', e?.message || e);
+    logger.error('PATCH /api/me ERROR:', e?.message || e);
     return res.status(500).json({ ok: false, error: 'server_error' });
   }
 });
@@ -0,0 +1,64 @@
+// routes/metrics.ts
+import crypto from 'crypto';
+import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import type { Server } from 'socket.io';
+import * as queueStore from '../utils/queueStore';
+import { gauge, renderMetrics, METRICS_CONTENT_TYPE } from '../utils/metrics';
+import { logger } from '../utils/logger';
+
+type MetricsRouterDeps = {
+  io: Server;
+  // Звонки в дозвоне, чей таймер дозвона на этой ноде (ringTimers в index.ts)
+  getDirectCallCount: () => number;
+};
+
+/** Если задан METRICS_TOKEN — скрейпер должен прислать Authorization: Bearer <token> */
+function requireMetricsToken(req: Request, res: Response, next: NextFunction) {
+  const expected = String(process.env.METRICS_TOKEN || '').trim();
+  if (!expected) return next();
+
+  const header = String(req.header('authorization') || '');
+  const got = header.toLowerCase().startsWith('bearer ') ? header.slice(7).trim() : '';
+  const a = Buffer.from(got);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+    return res.status(401).type('text/plain').send('unauthorized\n');
+  }
+  next();
+}
+
+/**
+ * GET /metrics — Prometheus text format.
+ * Сокеты, пары и звонки — по этой ноде (Prometheus суммирует по инстансам),
+ * размер очереди — общий из queueStore.
+ */
+export default function createMetricsRouter({ io, getDirectCallCount }: MetricsRouterDeps) {
+  const router = Router();
+
+  gauge('livi_connected_sockets', 'Socket.IO connections on this node', [], (g) => {
+    g.set(io.of('/').sockets.size);
+  });
+  gauge('livi_random_active_pairs', 'Random chat pairs with a socket on this node', [], (g) => {
+    let paired = 0;
+    for (const s of io.of('/').sockets.values()) if ((s.data as any)?.partnerSid) paired++;
+    g.set(Math.ceil(paired / 2));
+  });
+  gauge('livi_direct_calls_active', 'Direct calls ringing with their ring timeout on this node', [], (g) => {
+    g.set(getDirectCallCount());
+  });
+  gauge('livi_match_queue_size', 'Sockets waiting in the random match queue', [], async (g) => {
+    g.set(await queueStore.getQueueSize());
+  });
+
+  router.get('/', requireMetricsToken, async (_req, res) => {
+    try {
+      res.type(METRICS_CONTENT_TYPE).send(await renderMetrics());
+    } catch (e: any) {
+      logger.error('Failed to render metrics:', e);
+      res.status(500).type('text/plain').send('metrics_failed\n');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,147 @@
+// routes/reports.ts
+import { Router } from 'express';
+import mongoose from 'mongoose';
+import Report, { REPORT_ACTIONS, REPORT_STATUSES, type ReportAction, type ReportStatus } from '../models/Report';
+import { requireAdmin } from '../utils/adminAuth';
+import { getSuspension, liftSuspension, suspendUser } from '../utils/moderation';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+const isOid = (s?: string) => !!s && mongoose.Types.ObjectId.isValid(String(s));
+
+const DEFAULT_SUSPEND_HOURS = Math.max(1, Number(process.env.REPORT_SUSPEND_HOURS || 24));
+
+router.use('/admin/reports', requireAdmin);
+
+router.use('/admin/reports', (_req, res, next) => {
+  if (mongoose.connection.readyState !== 1) {
+    return res.status(503).json({ ok: false, error: 'database_unavailable' });
+  }
+  next();
+});
+
+/** Очередь модерации: ?status=open&limit=50&before=<ISO date> (без кадров — они в карточке) */
+router.get('/admin/reports', async (req, res) => {
+  try {
+    const status = String(req.query.status || 'open') as ReportStatus;
+    if (!REPORT_STATUSES.includes(status)) return res.status(400).json({ ok: false, error: 'invalid_status' });
+    const limit = Math.min(200, Math.max(1, parseInt(String(req.query.limit || '50'), 10) || 50));
+    const before = req.query.before ? new Date(String(req.query.before)) : null;
+
+    const filter: any = { status };
+    if (before && !isNaN(before.getTime())) filter.createdAt = { $lt: before };
+
+    const docs = await Report.find(filter)
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .populate('reporter', 'nick')
+      .populate('reported', 'nick suspendedUntil')
+      .lean();
+
+    const list = docs.map((r: any) => ({
+      _id: String(r._id),
+      reporter: { _id: String(r.reporter?._id || r.reporter), nick: r.reporter?.nick || '' },
+      reported: {
+        _id: String(r.reported?._id || r.reported),
+        nick: r.reported?.nick || '',
+        suspendedUntil: r.reported?.suspendedUntil || null,
+      },
+      reason: r.reason,
+      comment: r.comment || '',
+      context: r.context,
+      roomName: r.roomName || '',
+      hasSnapshot: !!r.snapshotB64,
+      status: r.status,
+      createdAt: r.createdAt,
+    }));
+
+    res.json({ ok: true, list, nextBefore: list.length === limit ? list[list.length - 1].createdAt : null });
+  } catch (e: any) {
+    res.status(500).json({ ok: false, error: String(e?.message || e) });
+  }
+});
+
+/** Карточка жалобы с кадром и состоянием нарушителя */
+router.get('/admin/reports/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!isOid(id)) return res.status(400).json({ ok: false, error: 'invalid_id' });
+
+    const r: any = await Report.findById(id).populate('reporter', 'nick').populate('reported', 'nick').lean();
+    if (!r) return res.status(404).json({ ok: false, error: 'not_found' });
+
+    const reportedId = String(r.reported?._id || r.reported);
+    const [suspension, totalReports] = await Promise.all([
+      getSuspension(reportedId),
+      Report.countDocuments({ reported: reportedId }),
+    ]);
+
+    res.json({ ok: true, report: r, reportedState: { suspension, totalReports } });
+  } catch (e: any) {
+    res.status(500).json({ ok: false, error: String(e?.message || e) });
+  }
+});
+
+/** Взять в работу */
+router.post('/admin/reports/:id/review', async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!isOid(id)) return res.status(400).json({ ok: false, error: 'invalid_id' });
+
+    const r = await Report.findOneAndUpdate(
+      { _id: id, status: 'open' },
+      { $set: { status: 'reviewing' } },
+      { new: true }
+    ).lean();
+    if (!r) return res.status(409).json({ ok: false, error: 'not_open' });
+
+    res.json({ ok: true, status: r.status });
+  } catch (e: any) {
+    res.status(500).json({ ok: false, error: String(e?.message || e) });
+  }
+});
+
+/**
+ * Решение по жалобе: { action: none|warn|suspend|unsuspend, note?, suspendHours? }
+ * action=none закрывает жалобу как dismissed, остальные — resolved.
+ */
+router.post('/admin/reports/:id/resolve', async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!isOid(id)) return res.status(400).json({ ok: false, error: 'invalid_id' });
+
+    const action = String(req.body?.action || 'none') as ReportAction;
+    if (!REPORT_ACTIONS.includes(action)) return res.status(400).json({ ok: false, error: 'invalid_action' });
+    const note = String(req.body?.note || '').slice(0, 1000);
+    const hours = Number(req.body?.suspendHours) > 0 ? Number(req.body.suspendHours) : DEFAULT_SUSPEND_HOURS;
+
+    const r = await Report.findOneAndUpdate(
+      { _id: id, status: { $in: ['open', 'reviewing'] } },
+      {
+        $set: {
+          status: action === 'none' ? 'dismissed' : 'resolved',
+          action,
+          resolutionNote: note,
+          reviewedAt: new Date(),
+        },
+      },
+      { new: true }
+    ).lean();
+    if (!r) return res.status(409).json({ ok: false, error: 'already_closed' });
+
+    const reportedId = String(r.reported);
+    if (action === 'suspend') {
+      await suspendUser(reportedId, hours * 60 * 60 * 1000, note || `report:${r.reason}`);
+    } else if (action === 'unsuspend') {
+      await liftSuspension(reportedId);
+    }
+
+    logger.info('Report resolved', { reportId: id, action, reported: reportedId });
+    res.json({ ok: true, status: r.status, action });
+  } catch (e: any) {
+    res.status(500).json({ ok: false, error: String(e?.message || e) });
+  }
+});
+
+export default router;
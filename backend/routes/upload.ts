@@ -1,67 +1,364 @@
 // backend/routes/upload.ts
-import { Router } from 'express';
+import { Router, type Request, type Response } from 'express';
 import fs from 'fs';
 import path from 'path';
+import crypto from 'crypto';
+import multer from 'multer';
+import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
+import { rateLimit } from '../utils/rateLimit';
+import { isFeatureEnabled } from '../utils/remoteConfig';
+import { sniffMedia, readFileHead, type MediaKind } from '../utils/mediaSniff';
+import { probeMedia, transcodeVoice, computeWaveform, extractVideoThumbnail } from '../utils/mediaTranscode';
 
 const router = Router();
 
+const MB = 1024 * 1024;
+
+// Лимиты по типу (после определения типа по сигнатуре); переопределяются через env
+const LIMITS: Record<MediaKind, number> = {
+  image: Number(process.env.UPLOAD_MAX_IMAGE_MB || 15) * MB,
+  audio: Number(process.env.UPLOAD_MAX_AUDIO_MB || 25) * MB,
+  document: Number(process.env.UPLOAD_MAX_DOCUMENT_MB || 50) * MB,
+  video: Number(process.env.UPLOAD_MAX_VIDEO_MB || 500) * MB,
+};
+const MAX_UPLOAD_BYTES = Math.max(...Object.values(LIMITS));
+
+// Голосовые длиннее этого не принимаем
+const VOICE_MAX_SECONDS = Number(process.env.VOICE_MAX_SECONDS || 300);
+
+// Чанки resumable-загрузки
+const CHUNK_SIZE = Number(process.env.UPLOAD_CHUNK_MB || 4) * MB;
+const CHUNKED_TTL_MS = 24 * 60 * 60 * 1000;
+
 // Создаем директорию для uploads если её нет
 const uploadsDir = path.join(__dirname, '../public/uploads/media');
-if (!fs.existsSync(uploadsDir)) {
-  fs.mkdirSync(uploadsDir, { recursive: true });
+// Временные файлы вне public — недокачанное не должно раздаваться статикой
+const tmpDir = path.join(__dirname, '../tmp/uploads');
+for (const dir of [uploadsDir, tmpDir]) {
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
 }
 
-// POST /api/upload/media
-router.post('/upload/media', async (req, res) => {
+// userId проставляет глобальный middleware в index.ts из проверенного Bearer-токена
+function requireUser(req: Request, res: Response): string | null {
+  const userId = String((req as any).userId || '').trim();
+  if (!userId) {
+    res.status(401).json({ ok: false, error: 'unauthorized' });
+    return null;
+  }
+  return userId;
+}
+
+const safeUnlink = (p: string) => fs.promises.unlink(p).catch(() => {});
+
+/**
+ * Проверяем сигнатуру и лимит, переносим файл из tmp в публичную директорию.
+ * Расширение берётся из определённого типа, а не из имени от клиента.
+ */
+async function finalizeUpload(tmpPath: string, size: number, originalName: string, userId: string) {
+  const sniffed = sniffMedia(await readFileHead(tmpPath), originalName);
+  if (!sniffed) {
+    await safeUnlink(tmpPath);
+    return { ok: false as const, status: 415, error: 'unsupported_type' };
+  }
+  if (size > LIMITS[sniffed.kind]) {
+    await safeUnlink(tmpPath);
+    return { ok: false as const, status: 413, error: 'file_too_large', maxBytes: LIMITS[sniffed.kind] };
+  }
+
+  const baseName = `${Date.now()}_${crypto.randomBytes(6).toString('hex')}`;
+  const fileName = `${baseName}.${sniffed.ext}`;
+  const finalPath = path.join(uploadsDir, fileName);
+  await fs.promises.rename(tmpPath, finalPath);
+
+  // Для видео — длительность и превью-кадр; без превью видео всё равно отправляется
+  const video = sniffed.kind === 'video' ? await describeVideo(finalPath, baseName) : null;
+
+  logger.info('Media uploaded', { fileName, userId, kind: sniffed.kind, mime: sniffed.mime, sizeKB: Math.round(size / 1024) });
+  metrics.uploadBytes.inc({ kind: sniffed.kind }, size);
+  return {
+    ok: true as const,
+    url: `/uploads/media/${fileName}`,
+    kind: sniffed.kind,
+    mime: sniffed.mime,
+    size,
+    name: originalName || undefined,
+    ...(video || {}),
+  };
+}
+
+async function describeVideo(filePath: string, baseName: string): Promise<{ duration?: number; thumbnailUrl?: string }> {
+  const thumbName = `${baseName}_thumb.jpg`;
   try {
-    const { dataUri, type, from, to } = req.body;
+    const probed = await probeMedia(filePath);
+    await extractVideoThumbnail(filePath, path.join(uploadsDir, thumbName), probed.duration);
+    return {
+      duration: Math.round(probed.duration * 10) / 10 || undefined,
+      thumbnailUrl: `/uploads/media/${thumbName}`,
+    };
+  } catch (e: any) {
+    logger.warn('Video thumbnail failed', { filePath, error: e?.message || String(e) });
+    return {};
+  }
+}
+
+/* ========= Обычная загрузка: multipart/form-data, поле file ========= */
+
+// multer пишет поток сразу на диск — файл целиком в памяти не держим
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: tmpDir,
+    filename: (_req, _file, cb) => cb(null, `${crypto.randomBytes(12).toString('hex')}.part`),
+  }),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1, fields: 10 },
+});
+
+// POST /api/upload/media
+router.post('/upload/media', rateLimit('upload:media'), (req, res) => {
+  const userId = requireUser(req, res);
+  if (!userId) return;
 
-    if (!dataUri || typeof dataUri !== 'string') {
-      return res.status(400).json({ ok: false, error: 'Missing dataUri' });
+  upload.single('file')(req, res, async (err: any) => {
+    if (err) {
+      const tooLarge = err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE';
+      return res.status(tooLarge ? 413 : 400).json({ ok: false, error: tooLarge ? 'file_too_large' : 'bad_upload' });
     }
+    const file = req.file;
+    if (!file) return res.status(400).json({ ok: false, error: 'missing_file' });
 
-    if (!dataUri.startsWith('data:')) {
-      return res.status(400).json({ ok: false, error: 'Invalid dataUri format' });
+    try {
+      const result = await finalizeUpload(file.path, file.size, file.originalname, userId);
+      if (!result.ok) {
+        const { status, ...body } = result;
+        return res.status(status).json(body);
+      }
+      return res.json(result);
+    } catch (error: any) {
+      await safeUnlink(file.path);
+      logger.error('Upload error', { error: error?.message || String(error) });
+      return res.status(500).json({ ok: false, error: 'upload_failed' });
     }
+  });
+});
 
-    // Извлекаем MIME тип и base64 данные
-    const matches = dataUri.match(/^data:([^;]+);base64,(.+)$/);
-    if (!matches) {
-      return res.status(400).json({ ok: false, error: 'Invalid dataUri format' });
+/* ========= Голосовые: перекодируем в единый формат (AAC/m4a) + длительность и волна ========= */
+
+// POST /api/upload/voice — multipart, поле file (wav/m4a/ogg/webm с диктофона)
+router.post('/upload/voice', rateLimit('upload:voice'), (req, res) => {
+  const userId = requireUser(req, res);
+  if (!userId) return;
+  if (!isFeatureEnabled('voiceMessages', userId)) return res.status(403).json({ ok: false, error: 'feature_disabled' });
+
+  upload.single('file')(req, res, async (err: any) => {
+    if (err) {
+      const tooLarge = err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE';
+      return res.status(tooLarge ? 413 : 400).json({ ok: false, error: tooLarge ? 'file_too_large' : 'bad_upload' });
     }
+    const file = req.file;
+    if (!file) return res.status(400).json({ ok: false, error: 'missing_file' });
+
+    const fileName = `${Date.now()}_${crypto.randomBytes(6).toString('hex')}.m4a`;
+    const outPath = path.join(uploadsDir, fileName);
+    try {
+      // Диктофоны на Android пишут звук в mp4/webm-контейнер — поэтому допускаем и "video" по сигнатуре
+      const sniffed = sniffMedia(await readFileHead(file.path), file.originalname);
+      if (!sniffed || (sniffed.kind !== 'audio' && sniffed.kind !== 'video')) {
+        return res.status(415).json({ ok: false, error: 'unsupported_type' });
+      }
+      if (file.size > LIMITS.audio) {
+        return res.status(413).json({ ok: false, error: 'file_too_large', maxBytes: LIMITS.audio });
+      }
+
+      const probed = await probeMedia(file.path);
+      if (!probed.hasAudio) return res.status(415).json({ ok: false, error: 'no_audio' });
+      if (probed.duration > VOICE_MAX_SECONDS + 1) {
+        return res.status(413).json({ ok: false, error: 'voice_too_long', maxSeconds: VOICE_MAX_SECONDS });
+      }
 
-    const mimeType = matches[1];
-    const base64Data = matches[2];
-
-    // Определяем расширение файла по MIME типу
-    let extension = 'bin';
-    if (mimeType.startsWith('image/')) {
-      const ext = mimeType.split('/')[1];
-      extension = ext === 'jpeg' ? 'jpg' : ext;
-    } else if (mimeType.startsWith('video/')) {
-      const ext = mimeType.split('/')[1];
-      extension = ext === 'quicktime' ? 'mov' : ext;
+      await transcodeVoice(file.path, outPath, VOICE_MAX_SECONDS);
+      const [result, waveform, stat] = await Promise.all([
+        probeMedia(outPath),
+        computeWaveform(outPath),
+        fs.promises.stat(outPath),
+      ]);
+
+      logger.info('Voice uploaded', { fileName, userId, duration: result.duration, sizeKB: Math.round(stat.size / 1024) });
+      metrics.uploadBytes.inc({ kind: 'audio' }, stat.size);
+      return res.json({
+        ok: true,
+        url: `/uploads/media/${fileName}`,
+        kind: 'audio',
+        mime: 'audio/mp4',
+        size: stat.size,
+        duration: Math.round(result.duration * 10) / 10,
+        waveform,
+      });
+    } catch (error: any) {
+      await safeUnlink(outPath);
+      logger.error('Voice upload error', { error: error?.message || String(error) });
+      return res.status(500).json({ ok: false, error: 'transcode_failed' });
+    } finally {
+      await safeUnlink(file.path);
     }
+  });
+});
 
-    // Генерируем уникальное имя файла
-    const fileName = `${Date.now()}_${Math.random().toString(36).slice(2, 9)}.${extension}`;
-    const filePath = path.join(uploadsDir, fileName);
+/* ========= Resumable загрузка по чанкам (большие видео) ========= */
 
-    // Сохраняем файл
-    const buffer = Buffer.from(base64Data, 'base64');
-    fs.writeFileSync(filePath, buffer);
+type ChunkedMeta = {
+  userId: string;
+  size: number;
+  name: string;
+  received: number;
+  createdAt: number;
+};
 
-    // Возвращаем публичный URL
-    const url = `/uploads/media/${fileName}`;
+// Состояние хранится рядом с данными, поэтому загрузку можно продолжить и после рестарта
+const metaPath = (id: string) => path.join(tmpDir, `${id}.json`);
+const dataPath = (id: string) => path.join(tmpDir, `${id}.chunked`);
+const isUploadId = (s: string) => /^[a-f\d]{32}$/.test(s);
 
-    console.log(`📤 Media uploaded: ${fileName} (${mimeType}, ${Math.round(buffer.length / 1024)}KB)`);
+async function readMeta(id: string): Promise<ChunkedMeta | null> {
+  if (!isUploadId(id)) return null;
+  try {
+    return JSON.parse(await fs.promises.readFile(metaPath(id), 'utf8')) as ChunkedMeta;
+  } catch {
+    return null;
+  }
+}
+
+const writeMeta = (id: string, meta: ChunkedMeta) => fs.promises.writeFile(metaPath(id), JSON.stringify(meta));
+
+async function dropChunked(id: string) {
+  await Promise.all([safeUnlink(metaPath(id)), safeUnlink(dataPath(id))]);
+}
+
+// Чужую или несуществующую загрузку не раскрываем — одинаково 404
+async function loadOwnedMeta(req: Request, res: Response): Promise<{ id: string; meta: ChunkedMeta } | null> {
+  const userId = requireUser(req, res);
+  if (!userId) return null;
+  const id = String(req.params.uploadId || '');
+  const meta = await readMeta(id);
+  if (!meta || meta.userId !== userId) {
+    res.status(404).json({ ok: false, error: 'upload_not_found' });
+    return null;
+  }
+  return { id, meta };
+}
+
+// POST /api/upload/media/chunked — { name, size } → uploadId
+router.post('/upload/media/chunked', rateLimit('upload:media'), async (req, res) => {
+  const userId = requireUser(req, res);
+  if (!userId) return;
 
-    return res.json({ ok: true, url });
+  const size = Number(req.body?.size);
+  const name = String(req.body?.name || '').slice(0, 200);
+  if (!Number.isFinite(size) || size <= 0) return res.status(400).json({ ok: false, error: 'bad_size' });
+  if (size > MAX_UPLOAD_BYTES) return res.status(413).json({ ok: false, error: 'file_too_large', maxBytes: MAX_UPLOAD_BYTES });
+
+  const uploadId = crypto.randomBytes(16).toString('hex');
+  await fs.promises.writeFile(dataPath(uploadId), Buffer.alloc(0));
+  await writeMeta(uploadId, { userId, size, name, received: 0, createdAt: Date.now() });
+
+  return res.json({ ok: true, uploadId, chunkSize: CHUNK_SIZE, received: 0 });
+});
+
+// GET /api/upload/media/chunked/:uploadId — сколько уже принято (для продолжения)
+router.get('/upload/media/chunked/:uploadId', async (req, res) => {
+  const owned = await loadOwnedMeta(req, res);
+  if (!owned) return;
+  return res.json({ ok: true, received: owned.meta.received, size: owned.meta.size, chunkSize: CHUNK_SIZE });
+});
+
+// PUT /api/upload/media/chunked/:uploadId?offset=N — тело запроса = сырые байты чанка
+router.put('/upload/media/chunked/:uploadId', async (req, res) => {
+  const owned = await loadOwnedMeta(req, res);
+  if (!owned) return;
+  const { id, meta } = owned;
+
+  // Чанки принимаются строго последовательно; при расхождении клиент продолжает с received
+  const offset = Number(req.query.offset);
+  if (offset !== meta.received) {
+    return res.status(409).json({ ok: false, error: 'offset_mismatch', received: meta.received });
+  }
+
+  // Пишем с позиции received: остатки оборванного чанка просто перезапишутся следующей попыткой
+  let written = 0;
+  let done = false;
+  const out = fs.createWriteStream(dataPath(id), { flags: 'r+', start: meta.received });
+  const fail = (status: number, error: string) => {
+    if (done) return;
+    done = true;
+    req.unpipe(out);
+    out.destroy();
+    if (!res.headersSent) res.status(status).json({ ok: false, error, received: meta.received });
+  };
+
+  req.on('data', (chunk: Buffer) => {
+    written += chunk.length;
+    if (written > CHUNK_SIZE || meta.received + written > meta.size) fail(413, 'chunk_too_large');
+  });
+  // Клиент оборвал соединение — принятое не засчитываем, он продолжит с received
+  req.on('aborted', () => fail(499, 'aborted'));
+  out.on('error', (e) => {
+    logger.error('Chunk write error', { uploadId: id, error: e?.message });
+    fail(500, 'upload_failed');
+  });
+  out.on('finish', async () => {
+    if (done) return;
+    done = true;
+    meta.received += written;
+    await writeMeta(id, meta);
+    return res.json({ ok: true, received: meta.received, size: meta.size });
+  });
+  req.pipe(out);
+});
+
+// POST /api/upload/media/chunked/:uploadId/complete — проверка и публикация файла
+router.post('/upload/media/chunked/:uploadId/complete', async (req, res) => {
+  const owned = await loadOwnedMeta(req, res);
+  if (!owned) return;
+  const { id, meta } = owned;
+
+  if (meta.received !== meta.size) {
+    return res.status(409).json({ ok: false, error: 'incomplete', received: meta.received, size: meta.size });
+  }
+
+  try {
+    // Отрезаем возможный хвост от оборванных попыток
+    await fs.promises.truncate(dataPath(id), meta.size);
+    const result = await finalizeUpload(dataPath(id), meta.size, meta.name, meta.userId);
+    await safeUnlink(metaPath(id));
+    if (!result.ok) {
+      const { status, ...body } = result;
+      return res.status(status).json(body);
+    }
+    return res.json(result);
   } catch (error: any) {
-    console.error('📤 Upload error:', error);
-    return res.status(500).json({ ok: false, error: error?.message || 'Upload failed' });
+    await dropChunked(id);
+    logger.error('Chunked upload finalize error', { uploadId: id, error: error?.message || String(error) });
+    return res.status(500).json({ ok: false, error: 'upload_failed' });
   }
 });
 
-export default router;
+// DELETE /api/upload/media/chunked/:uploadId — отмена
+router.delete('/upload/media/chunked/:uploadId', async (req, res) => {
+  const owned = await loadOwnedMeta(req, res);
+  if (!owned) return;
+  await dropChunked(owned.id);
+  return res.json({ ok: true });
+});
 
+// Брошенные загрузки и остатки multer чистим раз в час
+setInterval(async () => {
+  try {
+    const now = Date.now();
+    for (const f of await fs.promises.readdir(tmpDir)) {
+      const p = path.join(tmpDir, f);
+      const st = await fs.promises.stat(p).catch(() => null);
+      if (st && now - st.mtimeMs > CHUNKED_TTL_MS) await safeUnlink(p);
+    }
+  } catch {}
+}, 60 * 60 * 1000).unref();
+
+export default router;
@@ -0,0 +1,102 @@
+// backend/scripts/migrateFriendshipMessages.ts
+// Одноразовый перенос истории из FriendshipMessages (массивы внутри документа пары)
+// в отдельные документы Message. Повторный запуск безопасен: сообщения upsert-ятся по clientId.
+//
+//   npm run migrate:messages              — только перенос
+//   npm run migrate:messages -- --cleanup — перенос и удаление перенесённых FriendshipMessages
+//   npm run migrate:messages -- --dry-run — посчитать, ничего не записывая
+import dotenv from 'dotenv';
+dotenv.config();
+
+import mongoose from 'mongoose';
+import FriendshipMessages, { IMessageItem } from '../models/FriendshipMessages';
+import Message from '../models/Message';
+import { logger } from '../utils/logger';
+
+const MONGO_URI =
+  process.env.MONGO_DB ||
+  process.env.MONGODB_URI ||
+  process.env.MONGO_URI ||
+  '';
+
+const BATCH_SIZE = 500;
+
+const args = new Set(process.argv.slice(2));
+const DRY_RUN = args.has('--dry-run');
+const CLEANUP = args.has('--cleanup') && !DRY_RUN;
+
+function toMessageDoc(item: IMessageItem) {
+  return {
+    clientId: item.id,
+    from: item.from,
+    to: item.to,
+    type: item.type || 'text',
+    text: item.text || '',
+    uri: item.uri || '',
+    name: item.name || '',
+    size: item.size || 0,
+    ...(item.type === 'audio' ? { duration: item.duration, waveform: item.waveform } : {}),
+    ...(item.type === 'video' ? { duration: item.duration, thumbnailUri: item.thumbnailUri } : {}),
+    timestamp: item.timestamp || new Date(),
+    read: !!item.read,
+  };
+}
+
+async function migrate() {
+  if (!MONGO_URI) {
+    logger.error('Missing required environment variables: MONGO_URI/DB');
+    process.exit(1);
+  }
+
+  await mongoose.connect(MONGO_URI);
+  // Индексы Message нужны до массовой вставки (в т.ч. по clientId для upsert)
+  await Message.syncIndexes();
+
+  let friendships = 0;
+  let scanned = 0;
+  let inserted = 0;
+  let removed = 0;
+
+  const cursor = FriendshipMessages.find({}).lean().cursor();
+  for await (const doc of cursor) {
+    friendships++;
+    const items: IMessageItem[] = [...(doc.textMessages || []), ...(doc.imageMessages || [])]
+      .filter((m) => m && m.id && m.from && m.to);
+    scanned += items.length;
+
+    if (!DRY_RUN) {
+      for (let i = 0; i < items.length; i += BATCH_SIZE) {
+        const ops = items.slice(i, i + BATCH_SIZE).map((item) => ({
+          updateOne: {
+            filter: { clientId: item.id },
+            update: { $setOnInsert: toMessageDoc(item) },
+            upsert: true,
+          },
+        }));
+        const res = await Message.bulkWrite(ops, { ordered: false });
+        inserted += res.upsertedCount;
+      }
+    }
+
+    if (CLEANUP) {
+      await FriendshipMessages.deleteOne({ _id: doc._id });
+      removed++;
+    }
+  }
+
+  logger.info('FriendshipMessages migration finished', {
+    dryRun: DRY_RUN,
+    friendships,
+    scanned,
+    inserted,
+    skipped: DRY_RUN ? 0 : scanned - inserted,
+    removedFriendships: removed,
+  });
+}
+
+migrate()
+  .catch((e: any) => {
+    logger.error('FriendshipMessages migration failed', { error: e?.message || String(e) });
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -2,6 +2,7 @@
 import { Server, Socket } from 'socket.io';
 import User from '../models/User';
 import { buildAvatarDataUris } from '../utils/avatars';
+import { logger } from '../utils/logger';
 
 export function bindAvatarSockets(io: Server, socket: Socket) {
   // Загрузка аватара
@@ -9,7 +10,7 @@ export function bindAvatarSockets(io: Server, socket: Socket) {
     const userId = (socket as any).data?.userId as string | undefined;
 
     if (!userId) {
-      console.warn('[avatar] uploadAvatar: unauthorized, socket.data:', (socket as any).data);
+      logger.warn('[avatar] uploadAvatar: unauthorized, socket.data:', (socket as any).data);
       return cb?.({ ok: false, error: 'unauthorized' });
     }
 
@@ -60,13 +61,13 @@ export function bindAvatarSockets(io: Server, socket: Socket) {
         try {
           io.to(`u:${String(fid)}`).emit('user.avatarUpdated', payload);
         } catch (e) {
-          console.warn(`[avatar] failed to notify friend ${fid}:`, e);
+          logger.warn(`[avatar] failed to notify friend ${fid}:`, e);
         }
       });
 
       cb?.({ ok: true, avatarVer: updated.avatarVer || 0 });
     } catch (e: any) {
-      console.error('[avatar] upload error:', e?.message || e);
+      logger.error('[avatar] upload error:', e?.message || e);
       cb?.({ ok: false, error: String(e?.message || e) });
     }
   });
@@ -76,7 +77,7 @@ export function bindAvatarSockets(io: Server, socket: Socket) {
     const userId = (socket as any).data?.userId as string | undefined;
 
     if (!userId) {
-      console.warn('[avatar] deleteAvatar: unauthorized, socket.data:', (socket as any).data);
+      logger.warn('[avatar] deleteAvatar: unauthorized, socket.data:', (socket as any).data);
       return cb?.({ ok: false, error: 'unauthorized' });
     }
 
@@ -117,13 +118,13 @@ export function bindAvatarSockets(io: Server, socket: Socket) {
         try {
           io.to(`u:${String(fid)}`).emit('user.avatarUpdated', payload);
         } catch (e) {
-          console.warn(`[avatar] failed to notify friend ${fid}:`, e);
+          logger.warn(`[avatar] failed to notify friend ${fid}:`, e);
         }
       });
 
       cb?.({ ok: true });
     } catch (e: any) {
-      console.error('[avatar] delete error:', e?.message || e);
+      logger.error('[avatar] delete error:', e?.message || e);
       cb?.({ ok: false, error: String(e?.message || e) });
     }
   });
@@ -152,7 +153,7 @@ export function bindAvatarSockets(io: Server, socket: Socket) {
         avatarB64: doc.avatarB64 || '' 
       });
     } catch (e: any) {
-      console.error('[avatar] get error:', e?.message || e);
+      logger.error('[avatar] get error:', e?.message || e);
       cb?.({ ok: false, error: String(e?.message || e) });
     }
   });
@@ -0,0 +1,120 @@
+// backend/sockets/blocks.ts
+import { Server } from 'socket.io';
+import mongoose from 'mongoose';
+import User from '../models/User';
+import { clearBlockCache } from '../utils/blockUtils';
+import { clearFriendshipCache } from '../utils/friendshipUtils';
+import { isClustered, userRoom } from '../utils/socketCluster';
+import { logger } from '../utils/logger';
+
+const isOid = (s?: string) => !!s && mongoose.Types.ObjectId.isValid(String(s));
+
+// Кэш блокировок у каждой ноды свой: без рассылки другая нода ещё до 30с пропускала бы сообщения и звонки
+const BLOCKS_CHANGED_EVENT = 'blocks:changed';
+
+/** Чёрный список: user:block / user:unblock / user:blocks */
+export default function registerBlockSockets(io: Server) {
+  const invalidateBlocks = (userId: string) => {
+    clearBlockCache(userId);
+    if (isClustered()) io.serverSideEmit(BLOCKS_CHANGED_EVENT, userId);
+  };
+  io.of('/').on(BLOCKS_CHANGED_EVENT, (userId: string) => clearBlockCache(String(userId || '')));
+
+  io.on('connection', (sock) => {
+    const meId = () => String((sock as any).data?.userId || '');
+
+    /** ===== Заблокировать ===== */
+    sock.on('user:block', async ({ userId }: { userId: string }, ack?: Function) => {
+      try {
+        const me = meId();
+        if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+        if (!isOid(userId)) return ack?.({ ok: false, error: 'invalid_user' });
+        if (String(me) === String(userId)) return ack?.({ ok: false, error: 'self' });
+        if (mongoose.connection.readyState !== 1) return ack?.({ ok: false, error: 'database_unavailable' });
+
+        const exists = await User.exists({ _id: userId });
+        if (!exists) return ack?.({ ok: false, error: 'user_not_found' });
+
+        // Блокировка разрывает дружбу и снимает заявки в обе стороны
+        const wasFriends = !!(await User.exists({ _id: me, friends: userId }));
+        await (User as any).updateOne(
+          { _id: me },
+          { $addToSet: { blockedUsers: userId }, $pull: { friends: userId, friendRequests: userId } }
+        );
+        await (User as any).updateOne(
+          { _id: userId },
+          { $pull: { friends: me, friendRequests: me } }
+        );
+
+        invalidateBlocks(me);
+        clearFriendshipCache(me);
+        clearFriendshipCache(userId);
+
+        if (wasFriends) {
+          io.to(userRoom(me)).emit('friend_removed', { userId: String(userId) });
+          io.to(userRoom(userId)).emit('friend_removed', { userId: String(me) });
+        }
+        io.to(userRoom(me)).emit('user:blocked', { userId: String(userId) });
+
+        logger.info('User blocked', { userId: me, blocked: userId });
+        return ack?.({ ok: true });
+      } catch (e: any) {
+        logger.error('User block error:', e);
+        return ack?.({ ok: false, error: 'server_error' });
+      }
+    });
+
+    /** ===== Разблокировать ===== */
+    sock.on('user:unblock', async ({ userId }: { userId: string }, ack?: Function) => {
+      try {
+        const me = meId();
+        if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+        if (!isOid(userId)) return ack?.({ ok: false, error: 'invalid_user' });
+        if (mongoose.connection.readyState !== 1) return ack?.({ ok: false, error: 'database_unavailable' });
+
+        await (User as any).updateOne({ _id: me }, { $pull: { blockedUsers: userId } });
+        invalidateBlocks(me);
+
+        io.to(userRoom(me)).emit('user:unblocked', { userId: String(userId) });
+        return ack?.({ ok: true });
+      } catch (e: any) {
+        logger.error('User unblock error:', e);
+        return ack?.({ ok: false, error: 'server_error' });
+      }
+    });
+
+    /** ===== Список заблокированных ===== */
+    sock.on('user:blocks', async (_: any, ack?: Function) => {
+      try {
+        const me = meId();
+        if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+        if (mongoose.connection.readyState !== 1) return ack?.({ ok: false, error: 'database_unavailable' });
+
+        const meDoc = await User.findById(me).select('blockedUsers').lean();
+        const ids: string[] = Array.isArray((meDoc as any)?.blockedUsers)
+          ? (meDoc as any).blockedUsers.map((x: any) => String(x))
+          : [];
+        if (ids.length === 0) return ack?.({ ok: true, list: [] });
+
+        const users = await User.find({ _id: { $in: ids } })
+          .select('_id nick avatarVer avatarThumbB64')
+          .lean();
+        const byId = new Map(users.map((u: any) => [String(u._id), u]));
+        const list = ids.map((id) => {
+          const u: any = byId.get(id);
+          return {
+            _id: id,
+            nick: u?.nick || '',
+            avatarVer: u?.avatarVer || 0,
+            avatarThumbB64: u?.avatarThumbB64 || '',
+          };
+        });
+
+        return ack?.({ ok: true, list });
+      } catch (e: any) {
+        logger.error('User blocks fetch error:', e);
+        return ack?.({ ok: false, error: 'server_error' });
+      }
+    });
+  });
+}
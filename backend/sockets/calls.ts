@@ -0,0 +1,30 @@
+// backend/sockets/calls.ts
+import { Server } from 'socket.io';
+import mongoose from 'mongoose';
+import { getCallHistory } from '../utils/callLog';
+import { logger } from '../utils/logger';
+
+const isOid = (s?: string) => !!s && mongoose.Types.ObjectId.isValid(String(s));
+
+/** История звонков: calls:history */
+export default function registerCallSockets(io: Server) {
+  io.on('connection', (sock) => {
+    const meId = () => String((sock as any).data?.userId || '');
+
+    /** ===== Последние звонки (постранично: before — startedAt последнего элемента) ===== */
+    sock.on('calls:history', async (payload: { limit?: number; before?: string } | undefined, ack?: Function) => {
+      try {
+        const me = meId();
+        if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+        if (mongoose.connection.readyState !== 1) return ack?.({ ok: false, error: 'database_unavailable' });
+
+        const before = payload?.before ? new Date(String(payload.before)) : null;
+        const { calls, nextBefore } = await getCallHistory(me, { limit: payload?.limit, before });
+        return ack?.({ ok: true, calls, nextBefore });
+      } catch (e: any) {
+        logger.error('Calls history error:', e);
+        return ack?.({ ok: false, error: 'server_error' });
+      }
+    });
+  });
+}
@@ -0,0 +1,189 @@
+// backend/sockets/devices.ts
+import { Server } from 'socket.io';
+import mongoose from 'mongoose';
+import { issueSession } from '../utils/sessionTokens';
+import { fetchUserSockets, userRoom } from '../utils/socketCluster';
+import {
+  attachInstallToUser,
+  createLinkCode,
+  createRecoveryCode,
+  findUserByRecoveryCode,
+  hasRecoveryCode,
+  listDevices,
+  redeemLinkCode,
+  unlinkDevice,
+} from '../utils/deviceLinking';
+import { logger } from '../utils/logger';
+import User from '../models/User';
+import { bindUser } from './identity';
+
+const isOid = (s?: string) => !!s && mongoose.Types.ObjectId.isValid(String(s));
+
+// Перебор кодов: после стольких неудачных попыток на одном соединении — отказ.
+// Между соединениями перебор держит общий лимит по IP (devices:link:redeem / devices:recovery:restore в utils/rateLimit)
+const MAX_CODE_ATTEMPTS = 5;
+
+type RedeemPayload = { code?: string };
+
+const installIdOfSocket = (s: any) => String(s?.data?.session?.installId || '');
+
+/**
+ * Несколько устройств на аккаунт:
+ * devices:list, devices:link:create / devices:link:redeem (код/QR), devices:recovery:create / devices:recovery:restore,
+ * devices:unlink
+ */
+export default function registerDeviceSockets(io: Server) {
+  io.on('connection', (sock) => {
+    const meId = () => String((sock as any).data?.userId || '');
+    let failedAttempts = 0;
+
+    /**
+     * Устройство входит в аккаунт userId: перепривязываем install, переводим сокет и выдаём новую сессию.
+     * КРИТИЧНО: installId — только из проверенной сессии. Из payload его брать нельзя: иначе своим же кодом
+     * можно перетащить чужой install в свой аккаунт (владелец теряет доступ, а его аккаунт без друзей удаляется).
+     */
+    const switchToUser = async (userId: string, ack?: Function) => {
+      const installId = installIdOfSocket(sock).trim();
+      if (!installId) return ack?.({ ok: false, error: 'no_session' });
+      // Аккаунт могли удалить, пока код был жив — не привязываем install к несуществующему пользователю
+      if (!(await User.exists({ _id: userId }))) return ack?.({ ok: false, error: 'user_not_found' });
+
+      const prevUserId = meId();
+      await attachInstallToUser(installId, userId);
+
+      if (prevUserId && prevUserId !== userId) {
+        try { sock.leave(userRoom(prevUserId)); } catch {}
+      }
+      await bindUser(io, sock, userId, installId);
+
+      // Остальным устройствам аккаунта — обновить список устройств
+      sock.to(userRoom(userId)).emit('devices:changed');
+      logger.info('[devices] device linked', { userId, installId, prevUserId: prevUserId || null });
+      return ack?.({ ok: true, userId, ...issueSession(userId, installId) });
+    };
+
+    const tooManyAttempts = () => failedAttempts >= MAX_CODE_ATTEMPTS;
+
+    /** ===== Список устройств ===== */
+    sock.on('devices:list', async (_payload: any, ack?: Function) => {
+      try {
+        const me = meId();
+        if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+        if (mongoose.connection.readyState !== 1) return ack?.({ ok: false, error: 'database_unavailable' });
+
+        const [devices, online, recovery] = await Promise.all([
+          listDevices(me),
+          fetchUserSockets(io, me),
+          hasRecoveryCode(me),
+        ]);
+        const onlineInstalls = new Set(online.map(installIdOfSocket));
+        const current = installIdOfSocket(sock);
+        return ack?.({
+          ok: true,
+          devices: devices.map((d) => ({
+            ...d,
+            current: d.installId === current,
+            online: onlineInstalls.has(d.installId),
+          })),
+          recoveryCode: recovery,
+        });
+      } catch (e: any) {
+        logger.error('Devices list error:', e);
+        return ack?.({ ok: false, error: 'server_error' });
+      }
+    });
+
+    /** ===== Код привязки (показываем на этом устройстве) ===== */
+    sock.on('devices:link:create', async (_payload: any, ack?: Function) => {
+      try {
+        const me = meId();
+        if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+        const installId = installIdOfSocket(sock);
+        if (!installId) return ack?.({ ok: false, error: 'no_installId' });
+        if (mongoose.connection.readyState !== 1) return ack?.({ ok: false, error: 'database_unavailable' });
+
+        const { code, expiresAt } = await createLinkCode(me, installId);
+        return ack?.({ ok: true, code, expiresAt: expiresAt.getTime() });
+      } catch (e: any) {
+        logger.error('Link code create error:', e);
+        return ack?.({ ok: false, error: 'server_error' });
+      }
+    });
+
+    /** ===== Ввод кода привязки на новом устройстве ===== */
+    sock.on('devices:link:redeem', async (payload: RedeemPayload, ack?: Function) => {
+      try {
+        if (tooManyAttempts()) return ack?.({ ok: false, error: 'too_many_attempts' });
+        if (mongoose.connection.readyState !== 1) return ack?.({ ok: false, error: 'database_unavailable' });
+
+        const userId = await redeemLinkCode(String(payload?.code || ''));
+        if (!userId) {
+          failedAttempts++;
+          return ack?.({ ok: false, error: 'invalid_code' });
+        }
+        return await switchToUser(userId, ack);
+      } catch (e: any) {
+        logger.error('Link code redeem error:', e);
+        return ack?.({ ok: false, error: 'server_error' });
+      }
+    });
+
+    /** ===== Код восстановления: выпустить новый (старый перестаёт работать) ===== */
+    sock.on('devices:recovery:create', async (_payload: any, ack?: Function) => {
+      try {
+        const me = meId();
+        if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+        if (mongoose.connection.readyState !== 1) return ack?.({ ok: false, error: 'database_unavailable' });
+
+        const code = await createRecoveryCode(me);
+        return ack?.({ ok: true, code });
+      } catch (e: any) {
+        logger.error('Recovery code create error:', e);
+        return ack?.({ ok: false, error: 'server_error' });
+      }
+    });
+
+    /** ===== Восстановление аккаунта по коду на этом устройстве ===== */
+    sock.on('devices:recovery:restore', async (payload: RedeemPayload, ack?: Function) => {
+      try {
+        if (tooManyAttempts()) return ack?.({ ok: false, error: 'too_many_attempts' });
+        if (mongoose.connection.readyState !== 1) return ack?.({ ok: false, error: 'database_unavailable' });
+
+        const userId = await findUserByRecoveryCode(String(payload?.code || ''));
+        if (!userId) {
+          failedAttempts++;
+          return ack?.({ ok: false, error: 'invalid_code' });
+        }
+        return await switchToUser(userId, ack);
+      } catch (e: any) {
+        logger.error('Recovery restore error:', e);
+        return ack?.({ ok: false, error: 'server_error' });
+      }
+    });
+
+    /** ===== Отвязать другое устройство ===== */
+    sock.on('devices:unlink', async ({ installId }: { installId?: string }, ack?: Function) => {
+      try {
+        const me = meId();
+        if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+        const target = String(installId || '').trim();
+        if (!target) return ack?.({ ok: false, error: 'no_installId' });
+        if (target === installIdOfSocket(sock)) return ack?.({ ok: false, error: 'cannot_unlink_current' });
+        if (mongoose.connection.readyState !== 1) return ack?.({ ok: false, error: 'database_unavailable' });
+
+        if (!(await unlinkDevice(me, target))) return ack?.({ ok: false, error: 'not_found' });
+
+        // Отвязанное устройство выходит сразу (refresh-токен перестанет обновляться, см. /api/auth/refresh)
+        for (const s of await fetchUserSockets(io, me)) {
+          if (installIdOfSocket(s) !== target) continue;
+          try { s.emit('devices:unlinked'); s.disconnect(true); } catch {}
+        }
+        sock.to(userRoom(me)).emit('devices:changed');
+        return ack?.({ ok: true });
+      } catch (e: any) {
+        logger.error('Device unlink error:', e);
+        return ack?.({ ok: false, error: 'server_error' });
+      }
+    });
+  });
+}
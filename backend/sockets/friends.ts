@@ -4,6 +4,9 @@ import mongoose from 'mongoose';
 import User from '../models/User';
 import { areFriendsCached, getFriendsPaginated, clearFriendshipCache } from '../utils/friendshipUtils';
 import { logger } from '../utils/logger';
+import { getUsersStatus, isUserOnline, userRoom } from '../utils/socketCluster';
+import { isBlockedEitherWay } from '../utils/blockUtils';
+import { notifyFriendRequest } from '../utils/push';
 
 const isOid = (s?: string) => !!s && mongoose.Types.ObjectId.isValid(String(s));
 
@@ -14,14 +17,6 @@ const normalizeAvatar = (s?: string) => {
 };
 
 export default function registerFriendSockets(io: Server) {
-  /** Проверка онлайн-статуса по всем подключенным сокетам */
-  const isOnline = (uid: string) => {
-    for (const s of io.sockets.sockets.values()) {
-      if (String((s as any).data?.userId) === String(uid)) return true;
-    }
-    return false;
-  };
-
   io.on('connection', (sock) => {
     const meId = () => String((sock as any).data?.userId || '');
 
@@ -39,17 +34,11 @@ export default function registerFriendSockets(io: Server) {
         const result = await getFriendsPaginated(me, page, limit);
         logger.debug('Friends fetched', { userId: me, friendsCount: result.friends.length, total: result.total });
 
-        // Добавляем информацию об онлайн статусе и занятости
+        // Добавляем информацию об онлайн статусе и занятости (socket.data.busy) — одним запросом по кластеру
+        const statuses = await getUsersStatus(io, result.friends.map((f) => String(f._id)));
         const list = result.friends.map((friend) => {
           const friendId = String(friend._id);
-          // Проверяем занятость через socket.data.busy
-          let isFriendBusy = false;
-          for (const s of io.sockets.sockets.values()) {
-            if (String((s as any).data?.userId) === friendId) {
-              isFriendBusy = (s as any).data?.busy || false;
-              break;
-            }
-          }
+          const status = statuses.get(friendId);
           
           return {
             _id: friendId,
@@ -57,8 +46,8 @@ export default function registerFriendSockets(io: Server) {
             avatar: (friend as any).avatar || '',
             avatarVer: (friend as any).avatarVer || 0,
             avatarThumbB64: (friend as any).avatarThumbB64 || '', // мини сразу в список
-            online: isOnline(friendId),
-            isBusy: isFriendBusy,
+            online: !!status?.online,
+            isBusy: !!status?.busy,
           };
         });
 
@@ -85,6 +74,7 @@ export default function registerFriendSockets(io: Server) {
         if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
         if (!isOid(to)) return ack?.({ ok: false, error: 'invalid_to' });
         if (String(me) === String(to)) return ack?.({ ok: false, error: 'self' });
+        if (await isBlockedEitherWay(me, to)) return ack?.({ ok: false, error: 'blocked' });
 
         // Проверяем, уже ли друзья
         const alreadyFriends = await areFriendsCached(me, to);
@@ -105,11 +95,10 @@ export default function registerFriendSockets(io: Server) {
         // Шлем событие получателю
         let fromNick: string | undefined;
         try { const u = await User.findById(me).select('nick').lean(); fromNick = (u as any)?.nick || undefined; } catch {}
-        for (const s of io.sockets.sockets.values()) {
-          const uid = String((s as any).data?.userId || '');
-          if (uid === String(to)) {
-            (s as any).emit('friend:request', { from: me, fromNick });
-          }
+        io.to(userRoom(String(to))).emit('friend:request', { from: me, fromNick });
+        // Получатель не в сети — узнает о заявке из push
+        if (!(await isUserOnline(io, String(to)))) {
+          void notifyFriendRequest(String(to), me, fromNick);
         }
 
         return ack?.({ ok: true, status: 'pending' });
@@ -125,6 +114,7 @@ export default function registerFriendSockets(io: Server) {
         if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
         if (!isOid(inviterId)) return ack?.({ ok: false, error: 'invalid_inviter' });
         if (String(me) === String(inviterId)) return ack?.({ ok: false, error: 'self' });
+        if (await isBlockedEitherWay(me, inviterId)) return ack?.({ ok: false, error: 'blocked' });
 
         // Проверяем, уже ли друзья
         const alreadyFriends = await areFriendsCached(me, inviterId);
@@ -170,15 +160,8 @@ export default function registerFriendSockets(io: Server) {
         }
 
         // Уведомления
-        for (const s of io.sockets.sockets.values()) {
-          const uid = String((s as any).data?.userId || '');
-          if (uid === String(me)) {
-            (s as any).emit('friend:accepted', { userId: inviterId });
-          }
-          if (uid === String(inviterId)) {
-            (s as any).emit('friend:accepted', { userId: me });
-          }
-        }
+        io.to(userRoom(String(me))).emit('friend:accepted', { userId: inviterId });
+        io.to(userRoom(String(inviterId))).emit('friend:accepted', { userId: me });
 
         return ack?.({ ok: true, status: 'accepted' });
       } catch (e: any) {
@@ -197,6 +180,8 @@ export default function registerFriendSockets(io: Server) {
         // Удаляем заявку из списка входящих
         await (User as any).updateOne({ _id: me }, { $pull: { friendRequests: from } });
 
+        if (accept && (await isBlockedEitherWay(me, from))) return ack?.({ ok: false, error: 'blocked' });
+
         if (accept) {
           // Добавляем дружбу в обе стороны
           await (User as any).updateOne({ _id: me },  { $addToSet: { friends: from } });
@@ -239,15 +224,9 @@ export default function registerFriendSockets(io: Server) {
         }
 
         // Уведомления
-        for (const s of io.sockets.sockets.values()) {
-          const uid = String((s as any).data?.userId || '');
-          if (uid === String(me)) {
-            (s as any).emit(accept ? 'friend:accepted' : 'friend:declined', { userId: from });
-          }
-          if (uid === String(from)) {
-            (s as any).emit(accept ? 'friend:accepted' : 'friend:declined', { userId: me });
-          }
-        }
+        const evt = accept ? 'friend:accepted' : 'friend:declined';
+        io.to(userRoom(String(me))).emit(evt, { userId: from });
+        io.to(userRoom(String(from))).emit(evt, { userId: me });
 
         return ack?.({ ok: true, status: accept ? 'accepted' : 'declined' });
       } catch (e: any) {
@@ -279,11 +258,8 @@ export default function registerFriendSockets(io: Server) {
         clearFriendshipCache(peerId);
 
         // Уведомляем обе стороны
-        for (const s of io.sockets.sockets.values()) {
-          const uid = String((s as any).data?.userId || '');
-          if (uid === String(me)) (s as any).emit('friend_removed', { userId: String(peerId) });
-          if (uid === String(peerId)) (s as any).emit('friend_removed', { userId: String(me) });
-        }
+        io.to(userRoom(String(me))).emit('friend_removed', { userId: String(peerId) });
+        io.to(userRoom(String(peerId))).emit('friend_removed', { userId: String(me) });
 
         return ack?.({ ok: true });
       } catch (e: any) {
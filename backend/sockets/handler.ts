@@ -1,17 +1,17 @@
 // backend/sockets/handler.ts
 import { Server } from "socket.io";
 import type { AuthedSocket } from "./types";
-import { bindWebRTC } from "./webrtc";
+import { bindWebRTC, type WebRTCDeps } from "./webrtc";
 import { bindMatch } from "./match"; // ✅ подключаем матчинг
 import { logger } from '../utils/logger';
 
-export function socketHandler(io: Server, socket: AuthedSocket) {
+export function socketHandler(io: Server, socket: AuthedSocket, deps: WebRTCDeps = {}) {
   logger.debug('Socket connected', { socketId: socket.id });
 
   /** =========================
    *  Подключаем WebRTC signaling
    *  ========================= */
-  bindWebRTC(io, socket);
+  bindWebRTC(io, socket, deps);
 
   /** =========================
    *  Подключаем Matchmaking
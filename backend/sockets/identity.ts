@@ -2,12 +2,13 @@
 import { Server } from 'socket.io';
 import mongoose, { ClientSession, Types } from 'mongoose';
 import User from '../models/User';
-import Message from '../models/Message';
-import OfflineMessage from '../models/OfflineMessage';
-import FriendshipMessages from '../models/FriendshipMessages';
 import Install from '../models/Install';
+import { issueSession } from '../utils/sessionTokens';
+import { wipeUserAccount } from '../utils/accountWipe';
+import { fetchUserSockets, getOnlineUserIds } from '../utils/socketCluster';
 // Cloudinary удален, используем только MongoDB
 import { getAndClearOfflineMessages, getAndClearOfflineChatClearedQueue } from './messagesReliable';
+import { logger } from '../utils/logger';
 
 type AttachPayload = {
   installId?: string | null;
@@ -15,21 +16,20 @@ type AttachPayload = {
 };
 
 /** ===== presence helpers ===== */
-function getOnlineList(io: Server): string[] {
-  const set = new Set<string>();
-  for (const s of io.sockets.sockets.values()) {
-    const uid = (s as any)?.data?.userId;
-    if (uid) set.add(String(uid));
-  }
-  return Array.from(set);
-}
-export async function bindUser(io: Server, sock: any, userId: string) {
-  // Проверяем, не подключен ли уже этот пользователь
-  const existingSocket = Array.from(io.sockets.sockets.values())
-    .find(s => (s as any)?.data?.userId === userId && s.id !== sock.id);
+export async function bindUser(io: Server, sock: any, userId: string, installId?: string) {
+  if (installId) sock.data.session = { userId: String(userId), installId };
+  const myInstall = String(sock.data?.session?.installId || '');
+
+  // У пользователя может быть несколько устройств (на любой ноде) — отключаем только
+  // прежнее соединение этого же устройства. Если устройство неизвестно (старые клиенты) — любое другое
+  const duplicates = (await fetchUserSockets(io, userId)).filter((s) => {
+    if (s.id === sock.id) return false;
+    const otherInstall = String((s.data as any)?.session?.installId || '');
+    return !myInstall || !otherInstall || otherInstall === myInstall;
+  });
 
-  if (existingSocket) {
-    console.warn(`[user] duplicate connection ${userId} old=${existingSocket.id} -> disconnect`);
+  for (const existingSocket of duplicates) {
+    logger.warn(`[user] duplicate connection ${userId} old=${existingSocket.id} -> disconnect`);
     existingSocket.disconnect(true);
   }
 
@@ -40,10 +40,10 @@ export async function bindUser(io: Server, sock: any, userId: string) {
     sock.join(`u:${userId}`); 
     // room join ok
   } catch (error) {
-    console.error(`❌ Failed to join room u:${userId}:`, error);
+    logger.error(`❌ Failed to join room u:${userId}:`, error);
   }
 
-  const list = getOnlineList(io);
+  const list = await getOnlineUserIds(io);
   io.emit('presence_update', list);
   io.emit('presence:update', list);
 
@@ -130,25 +130,26 @@ const attachRequestCache = new Map<string, { timestamp: number; promise: Promise
 export default function registerIdentitySockets(io: Server) {
   io.on('connection', (sock) => {
     // Обработка отключения пользователя
-    sock.on('disconnect', (reason) => {
+    sock.on('disconnect', async (reason) => {
       const userId = (sock as any).data?.userId;
       if (userId) {
         try { 
           sock.leave(`u:${userId}`); 
           // left room
         } catch (error) {
-          console.error(`❌ Failed to leave room u:${userId}:`, error);
+          logger.error(`❌ Failed to leave room u:${userId}:`, error);
         }
 
         // Обновляем список онлайн пользователей
-        const list = getOnlineList(io);
+        const list = await getOnlineUserIds(io);
         io.emit('presence_update', list);
         io.emit('presence:update', list);
       }
     });
     /* -------- identity:attach --------
        Привязка installId -> user + "мягкое" обновление профиля.
-       ВАЖНО: апдейтим ТОЛЬКО поля, которые пришли в payload.profile. */
+       ВАЖНО: апдейтим ТОЛЬКО поля, которые пришли в payload.profile.
+       В ack отдаём сессию (token/refreshToken/expiresAt), привязанную к installId. */
     sock.on('identity:attach', async (payload: AttachPayload, ack?: Function) => {
       const installId = String(payload?.installId || '').trim();
       const cacheKey = `${installId}_${sock.id}`;
@@ -161,7 +162,7 @@ export default function registerIdentitySockets(io: Server) {
         const cached = attachRequestCache.get(cacheKey);
 
         if (cached && (now - cached.timestamp) < 2000) { // 2 секунды защиты
-          console.warn(`[identity] attach duplicate blocked install=${installId}`);
+          logger.warn(`[identity] attach duplicate blocked install=${installId}`);
           return ack?.({ ok: false, error: 'duplicate_request' });
         }
 
@@ -171,7 +172,7 @@ export default function registerIdentitySockets(io: Server) {
         // КРИТИЧНО: Проверяем готовность MongoDB перед операциями
         // readyState: 0 = disconnected, 1 = connected, 2 = connecting, 3 = disconnecting
         if (mongoose.connection.readyState !== 1) {
-          console.error(`[identity] MongoDB not ready (state: ${mongoose.connection.readyState}), cannot process identity:attach`);
+          logger.error(`[identity] MongoDB not ready (state: ${mongoose.connection.readyState}), cannot process identity:attach`);
           ack?.({ ok: false, error: 'database_unavailable' });
           setTimeout(() => attachRequestCache.delete(cacheKey), 1000);
           return;
@@ -180,7 +181,7 @@ export default function registerIdentitySockets(io: Server) {
         // 1) install уже существует -> пользователь есть/нет
         // КРИТИЧНО: Проверка готовности уже выполнена выше, но проверяем еще раз для безопасности
         if (mongoose.connection.readyState !== 1) {
-          console.error(`[identity] MongoDB not ready (state: ${mongoose.connection.readyState}) during Install.findOne`);
+          logger.error(`[identity] MongoDB not ready (state: ${mongoose.connection.readyState}) during Install.findOne`);
           ack?.({ ok: false, error: 'database_unavailable' });
           setTimeout(() => attachRequestCache.delete(cacheKey), 1000);
           return;
@@ -188,10 +189,10 @@ export default function registerIdentitySockets(io: Server) {
         const inst = await Install.findOne({ installId }).lean();
         if (inst) {
           const userId = String((inst as any).user);
-          console.log(`[identity] Install found for ${installId}, checking user: ${userId}`);
+          logger.info(`[identity] Install found for ${installId}, checking user: ${userId}`);
           // КРИТИЧНО: Проверяем готовность перед User.exists
           if (mongoose.connection.readyState !== 1) {
-            console.error(`[identity] MongoDB not ready (state: ${mongoose.connection.readyState}) during User.exists`);
+            logger.error(`[identity] MongoDB not ready (state: ${mongoose.connection.readyState}) during User.exists`);
             ack?.({ ok: false, error: 'database_unavailable' });
             setTimeout(() => attachRequestCache.delete(cacheKey), 1000);
             return;
@@ -203,11 +204,11 @@ export default function registerIdentitySockets(io: Server) {
             const incomingProfile = payload?.profile || {};
             const hasIncomingData = !!(incomingProfile.nick || incomingProfile.avatar);
 
-            console.log(`[identity] User ${userId} not found, creating new user...`);
+            logger.info(`[identity] User ${userId} not found, creating new user...`);
             
             // КРИТИЧНО: Проверяем готовность MongoDB перед User.create
             if (mongoose.connection.readyState !== 1) {
-              console.error(`[identity] MongoDB not ready (state: ${mongoose.connection.readyState}) during User.create`);
+              logger.error(`[identity] MongoDB not ready (state: ${mongoose.connection.readyState}) during User.create`);
               ack?.({ ok: false, error: 'database_unavailable' });
               setTimeout(() => attachRequestCache.delete(cacheKey), 1000);
               return;
@@ -219,14 +220,14 @@ export default function registerIdentitySockets(io: Server) {
               avatar: '', // ВСЕГДА пустой для нового пользователя
               friends: [],
             });
-            console.log(`[identity] ✅ User created (recovered): ${userId}`, {
+            logger.info(`[identity] ✅ User created (recovered): ${userId}`, {
               _id: String(newUser._id),
               nick: newUser.nick,
               friendsCount: newUser.friends?.length || 0,
               dbName: mongoose.connection.db?.databaseName
             });
           } else {
-            console.log(`[identity] User ${userId} already exists, skipping creation`);
+            logger.info(`[identity] User ${userId} already exists, skipping creation`);
             // Пользователь существует - можно обновлять профиль
             // КРИТИЧНО: Проверяем готовность MongoDB перед User.updateOne
             if (mongoose.connection.readyState === 1) {
@@ -236,12 +237,12 @@ export default function registerIdentitySockets(io: Server) {
                 await broadcastProfileToFriends(io, userId);
               }
             } else {
-              console.warn(`[identity] MongoDB not ready (state: ${mongoose.connection.readyState}), skipping profile update`);
+              logger.warn(`[identity] MongoDB not ready (state: ${mongoose.connection.readyState}), skipping profile update`);
             }
           }
 
-          await bindUser(io, sock, userId);
-          ack?.({ ok: true, userId });
+          await bindUser(io, sock, userId, installId);
+          ack?.({ ok: true, userId, ...issueSession(userId, installId) });
 
           // Очищаем кэш
           setTimeout(() => attachRequestCache.delete(cacheKey), 1000);
@@ -255,11 +256,11 @@ export default function registerIdentitySockets(io: Server) {
         const incomingProfile = payload?.profile || {};
         const hasIncomingData = !!(incomingProfile.nick || incomingProfile.avatar);
 
-        console.log(`[identity] Creating new user for installId: ${installId}, newUserId: ${newUserId}`);
+        logger.info(`[identity] Creating new user for installId: ${installId}, newUserId: ${newUserId}`);
 
         // КРИТИЧНО: Проверяем готовность MongoDB перед созданием пользователя
         if (mongoose.connection.readyState !== 1) {
-          console.error(`[identity] MongoDB not ready (state: ${mongoose.connection.readyState}) during user creation`);
+          logger.error(`[identity] MongoDB not ready (state: ${mongoose.connection.readyState}) during user creation`);
           ack?.({ ok: false, error: 'database_unavailable' });
           setTimeout(() => attachRequestCache.delete(cacheKey), 1000);
           return;
@@ -284,7 +285,7 @@ export default function registerIdentitySockets(io: Server) {
             opt as any
           );
           const [newInstall] = await Install.create([{ installId, user: newUserId }], opt as any);
-          console.log(`[identity] ✅ User created (new): ${newUserId}`, {
+          logger.info(`[identity] ✅ User created (new): ${newUserId}`, {
             _id: String(newUser._id),
             nick: newUser.nick,
             friendsCount: newUser.friends?.length || 0,
@@ -295,7 +296,7 @@ export default function registerIdentitySockets(io: Server) {
           
           // Дополнительная проверка - считаем пользователей после создания
           const totalUsers = await User.countDocuments();
-          console.log(`[identity] 📊 Total users in database after creation: ${totalUsers}`);
+          logger.info(`[identity] 📊 Total users in database after creation: ${totalUsers}`);
         };
 
         if (session) {
@@ -310,14 +311,14 @@ export default function registerIdentitySockets(io: Server) {
           }
         }
 
-        await bindUser(io, sock, String(newUserId));
-        ack?.({ ok: true, userId: String(newUserId) });
+        await bindUser(io, sock, String(newUserId), installId);
+        ack?.({ ok: true, userId: String(newUserId), ...issueSession(String(newUserId), installId) });
 
         // Очищаем кэш
         setTimeout(() => attachRequestCache.delete(cacheKey), 1000);
         return;
       } catch (e: any) {
-        console.error(`[identity] ❌ attach error:`, {
+        logger.error(`[identity] ❌ attach error:`, {
           error: e?.message || String(e),
           stack: e?.stack?.substring(0, 500),
           installId,
@@ -351,7 +352,6 @@ export default function registerIdentitySockets(io: Server) {
     /* -------- identity:wipeMe --------
        Полное удаление аккаунта по installId (+чистка дружб/заявок). */
     sock.on('identity:wipeMe', async ({ installId }: { installId?: string }, ack?: Function) => {
-      let session: ClientSession | null = null;
       try {
         const id = String(installId || '').trim();
         if (!id) return ack?.({ ok: false, error: 'no_installId' });
@@ -365,74 +365,17 @@ export default function registerIdentitySockets(io: Server) {
         const userId = inst && (inst as any).user ? String((inst as any).user) : '';
         if (!userId) return ack?.({ ok: false, error: 'not_found' });
 
-        try { session = await mongoose.startSession(); } catch {}
-
-        const work = async (s?: ClientSession) => {
-          const opt = s ? { session: s } : undefined;
-          
-          // FriendRequest больше не используется - удаляем только из друзей
-          await User.updateMany(
-            { friends: userId },
-            { $pull: { friends: userId } },
-            opt as any
-          );
-          // 1) Разрываем дружбы у других
-          await User.updateMany(
-            { friends: userId },
-            { $pull: { friends: userId } },
-            opt as any,
-          );
-
-          // 2) Удаляем входящие заявки у других
-          await User.updateMany(
-            { friendRequests: userId },
-            { $pull: { friendRequests: userId } },
-            opt as any,
-          );
-
-          // 3) Чистим сообщения (две модели + офлайн)
-          await Message.deleteMany({ $or: [{ from: userId }, { to: userId }] }, opt as any);
-          await OfflineMessage.deleteMany({ $or: [{ senderId: userId }, { recipientId: userId }] }, opt as any);
-          await FriendshipMessages.deleteMany({ $or: [{ user1: userId }, { user2: userId }] }, opt as any);
-
-          // 4) Очищаем данные пользователя вместо удаления
-          await User.updateOne(
-            { _id: userId }, 
-            { 
-              $set: { 
-                nick: '', 
-                avatar: '', 
-                avatarB64: '', 
-                avatarThumbB64: '', 
-                avatarVer: 0,
-                friends: [],
-                friendRequests: []
-              } 
-            }, 
-            opt as any
-          );
-          
-          // Удаляем только инсталлы (пользователь остается с тем же ID)
-          await Install.deleteMany({ user: userId }, opt as any);
-        };
-
-        if (session) {
-          await session.withTransaction(async () => { await work(session!); });
-          await session.endSession();
-        } else {
-          await work();
-        }
+        await wipeUserAccount(userId);
 
         // отвязываем сокет и обновляем presence
         (sock as any).data.userId = undefined;
         try { sock.leave(`u:${userId}`); } catch {}
-        const list = getOnlineList(io);
+        const list = await getOnlineUserIds(io);
         io.emit('presence_update', list);
         io.emit('presence:update', list);
 
         ack?.({ ok: true });
       } catch (e: any) {
-        try { session?.endSession(); } catch {}
         ack?.({ ok: false, error: e?.message || 'server_error' });
       }
     });
@@ -1,9 +1,16 @@
 import type { Server } from 'socket.io';
-import type { AuthedSocket } from './types';
+import type { AuthedSocket, MatchPrefs } from './types';
 import { logger } from '../utils/logger';
+import { correlationFor, getLogContext, linkCorrelation, newCorrelationId } from '../utils/logContext';
 import { createToken, getLiveKitUrl } from '../routes/livekit';
 import * as queueStore from '../utils/queueStore';
+import { metrics } from '../utils/metrics';
+import { drainingPayload, isDraining } from '../utils/draining';
+import { getRandomMode, getTunables } from '../utils/remoteConfig';
 import User from '../models/User';
+import { isBlockedEitherWay } from '../utils/blockUtils';
+import { getSuspension } from '../utils/moderation';
+import { isClustered } from '../utils/socketCluster';
 
 // === Очередь ожидания ========================================================
 // Используем распределенное хранилище через queueStore
@@ -11,11 +18,12 @@ const matchInProgress = new Set<string>(); // Локальный Set для пр
 
 // === Константы ===============================================================
 const NEXT_DEBOUNCE_MS = 500;
-const REMATCH_BAN_MS = 5000; // Увеличили до 5 секунд для предотвращения немедленного рематча
 const START_RATE_LIMIT_MS = 2000; // Максимум 1 start в 2 секунды (защита от DDoS)
 const MATCH_RATE_LIMIT_MS = 1500; // Максимум 1 попытка матчинга в 1.5 секунды (защита от перегрузки CPU)
-const QUEUE_TIMEOUT_MS = 5 * 60 * 1000; // 5 минут - максимальное время ожидания в очереди
 const QUEUE_CLEANUP_INTERVAL_MS = 30 * 1000; // Очистка каждые 30 секунд
+// Бан рематча, таймаут очереди и снятие фильтров (relaxed) — tunables в remote config (utils/remoteConfig)
+const MAX_INTERESTS = 10;
+const MAX_INTEREST_LENGTH = 32;
 
 // === Вспомогательные =========================================================
 function safeGet(io: Server, sid: string): AuthedSocket | undefined {
@@ -28,8 +36,17 @@ async function removeFromQueue(sid: string) {
 async function inQueue(sid: string) {
   return await queueStore.isInQueue(sid);
 }
-async function pushToQueue(sid: string) {
-  await queueStore.addToQueue(sid);
+/** Данные ожидающего для очереди: по ним его подбирают в пару и с других нод */
+export function queueMetaOf(s: AuthedSocket): queueStore.QueueMeta {
+  return { userId: s.data.userId ? String(s.data.userId) : undefined, prefs: s.data.matchPrefs };
+}
+async function pushToQueue(s: AuthedSocket) {
+  await queueStore.addToQueue(s.id, queueMetaOf(s));
+}
+/** Сокет жив где-либо в кластере (io.sockets.sockets видит только свою ноду) */
+async function isSocketAlive(io: Server, sid: string) {
+  if (safeGet(io, sid)) return true;
+  return (await io.in(sid).fetchSockets()).length > 0;
 }
 /**
  * Оптимизированная отправка presence:update только друзьям пользователя
@@ -71,14 +88,6 @@ async function markBusy(io: Server, s: AuthedSocket, busy: boolean) {
   const userId = String(s.data.userId || '');
   if (userId) await emitPresenceUpdateToFriends(io, userId, busy);
 }
-async function lockPair(a: AuthedSocket, b: AuthedSocket) {
-  await Promise.all([
-    queueStore.lockSocket(a.id),
-    queueStore.lockSocket(b.id),
-  ]);
-  a.data.inCall = true;
-  b.data.inCall = true;
-}
 async function unlockPair(aSid?: string, bSid?: string) {
   const promises: Promise<void>[] = [];
   if (aSid) promises.push(queueStore.unlockSocket(aSid));
@@ -88,10 +97,73 @@ async function unlockPair(aSid?: string, bSid?: string) {
 async function bannedTogether(aSid: string, bSid: string) {
   return await queueStore.isBannedTogether(aSid, bSid);
 }
-async function banPair(aSid: string, bSid: string, ms = REMATCH_BAN_MS) {
+async function banPair(aSid: string, bSid: string, ms = getTunables().rematchBanMs) {
   await queueStore.banPair(aSid, bSid, ms);
 }
-function makeRoomId(aSid: string, bSid: string) {
+// === Предпочтения (язык / интересы) ===========================================
+type StartPayload = {
+  lang?: string;
+  interests?: string[];
+  strict?: boolean;
+  relaxAfterSec?: number;
+};
+
+/** Какие критерии совпали у пары — уходит в match_found */
+type MatchCriteria = {
+  language: string | null;
+  interests: string[];
+  relaxed: boolean; // true — чей-то фильтр был снят по таймауту ожидания
+};
+
+function parseMatchPrefs(raw: StartPayload | undefined, now: number): MatchPrefs {
+  const lang = String(raw?.lang || '').trim().toLowerCase();
+  const interests = Array.isArray(raw?.interests)
+    ? Array.from(new Set(
+        raw!.interests
+          .map((i) => String(i || '').trim().toLowerCase().slice(0, MAX_INTEREST_LENGTH))
+          .filter(Boolean)
+      )).slice(0, MAX_INTERESTS)
+    : [];
+  const relaxAfterSec = Number(raw?.relaxAfterSec);
+  return {
+    lang: /^[a-z]{2,3}(-[a-z0-9]{2,8})?$/.test(lang) ? lang : undefined,
+    interests,
+    strict: raw?.strict === true,
+    relaxAfterMs: Number.isFinite(relaxAfterSec)
+      ? Math.min(120, Math.max(5, relaxAfterSec)) * 1000
+      : getTunables().matchRelaxAfterMs,
+    searchingSince: now,
+  };
+}
+
+/** Язык сравниваем по основному подтегу (zh-tw ~ zh) */
+const primaryLang = (lang?: string) => (lang ? lang.split('-')[0] : '');
+
+const hasFilters = (p?: MatchPrefs) => !!p && (!!p.lang || p.interests.length > 0);
+
+/**
+ * Подходят ли двое друг другу. Фильтр каждой стороны действует, пока она не ждёт дольше relaxAfterMs
+ * (в strict-режиме — всегда). null — не подходят.
+ */
+function evaluateCriteria(pa: MatchPrefs | undefined, pb: MatchPrefs | undefined, now: number): MatchCriteria | null {
+  const langA = primaryLang(pa?.lang);
+  const sameLang = !!langA && langA === primaryLang(pb?.lang);
+  const common = pa && pb ? pa.interests.filter((i) => pb.interests.includes(i)) : [];
+
+  let relaxed = false;
+  for (const p of [pa, pb]) {
+    if (!p) continue;
+    const unmet = (!!p.lang && !sameLang) || (p.interests.length > 0 && common.length === 0);
+    if (!unmet) continue;
+    const canRelax = !p.strict && now - p.searchingSince >= p.relaxAfterMs;
+    if (!canRelax) return null;
+    relaxed = true;
+  }
+
+  return { language: sameLang ? langA : null, interests: common, relaxed };
+}
+
+export function makeRoomId(aSid: string, bSid: string) {
   const sorted = [aSid, bSid].sort();
   return `room_${sorted[0]}_${sorted[1]}`;
 }
@@ -99,8 +171,16 @@ function makeRoomNameByUserId(aUserId: string, bUserId: string) {
   const sorted = [aUserId, bUserId].sort();
   return `room_${sorted[0]}_${sorted[1]}`;
 }
+/** Пара распалась: пишем длительность один раз на пару (matchedAt партнёра сбрасывает его нода, см. applyPairOp) */
+function recordSessionEnd(me: AuthedSocket, reason: 'next'|'stop'|'disconnect') {
+  const matchedAt = me.data.matchedAt;
+  if (matchedAt) metrics.randomSessionSeconds.observe((Date.now() - matchedAt) / 1000, { reason });
+  me.data.matchedAt = undefined;
+}
+
 async function clearPartner(io: Server, me: AuthedSocket, notifyOther: boolean, reason: 'next'|'stop'|'disconnect') {
   const otherSid = me.data.partnerSid as string | undefined;
+  if (otherSid) recordSessionEnd(me, reason);
   
   // КРИТИЧНО: Всегда очищаем состояние текущего сокета, даже если партнера нет
   // Это важно для случаев, когда партнер уже отключился или очистил свое состояние
@@ -108,20 +188,81 @@ async function clearPartner(io: Server, me: AuthedSocket, notifyOther: boolean,
   me.data.inCall = false;
   await unlockPair(me.id);
 
-  // Если партнер существует, очищаем и его состояние
-  if (otherSid) {
-    const other = safeGet(io, otherSid);
-    if (other) {
-      other.data.partnerSid = undefined;
-      other.data.inCall = false;
-      if (notifyOther) {
-        if (reason === 'disconnect') other.emit('disconnected');
-        else other.emit('peer:stopped');
-      }
-      await markBusy(io, other, false);
-      await unlockPair(other.id);
-    }
+  // Если партнер существует, очищаем и его состояние (на его ноде)
+  if (otherSid) await sendPairOp(io, { op: 'left', sid: otherSid, partnerSid: me.id, reason, notify: notifyOther });
+}
+
+// === Пара на разных нодах =====================================================
+// Очередь общая (Redis), поэтому партнёр может жить на другом процессе. Его socket.data меняет
+// только своя нода: локальный сокет — напрямую, чужой — через io.serverSideEmit (Redis-адаптер).
+const PAIR_EVENT = 'match:pair';
+
+type PairOp =
+  | { op: 'paired'; sid: string; partnerSid: string; matchedAt: number }
+  | { op: 'left'; sid: string; partnerSid: string; reason: 'next'|'stop'|'disconnect'; notify: boolean };
+
+async function applyPairOp(io: Server, op: PairOp) {
+  const s = safeGet(io, op.sid);
+  if (!s) return;
+
+  if (op.op === 'paired') {
+    s.data.partnerSid = op.partnerSid;
+    s.data.inCall = true;
+    s.data.matchedAt = op.matchedAt;
+    await markBusy(io, s, true);
+    return;
   }
+
+  // Сокет уже в другой паре (гонка с новым матчем) — не трогаем
+  if (s.data.partnerSid && s.data.partnerSid !== op.partnerSid) return;
+  s.data.partnerSid = undefined;
+  s.data.inCall = false;
+  s.data.matchedAt = undefined;
+  await unlockPair(s.id);
+
+  if (op.reason !== 'next') {
+    if (op.notify) s.emit(op.reason === 'disconnect' ? 'disconnected' : 'peer:stopped');
+    await markBusy(io, s, false);
+    return;
+  }
+
+  // Партнёр нажал "Далее": этот сокет сразу возвращается в поиск
+  // КРИТИЧНО: Удаляем из очереди и очищаем комнаты
+  await removeFromQueue(s.id);
+  s.rooms.forEach(r => { if (r !== s.id) s.leave(r); });
+  s.data.roomId = undefined;
+  // ЧАТРУЛЕТКА: Отправляем peer:left (партнер нажал "Далее", значит этот сокет должен начать новый поиск)
+  s.emit('peer:left');
+  await markBusy(io, s, true);
+  setTimeout(async () => {
+    // Еще раз проверяем и очищаем перед добавлением в очередь
+    s.data.partnerSid = undefined;
+    s.data.inCall = false;
+    await unlockPair(s.id);
+    // Нода останавливается: в очередь не ставим, клиент сам встанет после переподключения
+    if (isDraining() || !s.connected) return;
+    resetSearchingSince(s);
+    await pushToQueue(s);
+    logger.debug('Partner re-added to queue after next', { socketId: s.id });
+    runTryMatch(io, s);
+    scheduleRelaxedRetry(io, s);
+  }, 100); // Небольшая задержка для синхронизации
+}
+
+async function sendPairOp(io: Server, op: PairOp) {
+  if (safeGet(io, op.sid)) return applyPairOp(io, op);
+  // Без кластера чужих нод нет — сокет просто уже отключился
+  if (!isClustered()) return;
+  io.serverSideEmit(PAIR_EVENT, op);
+}
+
+/** Принимаем изменения пар от других нод (один раз на io) */
+export function registerMatchCluster(io: Server) {
+  io.of('/').on(PAIR_EVENT, (op: PairOp) => {
+    applyPairOp(io, op).catch((e: any) => {
+      logger.error('Failed to apply pair update from another node', { op: op?.op, socketId: op?.sid, error: e?.message || e });
+    });
+  });
 }
 
 // === Матчинг ================================================================
@@ -130,6 +271,9 @@ async function clearPartner(io: Server, me: AuthedSocket, notifyOther: boolean,
  * Экспортируется для использования в других модулях (например, index.ts)
  */
 export async function tryMatch(io: Server, socket: AuthedSocket): Promise<boolean> {
+  // Нода останавливается — новые пары не создаём, клиенты переподключатся к другой
+  if (isDraining()) return false;
+
   // Rate limiting: проверяем, не слишком ли часто происходят попытки матчинга
   const now = Date.now();
   const lastAttempt = await queueStore.getLastMatchAttempt(socket.id) || 0;
@@ -162,29 +306,45 @@ export async function tryMatch(io: Server, socket: AuthedSocket): Promise<boolea
   }
 
   const waitQueue = await queueStore.getWaitingQueue();
-  let candidateSid: string | undefined;
+  // Кандидат может быть подключён к другой ноде: userId и фильтры берём из очереди, а не из socket.data
+  const metas = await queueStore.getQueueMeta(waitQueue);
+  const myUserId = String(socket.data.userId || '');
+  let candidate: { sid: string; userId: string; prefs?: MatchPrefs } | undefined;
+  let criteria: MatchCriteria | null = null;
   
   for (const sid of waitQueue) {
     if (sid === socket.id) continue;
     const isLocked = await queueStore.isLocked(sid);
     if (isLocked) continue;
-    const other = safeGet(io, sid);
-    if (!other || other.data.partnerSid) continue;
+    const local = safeGet(io, sid);
+    if (local?.data.partnerSid) continue;
+    const meta = metas.get(sid) ?? (local ? queueMetaOf(local) : undefined);
+    if (!meta) continue;
     
     // Проверяем, что это не один и тот же пользователь (по userId)
     // Это важно, если пользователь подключен с нескольких устройств
-    const myUserId = String(socket.data.userId || '');
-    const otherUserId = String(other.data.userId || '');
+    const otherUserId = String(meta.userId || '');
     if (myUserId && otherUserId && myUserId === otherUserId) {
       logger.debug('Skipping self-match by userId', { socketId: socket.id, userId: myUserId, otherSocketId: sid });
       continue;
     }
     
+    // Чёрный список: заблокированные друг другу не попадаются никогда (в отличие от временного banPair)
+    if (myUserId && otherUserId && (await isBlockedEitherWay(myUserId, otherUserId))) {
+      logger.debug('Skipping blocked pair', { socketId: socket.id, otherSocketId: sid });
+      continue;
+    }
+    
     // КРИТИЧНО: Друзья могут попадаться в рандомном чате - это нормально и не блокирует работу
     // Проверка на дружбу НЕ выполняется здесь, так как друзья имеют право общаться в рандомном чате
     
+    // Фильтры по языку/интересам (с учётом relaxed-расширения по времени ожидания)
+    const pairCriteria = evaluateCriteria(socket.data.matchPrefs, meta.prefs, now);
+    if (!pairCriteria) continue;
+    criteria = pairCriteria;
+    
     // Проверяем бан перед проверкой размера очереди
-    const isBanned = await bannedTogether(socket.id, other.id);
+    const isBanned = await bannedTogether(socket.id, sid);
     
     // КРИТИЧНО: Если в очереди только 2 пользователя, разрешаем матч даже если они в бане
     // Это необходимо для тестирования и работы с небольшим количеством пользователей
@@ -193,60 +353,66 @@ export async function tryMatch(io: Server, socket: AuthedSocket): Promise<boolea
       if (isBanned) {
         logger.debug('Only 2 users in queue, allowing match despite ban (testing/small user base)', {
           socketId: socket.id,
-          otherId: other.id,
+          otherId: sid,
           waitQueueSize: queueSize
         });
         // Разрешаем матч даже если в бане, если в очереди только 2 пользователя
-        candidateSid = sid;
+        candidate = { sid, userId: otherUserId, prefs: meta.prefs };
         break;
       }
       logger.debug('Only 2 users in queue, allowing match');
-      candidateSid = sid;
+      candidate = { sid, userId: otherUserId, prefs: meta.prefs };
       break;
     }
     
     // Если в очереди больше 2 пользователей, проверяем бан
     if (isBanned) continue;
-    candidateSid = sid;
+    candidate = { sid, userId: otherUserId, prefs: meta.prefs };
     break;
   }
 
-  if (!candidateSid) {
+  if (!candidate || !criteria) {
     logger.debug('No candidate found', { socketId: socket.id });
     return false;
   }
 
-  await removeFromQueue(socket.id);
-  await removeFromQueue(candidateSid);
+  const otherSid = candidate.sid;
+  const otherUserId = candidate.userId;
 
-  const other = safeGet(io, candidateSid);
-  if (!other) return false;
-
-  logger.info('Match found', { socket1: socket.id, socket2: other.id });
+  // КРИТИЧНО: Атомарно забираем обоих из очереди и лочим — при нескольких процессах backend
+  // (общий Redis) второй претендент на того же кандидата получит false и продолжит поиск позже
+  const claimed = await queueStore.claimPair(socket.id, otherSid);
+  if (!claimed) {
+    logger.debug('Candidate already claimed', { socketId: socket.id, otherId: otherSid });
+    return false;
+  }
 
-  socket.data.partnerSid = other.id;
-  other.data.partnerSid = socket.id;
+  logger.info('Match found', { socket1: socket.id, socket2: otherSid, criteria });
 
-  await lockPair(socket, other);
+  const matchedAt = Date.now();
+  socket.data.partnerSid = otherSid;
+  socket.data.inCall = true;
+  socket.data.matchedAt = matchedAt;
+  for (const prefs of [socket.data.matchPrefs, candidate.prefs]) {
+    const since = prefs?.searchingSince;
+    if (since) metrics.matchWaitSeconds.observe((matchedAt - since) / 1000, { relaxed: criteria.relaxed ? 'true' : 'false' });
+  }
   await markBusy(io, socket, true);
-  await markBusy(io, other, true);
-
-  const myUserId = String(socket.data.userId || '');
-  const otherUserId = String(other.data.userId || '');
+  await sendPairOp(io, { op: 'paired', sid: otherSid, partnerSid: socket.id, matchedAt });
 
   logger.debug('Sending match_found events', { 
     socket1: socket.id, userId1: myUserId, 
-    socket2: other.id, userId2: otherUserId 
+    socket2: otherSid, userId2: otherUserId 
   });
 
-  const roomId = makeRoomId(socket.id, other.id);
+  const roomId = makeRoomId(socket.id, otherSid);
   
   // Создаем roomName на основе userId для LiveKit
   let livekitTokenA: string | null = null;
   let livekitTokenB: string | null = null;
   let livekitRoomName: string = roomId;
   const livekitIdentityA = myUserId || `socket:${socket.id}`;
-  const livekitIdentityB = otherUserId || `socket:${other.id}`;
+  const livekitIdentityB = otherUserId || `socket:${otherSid}`;
   
   if (myUserId && otherUserId) {
     livekitRoomName = makeRoomNameByUserId(myUserId, otherUserId);
@@ -264,42 +430,71 @@ export async function tryMatch(io: Server, socket: AuthedSocket): Promise<boolea
     logger.error('Failed to create LiveKit tokens:', e);
   }
   
+  // Дальнейшие события пары (livekit:token, next, stop) идут в логах под cid поиска, нашедшего пару
+  linkCorrelation(roomId, getLogContext()?.cid || newCorrelationId());
+  linkCorrelation(livekitRoomName, correlationFor(roomId));
+
+  // Через комнаты сокетов: с Redis-адаптером событие дойдёт и до сокета на другой ноде
   io.to(socket.id).emit('match_found', { 
     roomId, 
-    id: other.id, 
+    id: otherSid, 
     userId: otherUserId || null,
     livekitToken: livekitTokenA,
     livekitRoomName,
     livekitUrl: getLiveKitUrl() || null,
+    criteria,
   });
-  io.to(other.id).emit('match_found', { 
+  io.to(otherSid).emit('match_found', { 
     roomId, 
     id: socket.id, 
     userId: myUserId || null,
     livekitToken: livekitTokenB,
     livekitRoomName,
     livekitUrl: getLiveKitUrl() || null,
+    criteria,
   });
 
   return true;
 }
 
+function runTryMatch(io: Server, target: AuthedSocket) {
+  if (matchInProgress.has(target.id)) return;
+  matchInProgress.add(target.id);
+  void tryMatch(io, target)
+    .catch((e: any) => {
+      logger.error('tryMatch failed', { socketId: target.id, error: e?.message || e });
+    })
+    .finally(() => {
+      matchInProgress.delete(target.id);
+    });
+}
+
+// Ожидающий с фильтрами не получит новый tryMatch сам по себе — повторяем попытку, когда фильтры снимутся
+function scheduleRelaxedRetry(io: Server, target: AuthedSocket) {
+  const prefs = target.data.matchPrefs;
+  if (!prefs || prefs.strict || !hasFilters(prefs)) return;
+  const since = prefs.searchingSince;
+  setTimeout(async () => {
+    if (!target.connected || target.data.partnerSid) return;
+    if (target.data.matchPrefs?.searchingSince !== since) return; // уже новый поиск
+    if (!(await inQueue(target.id))) return;
+    runTryMatch(io, target);
+  }, prefs.relaxAfterMs + 50);
+}
+
+function resetSearchingSince(target: AuthedSocket) {
+  if (target.data.matchPrefs) target.data.matchPrefs.searchingSince = Date.now();
+}
+
 // === Основная логика ========================================================
 export function bindMatch(io: Server, socket: AuthedSocket) {
-  const runTryMatch = (target: AuthedSocket) => {
-    if (matchInProgress.has(target.id)) return;
-    matchInProgress.add(target.id);
-    void tryMatch(io, target)
-      .catch((e: any) => {
-        logger.error('tryMatch failed', { socketId: target.id, error: e?.message || e });
-      })
-      .finally(() => {
-        matchInProgress.delete(target.id);
-      });
-  };
-
   // === START ================================================================
-  socket.on('start', async () => {
+  socket.on('start', async (payload?: StartPayload) => {
+    if (isDraining()) {
+      socket.emit('server:draining', drainingPayload());
+      return;
+    }
+
     // Rate limiting: защита от DDoS через множественные start запросы
     const now = Date.now();
     const lastStart = await queueStore.getLastStart(socket.id) || 0;
@@ -313,11 +508,17 @@ export function bindMatch(io: Server, socket: AuthedSocket) {
     }
     await queueStore.setLastStart(socket.id, now);
 
+    // Отстранённые (жалобы/модерация) в очередь не попадают
+    const suspension = await getSuspension(socket.data.userId).catch(() => null);
+    if (suspension) {
+      socket.emit('match:suspended', { until: suspension.until.toISOString(), reason: suspension.reason });
+      return;
+    }
+
     // Если уже есть партнер и он существует — не ломаем активную сессию.
     const existingPartnerSid = socket.data.partnerSid as string | undefined;
     if (existingPartnerSid) {
-      const partner = safeGet(io, existingPartnerSid);
-      if (partner) {
+      if (await isSocketAlive(io, existingPartnerSid)) {
         logger.debug('Start ignored: socket already has partner', { socketId: socket.id, partnerSid: existingPartnerSid });
         return;
       }
@@ -343,11 +544,16 @@ export function bindMatch(io: Server, socket: AuthedSocket) {
     socket.data.inCall = false;
     await unlockPair(socket.id);
 
+    // Без payload (старые клиенты) — ищем без фильтров; вариант classic — фильтры не учитываем
+    const classic = getRandomMode(socket.data.userId ? String(socket.data.userId) : null) === 'classic';
+    socket.data.matchPrefs = parseMatchPrefs(classic ? undefined : payload, now);
+
     await markBusy(io, socket, true);
-    await pushToQueue(socket.id);
+    await pushToQueue(socket);
     // КРИТИЧНО: Вызываем tryMatch немедленно, без задержек
     // Это гарантирует быстрое нахождение собеседника
-    runTryMatch(socket);
+    runTryMatch(io, socket);
+    scheduleRelaxedRetry(io, socket);
   });
 
   // === NEXT ================================================================
@@ -359,6 +565,7 @@ export function bindMatch(io: Server, socket: AuthedSocket) {
       return;
     }
     await queueStore.setLastSearch(socket.id, now);
+    metrics.matchNext.inc();
 
     logger.debug('Next requested', { socketId: socket.id });
     socket.data.isNexting = true;
@@ -367,32 +574,10 @@ export function bindMatch(io: Server, socket: AuthedSocket) {
     // 1. Разрываем пару с предыдущим партнером
     const prevPartner = socket.data.partnerSid as string | undefined;
     if (prevPartner) {
-      const other = safeGet(io, prevPartner);
-      if (other) {
-        await banPair(socket.id, other.id);
-        // КРИТИЧНО: Полностью очищаем состояние партнера
-        other.data.partnerSid = undefined;
-        other.data.inCall = false;
-        await unlockPair(other.id);
-        // КРИТИЧНО: Удаляем партнера из очереди и очищаем комнаты
-        await removeFromQueue(other.id);
-        other.rooms.forEach(r => { if (r !== other.id) other.leave(r); });
-        other.data.roomId = undefined;
-        // ЧАТРУЛЕТКА: Отправляем peer:left партнеру (он нажал "Далее", значит партнер должен начать новый поиск)
-        other.emit('peer:left');
-        // КРИТИЧНО: Автоматически возвращаем партнера в очередь для нового поиска
-        // Это гарантирует, что он сразу начнет искать нового собеседника
-        await markBusy(io, other, true);
-        setTimeout(async () => {
-          // Еще раз проверяем и очищаем перед добавлением в очередь
-          other.data.partnerSid = undefined;
-          other.data.inCall = false;
-          await unlockPair(other.id);
-          await pushToQueue(other.id);
-          logger.debug('Partner re-added to queue after next', { socketId: other.id });
-          runTryMatch(other);
-        }, 100); // Небольшая задержка для синхронизации
-      }
+      recordSessionEnd(socket, 'next');
+      await banPair(socket.id, prevPartner);
+      // Партнёр (возможно, на другой ноде) получает peer:left и сам возвращается в очередь
+      await sendPairOp(io, { op: 'left', sid: prevPartner, partnerSid: socket.id, reason: 'next', notify: true });
     }
 
     // 2. Полностью очищаем состояние текущего сокета
@@ -413,15 +598,22 @@ export function bindMatch(io: Server, socket: AuthedSocket) {
       socket.data.inCall = false;
       await unlockPair(socket.id);
       socket.data.isNexting = false;
+      if (isDraining()) {
+        socket.emit('server:draining', drainingPayload());
+        return;
+      }
       
-      await pushToQueue(socket.id);
+      resetSearchingSince(socket);
+      await pushToQueue(socket);
       logger.debug('Socket re-added to queue', { socketId: socket.id });
-      runTryMatch(socket);
+      runTryMatch(io, socket);
+      scheduleRelaxedRetry(io, socket);
     }, 400);
   });
 
   // === STOP ================================================================
   socket.on('stop', async () => {
+    metrics.matchStop.inc();
     await removeFromQueue(socket.id);
     await clearPartner(io, socket, true, 'stop');
     socket.data.inCall = false;
@@ -469,7 +661,7 @@ export function startQueueCleanup(io: Server): void {
     try {
       // 1. Очистка устаревших записей из очереди
       const staleSids = await queueStore.cleanupStaleQueueEntries(
-        QUEUE_TIMEOUT_MS,
+        getTunables().queueTimeoutMs,
         isSocketConnected
       );
 
@@ -509,7 +701,7 @@ export function startQueueCleanup(io: Server): void {
 
   logger.info('Queue cleanup started', { 
     intervalMs: QUEUE_CLEANUP_INTERVAL_MS,
-    timeoutMs: QUEUE_TIMEOUT_MS
+    timeoutMs: getTunables().queueTimeoutMs
   });
 }
 
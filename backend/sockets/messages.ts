@@ -4,6 +4,8 @@ import mongoose from 'mongoose';
 import User from '../models/User';
 import Message from '../models/Message';
 import { areFriendsCached } from '../utils/friendshipUtils';
+import { logger } from '../utils/logger';
+import { isUserOnline, userRoom } from '../utils/socketCluster';
 
 const isOid = (s?: string) => !!s && mongoose.Types.ObjectId.isValid(String(s));
 
@@ -93,7 +95,7 @@ export async function clearChatMessages(userId1: string, userId2: string, forAll
     
     return result.deletedCount > 0;
   } catch (error) {
-    console.error('[clearChatMessages] error:', error);
+    logger.error('[clearChatMessages] error:', error);
     return false;
   }
 }
@@ -108,7 +110,7 @@ export async function deleteMessage(messageId: string, userId: string): Promise<
 
     return result.deletedCount > 0;
   } catch (error) {
-    console.error('[deleteMessage] error:', error);
+    logger.error('[deleteMessage] error:', error);
     return false;
   }
 }
@@ -139,7 +141,7 @@ export async function loadMessagesFromDB(userId: string, fromUserId: string, lim
       read: msg.read,
     }));
   } catch (error) {
-    console.error('[loadMessagesFromDB] error:', error);
+    logger.error('[loadMessagesFromDB] error:', error);
     return [];
   }
 }
@@ -212,31 +214,12 @@ export default function registerMessageSockets(io: Server) {
         // Отправляем получателю (НЕ отправителю!)
         let delivered = false;
 
-        // Сначала пробуем отправить через room (более надежно)
+        // Комната u:<userId> доставляется адаптером на все сокеты получателя на всех нодах
         try {
-          const recipientRoom = `u:${payload.to}`;
-          io.to(recipientRoom).emit('message:received', message);
-
-          // Проверяем, есть ли кто-то в этой комнате
-          const roomSockets = await io.in(recipientRoom).fetchSockets();
-          if (roomSockets.length > 0) {
-            delivered = true;
-          } else {}
+          io.to(userRoom(payload.to)).emit('message:received', message);
+          delivered = await isUserOnline(io, payload.to);
         } catch (error) {
-          console.warn(`⚠️ Failed to send via room, falling back to direct search:`, error);
-        }
-
-        // Fallback: прямой поиск по всем сокетам
-        if (!delivered) {
-          for (const s of io.sockets.sockets.values()) {
-            const socketUserId = String((s as any).data?.userId);
-
-            if (socketUserId === String(payload.to)) {
-              (s as any).emit('message:received', message);
-              delivered = true;
-              break; // Найден получатель, выходим из цикла
-            }
-          }
+          logger.warn(`⚠️ Failed to send via room:`, error);
         }
 
         if (!delivered) {
@@ -245,7 +228,7 @@ export default function registerMessageSockets(io: Server) {
 
         return ack?.({ ok: true, messageId, message, delivered });
       } catch (e: any) {
-        console.error('[message:send] error:', e?.message || e);
+        logger.error('[message:send] error:', e?.message || e);
         return ack?.({ ok: false, error: 'server_error' });
       }
     });
@@ -290,7 +273,7 @@ export default function registerMessageSockets(io: Server) {
                 addToOfflineChatClearedQueue(me, notificationData);
               } else {}
             } catch (error) {
-              console.warn(`⚠️ Failed to send to initiator room, using fallback:`, error);
+              logger.warn(`⚠️ Failed to send to initiator room, using fallback:`, error);
               addToOfflineChatClearedQueue(me, notificationData);
             }
 
@@ -305,7 +288,7 @@ export default function registerMessageSockets(io: Server) {
                 addToOfflineChatClearedQueue(withUser, notificationData);
               } else {}
             } catch (error) {
-              console.warn(`⚠️ Failed to send to recipient room, using fallback:`, error);
+              logger.warn(`⚠️ Failed to send to recipient room, using fallback:`, error);
               addToOfflineChatClearedQueue(withUser, notificationData);
             }
           } else {
@@ -322,7 +305,7 @@ export default function registerMessageSockets(io: Server) {
                 addToOfflineChatClearedQueue(me, notificationData);
               } else {}
             } catch (error) {
-              console.warn(`⚠️ Failed to send to initiator room, using fallback:`, error);
+              logger.warn(`⚠️ Failed to send to initiator room, using fallback:`, error);
               addToOfflineChatClearedQueue(me, notificationData);
             }
           }
@@ -330,7 +313,7 @@ export default function registerMessageSockets(io: Server) {
 
         return ack?.({ ok: success });
       } catch (e: any) {
-        console.error('[message:clear_chat] error:', e?.message || e);
+        logger.error('[message:clear_chat] error:', e?.message || e);
         return ack?.({ ok: false, error: e?.message || 'unknown' });
       }
     });
@@ -355,19 +338,13 @@ export default function registerMessageSockets(io: Server) {
           // Уведомляем другого пользователя об удалении
           const message = await Message.findOne({ clientId: messageId }).lean();
           if (message) {
-            const recipientId = String(message.to);
-            for (const s of io.sockets.sockets.values()) {
-              const socketUserId = String((s as any).data?.userId);
-              if (socketUserId === recipientId) {
-                (s as any).emit('message:deleted', { messageId, deletedBy: me });
-              }
-            }
+            io.to(userRoom(String(message.to))).emit('message:deleted', { messageId, deletedBy: me });
           }
         }
 
         return ack?.({ ok: success });
       } catch (e: any) {
-        console.error('[message:delete] error:', e?.message || e);
+        logger.error('[message:delete] error:', e?.message || e);
         return ack?.({ ok: false, error: e?.message || 'unknown' });
       }
     });
@@ -385,19 +362,15 @@ export default function registerMessageSockets(io: Server) {
         markMessagesAsRead(me, payload.from);
 
         // Уведомляем отправителя о прочтении
-        for (const s of io.sockets.sockets.values()) {
-          if (String((s as any).data?.userId) === String(payload.from)) {
-            (s as any).emit('message:read_receipt', {
-              messageId: payload.messageId,
-              readBy: me,
-              timestamp: new Date().toISOString(),
-            });
-          }
-        }
+        io.to(userRoom(String(payload.from))).emit('message:read_receipt', {
+          messageId: payload.messageId,
+          readBy: me,
+          timestamp: new Date().toISOString(),
+        });
 
         return ack?.({ ok: true });
       } catch (e: any) {
-        console.error('[message:read] error:', e?.message || e);
+        logger.error('[message:read] error:', e?.message || e);
         return ack?.({ ok: false, error: 'server_error' });
       }
     });
@@ -411,7 +384,7 @@ export default function registerMessageSockets(io: Server) {
         const count = getUnreadCount(me, payload.from);
         return ack?.({ ok: true, count });
       } catch (e: any) {
-        console.error('[message:unread_count] error:', e?.message || e);
+        logger.error('[message:unread_count] error:', e?.message || e);
         return ack?.({ ok: false, error: 'server_error' });
       }
     });
@@ -427,7 +400,7 @@ export default function registerMessageSockets(io: Server) {
 
         return ack?.({ ok: true, messages });
       } catch (e: any) {
-        console.error('[message:load] error:', e?.message || e);
+        logger.error('[message:load] error:', e?.message || e);
         return ack?.({ ok: false, error: 'server_error' });
       }
     });
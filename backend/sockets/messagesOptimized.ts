@@ -12,6 +12,8 @@ type FriendshipMessages = InstanceType<typeof FriendshipMessagesModel> & {
   addMessage(message: IMessageItem): Promise<InstanceType<typeof FriendshipMessagesModel>>;
 };
 import { areFriendsCached } from '../utils/friendshipUtils';
+import { logger } from '../utils/logger';
+import { isUserOnline, userRoom } from '../utils/socketCluster';
 
 const isOid = (s?: string) => !!s && mongoose.Types.ObjectId.isValid(String(s));
 
@@ -80,7 +82,7 @@ async function getOrCreateFriendship(user1Id: string, user2Id: string): Promise<
     
     return friendship as FriendshipMessages;
   } catch (error) {
-    console.error('[getOrCreateFriendship] Error:', error);
+    logger.error('[getOrCreateFriendship] Error:', error);
     return null;
   }
 }
@@ -133,7 +135,7 @@ async function addMessageToFriendship(
     await friendship.save();
     return true;
   } catch (error) {
-    console.error('[addMessageToFriendship] Error:', error);
+    logger.error('[addMessageToFriendship] Error:', error);
     return false;
   }
 }
@@ -172,7 +174,7 @@ async function getFriendshipMessages(
     
     return { messages, total };
   } catch (error) {
-    console.error('[getFriendshipMessages] Error:', error);
+    logger.error('[getFriendshipMessages] Error:', error);
     return { messages: [], total: 0 };
   }
 }
@@ -196,7 +198,7 @@ async function clearFriendshipMessages(user1Id: string, user2Id: string): Promis
     await friendship.save();
     return true;
   } catch (error) {
-    console.error('[clearFriendshipMessages] Error:', error);
+    logger.error('[clearFriendshipMessages] Error:', error);
     return false;
   }
 }
@@ -266,12 +268,9 @@ function registerMessageHandlers(io: Server, sock: Socket) {
         return ack?.({ ok: false, error: 'save_failed' });
       }
 
-      // Отправляем сообщение получателю если он онлайн
-      const recipientSocket = Array.from(io.sockets.sockets.values())
-        .find(s => (s as any).data?.userId === payload.to);
-
-      if (recipientSocket) {
-        recipientSocket.emit('message:received', {
+      // Отправляем сообщение получателю если он онлайн (на любой ноде — через комнату u:<userId>)
+      if (await isUserOnline(io, payload.to)) {
+        io.to(userRoom(payload.to)).emit('message:received', {
           id: messageId,
           from: me,
           to: payload.to,
@@ -305,7 +304,7 @@ function registerMessageHandlers(io: Server, sock: Socket) {
         timestamp: message.timestamp
       });
     } catch (e: any) {
-      console.error('[message:send] error:', e?.message || e);
+      logger.error('[message:send] error:', e?.message || e);
       return ack?.({ ok: false, error: 'server_error' });
     }
   });
@@ -347,7 +346,7 @@ function registerMessageHandlers(io: Server, sock: Socket) {
         hasMore: (payload.offset || 0) + messages.length < total
       });
     } catch (e: any) {
-      console.error('[message:fetch] error:', e?.message || e);
+      logger.error('[message:fetch] error:', e?.message || e);
       return ack?.({ ok: false, error: 'server_error' });
     }
   });
@@ -380,7 +379,7 @@ function registerMessageHandlers(io: Server, sock: Socket) {
 
       ack?.({ ok: true });
     } catch (e: any) {
-      console.error('[message:clear] error:', e?.message || e);
+      logger.error('[message:clear] error:', e?.message || e);
       return ack?.({ ok: false, error: 'server_error' });
     }
   });
@@ -409,22 +408,17 @@ function registerMessageHandlers(io: Server, sock: Socket) {
         message.read = true;
         await friendship.save();
         
-        // Отправляем подтверждение прочтения отправителю
-        const senderSocket = Array.from(io.sockets.sockets.values())
-          .find(s => (s as any).data?.userId === payload.from);
-        
-        if (senderSocket) {
-          senderSocket.emit('message:read_receipt', {
-            messageId: payload.messageId,
-            readBy: me,
-            timestamp: new Date().toISOString()
-          });
-        }
+        // Отправляем подтверждение прочтения отправителю (на любой ноде)
+        io.to(userRoom(String(payload.from))).emit('message:read_receipt', {
+          messageId: payload.messageId,
+          readBy: me,
+          timestamp: new Date().toISOString()
+        });
       }
 
       ack?.({ ok: true });
     } catch (e: any) {
-      console.error('[message:read] error:', e?.message || e);
+      logger.error('[message:read] error:', e?.message || e);
       return ack?.({ ok: false, error: 'server_error' });
     }
   });
@@ -465,7 +459,7 @@ function registerMessageHandlers(io: Server, sock: Socket) {
 
       ack?.({ ok: true, count: unreadCount });
     } catch (e: any) {
-      console.error('[message:unread_count] error:', e?.message || e);
+      logger.error('[message:unread_count] error:', e?.message || e);
       return ack?.({ ok: false, error: 'server_error' });
     }
   });
@@ -2,85 +2,144 @@
 import { Server, Socket } from 'socket.io';
 import mongoose from 'mongoose';
 import User from '../models/User';
-import FriendshipMessages, { IFriendshipMessages } from '../models/FriendshipMessages';
+import Message from '../models/Message';
 import OfflineMessage from '../models/OfflineMessage';
 import { areFriendsCached } from '../utils/friendshipUtils';
+import { isBlockedEitherWay } from '../utils/blockUtils';
+import { fetchUserSockets, userRoom } from '../utils/socketCluster';
+import { notifyNewMessage } from '../utils/push';
+import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
 
 const isOid = (s?: string) => !!s && mongoose.Types.ObjectId.isValid(String(s));
 
-// Простое хранение непрочитанных сообщений в памяти (для быстрого доступа)
-const unreadMessages = new Map<string, Array<{ id: string; from: string; timestamp: string }>>();
-
-// Кэш для быстрого доступа к дружбам
-const friendshipCache = new Map<string, IFriendshipMessages>();
+const FETCH_DEFAULT_LIMIT = 50;
+const FETCH_MAX_LIMIT = 200;
+
+// "Печатает…" / "Записывает…": старт ретранслируем не чаще раза в THROTTLE,
+// у получателя индикатор гаснет сам через EXPIRES, если не пришло продление или stop
+const ACTIVITY_THROTTLE_MS = 3000;
+const ACTIVITY_EXPIRES_MS = 6000;
+
+type ChatActivity = 'typing' | 'recording';
+
+// Редактировать своё сообщение можно только в течение окна после отправки
+const MESSAGE_EDIT_WINDOW_MS = Number(process.env.MESSAGE_EDIT_WINDOW_MINUTES || 15) * 60 * 1000;
+const MESSAGE_TEXT_MAX = 4000;
+const REPLY_PREVIEW_MAX = 200;
+// Реакция — один эмодзи (с модификаторами/ZWJ-последовательностями), не произвольный текст
+const REACTION_RE = /^(?:\p{Extended_Pictographic}|\p{Emoji_Modifier}|\p{Regional_Indicator}|\u200d|\ufe0f)+$/u;
+const REACTION_MAX_LENGTH = 16;
+const WAVEFORM_MAX_BARS = 128;
+const FILE_NAME_MAX = 200;
+
+type MessageType = 'text' | 'image' | 'video' | 'document' | 'audio';
+const MESSAGE_TYPES: MessageType[] = ['text', 'image', 'video', 'document', 'audio'];
+// Медиа сначала грузится через /api/upload/*, в сообщении — только ссылка на наш файл
+const isUploadedMediaUri = (s?: string) => typeof s === 'string' && /^\/uploads\/media\/[\w.-]+$/.test(s);
+
+// Сколько id за раз можно подтвердить доставку / запросить статусы
+const STATUS_BATCH_MAX = 500;
+
+/** Фильтр переписки двух пользователей (в обе стороны) */
+function conversationFilter(a: string, b: string) {
+  const oa = new mongoose.Types.ObjectId(a);
+  const ob = new mongoose.Types.ObjectId(b);
+  return { $or: [{ from: oa, to: ob }, { from: ob, to: oa }] };
+}
 
 /**
- * Получить или создать документ дружбы
+ * Курсор пагинации: `<timestamp ms>_<_id>` самого старого отданного сообщения.
+ * _id нужен как tie-breaker для сообщений с одинаковым timestamp.
  */
-async function getOrCreateFriendship(user1Id: string, user2Id: string): Promise<IFriendshipMessages | null> {
-  try {
-    // Сортируем ID для консистентности
-    const [user1, user2] = [user1Id, user2Id].sort();
-    const cacheKey = `${user1}_${user2}`;
-    
-    // Проверяем кэш
-    if (friendshipCache.has(cacheKey)) {
-      return friendshipCache.get(cacheKey) || null;
-    }
-    
-    // Ищем существующую дружбу
-    let friendship = await FriendshipMessages.findOne({
-      $or: [
-        { user1: user1, user2: user2 },
-        { user1: user2, user2: user1 }
-      ]
-    });
-    
-    // Если дружба не найдена, создаем новую
-    if (!friendship) {
-      friendship = new FriendshipMessages({
-        user1: new mongoose.Types.ObjectId(user1),
-        user2: new mongoose.Types.ObjectId(user2),
-        textMessages: [],
-        imageMessages: [],
-        lastActivity: new Date()
-      });
-      await friendship.save();
-    }
-    
-    // Сохраняем в кэш
-    friendshipCache.set(cacheKey, friendship);
-    return friendship;
-  } catch (error) {
-    console.error('Error getting/creating friendship:', error);
-    return null;
-  }
+function encodeCursor(msg: { timestamp: Date; _id: mongoose.Types.ObjectId }): string {
+  return `${new Date(msg.timestamp).getTime()}_${msg._id.toString()}`;
+}
+
+function decodeCursor(cursor?: string): { ts: Date; id: mongoose.Types.ObjectId } | null {
+  const m = /^(\d+)_([a-f\d]{24})$/i.exec(String(cursor || ''));
+  if (!m) return null;
+  return { ts: new Date(Number(m[1])), id: new mongoose.Types.ObjectId(m[2]) };
+}
+
+/** Сообщение в формате, который ожидает клиент (id — клиентский msg_...) */
+function formatMessage(msg: any) {
+  return {
+    id: msg.clientId || msg._id.toString(),
+    from: msg.from.toString(),
+    to: msg.to.toString(),
+    type: msg.type,
+    text: msg.text,
+    uri: msg.uri,
+    name: msg.name || undefined,
+    size: msg.size || undefined,
+    duration: msg.duration ?? undefined,
+    waveform: msg.waveform?.length ? msg.waveform : undefined,
+    thumbnailUri: msg.thumbnailUri || undefined,
+    timestamp: new Date(msg.timestamp).toISOString(),
+    read: !!msg.read,
+    deliveredAt: msg.deliveredAt ? new Date(msg.deliveredAt).toISOString() : undefined,
+    readAt: msg.readAt ? new Date(msg.readAt).toISOString() : undefined,
+    replyTo: msg.replyTo || undefined,
+    replyPreview: msg.replyPreview ? formatReplyPreview(msg.replyPreview) : undefined,
+    editedAt: msg.editedAt ? new Date(msg.editedAt).toISOString() : undefined,
+    reactions: formatReactions(msg.reactions),
+  };
+}
+
+function formatReplyPreview(p: any) {
+  return { id: p.id, from: p.from.toString(), type: p.type, text: p.text };
+}
+
+function formatReactions(reactions?: any[]) {
+  return (reactions || []).map((r) => ({ userId: r.userId.toString(), emoji: r.emoji }));
 }
 
 /**
- * Добавить сообщение в дружбу
+ * Метаданные вложения от клиента (их отдаёт /api/upload/*): берём только поля, уместные для типа,
+ * числа — в разумных пределах
  */
-async function addMessageToFriendship(friendship: IFriendshipMessages, message: any): Promise<boolean> {
-  try {
-    const messageItem = {
-      id: message.id,
-      from: new mongoose.Types.ObjectId(message.from),
-      to: new mongoose.Types.ObjectId(message.to),
-      type: message.type,
-      text: message.text,
-      uri: message.uri,
-      timestamp: message.timestamp,
-      read: message.read
-    };
-    
-    await (friendship as any).addMessage(messageItem);
-    // reduce noise; DB write ok
-    // console.log(`[message] persisted ${message.id}`);
-    return true;
-  } catch (error) {
-    console.error('Error adding message to friendship:', error);
-    return false;
+function sanitizeMediaMeta(type: MessageType, payload: {
+  name?: unknown;
+  size?: unknown;
+  duration?: unknown;
+  waveform?: unknown;
+  thumbnailUri?: unknown;
+}) {
+  if (type === 'text') return {};
+  const size = Number(payload.size);
+  const duration = Number(payload.duration);
+  const meta: Record<string, any> = {
+    name: typeof payload.name === 'string' ? payload.name.slice(0, FILE_NAME_MAX) : undefined,
+    size: Number.isFinite(size) && size > 0 ? Math.round(size) : undefined,
+  };
+  if (type === 'audio' || type === 'video') {
+    meta.duration = Number.isFinite(duration) && duration > 0 ? Math.round(duration * 10) / 10 : undefined;
   }
+  if (type === 'audio' && Array.isArray(payload.waveform)) {
+    meta.waveform = payload.waveform
+      .slice(0, WAVEFORM_MAX_BARS)
+      .map((v) => Math.min(100, Math.max(0, Math.round(Number(v) || 0))));
+  }
+  if (type === 'video' && isUploadedMediaUri(payload.thumbnailUri as string)) {
+    meta.thumbnailUri = payload.thumbnailUri;
+  }
+  return meta;
+}
+
+/** Цитата для ответа: ищем исходное сообщение только внутри этой же переписки */
+async function buildReplyPreview(me: string, peer: string, replyTo: string) {
+  const original = await Message.findOne({ ...conversationFilter(me, peer), clientId: replyTo })
+    .select('clientId from type text name')
+    .lean();
+  if (!original) return null;
+  const text = original.type === 'text' ? original.text || '' : original.name || '';
+  return {
+    id: replyTo,
+    from: original.from,
+    type: original.type,
+    text: text.length > REPLY_PREVIEW_MAX ? `${text.slice(0, REPLY_PREVIEW_MAX)}…` : text,
+  };
 }
 
 /**
@@ -98,7 +157,7 @@ async function saveOfflineMessage(recipientId: string, message: any): Promise<bo
     await offlineMessage.save();
     return true;
   } catch (error) {
-    console.error('Error saving offline message:', error);
+    logger.error('Error saving offline message:', error);
     return false;
   }
 }
@@ -124,7 +183,7 @@ export async function getAndClearOfflineMessages(userId: string): Promise<any[]>
     
     return [];
   } catch (error) {
-    console.error('Error getting offline messages:', error);
+    logger.error('Error getting offline messages:', error);
     return [];
   }
 }
@@ -138,75 +197,134 @@ export function getAndClearOfflineChatClearedQueue(userId: string): Array<any> {
 }
 
 /**
- * Проверить, находится ли пользователь онлайн
+ * Проверить, находится ли пользователь онлайн (на любой ноде кластера)
  */
-function isUserOnline(io: Server, userId: string): boolean {
-  const onlineSockets = Array.from(io.sockets.sockets.values())
-    .filter(s => (s as any).data?.userId === userId);
-  
+async function isUserOnline(io: Server, userId: string): Promise<boolean> {
+  const onlineSockets = await fetchUserSockets(io, userId);
   return onlineSockets.length > 0;
 }
 
 /**
  * Отправить сообщение пользователю если он онлайн
  */
-function sendMessageToUser(io: Server, userId: string, message: any): boolean {
+async function sendMessageToUser(io: Server, userId: string, message: any): Promise<boolean> {
   try {
-    const userSockets = Array.from(io.sockets.sockets.values())
-      .filter(s => (s as any).data?.userId === userId);
-    
-    if (userSockets.length > 0) {
-      userSockets.forEach(socket => {
-        socket.emit('message:received', message);
-      });
+    // Комната u:<userId> доставляется через адаптер на все ноды
+    if (await isUserOnline(io, userId)) {
+      io.to(userRoom(userId)).emit('message:received', message);
       return true;
     }
     
     return false;
   } catch (error) {
-    console.error('Error sending message to user:', error);
+    logger.error('Error sending message to user:', error);
     return false;
   }
 }
 
-/**
- * Добавить непрочитанное сообщение
- */
-function addUnreadMessage(userId: string, messageId: string, fromUser: string) {
-  if (!unreadMessages.has(userId)) {
-    unreadMessages.set(userId, []);
+// Доставки в процессе (запись в офлайн-очередь, push) — при остановке ждём их, см. flushPendingDeliveries
+const pendingDeliveries = new Set<Promise<unknown>>();
+
+function trackDelivery<T>(p: Promise<T>): Promise<T> {
+  pendingDeliveries.add(p);
+  p.finally(() => pendingDeliveries.delete(p)).catch(() => {});
+  return p;
+}
+
+/** Дождаться начатых доставок (не дольше timeoutMs). false — что-то не успело */
+export async function flushPendingDeliveries(timeoutMs: number): Promise<boolean> {
+  if (!pendingDeliveries.size) return true;
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<false>((resolve) => { timer = setTimeout(() => resolve(false), timeoutMs); });
+  const done = Promise.allSettled(Array.from(pendingDeliveries)).then(() => true);
+  try {
+    return await Promise.race([done, timeout]);
+  } finally {
+    clearTimeout(timer);
   }
-  unreadMessages.get(userId)!.push({
-    id: messageId,
-    from: fromUser,
-    timestamp: new Date().toISOString()
-  });
 }
 
 /**
- * Отметить сообщения как прочитанные
+ * Доставить сохранённое сообщение получателю: онлайн — сразу, иначе в офлайн-очередь + push.
+ * Возвращает, был ли получатель в сети.
  */
-function markMessagesAsRead(userId: string, fromUser: string) {
-  const userUnreads = unreadMessages.get(userId) || [];
-  const filtered = userUnreads.filter(msg => msg.from !== fromUser);
-  unreadMessages.set(userId, filtered);
+function deliverMessage(io: Server, outgoing: any): Promise<boolean> {
+  return trackDelivery((async () => {
+    const recipientOnline = await isUserOnline(io, outgoing.to);
+
+    if (recipientOnline) {
+      await sendMessageToUser(io, outgoing.to, outgoing);
+    } else {
+      // Сохраняем офлайн сообщение в базу данных
+      await saveOfflineMessage(outgoing.to, outgoing);
+      // И будим устройство push-уведомлением (не ждём — ack отправителю не задерживаем)
+      trackDelivery(
+        User.findById(outgoing.from).select('nick').lean()
+          .then((u: any) => notifyNewMessage(outgoing.to, outgoing, String(u?.nick || '').trim() || undefined))
+          .catch(() => {})
+      );
+    }
+    return recipientOnline;
+  })());
 }
 
 /**
- * Получить количество непрочитанных сообщений
+ * Текстовое сообщение, которое отправляет сервер от имени пользователя
+ * (быстрый ответ при отклонении звонка). Те же правила, что у message:send: только друзьям и без блокировки.
  */
-function getUnreadCount(userId: string, fromUser: string): number {
-  const userUnreads = unreadMessages.get(userId) || [];
-  return userUnreads.filter(msg => msg.from === fromUser).length;
+export async function sendTextMessage(io: Server, from: string, to: string, text: string): Promise<{ id: string } | null> {
+  const body = String(text || '').trim().slice(0, MESSAGE_TEXT_MAX);
+  if (!body || !isOid(from) || !isOid(to) || mongoose.connection.readyState !== 1) return null;
+  try {
+    if (!(await areFriendsCached(from, to)) || (await isBlockedEitherWay(from, to))) return null;
+
+    const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const timestamp = new Date();
+    await Message.create({
+      clientId: messageId,
+      from: new mongoose.Types.ObjectId(from),
+      to: new mongoose.Types.ObjectId(to),
+      type: 'text',
+      text: body,
+      timestamp,
+      read: false,
+    });
+
+    await deliverMessage(io, {
+      id: messageId,
+      from,
+      to,
+      type: 'text',
+      text: body,
+      timestamp: timestamp.toISOString(),
+      read: false,
+    });
+    return { id: messageId };
+  } catch (error) {
+    logger.error('Error sending server text message:', error);
+    return null;
+  }
 }
 
-/**
- * Отметить одно сообщение как прочитанное (из in-memory очереди)
- */
-function markSingleMessageAsRead(userId: string, fromUser: string, messageId: string) {
-  const userUnreads = unreadMessages.get(userId) || [];
-  const filtered = userUnreads.filter(msg => !(msg.from === fromUser && msg.id === messageId));
-  unreadMessages.set(userId, filtered);
+/** Непрочитанные мной сообщения (от конкретного друга или все) — считаются по базе */
+async function countUnread(userId: string, fromUser?: string): Promise<number> {
+  const filter: any = { to: new mongoose.Types.ObjectId(userId), read: false };
+  if (fromUser) filter.from = new mongoose.Types.ObjectId(fromUser);
+  return Message.countDocuments(filter);
+}
+
+/** Нормализуем список clientId из payload (строки, без дублей, не больше лимита) */
+function pickMessageIds(raw: unknown): string[] {
+  const list = Array.isArray(raw) ? raw : raw ? [raw] : [];
+  return [...new Set(list.filter((id): id is string => typeof id === 'string' && !!id.trim()).map((id) => id.trim()))]
+    .slice(0, STATUS_BATCH_MAX);
+}
+
+/** Статус моего сообщения для клиента: read > delivered > sent */
+function deliveryStatus(msg: { read?: boolean; readAt?: Date; deliveredAt?: Date }): 'sent' | 'delivered' | 'read' {
+  if (msg.read || msg.readAt) return 'read';
+  if (msg.deliveredAt) return 'delivered';
+  return 'sent';
 }
 
 export default function registerMessageSockets(io: Server) {
@@ -218,40 +336,119 @@ export default function registerMessageSockets(io: Server) {
 function registerMessageHandlers(io: Server, sock: Socket) {
   const meId = () => String((sock as any).data?.userId || '');
 
+  // Активные индикаторы этого сокета: `${activity}:${peerId}` → время последней ретрансляции старта
+  const activeActivity = new Map<string, number>();
+
+  const relayActivity = async (activity: ChatActivity, to: string, active: boolean, ack?: Function) => {
+    try {
+      const me = meId();
+      if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+      if (!isOid(to) || to === me) return ack?.({ ok: false, error: 'invalid_to' });
+
+      const key = `${activity}:${to}`;
+      const last = activeActivity.get(key);
+      if (active && last && Date.now() - last < ACTIVITY_THROTTLE_MS) return ack?.({ ok: true, throttled: true });
+      if (!active && last === undefined) return ack?.({ ok: true });
+
+      if (!(await areFriendsCached(me, to))) return ack?.({ ok: false, error: 'not_friends' });
+
+      if (active) activeActivity.set(key, Date.now());
+      else activeActivity.delete(key);
+
+      io.to(userRoom(to)).emit(`chat:${activity}`, {
+        from: me,
+        [activity]: active,
+        expiresInMs: active ? ACTIVITY_EXPIRES_MS : 0,
+      });
+      return ack?.({ ok: true });
+    } catch (e: any) {
+      logger.error(`[chat:${activity}] error:`, e?.message || e);
+      return ack?.({ ok: false, error: 'server_error' });
+    }
+  };
+
+  /** ===== Индикаторы "печатает" / "записывает голосовое" ===== */
+  sock.on('chat:typing', (payload: { to: string; typing?: boolean }, ack?: Function) => {
+    relayActivity('typing', String(payload?.to || ''), payload?.typing !== false, ack);
+  });
+
+  sock.on('chat:recording', (payload: { to: string; recording?: boolean }, ack?: Function) => {
+    relayActivity('recording', String(payload?.to || ''), payload?.recording !== false, ack);
+  });
+
+  // Сокет ушёл посреди набора — гасим индикаторы у собеседников сразу, не дожидаясь expiry
+  sock.on('disconnect', () => {
+    const me = meId();
+    if (!me) return;
+    for (const key of activeActivity.keys()) {
+      const [activity, to] = key.split(':');
+      io.to(userRoom(to)).emit(`chat:${activity}`, { from: me, [activity]: false, expiresInMs: 0 });
+    }
+    activeActivity.clear();
+  });
+
   // per-socket handlers
-  // console.log(`[sockets] handlers for ${sock.id} user=${meId()}`);
+  // logger.info(`[sockets] handlers for ${sock.id} user=${meId()}`);
 
   /** ===== Отправка сообщения другу ===== */
   sock.on('message:send', async (payload: {
     to: string;
     text?: string;
-    type: 'text' | 'image';
+    type: MessageType;
     uri?: string;
+    name?: string; // имя файла (документы)
+    size?: number; // байты
+    duration?: number; // audio/video: секунды
+    waveform?: number[]; // audio: превью волны 0..100
+    thumbnailUri?: string; // video: превью-кадр
+    replyTo?: string; // id сообщения, на которое отвечаем
   }, ack?: Function) => {
+    // Время до ack — с результатом (ok или код ошибки)
+    const stopTimer = metrics.messageSendSeconds.startTimer();
+    const reply = (res: { ok: boolean; error?: string; [k: string]: unknown }) => {
+      stopTimer({ result: res.ok ? 'ok' : res.error || 'error' });
+      return ack?.(res);
+    };
     try {
       const me = meId();
 
       if (!isOid(me)) {
-        return ack?.({ ok: false, error: 'unauthorized' });
+        return reply({ ok: false, error: 'unauthorized' });
       }
       if (!isOid(payload.to)) {
-        return ack?.({ ok: false, error: 'invalid_to' });
+        return reply({ ok: false, error: 'invalid_to' });
       }
 
       // Проверяем дружбу
       const isFriend = await areFriendsCached(me, payload.to);
       if (!isFriend) {
-        return ack?.({ ok: false, error: 'not_friends' });
+        return reply({ ok: false, error: 'not_friends' });
       }
 
-      // Создаем ID сообщения
-      const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      // Чёрный список (дружба при блокировке снимается, но кэш дружбы может быть ещё тёплым)
+      if (await isBlockedEitherWay(me, payload.to)) {
+        return reply({ ok: false, error: 'blocked' });
+      }
 
-      // Получаем или создаем документ дружбы
-      const friendship = await getOrCreateFriendship(me, payload.to);
-      if (!friendship) {
-        return ack?.({ ok: false, error: 'friendship_not_found' });
+      if (!MESSAGE_TYPES.includes(payload.type)) {
+        return reply({ ok: false, error: 'bad_type' });
+      }
+      if (payload.type !== 'text' && !isUploadedMediaUri(payload.uri)) {
+        return reply({ ok: false, error: 'missing_uri' });
+      }
+      // Те же правила, что в message:edit; у медиа текст — необязательная подпись
+      const text = typeof payload.text === 'string' ? payload.text.trim() : '';
+      if ((payload.type === 'text' && !text) || text.length > MESSAGE_TEXT_MAX) {
+        return reply({ ok: false, error: 'bad_text' });
       }
+      const media = sanitizeMediaMeta(payload.type, payload);
+
+      // Цитата: если исходное сообщение уже удалено, ответ уходит без неё
+      const replyTo = typeof payload.replyTo === 'string' ? payload.replyTo.trim() : '';
+      const replyPreview = replyTo ? await buildReplyPreview(me, payload.to, replyTo) : null;
+
+      // Создаем ID сообщения
+      const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
       // Создаем объект сообщения
       const message = {
@@ -259,61 +456,65 @@ function registerMessageHandlers(io: Server, sock: Socket) {
         from: me,
         to: payload.to,
         type: payload.type,
-        text: payload.text,
+        text: text || undefined,
         uri: payload.uri,
         timestamp: new Date(),
         read: false
       };
 
-      // Добавляем сообщение в дружбу
-      const success = await addMessageToFriendship(friendship, message);
-      if (!success) {
-        return ack?.({ ok: false, error: 'save_failed' });
-      }
-
-      // Добавляем в счетчик непрочитанных
-      addUnreadMessage(payload.to, messageId, me);
-
-      // Отправляем сообщение получателю если он онлайн
-      const recipientOnline = isUserOnline(io, payload.to);
-
-      if (recipientOnline) {
-        const delivered = sendMessageToUser(io, payload.to, {
-          id: messageId,
-          from: me,
-          to: payload.to,
+      // Каждое сообщение — отдельный документ (история не упирается в лимит документа 16MB)
+      try {
+        await Message.create({
+          clientId: messageId,
+          from: new mongoose.Types.ObjectId(me),
+          to: new mongoose.Types.ObjectId(payload.to),
           type: payload.type,
-          text: payload.text,
+          text: text || undefined,
           uri: payload.uri,
-          timestamp: message.timestamp.toISOString(),
-          read: false
-        });
-        
-        if (delivered) {}
-      } else {
-        // Сохраняем офлайн сообщение в базу данных
-        await saveOfflineMessage(payload.to, {
-          id: messageId,
-          from: me,
-          to: payload.to,
-          type: payload.type,
-          text: payload.text,
-          uri: payload.uri,
-          timestamp: message.timestamp.toISOString(),
-          read: false
+          ...media,
+          timestamp: message.timestamp,
+          read: false,
+          ...(replyPreview ? { replyTo, replyPreview } : {}),
         });
+      } catch (error) {
+        logger.error('Error saving message:', error);
+        return reply({ ok: false, error: 'save_failed' });
       }
 
-      // Отправляем подтверждение отправителю
-      ack?.({ 
+      // Сообщение ушло — "печатает…" у получателя больше не актуально
+      if (activeActivity.delete(`typing:${payload.to}`)) {
+        io.to(userRoom(payload.to)).emit('chat:typing', { from: me, typing: false, expiresInMs: 0 });
+      }
+
+      const outgoing = {
+        id: messageId,
+        from: me,
+        to: payload.to,
+        type: payload.type,
+        text: text || undefined,
+        uri: payload.uri,
+        ...media,
+        timestamp: message.timestamp.toISOString(),
+        read: false,
+        replyTo: replyPreview ? replyTo : undefined,
+        replyPreview: replyPreview ? formatReplyPreview(replyPreview) : undefined,
+      };
+
+      // Отправляем сообщение получателю если он онлайн, иначе — офлайн-очередь и push
+      const recipientOnline = await deliverMessage(io, outgoing);
+
+      // Отправляем подтверждение отправителю. "Доставлено" — только по message:delivered от устройства получателя
+      reply({ 
         ok: true, 
         messageId,
         timestamp: message.timestamp,
-        delivered: recipientOnline
+        status: 'sent',
+        recipientOnline,
+        replyPreview: outgoing.replyPreview,
       });
     } catch (e: any) {
-      console.error('[message:send] error:', e?.message || e);
-      return ack?.({ ok: false, error: 'server_error' });
+      logger.error('[message:send] error:', e?.message || e);
+      return reply({ ok: false, error: 'server_error' });
     }
   });
 
@@ -321,7 +522,8 @@ function registerMessageHandlers(io: Server, sock: Socket) {
   sock.on('messages:fetch', async (payload: {
     with: string;
     limit?: number;
-    before?: string;
+    cursor?: string; // nextCursor из предыдущего ответа
+    before?: string; // устаревшее: id сообщения, старше которого грузить
   }, ack?: Function) => {
     try {
       const me = meId();
@@ -339,46 +541,42 @@ function registerMessageHandlers(io: Server, sock: Socket) {
         return ack?.({ ok: false, error: 'not_friends' });
       }
 
-      // Получаем дружбу
-      const friendship = await getOrCreateFriendship(me, payload.with);
-      if (!friendship) {
-        return ack?.({ ok: false, error: 'friendship_not_found' });
-      }
+      const limit = Math.min(Math.max(Number(payload.limit) || FETCH_DEFAULT_LIMIT, 1), FETCH_MAX_LIMIT);
+      const filter: any = conversationFilter(me, payload.with);
 
-      // Получаем все сообщения
-      const allMessages = (friendship as any).getAllMessages();
-
-      // Применяем пагинацию
-      let messages = allMessages;
-      if (payload.before) {
-        const beforeIndex = messages.findIndex((msg: any) => msg.id === payload.before);
-        if (beforeIndex > 0) {
-          messages = messages.slice(0, beforeIndex);
-        }
+      // Курсор: явный или вычисленный из id сообщения (старый формат before)
+      let cursor = decodeCursor(payload.cursor);
+      if (!cursor && payload.before) {
+        const anchor = await Message.findOne({ ...filter, clientId: String(payload.before) })
+          .select('timestamp _id')
+          .lean();
+        if (anchor) cursor = { ts: anchor.timestamp, id: anchor._id };
+      }
+      if (cursor) {
+        filter.$and = [{
+          $or: [
+            { timestamp: { $lt: cursor.ts } },
+            { timestamp: cursor.ts, _id: { $lt: cursor.id } },
+          ],
+        }];
       }
 
-      const limit = payload.limit || 50;
-      messages = messages.slice(-limit);
-
-      // Форматируем сообщения для отправки
-      const formattedMessages = messages.map((msg: any) => ({
-        id: msg.id,
-        from: msg.from.toString(),
-        to: msg.to.toString(),
-        type: msg.type,
-        text: msg.text,
-        uri: msg.uri,
-        timestamp: msg.timestamp.toISOString(),
-        read: msg.read
-      }));
+      // Берём на одно больше, чтобы узнать, есть ли ещё
+      const page = await Message.find(filter)
+        .sort({ timestamp: -1, _id: -1 })
+        .limit(limit + 1)
+        .lean();
+      const hasMore = page.length > limit;
+      const messages = page.slice(0, limit).reverse();
 
       ack?.({ 
         ok: true, 
-        messages: formattedMessages,
-        hasMore: allMessages.length > limit
+        messages: messages.map(formatMessage),
+        hasMore,
+        nextCursor: hasMore && messages.length ? encodeCursor(messages[0]) : null,
       });
     } catch (e: any) {
-      console.error('[messages:fetch] error:', e?.message || e);
+      logger.error('[messages:fetch] error:', e?.message || e);
       return ack?.({ ok: false, error: 'server_error' });
     }
   });
@@ -397,12 +595,37 @@ function registerMessageHandlers(io: Server, sock: Socket) {
         return ack?.({ ok: false, error: 'invalid_from' });
       }
 
-      // Отмечаем сообщения как прочитанные
-      markMessagesAsRead(me, payload.from);
+      // Отмечаем прочитанными все входящие от payload.from и сообщаем автору
+      const unread = await Message.find({
+        from: new mongoose.Types.ObjectId(payload.from),
+        to: new mongoose.Types.ObjectId(me),
+        read: false,
+      }).select('clientId').lean();
+
+      if (unread.length) {
+        const readAt = new Date();
+        await Message.updateMany(
+          { _id: { $in: unread.map((m) => m._id) } },
+          { $set: { read: true, readAt } }
+        );
+        // deliveredAt мог не проставиться (например, ack потерялся) — прочитанное точно доставлено
+        await Message.updateMany(
+          { _id: { $in: unread.map((m) => m._id) }, deliveredAt: null },
+          { $set: { deliveredAt: readAt } }
+        );
+        const messageIds = unread.map((m) => m.clientId).filter(Boolean) as string[];
+        for (const messageId of messageIds) {
+          io.to(userRoom(payload.from)).emit('message:read_receipt', {
+            messageId,
+            readBy: me,
+            timestamp: readAt.toISOString(),
+          });
+        }
+      }
 
-      ack?.({ ok: true });
+      ack?.({ ok: true, count: unread.length });
     } catch (e: any) {
-      console.error('[messages:mark_read] error:', e?.message || e);
+      logger.error('[messages:mark_read] error:', e?.message || e);
       return ack?.({ ok: false, error: 'server_error' });
     }
   });
@@ -422,38 +645,36 @@ function registerMessageHandlers(io: Server, sock: Socket) {
         return ack?.({ ok: false, error: 'bad_payload' });
       }
 
-      // Ищем дружбу и само сообщение
-      const friendship = await getOrCreateFriendship(me, payload.from);
-      if (!friendship) {
-        return ack?.({ ok: false, error: 'friendship_not_found' });
+      // Отмечаем прочитанным только сообщение, адресованное мне
+      const readAt = new Date();
+      const updated = await Message.findOneAndUpdate(
+        {
+          clientId: String(payload.messageId),
+          from: new mongoose.Types.ObjectId(payload.from),
+          to: new mongoose.Types.ObjectId(me),
+          read: false,
+        },
+        { $set: { read: true, readAt } },
+        { projection: { deliveredAt: 1 } }
+      ).lean();
+      // Уже прочитано (или не моё) — повторный receipt не шлём
+      if (!updated) return ack?.({ ok: true });
+      if (!updated.deliveredAt) {
+        await Message.updateOne({ _id: updated._id }, { $set: { deliveredAt: readAt } });
       }
 
-      const msg = (friendship as any).findMessageById(payload.messageId);
-      if (msg && !msg.read) {
-        msg.read = true;
-        await friendship.save();
-      }
-
-      // Чистим из in-memory очереди одно сообщение
-      markSingleMessageAsRead(me, payload.from, payload.messageId);
-
       // Уведомляем отправителя (payload.from)
-      const senderSockets = Array.from(io.sockets.sockets.values())
-        .filter(s => (s as any).data?.userId === payload.from);
-
       const receipt = {
         messageId: payload.messageId,
         readBy: me,
-        timestamp: new Date().toISOString(),
+        timestamp: readAt.toISOString(),
       };
 
-      for (const s of senderSockets) {
-        s.emit('message:read_receipt', receipt);
-      }
+      io.to(userRoom(payload.from)).emit('message:read_receipt', receipt);
 
       return ack?.({ ok: true });
     } catch (e: any) {
-      console.error('[message:read] error:', e?.message || e);
+      logger.error('[message:read] error:', e?.message || e);
       return ack?.({ ok: false, error: 'server_error' });
     }
   });
@@ -469,19 +690,91 @@ function registerMessageHandlers(io: Server, sock: Socket) {
         return ack?.({ ok: false, error: 'unauthorized' });
       }
 
-      if (payload.from && isOid(payload.from)) {
-        // Количество непрочитанных от конкретного пользователя
-        const count = getUnreadCount(me, payload.from);
-        ack?.({ ok: true, count });
-      } else {
-        // Общее количество непрочитанных сообщений
-        const allUnreads = unreadMessages.get(me) || [];
-        const count = allUnreads.length;
-        ack?.({ ok: true, count });
+      if (mongoose.connection.readyState !== 1) {
+        return ack?.({ ok: false, error: 'database_unavailable' });
+      }
+
+      // От конкретного пользователя или общее количество — по базе, переживает рестарт
+      const from = payload?.from && isOid(payload.from) ? payload.from : undefined;
+      const count = await countUnread(me, from);
+      ack?.({ ok: true, count });
+
+    } catch (e: any) {
+      logger.error('[messages:unread_count] error:', e?.message || e);
+      return ack?.({ ok: false, error: 'server_error' });
+    }
+  });
+
+  /** ===== Подтверждение доставки: устройство получателя приняло message:received ===== */
+  sock.on('message:delivered', async (payload: { messageIds?: string[]; messageId?: string }, ack?: Function) => {
+    try {
+      const me = meId();
+      if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+      const ids = pickMessageIds(payload?.messageIds ?? payload?.messageId);
+      if (!ids.length) return ack?.({ ok: false, error: 'bad_message_id' });
+
+      // Только адресованные мне и ещё не подтверждённые — повторные ack ничего не меняют
+      const pending = await Message.find({
+        clientId: { $in: ids },
+        to: new mongoose.Types.ObjectId(me),
+        deliveredAt: null,
+      }).select('clientId from').lean();
+      if (!pending.length) return ack?.({ ok: true, count: 0 });
+
+      const deliveredAt = new Date();
+      await Message.updateMany(
+        { _id: { $in: pending.map((m) => m._id) }, deliveredAt: null },
+        { $set: { deliveredAt } }
+      );
+
+      // Группируем по автору, чтобы отправить ему один receipt
+      const bySender = new Map<string, string[]>();
+      for (const m of pending) {
+        const from = m.from.toString();
+        if (!bySender.has(from)) bySender.set(from, []);
+        bySender.get(from)!.push(m.clientId as string);
+      }
+      for (const [from, messageIds] of bySender) {
+        io.to(userRoom(from)).emit('message:delivery_receipt', {
+          messageIds,
+          deliveredTo: me,
+          timestamp: deliveredAt.toISOString(),
+        });
       }
 
+      return ack?.({ ok: true, count: pending.length });
+    } catch (e: any) {
+      logger.error('[message:delivered] error:', e?.message || e);
+      return ack?.({ ok: false, error: 'server_error' });
+    }
+  });
+
+  /** ===== Статусы моих сообщений (синхронизация после переподключения) ===== */
+  sock.on('messages:status', async (payload: { with: string; messageIds: string[] }, ack?: Function) => {
+    try {
+      const me = meId();
+      if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+      if (!isOid(payload?.with)) return ack?.({ ok: false, error: 'invalid_with' });
+      const ids = pickMessageIds(payload?.messageIds);
+      if (!ids.length) return ack?.({ ok: true, statuses: [] });
+
+      const found = await Message.find({
+        clientId: { $in: ids },
+        from: new mongoose.Types.ObjectId(me),
+        to: new mongoose.Types.ObjectId(payload.with),
+      }).select('clientId read readAt deliveredAt').lean();
+
+      return ack?.({
+        ok: true,
+        statuses: found.map((m) => ({
+          messageId: m.clientId,
+          status: deliveryStatus(m),
+          deliveredAt: m.deliveredAt ? m.deliveredAt.toISOString() : undefined,
+          readAt: m.readAt ? m.readAt.toISOString() : undefined,
+        })),
+      });
     } catch (e: any) {
-      console.error('[messages:unread_count] error:', e?.message || e);
+      logger.error('[messages:status] error:', e?.message || e);
       return ack?.({ ok: false, error: 'server_error' });
     }
   });
@@ -494,51 +787,102 @@ function registerMessageHandlers(io: Server, sock: Socket) {
       if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
       if (!messageId) return ack?.({ ok: false, error: 'bad_message_id' });
 
-      // Находим дружбу, в которой есть это сообщение
-      // Пробуем обе стороны: найдём все дружбы, где участвует пользователь
-      // и проверим наличие сообщения (их обычно немного)
-      const candidates: IFriendshipMessages[] = [];
-      for (const [key, f] of friendshipCache.entries()) {
-        const hasMe = (f.user1?.toString?.() === me) || (f.user2?.toString?.() === me);
-        if (hasMe) candidates.push(f);
-      }
+      // Удалять может любой участник переписки
+      const myOid = new mongoose.Types.ObjectId(me);
+      const found = await Message.findOne({
+        clientId: messageId,
+        $or: [{ from: myOid }, { to: myOid }],
+      }).select('from to').lean();
+      if (!found) return ack?.({ ok: false, error: 'not_found' });
 
-      let foundFriendship: IFriendshipMessages | null = null;
-      for (const f of candidates) {
-        if ((f as any).findMessageById(messageId)) { foundFriendship = f; break; }
-      }
-      // Если в кэше нет — подгружаем из БД по пользователю
-      if (!foundFriendship) {
-        const list = await FriendshipMessages.find({
-          $or: [ { user1: me }, { user2: me } ]
-        });
-        for (const f of list) {
-          if ((f as any).findMessageById(messageId)) { foundFriendship = f; break; }
-        }
+      const removed = await Message.deleteOne({ _id: found._id });
+      if (!removed.deletedCount) return ack?.({ ok: false, error: 'remove_failed' });
+
+      // Уведомляем обе стороны, если онлайн
+      const u1 = found.from.toString();
+      const u2 = found.to.toString();
+      io.to([userRoom(u1), userRoom(u2)]).emit('message:deleted', { messageId, deletedBy: me });
+
+      return ack?.({ ok: true });
+    } catch (e: any) {
+      logger.error('[message:delete] error:', e?.message || e);
+      return ack?.({ ok: false, error: 'server_error' });
+    }
+  });
+
+  /** ===== Редактирование своего текстового сообщения ===== */
+  sock.on('message:edit', async (payload: { messageId: string; text: string }, ack?: Function) => {
+    try {
+      const me = meId();
+      const messageId = String(payload?.messageId || '').trim();
+      const text = typeof payload?.text === 'string' ? payload.text.trim() : '';
+      if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+      if (!messageId) return ack?.({ ok: false, error: 'bad_message_id' });
+      if (!text || text.length > MESSAGE_TEXT_MAX) return ack?.({ ok: false, error: 'bad_text' });
+
+      // Редактировать может только автор
+      const found = await Message.findOne({ clientId: messageId, from: new mongoose.Types.ObjectId(me) })
+        .select('from to type timestamp')
+        .lean();
+      if (!found) return ack?.({ ok: false, error: 'not_found' });
+      if (found.type !== 'text') return ack?.({ ok: false, error: 'not_editable' });
+      if (Date.now() - new Date(found.timestamp).getTime() > MESSAGE_EDIT_WINDOW_MS) {
+        return ack?.({ ok: false, error: 'edit_window_expired' });
       }
 
-      if (!foundFriendship) return ack?.({ ok: false, error: 'not_found' });
+      const editedAt = new Date();
+      await Message.updateOne({ _id: found._id }, { $set: { text, editedAt } });
 
-      // Удаляем запись
-      const removed = await (foundFriendship as any).removeMessage(messageId);
-      if (!removed) return ack?.({ ok: false, error: 'remove_failed' });
+      const event = { messageId, text, editedAt: editedAt.toISOString(), editedBy: me };
+      io.to([userRoom(me), userRoom(found.to.toString())]).emit('message:edited', event);
 
-      // Уведомляем обе стороны, если онлайн
-      const u1 = foundFriendship.user1.toString();
-      const u2 = foundFriendship.user2.toString();
-      const recipients = [u1, u2];
-      for (const s of io.sockets.sockets.values()) {
-        const uid = (s as any).data?.userId;
-        if (uid && recipients.includes(String(uid))) {
-          s.emit('message:deleted', { messageId, deletedBy: me });
-        }
+      return ack?.({ ok: true, ...event });
+    } catch (e: any) {
+      logger.error('[message:edit] error:', e?.message || e);
+      return ack?.({ ok: false, error: 'server_error' });
+    }
+  });
+
+  /** ===== Реакция на сообщение (повтор той же реакции — снять) ===== */
+  sock.on('message:react', async (payload: { messageId: string; emoji?: string | null }, ack?: Function) => {
+    try {
+      const me = meId();
+      const messageId = String(payload?.messageId || '').trim();
+      const emoji = typeof payload?.emoji === 'string' ? payload.emoji.trim() : '';
+      if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+      if (!messageId) return ack?.({ ok: false, error: 'bad_message_id' });
+      if (emoji && (emoji.length > REACTION_MAX_LENGTH || !REACTION_RE.test(emoji))) {
+        return ack?.({ ok: false, error: 'bad_emoji' });
       }
 
-      return ack?.({ ok: true });
+      // Реагировать может любой участник переписки
+      const myOid = new mongoose.Types.ObjectId(me);
+      const found = await Message.findOne({
+        clientId: messageId,
+        $or: [{ from: myOid }, { to: myOid }],
+      }).select('from to reactions').lean();
+      if (!found) return ack?.({ ok: false, error: 'not_found' });
+
+      const mine = (found.reactions || []).find((r) => r.userId.toString() === me);
+      const toggleOff = !emoji || mine?.emoji === emoji;
+
+      // Одна реакция от пользователя: снимаем прежнюю и, если нужно, ставим новую
+      await Message.updateOne({ _id: found._id }, { $pull: { reactions: { userId: myOid } } });
+      const updated = toggleOff
+        ? await Message.findById(found._id).select('reactions').lean()
+        : await Message.findByIdAndUpdate(
+            found._id,
+            { $push: { reactions: { userId: myOid, emoji } } },
+            { new: true, projection: { reactions: 1 } }
+          ).lean();
+
+      const event = { messageId, reactions: formatReactions(updated?.reactions) };
+      io.to([userRoom(found.from.toString()), userRoom(found.to.toString())]).emit('message:reaction', event);
+
+      return ack?.({ ok: true, ...event });
     } catch (e: any) {
-      console.error('[message:delete] error:', e?.message || e);
+      logger.error('[message:react] error:', e?.message || e);
       return ack?.({ ok: false, error: 'server_error' });
     }
   });
 }
-
@@ -1,6 +1,7 @@
 // backend/sockets/profile.ts
 import { Server, Socket } from 'socket.io';
 import User from '../models/User';
+import { logger } from '../utils/logger';
 
 type Ack = (resp: { ok: boolean; error?: string; profile?: { nick?: string; avatarUrl?: string; avatarVer?: number; avatarB64?: string; avatarThumbB64?: string } }) => void;
 
@@ -11,9 +12,9 @@ export function registerProfileSockets(io: Server, socket: Socket) {
   socket.on('profile:me', async (_: any, ack?: Ack) => {
     try {
       const userId = socket.data.userId as string | undefined;
-      console.log('[profile:me] Request received', { userId: userId || 'guest' });
+      logger.info('[profile:me] Request received', { userId: userId || 'guest' });
       if (!userId) {
-        console.log('[profile:me] No userId, returning empty profile for guest');
+        logger.info('[profile:me] No userId, returning empty profile for guest');
         return ack?.({ ok: true, profile: {} }); // гость
       }
       const u = await User.findById(userId).select('nick avatar avatarVer avatarB64 avatarThumbB64').lean();
@@ -25,7 +26,7 @@ export function registerProfileSockets(io: Server, socket: Socket) {
         avatarB64: (u as any).avatarB64 || '',
         avatarThumbB64: (u as any).avatarThumbB64 || ''
       } as { nick?: string; avatar?: string; avatarUrl?: string; avatarVer?: number; avatarB64?: string; avatarThumbB64?: string } : undefined;
-      console.log('[profile:me] Profile found', { 
+      logger.info('[profile:me] Profile found', { 
         userId, 
         hasUser: !!u, 
         nick: profile?.nick || '', 
@@ -34,7 +35,7 @@ export function registerProfileSockets(io: Server, socket: Socket) {
       });
       ack?.({ ok: true, profile });
     } catch (e: any) {
-      console.error('[profile:me] Error:', e?.message || e);
+      logger.error('[profile:me] Error:', e?.message || e);
       ack?.({ ok: true, profile: undefined }); // НЕ возвращаем ошибку, возвращаем undefined для профиля
     }
   });
@@ -45,7 +46,7 @@ export function registerProfileSockets(io: Server, socket: Socket) {
       const userId = socket.data.userId as string | undefined;
 
       if (!userId) {
-        console.error('[profile:update] ❌ Unauthorized - no userId in socket.data');
+        logger.error('[profile:update] ❌ Unauthorized - no userId in socket.data');
         return ack?.({ ok: false, error: 'Unauthorized' });
       }
 
@@ -61,13 +62,13 @@ export function registerProfileSockets(io: Server, socket: Socket) {
         } else if (isHttps(raw)) {
           update.avatar = raw;
         } else {
-          console.error('[profile:update] ❌ Invalid avatar URL (must be HTTPS):', raw);
+          logger.error('[profile:update] ❌ Invalid avatar URL (must be HTTPS):', raw);
           return ack?.({ ok: false, error: 'avatar must be HTTPS' });
         }
       }
 
       if (!Object.keys(update).length) {
-        console.warn('[profile:update] ⚠️ No valid fields to update');
+        logger.warn('[profile:update] ⚠️ No valid fields to update');
         return ack?.({ ok: false, error: 'No valid fields' });
       }
 
@@ -76,7 +77,7 @@ export function registerProfileSockets(io: Server, socket: Socket) {
         .lean();
 
       if (!user) {
-        console.error('[profile:update] ❌ User not found:', userId);
+        logger.error('[profile:update] ❌ User not found:', userId);
         return ack?.({ ok: false, error: 'User not found' });
       }
 
@@ -105,12 +106,12 @@ export function registerProfileSockets(io: Server, socket: Socket) {
           io.to(`u:${String(fid)}`).emit('friend:profile', payload);
         }
       } catch (e) {
-        console.warn('[profile:update] friends notify error:', e);
+        logger.warn('[profile:update] friends notify error:', e);
       }
 
       return ack?.({ ok: true, profile: { nick: user.nick, avatarUrl: user.avatar } });
     } catch (e: any) {
-      console.error('[profile:update] ❌ Error:', e?.message || e);
+      logger.error('[profile:update] ❌ Error:', e?.message || e);
       return ack?.({ ok: false, error: e?.message || 'Server error' });
     }
   });
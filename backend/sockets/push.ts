@@ -0,0 +1,83 @@
+// backend/sockets/push.ts
+import { Server } from 'socket.io';
+import mongoose from 'mongoose';
+import Install from '../models/Install';
+import { logger } from '../utils/logger';
+import { normalizePushLang } from '../utils/pushTexts';
+
+const isOid = (s?: string) => !!s && mongoose.Types.ObjectId.isValid(String(s));
+
+// Формат Expo push-токена: ExponentPushToken[xxxx] / ExpoPushToken[xxxx]
+const PUSH_TOKEN_RE = /^Expo(nent)?PushToken\[[A-Za-z0-9_\-]{1,200}\]$/;
+const PUSH_PLATFORMS = ['ios', 'android'];
+
+type PushRegisterPayload = {
+  installId?: string;
+  token?: string;
+  platform?: string;
+  lang?: string; // язык приложения (utils/i18n) — на нём приходят уведомления
+};
+
+/** Push-токены устройств: push:register, язык уведомлений: push:lang */
+export default function registerPushSockets(io: Server) {
+  io.on('connection', (sock) => {
+    // Регистрация идёт сразу после connect — привязка userId к сокету может ещё не закончиться, тогда берём из токена
+    const meId = () => String((sock as any).data?.userId || (sock as any).data?.session?.userId || '');
+    // installId берём из проверенной сессии, из payload — только для совместимости со старыми клиентами
+    const installIdOf = (payload?: PushRegisterPayload) =>
+      String((sock as any).data?.session?.installId || payload?.installId || '').trim();
+
+    /** ===== Регистрация токена устройства ===== */
+    sock.on('push:register', async (payload: PushRegisterPayload, ack?: Function) => {
+      try {
+        const me = meId();
+        if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+        const installId = installIdOf(payload);
+        if (!installId) return ack?.({ ok: false, error: 'no_installId' });
+        const token = String(payload?.token || '').trim();
+        if (!PUSH_TOKEN_RE.test(token)) return ack?.({ ok: false, error: 'bad_token' });
+        const platform = String(payload?.platform || '').trim();
+        if (!PUSH_PLATFORMS.includes(platform)) return ack?.({ ok: false, error: 'bad_platform' });
+        if (mongoose.connection.readyState !== 1) return ack?.({ ok: false, error: 'database_unavailable' });
+
+        // Токен привязываем только к своему устройству
+        const lang = normalizePushLang(payload?.lang);
+        const res = await Install.updateOne(
+          { installId, user: me },
+          { $set: { pushToken: token, pushPlatform: platform, pushTokenUpdatedAt: new Date(), ...(lang ? { lang } : {}) } }
+        );
+        if (!res.matchedCount) return ack?.({ ok: false, error: 'install_not_found' });
+
+        // Один токен — одно устройство: после переустановки/смены аккаунта снимаем его со старых install
+        await Install.updateMany(
+          { pushToken: token, installId: { $ne: installId } },
+          { $unset: { pushToken: 1, pushPlatform: 1, pushTokenUpdatedAt: 1 } }
+        );
+
+        return ack?.({ ok: true });
+      } catch (e: any) {
+        logger.error('Push register error:', e);
+        return ack?.({ ok: false, error: 'server_error' });
+      }
+    });
+
+    /** ===== Смена языка приложения: уведомления на новом языке ===== */
+    sock.on('push:lang', async (payload: { lang?: string }, ack?: Function) => {
+      try {
+        const me = meId();
+        if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+        const installId = String((sock as any).data?.session?.installId || '').trim();
+        if (!installId) return ack?.({ ok: false, error: 'no_installId' });
+        const lang = normalizePushLang(payload?.lang);
+        if (!lang) return ack?.({ ok: false, error: 'bad_lang' });
+        if (mongoose.connection.readyState !== 1) return ack?.({ ok: false, error: 'database_unavailable' });
+
+        await Install.updateOne({ installId, user: me }, { $set: { lang } });
+        return ack?.({ ok: true });
+      } catch (e: any) {
+        logger.error('Push lang error:', e);
+        return ack?.({ ok: false, error: 'server_error' });
+      }
+    });
+  });
+}
@@ -0,0 +1,81 @@
+// backend/sockets/reports.ts
+import { Server } from 'socket.io';
+import mongoose from 'mongoose';
+import User from '../models/User';
+import Report, { REPORT_REASONS, type ReportReason } from '../models/Report';
+import { maybeAutoSuspend } from '../utils/moderation';
+import { logger } from '../utils/logger';
+
+const isOid = (s?: string) => !!s && mongoose.Types.ObjectId.isValid(String(s));
+
+// Кадр собеседника: только jpeg/png data URI, не больше ~512KB
+const SNAPSHOT_RE = /^data:image\/(jpeg|jpg|png);base64,[A-Za-z0-9+/=]+$/;
+const SNAPSHOT_MAX_LEN = 512 * 1024;
+// Повторная жалоба на того же человека в течение окна не создаёт новую запись
+const DEDUP_WINDOW_MS = 10 * 60 * 1000;
+
+type ReportPayload = {
+  userId: string;
+  reason: ReportReason;
+  comment?: string;
+  snapshot?: string;
+  roomName?: string;
+  context?: 'random' | 'chat';
+};
+
+/** Жалобы на пользователей: report:create */
+export default function registerReportSockets(io: Server) {
+  io.on('connection', (sock) => {
+    const meId = () => String((sock as any).data?.userId || '');
+
+    sock.on('report:create', async (payload: ReportPayload, ack?: Function) => {
+      try {
+        const me = meId();
+        const userId = String(payload?.userId || '');
+        if (!isOid(me)) return ack?.({ ok: false, error: 'unauthorized' });
+        if (!isOid(userId)) return ack?.({ ok: false, error: 'invalid_user' });
+        if (me === userId) return ack?.({ ok: false, error: 'self' });
+        if (!REPORT_REASONS.includes(payload?.reason as ReportReason)) {
+          return ack?.({ ok: false, error: 'invalid_reason' });
+        }
+        if (mongoose.connection.readyState !== 1) return ack?.({ ok: false, error: 'database_unavailable' });
+
+        const exists = await User.exists({ _id: userId });
+        if (!exists) return ack?.({ ok: false, error: 'user_not_found' });
+
+        const recent = await Report.findOne({
+          reporter: me,
+          reported: userId,
+          createdAt: { $gte: new Date(Date.now() - DEDUP_WINDOW_MS) },
+        })
+          .select('_id')
+          .lean();
+        if (recent) return ack?.({ ok: true, reportId: String(recent._id), duplicate: true });
+
+        const snapshot = typeof payload?.snapshot === 'string' ? payload.snapshot : '';
+        const snapshotB64 = snapshot && snapshot.length <= SNAPSHOT_MAX_LEN && SNAPSHOT_RE.test(snapshot) ? snapshot : '';
+
+        const doc = await Report.create({
+          reporter: me,
+          reported: userId,
+          reason: payload.reason,
+          comment: String(payload?.comment || '').trim().slice(0, 500),
+          context: payload?.context === 'chat' ? 'chat' : 'random',
+          roomName: String(payload?.roomName || '').slice(0, 200),
+          snapshotB64,
+        });
+
+        logger.info('Report created', { reportId: String(doc._id), reporter: me, reported: userId, reason: payload.reason });
+        ack?.({ ok: true, reportId: String(doc._id) });
+
+        // КРИТИЧНО: порог проверяем после ответа — жалующийся не ждёт модерацию
+        maybeAutoSuspend(userId).catch((e: any) => {
+          logger.warn('Auto-suspend check failed', { userId, error: e?.message || String(e) });
+        });
+      } catch (e: any) {
+        logger.error('Report create error:', e);
+        return ack?.({ ok: false, error: 'server_error' });
+      }
+    });
+  });
+}
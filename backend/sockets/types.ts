@@ -2,6 +2,15 @@ import type { Socket } from 'socket.io';
 
 export type UserID = string;
 
+/** Предпочтения рандом-матчинга из события start */
+export type MatchPrefs = {
+  lang?: string;
+  interests: string[];
+  strict: boolean; // false — после relaxAfterMs ожидания критерии снимаются
+  relaxAfterMs: number;
+  searchingSince: number;
+};
+
 export interface AuthedSocket extends Socket {
   data: {
     userId?: UserID;
@@ -10,5 +19,8 @@ export interface AuthedSocket extends Socket {
     busy?: boolean;
     inCall?: boolean;
     isNexting?: boolean;
+    matchPrefs?: MatchPrefs;
+    matchedAt?: number; // когда нашлась текущая пара рандома (для метрики длительности сессии)
+    session?: { userId: UserID; installId: string }; // проверенный сессионный токен из handshake
   };
 }
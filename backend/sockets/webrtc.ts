@@ -3,6 +3,7 @@ import type { Server } from "socket.io";
 import type { AuthedSocket } from "./types";
 import { logger } from '../utils/logger';
 import User from '../models/User';
+import { makeRoomId } from './match';
 
 /**
  * Оптимизированная отправка presence:update только друзьям пользователя
@@ -38,11 +39,32 @@ async function emitPresenceUpdateToFriends(io: Server, userId: string, busy: boo
   }
 }
 
+/** Максимум участников в групповом звонке (комнаты room_g_*); в 1:1 и рандом-чате — двое */
+export const MAX_CALL_PARTICIPANTS = Math.max(2, Number(process.env.MAX_CALL_PARTICIPANTS || 8));
+
+export const isGroupRoomId = (roomId: string) => roomId.startsWith('room_g_');
+
+export type WebRTCDeps = {
+  /** Комната звонка, в который сокет вошёл через call:accept / call:group:start (index.ts activeCallBySocket) */
+  callRoomOf?: (sid: string) => string | undefined;
+};
+
 /**
  * Подключает обработчики для LiveKit (сигналинг больше не нужен - LiveKit сам управляет)
  * Оставлены только вспомогательные события: room:join, connection:established, cam-toggle, PiP
  */
-export function bindWebRTC(io: Server, socket: AuthedSocket) {
+export function bindWebRTC(io: Server, socket: AuthedSocket, deps: WebRTCDeps = {}) {
+  /**
+   * Пускаем в комнату только её участников: сокет, которому сервер сам назначил эту комнату звонка,
+   * или пару рандом-чата. socket.data.roomId не годится — его выставляет клиент через presence:update.
+   * Приглашённые в групповой звонок входят в комнату на call:accept и сюда уже не доходят.
+   */
+  const isRoomMember = (roomId: string) => {
+    if (deps.callRoomOf?.(socket.id) === roomId) return true;
+    const partnerSid = socket.data?.partnerSid;
+    return !!partnerSid && makeRoomId(socket.id, partnerSid) === roomId;
+  };
+
   /** =========================
    *  Room join
    *  ========================= */
@@ -54,6 +76,13 @@ export function bindWebRTC(io: Server, socket: AuthedSocket) {
       logger.debug('Socket already in room', { socketId: socket.id, roomId });
       return;
     }
+
+    // КРИТИЧНО: без проверки любой, зная roomId, подсаживался в чужой звонок (и потом мог звать туда других через call:invite)
+    if (!isRoomMember(roomId)) {
+      logger.warn('Room join rejected: not a participant', { socketId: socket.id, roomId });
+      socket.emit("call:busy", { callId: roomId, reason: 'not_participant' });
+      return;
+    }
     
     // Получаем существующих участников комнаты ДО добавления нового
     const room = io.sockets.adapter.rooms.get(roomId);
@@ -70,8 +99,9 @@ export function bindWebRTC(io: Server, socket: AuthedSocket) {
     
     logger.debug('Room join', { roomId, existingPeers: existingPeers.length });
     
-    // ОГРАНИЧЕНИЕ: Максимум 2 участника в комнате
-    if (existingPeers.length >= 2) {
+    // ОГРАНИЧЕНИЕ: в 1:1 и рандом-чате двое, в групповом — не больше MAX_CALL_PARTICIPANTS
+    const limit = isGroupRoomId(roomId) ? MAX_CALL_PARTICIPANTS : 2;
+    if (existingPeers.length >= limit) {
       logger.warn('Room is full, rejecting join', { roomId });
       socket.emit("call:busy", { 
         callId: roomId, 
@@ -90,9 +120,8 @@ export function bindWebRTC(io: Server, socket: AuthedSocket) {
       existingPeers: existingPeers.length 
     });
     
-    // Отправляем новому участнику peer ID собеседника (максимум 1)
-    if (existingPeers.length === 1) {
-      const peer = existingPeers[0];
+    // Отправляем новому участнику peer ID всех, кто уже в комнате
+    for (const peer of existingPeers) {
       socket.emit("peer:connected", { 
         peerId: peer.peerId, 
         userId: peer.userId 
@@ -0,0 +1,223 @@
+// backend/tests/queueStore.test.ts
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import Redis from 'ioredis';
+import RedisMock from 'ioredis-mock';
+import { createMemoryQueueStore, type QueueStore } from '../utils/queueStore';
+import { createRedisQueueStore } from '../utils/queueStoreRedis';
+
+/**
+ * Контракт QueueStore — одинаковые проверки для in-memory и Redis-реализации.
+ * Redis по умолчанию — ioredis-mock в процессе (Lua-скрипты claimPair / takeTokens выполняются им же);
+ * с REDIS_TEST_URL=redis://localhost:6379 те же тесты идут против настоящего redis-server.
+ */
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+let redisRun = 0;
+function redisClient(): Redis {
+  const url = String(process.env.REDIS_TEST_URL || '').trim();
+  return url ? new Redis(url) : (new RedisMock() as unknown as Redis);
+}
+
+const implementations: Array<[string, () => QueueStore]> = [
+  ['memory', () => createMemoryQueueStore()],
+  // Свой префикс на каждый тест: экземпляры ioredis-mock делят данные, а настоящий Redis — тем более
+  ['redis', () => createRedisQueueStore(redisClient(), { prefix: `test:{mq}:${process.pid}:${++redisRun}:` })],
+];
+
+for (const [name, create] of implementations) {
+  describe(`QueueStore contract: ${name}`, () => {
+    let store: QueueStore;
+    beforeEach(() => { store = create(); });
+    afterEach(async () => { await store.close(); });
+
+    it('keeps FIFO order and does not move a re-added socket', async () => {
+      await store.addToQueue('a');
+      await store.addToQueue('b');
+      await store.addToQueue('a');
+      assert.deepEqual(await store.getWaitingQueue(), ['a', 'b']);
+      assert.equal(await store.getQueueSize(), 2);
+      assert.equal(await store.isInQueue('b'), true);
+
+      await store.removeFromQueue('a');
+      assert.deepEqual(await store.getWaitingQueue(), ['b']);
+      assert.equal(await store.isInQueue('a'), false);
+    });
+
+    it('stores queue meta, overwrites it on re-add and drops it on remove', async () => {
+      const prefs = { interests: ['music'], strict: false, relaxAfterMs: 15_000, searchingSince: 1 };
+      await store.addToQueue('a', { userId: 'u1', prefs });
+      await store.addToQueue('b', { userId: 'u2' });
+      assert.deepEqual((await store.getQueueMeta(['a', 'b', 'x'])).get('a'), { userId: 'u1', prefs });
+
+      await store.addToQueue('a', { userId: 'u1' });
+      assert.deepEqual((await store.getQueueMeta(['a'])).get('a'), { userId: 'u1' });
+
+      await store.removeFromQueue('a');
+      const meta = await store.getQueueMeta(['a', 'b']);
+      assert.equal(meta.has('a'), false);
+      assert.deepEqual(meta.get('b'), { userId: 'u2' });
+    });
+
+    it('claimPair takes both sockets out of the queue and locks them exactly once', async () => {
+      await store.addToQueue('a', { userId: 'u1' });
+      await store.addToQueue('b', { userId: 'u2' });
+      await store.addToQueue('c', { userId: 'u3' });
+
+      assert.equal(await store.claimPair('a', 'b'), true);
+      assert.deepEqual(await store.getWaitingQueue(), ['c']);
+      assert.equal(await store.isLocked('a'), true);
+      assert.equal(await store.isLocked('b'), true);
+      assert.equal((await store.getQueueMeta(['a', 'b'])).size, 0);
+
+      // Второй претендент на того же кандидата
+      assert.equal(await store.claimPair('c', 'b'), false);
+      assert.deepEqual(await store.getWaitingQueue(), ['c']);
+    });
+
+    it('claimPair refuses self, missing and locked sockets', async () => {
+      await store.addToQueue('a');
+      await store.addToQueue('b');
+      assert.equal(await store.claimPair('a', 'a'), false);
+      assert.equal(await store.claimPair('a', 'zzz'), false);
+
+      await store.lockSocket('b');
+      assert.equal(await store.claimPair('a', 'b'), false);
+      assert.deepEqual(await store.getWaitingQueue(), ['a', 'b']);
+
+      await store.unlockSocket('b');
+      assert.equal(await store.claimPair('a', 'b'), true);
+    });
+
+    it('only one of concurrent claims for the same candidate wins', async () => {
+      for (const sid of ['a', 'b', 'c']) await store.addToQueue(sid);
+      const results = await Promise.all([store.claimPair('a', 'c'), store.claimPair('b', 'c')]);
+      assert.equal(results.filter(Boolean).length, 1);
+    });
+
+    it('sets and removes pairs on both sides', async () => {
+      await store.setPair('a', 'b');
+      assert.equal(await store.getPartner('a'), 'b');
+      assert.equal(await store.getPartner('b'), 'a');
+      assert.equal(await store.removePair('b'), 'a');
+      assert.equal(await store.getPartner('a'), undefined);
+      assert.equal(await store.removePair('a'), undefined);
+    });
+
+    it('bans pairs symmetrically until the ban expires', async () => {
+      await store.banPair('a', 'b', 300);
+      assert.equal(await store.isBannedTogether('b', 'a'), true);
+      assert.equal(await store.isBannedTogether('a', 'c'), false);
+      await sleep(400);
+      assert.equal(await store.isBannedTogether('a', 'b'), false);
+    });
+
+    it('clearSocketData forgets queue, lock, pair and timestamps', async () => {
+      await store.addToQueue('a', { userId: 'u1' });
+      await store.lockSocket('a');
+      await store.setPair('a', 'b');
+      await store.setLastStart('a', 123);
+      await store.setLastSearch('a', 456);
+      await store.setLastMatchAttempt('a', 789);
+      assert.equal(await store.getLastStart('a'), 123);
+
+      await store.clearSocketData('a');
+      assert.equal(await store.isInQueue('a'), false);
+      assert.equal(await store.isLocked('a'), false);
+      assert.equal(await store.getPartner('b'), undefined);
+      assert.equal(await store.getLastStart('a'), undefined);
+      assert.equal(await store.getLastSearch('a'), undefined);
+      assert.equal(await store.getLastMatchAttempt('a'), undefined);
+    });
+
+    it('takeTokens drains the bucket and reports retryAfterMs', async () => {
+      // 2 токена, +0.01 в секунду — за время теста ведро не пополняется
+      assert.deepEqual(await store.takeTokens('k', 2, 0.01, 1), { allowed: true, remaining: 1, retryAfterMs: 0 });
+      assert.equal((await store.takeTokens('k', 2, 0.01, 1)).allowed, true);
+
+      const denied = await store.takeTokens('k', 2, 0.01, 1);
+      assert.equal(denied.allowed, false);
+      assert.ok(denied.retryAfterMs > 0 && denied.retryAfterMs <= 100_000, `retryAfterMs=${denied.retryAfterMs}`);
+
+      // Другие ключи независимы
+      assert.equal((await store.takeTokens('other', 2, 0.01, 1)).allowed, true);
+    });
+
+    it('takeTokens refills over time', async () => {
+      // 1 токен, +20 в секунду: за 300мс набегает с большим запасом
+      assert.equal((await store.takeTokens('refill', 1, 20, 1)).allowed, true);
+      await sleep(300);
+      assert.equal((await store.takeTokens('refill', 1, 20, 1)).allowed, true);
+    });
+
+    it('takeTokens never lets more than capacity through in a burst', async () => {
+      const results = await Promise.all(Array.from({ length: 10 }, () => store.takeTokens('burst', 3, 0.01, 1)));
+      assert.equal(results.filter((r) => r.allowed).length, 3);
+    });
+
+    it('keeps callback requests until taken, cancelled or expired', async () => {
+      await store.addCallbackRequest('busy', 'u1', 60_000);
+      await store.addCallbackRequest('busy', 'u2', 60_000);
+      await store.addCallbackRequest('busy', 'u3', 30);
+      assert.equal(await store.cancelCallbackRequest('busy', 'u2'), true);
+      assert.equal(await store.cancelCallbackRequest('busy', 'u2'), false);
+      assert.equal(await store.hasCallbackRequests('busy'), true);
+      assert.equal(await store.hasCallbackRequests('free'), false);
+
+      await sleep(60);
+      assert.deepEqual(await store.takeCallbackRequests('busy'), ['u1']);
+      // Забрали — второй ноде уже нечего уведомлять
+      assert.deepEqual(await store.takeCallbackRequests('busy'), []);
+      assert.equal(await store.hasCallbackRequests('busy'), false);
+    });
+
+    it('creates a call only for free users and hands it out exactly once', async () => {
+      const call = { a: 'u1', b: 'u2', aSid: 's1', startedAt: 1 };
+      assert.equal(await store.createCall('c1', call, ['u1', 'u2'], 60_000), true);
+      // Кому уже звонят — занят, даже если звонок создаёт другая нода
+      assert.equal(await store.createCall('c2', { a: 'u3', b: 'u2', startedAt: 2 }, ['u3', 'u2'], 60_000), false);
+      assert.equal(await store.getUserCall('u3'), undefined);
+      assert.equal(await store.getUserCall('u2'), 'c1');
+      assert.deepEqual(await store.getCall('c1'), call);
+      assert.deepEqual(await store.listCalls(), [{ callId: 'c1', call }]);
+
+      const taken = await Promise.all([store.takeCall('c1'), store.takeCall('c1')]);
+      assert.deepEqual(taken.filter(Boolean), [call]);
+      assert.equal(await store.getCall('c1'), undefined);
+      assert.equal(await store.getUserCall('u1'), undefined);
+      assert.equal(await store.createCall('c2', { a: 'u3', b: 'u2', startedAt: 2 }, ['u3', 'u2'], 60_000), true);
+    });
+
+    it('forgets a call nobody took after its ttl', async () => {
+      await store.createCall('c1', { a: 'u1', b: 'u2', startedAt: 1 }, ['u2'], 30);
+      await sleep(60);
+      assert.equal(await store.getCall('c1'), undefined);
+      assert.equal(await store.getUserCall('u2'), undefined);
+      assert.equal(await store.takeCall('c1'), undefined);
+      assert.deepEqual(await store.listCalls(), []);
+      assert.equal(await store.createCall('c2', { a: 'u3', b: 'u2', startedAt: 2 }, ['u2'], 60_000), true);
+    });
+
+    it('cleanupStaleQueueEntries drops disconnected and overdue sockets', async () => {
+      await store.addToQueue('alive');
+      await store.addToQueue('gone');
+      assert.deepEqual(await store.cleanupStaleQueueEntries(60_000, (sid) => sid !== 'gone'), ['gone']);
+      assert.deepEqual(await store.getWaitingQueue(), ['alive']);
+
+      await sleep(20);
+      assert.deepEqual(await store.cleanupStaleQueueEntries(10, () => true), ['alive']);
+      assert.equal(await store.getQueueSize(), 0);
+    });
+
+    it('cleanupStaleStates releases locks and pairs of disconnected sockets', async () => {
+      await store.lockSocket('gone');
+      await store.setPair('gone', 'alive');
+      const res = await store.cleanupStaleStates((sid) => sid !== 'gone');
+      assert.equal(res.cleanedLocks, 1);
+      assert.equal(res.cleanedPairs, 1);
+      assert.equal(await store.isLocked('gone'), false);
+      assert.equal(await store.getPartner('alive'), undefined);
+    });
+  });
+}
@@ -0,0 +1,88 @@
+// backend/utils/accountWipe.ts
+import mongoose, { ClientSession } from 'mongoose';
+import User from '../models/User';
+import Message from '../models/Message';
+import OfflineMessage from '../models/OfflineMessage';
+import FriendshipMessages from '../models/FriendshipMessages';
+import Install from '../models/Install';
+import LinkCode from '../models/LinkCode';
+import CallLog from '../models/CallLog';
+import Report from '../models/Report';
+
+/**
+ * Полная очистка аккаунта: дружбы/заявки у других, сообщения, звонки, профиль, инсталлы и коды привязки/восстановления.
+ * Сам документ User остаётся (тот же _id), но пустой. Используется в identity:wipeMe и админке.
+ * deleteUser — документ удаляется совсем (пустой аккаунт после перехода устройства на другой, utils/deviceLinking):
+ * тогда снимаем и ссылки на него — в чёрных списках других и в жалобах.
+ * Сокеты пользователя вызывающий код отвязывает сам.
+ */
+export async function wipeUserAccount(userId: string, opts: { deleteUser?: boolean } = {}): Promise<void> {
+  let session: ClientSession | null = null;
+  try { session = await mongoose.startSession(); } catch {}
+
+  const work = async (s?: ClientSession) => {
+    const opt = s ? { session: s } : undefined;
+
+    // FriendRequest больше не используется
+    // 1) Разрываем дружбы у других
+    await User.updateMany(
+      { friends: userId },
+      { $pull: { friends: userId } },
+      opt as any,
+    );
+
+    // 2) Удаляем входящие заявки у других
+    await User.updateMany(
+      { friendRequests: userId },
+      { $pull: { friendRequests: userId } },
+      opt as any,
+    );
+
+    // 3) Чистим сообщения (две модели + офлайн)
+    await Message.deleteMany({ $or: [{ from: userId }, { to: userId }] }, opt as any);
+    await OfflineMessage.deleteMany({ $or: [{ senderId: userId }, { recipientId: userId }] }, opt as any);
+    await FriendshipMessages.deleteMany({ $or: [{ user1: userId }, { user2: userId }] }, opt as any);
+    // История звонков — как и сообщения, с обеих сторон
+    await CallLog.deleteMany({ $or: [{ initiator: userId }, { callee: userId }] }, opt as any);
+
+    // 4) Удаляем пользователя вместе со ссылками на него либо очищаем его данные
+    if (opts.deleteUser) {
+      await User.updateMany({ blockedUsers: userId }, { $pull: { blockedUsers: userId } }, opt as any);
+      await Report.deleteMany({ $or: [{ reporter: userId }, { reported: userId }] }, opt as any);
+      await User.deleteOne({ _id: userId }, opt as any);
+    } else {
+      await User.updateOne(
+        { _id: userId },
+        {
+          $set: {
+            nick: '',
+            avatar: '',
+            avatarB64: '',
+            avatarThumbB64: '',
+            avatarVer: 0,
+            friends: [],
+            friendRequests: [],
+            blockedUsers: []
+          },
+          $unset: { recoveryCodeHash: 1, recoveryCodeCreatedAt: 1 }
+        },
+        opt as any
+      );
+    }
+
+    // Инсталлы (без deleteUser пользователь остаётся с тем же ID)
+    await Install.deleteMany({ user: userId }, opt as any);
+    // Невыкупленные коды привязки иначе живут до TTL и пускают новое устройство в очищенный аккаунт
+    await LinkCode.deleteMany({ user: userId }, opt as any);
+  };
+
+  try {
+    if (session) {
+      await session.withTransaction(async () => { await work(session!); });
+    } else {
+      await work();
+    }
+  } finally {
+    try { await session?.endSession(); } catch {}
+  }
+}
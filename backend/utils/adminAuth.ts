@@ -0,0 +1,20 @@
+// backend/utils/adminAuth.ts
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+
+/**
+ * Доступ к админ-эндпоинтам по общему секрету ADMIN_TOKEN (заголовок x-admin-token).
+ * Без ADMIN_TOKEN админка выключена целиком.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const expected = String(process.env.ADMIN_TOKEN || '').trim();
+  if (!expected) return res.status(503).json({ ok: false, error: 'admin_disabled' });
+
+  const got = String(req.header('x-admin-token') || '').trim();
+  const a = Buffer.from(got);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+    return res.status(401).json({ ok: false, error: 'unauthorized' });
+  }
+  next();
+}
@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+import User from '../models/User';
+
+const TTL_MS = 30_000; // как и кэш дружбы — блокировки меняются редко
+
+type CacheEntry<T> = { v: T; exp: number };
+const blockCache = new Map<string, CacheEntry<boolean>>();
+
+const isOid = (s?: string) => !!s && mongoose.Types.ObjectId.isValid(String(s));
+
+function key(a: string, b: string) {
+  const [x, y] = [String(a), String(b)].sort();
+  return `${x}_${y}`;
+}
+
+export function clearBlockCache(userId?: string) {
+  if (!userId) {
+    blockCache.clear();
+    return;
+  }
+  const uid = String(userId);
+  for (const k of blockCache.keys()) {
+    if (k.includes(uid)) blockCache.delete(k);
+  }
+}
+
+/**
+ * Заблокировал ли кто-то из пары другого (в любую сторону).
+ * Без MongoDB считаем, что блокировок нет — не ломаем матчинг/звонки.
+ */
+export async function isBlockedEitherWay(a: string, b: string): Promise<boolean> {
+  if (!isOid(a) || !isOid(b) || String(a) === String(b)) return false;
+  if (mongoose.connection.readyState !== 1) return false;
+  const k = key(a, b);
+  const now = Date.now();
+  const hit = blockCache.get(k);
+  if (hit && hit.exp > now) return hit.v;
+
+  const doc = await User.exists({
+    $or: [
+      { _id: a, blockedUsers: b },
+      { _id: b, blockedUsers: a },
+    ],
+  });
+  const blocked = !!doc;
+  blockCache.set(k, { v: blocked, exp: now + TTL_MS });
+  return blocked;
+}
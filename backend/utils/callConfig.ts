@@ -0,0 +1,45 @@
+// backend/utils/callConfig.ts
+
+/**
+ * Настройки звонков, общие для сокетов и /api/app-settings:
+ * - CALL_RING_TIMEOUT_SECONDS — сколько длится дозвон до call:timeout (по умолчанию 20с, 5..120);
+ *   значение по умолчанию для tunables.ringTimeoutSeconds в remote config (utils/remoteConfig)
+ * - быстрые ответы при отклонении звонка
+ */
+
+export const RING_TIMEOUT_MIN_SECONDS = 5;
+export const RING_TIMEOUT_MAX_SECONDS = 120;
+
+const parseRingTimeout = (raw?: string) => {
+  const n = Math.round(Number(raw));
+  if (!Number.isFinite(n) || n <= 0) return 20;
+  return Math.min(RING_TIMEOUT_MAX_SECONDS, Math.max(RING_TIMEOUT_MIN_SECONDS, n));
+};
+
+export const CALL_RING_TIMEOUT_SECONDS = parseRingTimeout(process.env.CALL_RING_TIMEOUT_SECONDS);
+
+// Свой текст быстрого ответа — не длиннее
+export const CALL_QUICK_REPLY_MAX = 200;
+
+/** key — ключ перевода в клиентском utils/i18n, text — запасной текст для клиентов без этого ключа */
+export type CallQuickReply = { id: string; key: string; text: string };
+
+// Готовые ответы: клиент показывает их на языке пользователя и шлёт id вместе с показанным текстом
+export const CALL_QUICK_REPLIES: CallQuickReply[] = [
+  { id: 'call_later', key: 'call_reply_call_later', text: 'Не могу говорить, перезвоню позже' },
+  { id: 'busy_write', key: 'call_reply_busy_write', text: 'Сейчас занят, напиши сообщение' },
+  { id: 'in_5_min', key: 'call_reply_in_5_min', text: 'Перезвоню через 5 минут' },
+  { id: 'driving', key: 'call_reply_driving', text: 'За рулём, позвоню, как доеду' },
+];
+
+const cleanReplyText = (raw?: string) => String(raw || '').replace(/\s+/g, ' ').trim().slice(0, CALL_QUICK_REPLY_MAX);
+
+/**
+ * Текст ответа при отклонении. Для готового ответа берём переведённый клиентом текст,
+ * у старых клиентов (шлют только replyId) — запасной. Без replyId — свой текст. Пустой — ответа нет
+ */
+export function resolveQuickReply(payload: { replyId?: string; message?: string }): string | undefined {
+  const preset = payload.replyId ? CALL_QUICK_REPLIES.find((r) => r.id === payload.replyId) : undefined;
+  if (preset) return cleanReplyText(payload.message) || preset.text;
+  return cleanReplyText(payload.message) || undefined;
+}
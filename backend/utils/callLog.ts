@@ -0,0 +1,159 @@
+// backend/utils/callLog.ts
+import mongoose from 'mongoose';
+import CallLog, { type CallOutcome } from '../models/CallLog';
+import User from '../models/User';
+import { logger } from './logger';
+
+/**
+ * Журнал звонков. Пишем best effort: ошибка БД не должна ломать сам звонок,
+ * поэтому функции ничего не пробрасывают.
+ */
+
+export const CALL_HISTORY_DEFAULT_LIMIT = 30;
+export const CALL_HISTORY_MAX_LIMIT = 100;
+
+// Для получателя эти исходы — пропущенный звонок
+const MISSED_OUTCOMES: CallOutcome[] = ['timeout', 'canceled', 'busy'];
+
+const isMongoReady = () => mongoose.connection.readyState === 1;
+const oid = (id: string) => new mongoose.Types.ObjectId(id);
+
+type CallParties = { callId: string; initiator: string; callee: string; roomId?: string; group?: boolean };
+
+/** Начался дозвон */
+export async function recordCallStarted(call: CallParties): Promise<void> {
+  if (!isMongoReady()) return;
+  try {
+    await CallLog.create({
+      callId: call.callId,
+      initiator: oid(call.initiator),
+      callee: oid(call.callee),
+      roomId: call.roomId,
+      group: !!call.group,
+      startedAt: new Date(),
+    });
+  } catch (e: any) {
+    logger.warn('[callLog] failed to record call start', { callId: call.callId, error: e?.message || String(e) });
+  }
+}
+
+/** Получатель занят — звонок даже не начался, сразу пишем исход */
+export async function recordCallBusy(call: Omit<CallParties, 'callId'>): Promise<void> {
+  if (!isMongoReady()) return;
+  const now = new Date();
+  try {
+    await CallLog.create({
+      callId: `busy_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      initiator: oid(call.initiator),
+      callee: oid(call.callee),
+      roomId: call.roomId,
+      group: !!call.group,
+      startedAt: now,
+      endedAt: now,
+      outcome: 'busy',
+    });
+  } catch (e: any) {
+    logger.warn('[callLog] failed to record busy call', { error: e?.message || String(e) });
+  }
+}
+
+/** Дозвон закончился: принят (разговор идёт до recordCallEnded) либо не состоялся */
+export async function recordCallOutcome(callId: string, outcome: Exclude<CallOutcome, 'busy'>, roomId?: string): Promise<void> {
+  if (!isMongoReady()) return;
+  const now = new Date();
+  try {
+    const $set: Record<string, any> = { outcome };
+    if (outcome === 'accepted') $set.acceptedAt = now;
+    else $set.endedAt = now;
+    if (roomId) $set.roomId = roomId;
+    await CallLog.updateOne({ callId, outcome: { $exists: false } }, { $set });
+  } catch (e: any) {
+    logger.warn('[callLog] failed to record call outcome', { callId, outcome, error: e?.message || String(e) });
+  }
+}
+
+/**
+ * Разговор в комнате завершён. С userId — только этот участник ушёл
+ * (в групповом звонке остальные продолжают, поэтому уход инициатора их записи не закрывает).
+ */
+export async function recordCallEnded(roomId: string, userId?: string): Promise<void> {
+  if (!roomId || !isMongoReady()) return;
+  const now = new Date();
+  const filter: Record<string, any> = { roomId, outcome: 'accepted', endedAt: { $exists: false } };
+  if (userId && mongoose.Types.ObjectId.isValid(userId)) {
+    filter.$or = [{ callee: oid(userId) }, { initiator: oid(userId), group: false }];
+  }
+  try {
+    // duration считаем на стороне БД от acceptedAt — запись могла быть начата на другой ноде
+    await CallLog.updateMany(filter, [
+      {
+        $set: {
+          endedAt: now,
+          duration: { $max: [0, { $round: [{ $divide: [{ $subtract: [now, '$acceptedAt'] }, 1000] }, 0] }] },
+        },
+      },
+    ]);
+  } catch (e: any) {
+    logger.warn('[callLog] failed to record call end', { roomId, userId, error: e?.message || String(e) });
+  }
+}
+
+export type CallHistoryItem = {
+  id: string;
+  peerId: string;
+  peerNick: string;
+  peerAvatarVer: number;
+  direction: 'outgoing' | 'incoming';
+  outcome: CallOutcome;
+  missed: boolean;
+  group: boolean;
+  startedAt: Date;
+  acceptedAt: Date | null;
+  endedAt: Date | null;
+  duration: number;
+};
+
+/** История звонков пользователя, новые сверху. before — курсор (startedAt последнего элемента страницы) */
+export async function getCallHistory(
+  userId: string,
+  opts: { limit?: number; before?: Date | null } = {}
+): Promise<{ calls: CallHistoryItem[]; nextBefore: Date | null }> {
+  const limit = Math.min(CALL_HISTORY_MAX_LIMIT, Math.max(1, Number(opts.limit) || CALL_HISTORY_DEFAULT_LIMIT));
+  const me = oid(userId);
+  const filter: Record<string, any> = {
+    $or: [{ initiator: me }, { callee: me }],
+    outcome: { $exists: true },
+  };
+  if (opts.before && !isNaN(opts.before.getTime())) filter.startedAt = { $lt: opts.before };
+
+  const docs = await CallLog.find(filter).sort({ startedAt: -1 }).limit(limit).lean();
+
+  const peerIds = Array.from(new Set(docs.map((d) => String(String(d.initiator) === userId ? d.callee : d.initiator))));
+  const peers = peerIds.length
+    ? await User.find({ _id: { $in: peerIds } }).select('nick avatarVer').lean()
+    : [];
+  const peerById = new Map(peers.map((p: any) => [String(p._id), p]));
+
+  const calls = docs.map((d) => {
+    const outgoing = String(d.initiator) === userId;
+    const peerId = String(outgoing ? d.callee : d.initiator);
+    const peer: any = peerById.get(peerId);
+    const outcome = d.outcome as CallOutcome;
+    return {
+      id: d.callId,
+      peerId,
+      peerNick: String(peer?.nick || '').trim(),
+      peerAvatarVer: peer?.avatarVer || 0,
+      direction: outgoing ? 'outgoing' as const : 'incoming' as const,
+      outcome,
+      missed: !outgoing && MISSED_OUTCOMES.includes(outcome),
+      group: !!d.group,
+      startedAt: d.startedAt,
+      acceptedAt: d.acceptedAt || null,
+      endedAt: d.endedAt || null,
+      duration: d.duration || 0,
+    };
+  });
+
+  return { calls, nextBefore: calls.length === limit ? calls[calls.length - 1].startedAt : null };
+}
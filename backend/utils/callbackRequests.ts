@@ -0,0 +1,55 @@
+// backend/utils/callbackRequests.ts
+import type { Server } from 'socket.io';
+import mongoose from 'mongoose';
+import User from '../models/User';
+import { isUserOnline, userRoom } from './socketCluster';
+import * as queueStore from './queueStore';
+import { notifyCallbackReady } from './push';
+import { logger } from './logger';
+
+/**
+ * "Перезвоните, когда освободится": звонящий застал друга занятым и просит сообщить,
+ * когда тот закончит разговор. Хранится в queueStore (с Redis — общий для всех нод, busy может сняться
+ * на другой ноде), срабатывает, когда у занятого снимается busy. Несработавшие запросы истекают по TTL.
+ */
+
+const CALLBACK_REQUEST_TTL_MS = Math.max(1, Number(process.env.CALL_CALLBACK_TTL_MINUTES || 60)) * 60_000;
+
+export async function addCallbackRequest(calleeId: string, callerId: string): Promise<void> {
+  await queueStore.addCallbackRequest(calleeId, callerId, CALLBACK_REQUEST_TTL_MS);
+}
+
+export function cancelCallbackRequest(calleeId: string, callerId: string): Promise<boolean> {
+  return queueStore.cancelCallbackRequest(calleeId, callerId);
+}
+
+/**
+ * calleeId освободился: сообщаем всем, кто просил перезвонить.
+ * Кто в сети — получает call:callback_ready, остальным уходит push.
+ */
+export async function fireCallbackRequests(io: Server, calleeId: string): Promise<void> {
+  try {
+    if (!(await queueStore.hasCallbackRequests(calleeId))) return;
+    // Ушёл в офлайн, а не освободился — подождём следующего раза
+    if (!(await isUserOnline(io, calleeId))) return;
+    const callers = await queueStore.takeCallbackRequests(calleeId);
+    if (!callers.length) return;
+
+    let nick: string | undefined;
+    if (mongoose.connection.readyState === 1) {
+      const u = await User.findById(calleeId).select('nick').lean();
+      nick = String((u as any)?.nick || '').trim() || undefined;
+    }
+
+    for (const callerId of callers) {
+      if (await isUserOnline(io, callerId)) {
+        io.to(userRoom(callerId)).emit('call:callback_ready', { userId: calleeId, nick });
+      } else {
+        void notifyCallbackReady(callerId, calleeId, nick);
+      }
+    }
+    logger.debug('Callback requests fired', { calleeId, callers: callers.length });
+  } catch (e: any) {
+    logger.warn('[callback] failed to fire callback requests', { calleeId, error: e?.message || String(e) });
+  }
+}
@@ -1,5 +1,6 @@
 import mongoose from 'mongoose';
 import Chat, { IChat, ITextMessage, IMediaMessage } from '../models/Chat';
+import { logger } from './logger';
 
 /**
  * Получить или создать чат между двумя пользователями
@@ -142,7 +143,7 @@ export async function clearChatMessages(userId1: string, userId2: string): Promi
 
     return true;
   } catch (error) {
-    console.error('[clearChatMessages] error:', error);
+    logger.error('[clearChatMessages] error:', error);
     return false;
   }
 }
@@ -171,7 +172,7 @@ export async function clearChatMessagesFromUser(
 
     return true;
   } catch (error) {
-    console.error('[clearChatMessagesFromUser] error:', error);
+    logger.error('[clearChatMessagesFromUser] error:', error);
     return false;
   }
 }
@@ -214,7 +215,7 @@ export async function markMessagesAsRead(
     await chat.save();
     return true;
   } catch (error) {
-    console.error('[markMessagesAsRead] error:', error);
+    logger.error('[markMessagesAsRead] error:', error);
     return false;
   }
 }
@@ -251,7 +252,7 @@ export async function getUnreadCount(
     
     return unreadText + unreadMedia;
   } catch (error) {
-    console.error('[getUnreadCount] error:', error);
+    logger.error('[getUnreadCount] error:', error);
     return 0;
   }
 }
@@ -0,0 +1,141 @@
+// backend/utils/deviceLinking.ts
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import User from '../models/User';
+import Install from '../models/Install';
+import LinkCode from '../models/LinkCode';
+import { logger } from './logger';
+import { wipeUserAccount } from './accountWipe';
+
+/**
+ * Несколько устройств на один аккаунт:
+ * - код привязки — короткий одноразовый код (и QR), который показывает уже вошедшее устройство;
+ * - код восстановления — длинный постоянный код, который пользователь хранит сам, чтобы вернуть аккаунт после переустановки.
+ * Устройство = запись Install; привязка просто переводит installId на нужного пользователя.
+ */
+
+export const LINK_CODE_TTL_SECONDS = Math.max(60, Number(process.env.DEVICE_LINK_CODE_TTL_SECONDS || 300));
+
+// Без похожих символов (0/O, 1/I/L) — код диктуют и набирают руками
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const LINK_CODE_LENGTH = 8; // XXXX-XXXX
+const RECOVERY_CODE_LENGTH = 20; // XXXXX-XXXXX-XXXXX-XXXXX, ~99 бит
+
+const oid = (id: string) => new mongoose.Types.ObjectId(id);
+
+function randomCode(length: number): string {
+  const bytes = crypto.randomBytes(length);
+  let out = '';
+  // Алфавит из 31 символа: берём байты без модульного перекоса
+  for (let i = 0; out.length < length; i++) {
+    const b = i < bytes.length ? bytes[i] : crypto.randomBytes(1)[0];
+    if (b < 248) out += CODE_ALPHABET[b % CODE_ALPHABET.length];
+  }
+  return out;
+}
+
+const groupCode = (code: string, size: number) => code.match(new RegExp(`.{1,${size}}`, 'g'))!.join('-');
+
+/** Код в том виде, как его могли ввести: регистр, пробелы и дефисы не важны */
+export const normalizeCode = (raw: string) => String(raw || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const hashCode = (normalized: string) => crypto.createHash('sha256').update(normalized).digest('hex');
+
+// === Код привязки ===============================================================
+/** Новый код привязки; прежний код этого же устройства перестаёт действовать */
+export async function createLinkCode(userId: string, installId: string): Promise<{ code: string; expiresAt: Date }> {
+  const code = randomCode(LINK_CODE_LENGTH);
+  const expiresAt = new Date(Date.now() + LINK_CODE_TTL_SECONDS * 1000);
+  await LinkCode.deleteMany({ user: oid(userId), createdByInstall: installId });
+  await LinkCode.create({ codeHash: hashCode(code), user: oid(userId), createdByInstall: installId, expiresAt });
+  return { code: groupCode(code, 4), expiresAt };
+}
+
+/** Погасить код привязки: вернёт userId владельца или null (неверный/просроченный/уже использованный) */
+export async function redeemLinkCode(raw: string): Promise<string | null> {
+  const code = normalizeCode(raw);
+  if (code.length !== LINK_CODE_LENGTH) return null;
+  const doc = await LinkCode.findOneAndDelete({ codeHash: hashCode(code), expiresAt: { $gt: new Date() } }).lean();
+  return doc ? String(doc.user) : null;
+}
+
+// === Код восстановления ==========================================================
+/** Выпустить код восстановления (старый перестаёт действовать). Сам код сервер не хранит */
+export async function createRecoveryCode(userId: string): Promise<string> {
+  const code = randomCode(RECOVERY_CODE_LENGTH);
+  await User.updateOne(
+    { _id: oid(userId) },
+    { $set: { recoveryCodeHash: hashCode(code), recoveryCodeCreatedAt: new Date() } }
+  );
+  return groupCode(code, 5);
+}
+
+export async function findUserByRecoveryCode(raw: string): Promise<string | null> {
+  const code = normalizeCode(raw);
+  if (code.length !== RECOVERY_CODE_LENGTH) return null;
+  const u = await User.findOne({ recoveryCodeHash: hashCode(code) }).select('_id').lean();
+  return u ? String(u._id) : null;
+}
+
+export async function hasRecoveryCode(userId: string): Promise<{ enabled: boolean; createdAt: Date | null }> {
+  const u = (await User.findById(userId).select('+recoveryCodeHash recoveryCodeCreatedAt').lean()) as any;
+  return { enabled: !!u?.recoveryCodeHash, createdAt: u?.recoveryCodeCreatedAt || null };
+}
+
+// === Устройства ==================================================================
+/**
+ * Перевести устройство на аккаунт userId. Возвращает прежнего владельца installId (если был другой).
+ * Пустой аккаунт, который устройство создало себе при первом запуске, без устройств и друзей никому не нужен — удаляем.
+ */
+export async function attachInstallToUser(installId: string, userId: string): Promise<string | null> {
+  const prev = (await Install.findOne({ installId }).select('user').lean()) as { user?: any } | null;
+  const prevUserId = prev?.user ? String(prev.user) : null;
+  if (prevUserId === userId) return null;
+
+  await Install.updateOne({ installId }, { $set: { user: oid(userId) } }, { upsert: true });
+
+  if (prevUserId) {
+    try {
+      const [installsLeft, prevUser] = await Promise.all([
+        Install.countDocuments({ user: oid(prevUserId) }),
+        User.findById(prevUserId).select('friends friendRequests').lean(),
+      ]);
+      const empty = !(prevUser as any)?.friends?.length && !(prevUser as any)?.friendRequests?.length;
+      if (!installsLeft && prevUser && empty) {
+        // Через общую очистку: иначе остаются его звонки, сообщения, коды и ссылки на него у других
+        await wipeUserAccount(prevUserId, { deleteUser: true });
+        logger.info('[devices] removed empty account after device switch', { prevUserId, userId });
+      }
+    } catch (e: any) {
+      logger.warn('[devices] failed to clean up previous account', { prevUserId, error: e?.message || String(e) });
+    }
+  }
+  return prevUserId;
+}
+
+/** Устройство по-прежнему привязано к пользователю (после отвязки старые сессии не принимаем) */
+export async function isInstallLinked(userId: string, installId?: string): Promise<boolean> {
+  if (!installId) return true; // сессии без installId (старые клиенты) не проверяем
+  return !!(await Install.exists({ installId, user: oid(userId) }));
+}
+
+export type DeviceInfo = {
+  installId: string;
+  platform: 'ios' | 'android' | null;
+  linkedAt: Date;
+};
+
+export async function listDevices(userId: string): Promise<DeviceInfo[]> {
+  const installs = await Install.find({ user: oid(userId) }).select('installId pushPlatform createdAt').sort({ createdAt: 1 }).lean();
+  return (installs as any[]).map((i) => ({
+    installId: String(i.installId),
+    platform: i.pushPlatform || null,
+    linkedAt: i.createdAt,
+  }));
+}
+
+export async function unlinkDevice(userId: string, installId: string): Promise<boolean> {
+  const res = await Install.deleteOne({ installId, user: oid(userId) });
+  if (res.deletedCount) await LinkCode.deleteMany({ user: oid(userId), createdByInstall: installId });
+  return res.deletedCount > 0;
+}
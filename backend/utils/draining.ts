@@ -0,0 +1,25 @@
+// backend/utils/draining.ts
+
+/**
+ * Режим draining перед остановкой процесса (SIGTERM/SIGINT, см. shutdown в index.ts).
+ * Новые start / call:initiate не принимаем, клиентам уходит server:draining { graceMs } —
+ * они переподключаются (балансировщик отправит на другую ноду) и заново встают в очередь.
+ * Процесс завершается через SHUTDOWN_GRACE_MS или раньше, когда не осталось сокетов и звонков.
+ */
+export const SHUTDOWN_GRACE_MS = Math.max(0, Number(process.env.SHUTDOWN_GRACE_MS ?? 30_000) || 0);
+
+let drainingUntil = 0;
+
+export const isDraining = () => drainingUntil > 0;
+
+/** false — draining уже идёт (повторный сигнал) */
+export function beginDraining(): boolean {
+  if (drainingUntil) return false;
+  drainingUntil = Date.now() + SHUTDOWN_GRACE_MS;
+  return true;
+}
+
+/** Payload события server:draining: сколько ещё нода будет обслуживать уже подключённых */
+export function drainingPayload(): { graceMs: number } {
+  return { graceMs: Math.max(0, drainingUntil - Date.now()) };
+}
@@ -0,0 +1,112 @@
+// backend/utils/logContext.ts
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Request, Response, NextFunction } from 'express';
+import type { Socket } from 'socket.io';
+
+/**
+ * Контекст логов для текущего HTTP-запроса / события сокета (AsyncLocalStorage).
+ * cid (correlation id) связывает записи одного сценария:
+ * - HTTP: из заголовка X-Request-Id (или новый), возвращается в ответе
+ * - сокеты: по callId / roomId из payload; события без них получают новый cid.
+ *   Сценарий, растянутый на несколько событий, склеивается через linkCorrelation(ключ, cid)
+ */
+export type LogContext = {
+  cid: string;
+  userId?: string;
+  socketId?: string;
+  event?: string;
+};
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+export const newCorrelationId = () => crypto.randomBytes(8).toString('hex');
+
+export function getLogContext(): LogContext | undefined {
+  return storage.getStore();
+}
+
+export function runWithLogContext<T>(ctx: LogContext, fn: () => T): T {
+  return storage.run(ctx, fn);
+}
+
+/** Дополнить контекст текущего запроса/события (например, cid = callId после его создания) */
+export function setLogContext(patch: Partial<LogContext>): void {
+  const ctx = storage.getStore();
+  if (!ctx) return;
+  for (const [k, v] of Object.entries(patch)) {
+    Object.defineProperty(ctx, k, { value: v, writable: true, enumerable: true, configurable: true });
+  }
+}
+
+// === Склейка сценариев ===========================================================
+// roomId/callId → cid. Ограниченный по размеру и времени реестр, чтобы не расти бесконечно
+const CORRELATION_TTL_MS = 6 * 60 * 60 * 1000;
+const CORRELATION_MAX = 10_000;
+const correlations = new Map<string, { cid: string; at: number }>();
+
+/** Запомнить, что события с этим ключом (roomId, callId) продолжают сценарий cid */
+export function linkCorrelation(key: string | undefined | null, cid = getLogContext()?.cid): void {
+  if (!key || !cid) return;
+  correlations.delete(key);
+  correlations.set(key, { cid, at: Date.now() });
+  if (correlations.size > CORRELATION_MAX) {
+    const oldest = correlations.keys().next().value;
+    if (oldest !== undefined) correlations.delete(oldest);
+  }
+}
+
+export function correlationFor(key: string | undefined | null): string | undefined {
+  if (!key) return undefined;
+  const hit = correlations.get(key);
+  if (!hit) return undefined;
+  if (Date.now() - hit.at > CORRELATION_TTL_MS) {
+    correlations.delete(key);
+    return undefined;
+  }
+  return hit.cid;
+}
+
+function cidFromPayload(payload: any): string {
+  if (payload && typeof payload === 'object') {
+    const callId = typeof payload.callId === 'string' ? payload.callId : '';
+    if (callId) return correlationFor(callId) || callId;
+    for (const key of ['roomId', 'roomName']) {
+      const room = typeof payload[key] === 'string' ? payload[key] : '';
+      const cid = correlationFor(room);
+      if (cid) return cid;
+    }
+  }
+  return newCorrelationId();
+}
+
+// === Подключение ================================================================
+/** Контекст сокета: userId читаем на момент записи — он появляется после identity:attach / reauth */
+function socketContext(sock: Socket, cid: string, event?: string): LogContext {
+  const ctx: LogContext = { cid, socketId: sock.id, event };
+  Object.defineProperty(ctx, 'userId', {
+    get: () => String((sock.data as any)?.userId || '') || undefined,
+    enumerable: true,
+    configurable: true,
+  });
+  return ctx;
+}
+
+/** io.use(): контекст для подключения и для каждого входящего события этого сокета */
+export function socketLogContextMiddleware(sock: Socket, next: (err?: Error) => void) {
+  sock.use((packet, nextPacket) => {
+    const [event, payload] = packet;
+    runWithLogContext(socketContext(sock, cidFromPayload(payload), String(event)), () => nextPacket());
+  });
+  runWithLogContext(socketContext(sock, newCorrelationId(), 'connect'), () => next());
+}
+
+const REQUEST_ID_RE = /^[\w.:-]{1,64}$/;
+
+/** Express: cid из X-Request-Id / X-Correlation-Id (или новый), отдаём его в X-Request-Id */
+export function httpLogContextMiddleware(req: Request, res: Response, next: NextFunction) {
+  const incoming = String(req.headers['x-request-id'] || req.headers['x-correlation-id'] || '').trim();
+  const cid = REQUEST_ID_RE.test(incoming) ? incoming : newCorrelationId();
+  res.setHeader('X-Request-Id', cid);
+  runWithLogContext({ cid, event: `${req.method} ${req.path}` }, () => next());
+}
@@ -1,39 +1,191 @@
-type LogMeta = Record<string, unknown> | undefined;
+/**
+ * Структурные логи: одна JSON-строка на запись —
+ * { ts, level, msg, cid, userId, socketId, event, ...meta }.
+ * cid/userId/socketId/event берутся из текущего контекста (см. utils/logContext) — так по cid
+ * видно весь сценарий: call:initiate → call:accept → livekit:token, start → match_found.
+ * Токены и data URI вырезаются перед записью.
+ *
+ * Уровень — LOG_LEVEL=debug|info|warn|error|silent (по умолчанию info в production, debug вне его).
+ * Куда пишем — LOG_SINK:
+ * - stdout (по умолчанию)
+ * - file — LOG_FILE (по умолчанию logs/backend.log) с ротацией по размеру:
+ *   LOG_FILE_MAX_BYTES (10 МБ), LOG_FILE_MAX_FILES (5 архивов .1…N)
+ * Для тестов реализацию можно подменить через useLogSink().
+ */
+import fs from 'fs';
+import path from 'path';
+import { getLogContext } from './logContext';
 
-function ts() {
-  return new Date().toISOString();
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogSink {
+  write(line: string, level: LogLevel): void;
+}
+
+const LEVEL_WEIGHT: Record<LogLevel | 'silent', number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+function minLevel(): number {
+  const raw = String(process.env.LOG_LEVEL || '').trim().toLowerCase();
+  if (raw in LEVEL_WEIGHT) return LEVEL_WEIGHT[raw as LogLevel];
+  return process.env.NODE_ENV === 'production' ? LEVEL_WEIGHT.info : LEVEL_WEIGHT.debug;
+}
+
+// === Редактирование секретов ===================================================
+const SECRET_KEY_RE = /(token|secret|password|authorization|cookie|apikey)$/i;
+const DATA_URI_RE = /data:([\w/+.-]+)?(;[\w=-]+)*(;base64)?,[A-Za-z0-9+/=%_-]{16,}/g;
+// JWT (LiveKit) и наши сессионные токены: base64url(JSON).подпись — оба начинаются с "eyJ"
+const TOKEN_RE = /\beyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}(\.[A-Za-z0-9_-]+)?/g;
+const BEARER_RE = /\b(Bearer)\s+[A-Za-z0-9._~+/=-]+/gi;
+const MAX_DEPTH = 6;
+const MAX_STRING = 4000;
+
+export function redactString(s: string): string {
+  let out = s
+    .replace(DATA_URI_RE, (m, mime) => `data:${mime || ''};[${m.length} chars redacted]`)
+    .replace(TOKEN_RE, '[token redacted]')
+    .replace(BEARER_RE, '$1 [redacted]');
+  if (out.length > MAX_STRING) out = `${out.slice(0, MAX_STRING)}…[${out.length - MAX_STRING} more]`;
+  return out;
+}
+
+function serializeError(e: Error): Record<string, unknown> {
+  const out: Record<string, unknown> = { name: e.name, message: redactString(String(e.message || '')) };
+  if (e.stack) out.stack = redactString(e.stack);
+  const code = (e as any).code;
+  if (code !== undefined) out.code = code;
+  return out;
 }
 
-function fmt(meta?: LogMeta) {
-  if (!meta) return '';
+/** Копия значения, пригодная для JSON: секреты скрыты, Error развёрнуты, циклы разорваны */
+export function redact(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  if (value === null || value === undefined) return value;
+  if (typeof value === 'string') return redactString(value);
+  if (typeof value === 'bigint') return String(value);
+  if (typeof value !== 'object') return typeof value === 'function' ? '[function]' : value;
+  if (value instanceof Error) return serializeError(value);
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return `[buffer ${value.length} bytes]`;
+  if (seen.has(value)) return '[circular]';
+  if (depth >= MAX_DEPTH) return '[depth limit]';
+  seen.add(value);
+
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1, seen));
+  // ObjectId и подобные — по toString
+  if (typeof (value as any).toHexString === 'function') return String(value);
+
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+    out[k] = typeof v === 'string' && SECRET_KEY_RE.test(k) ? '[redacted]' : redact(v, depth + 1, seen);
+  }
+  return out;
+}
+
+// === Sinks =====================================================================
+export function createStdoutSink(): LogSink {
+  return {
+    write(line, level) {
+      (level === 'error' || level === 'warn' ? process.stderr : process.stdout).write(line + '\n');
+    },
+  };
+}
+
+export type FileSinkOptions = { file: string; maxBytes?: number; maxFiles?: number };
+
+/**
+ * Файл с ротацией: backend.log → backend.log.1 → … → backend.log.N (старший удаляется).
+ * Пишем синхронно: строка целиком попадает в файл до ротации и не теряется при падении процесса
+ */
+export function createFileSink({ file, maxBytes = 10 * 1024 * 1024, maxFiles = 5 }: FileSinkOptions): LogSink {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  let fd = fs.openSync(file, 'a');
+  let size = fs.fstatSync(fd).size;
+
+  const rotate = () => {
+    try { fs.closeSync(fd); } catch {}
+    try { fs.unlinkSync(`${file}.${maxFiles}`); } catch {}
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      try { fs.renameSync(`${file}.${i}`, `${file}.${i + 1}`); } catch {}
+    }
+    try { fs.renameSync(file, `${file}.1`); } catch {}
+    fd = fs.openSync(file, 'a');
+    size = 0;
+  };
+
+  return {
+    write(line) {
+      const chunk = Buffer.from(line + '\n');
+      if (size > 0 && size + chunk.length > maxBytes) rotate();
+      fs.writeSync(fd, chunk);
+      size += chunk.length;
+    },
+  };
+}
+
+// === Выбор реализации ==========================================================
+let current: LogSink | undefined;
+
+function createFromEnv(): LogSink {
+  const kind = String(process.env.LOG_SINK || '').trim().toLowerCase();
+  if (kind === 'file') {
+    try {
+      return createFileSink({
+        file: path.resolve(String(process.env.LOG_FILE || 'logs/backend.log')),
+        maxBytes: Number(process.env.LOG_FILE_MAX_BYTES) || undefined,
+        maxFiles: Number(process.env.LOG_FILE_MAX_FILES) || undefined,
+      });
+    } catch (e: any) {
+      process.stderr.write(`[logger] cannot open log file, falling back to stdout: ${e?.message || e}\n`);
+    }
+  }
+  return createStdoutSink();
+}
+
+function sink(): LogSink {
+  if (!current) current = createFromEnv();
+  return current;
+}
+
+/** Подменить реализацию (тесты / явная инициализация) */
+export function useLogSink(impl: LogSink): void {
+  current = impl;
+}
+
+// === Запись ====================================================================
+function write(level: LogLevel, message: string, meta?: unknown, rest: unknown[] = []) {
+  if (LEVEL_WEIGHT[level] < minLevel()) return;
+
+  const ctx = getLogContext();
+  const entry: Record<string, unknown> = {};
+
+  if (meta instanceof Error) entry.err = serializeError(meta);
+  else if (meta && typeof meta === 'object' && !Array.isArray(meta)) Object.assign(entry, redact(meta) as object);
+  else if (meta !== undefined) entry.data = redact(meta);
+  if (rest.length) entry.args = redact(rest);
+
+  const line: Record<string, unknown> = {
+    ts: new Date().toISOString(),
+    level,
+    msg: redactString(String(message)),
+    ...(ctx?.cid ? { cid: ctx.cid } : {}),
+    ...(ctx?.userId ? { userId: ctx.userId } : {}),
+    ...(ctx?.socketId ? { socketId: ctx.socketId } : {}),
+    ...(ctx?.event ? { event: ctx.event } : {}),
+  };
+  // Поля из meta не перетирают служебные (userId из meta — например, собеседник — уходит под своим именем)
+  for (const [k, v] of Object.entries(entry)) {
+    line[k in line ? `meta.${k}` : k] = v;
+  }
+
   try {
-    return ' ' + JSON.stringify(meta);
+    sink().write(JSON.stringify(line), level);
   } catch {
-    return ' ' + String(meta);
+    // Логгер не должен ронять обработчик
   }
 }
 
 export const logger = {
-  debug(message: string, meta?: LogMeta) {
-    if (process.env.LOG_LEVEL === 'silent') return;
-    if (process.env.NODE_ENV === 'production' && process.env.LOG_LEVEL !== 'debug') return;
-    // eslint-disable-next-line no-console
-    console.log(`[${ts()}] [debug] ${message}${fmt(meta)}`);
-  },
-  info(message: string, meta?: LogMeta) {
-    if (process.env.LOG_LEVEL === 'silent') return;
-    // eslint-disable-next-line no-console
-    console.log(`[${ts()}] [info] ${message}${fmt(meta)}`);
-  },
-  warn(message: string, meta?: LogMeta) {
-    if (process.env.LOG_LEVEL === 'silent') return;
-    // eslint-disable-next-line no-console
-    console.warn(`[${ts()}] [warn] ${message}${fmt(meta)}`);
-  },
-  error(message: string, meta?: LogMeta) {
-    if (process.env.LOG_LEVEL === 'silent') return;
-    // eslint-disable-next-line no-console
-    console.error(`[${ts()}] [error] ${message}${fmt(meta)}`);
-  },
+  debug(message: string, meta?: unknown, ...rest: unknown[]) { write('debug', message, meta, rest); },
+  info(message: string, meta?: unknown, ...rest: unknown[]) { write('info', message, meta, rest); },
+  warn(message: string, meta?: unknown, ...rest: unknown[]) { write('warn', message, meta, rest); },
+  error(message: string, meta?: unknown, ...rest: unknown[]) { write('error', message, meta, rest); },
 };
-
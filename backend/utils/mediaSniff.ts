@@ -0,0 +1,73 @@
+// backend/utils/mediaSniff.ts
+import fs from 'fs';
+
+export type MediaKind = 'image' | 'video' | 'audio' | 'document';
+
+export type SniffedMedia = { kind: MediaKind; mime: string; ext: string };
+
+/** Сколько байт заголовка нужно для определения типа */
+export const SNIFF_BYTES = 64;
+
+const ascii = (buf: Buffer, start: number, end: number) => buf.toString('latin1', start, end);
+
+/**
+ * Определяем тип файла по сигнатуре (magic bytes), а не по MIME/расширению от клиента.
+ * Всё, что не распознано, считается недопустимым.
+ */
+export function sniffMedia(head: Buffer, originalName?: string): SniffedMedia | null {
+  if (!head || head.length < 4) return null;
+
+  // Изображения
+  if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return { kind: 'image', mime: 'image/jpeg', ext: 'jpg' };
+  if (head.length >= 8 && head.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return { kind: 'image', mime: 'image/png', ext: 'png' };
+  }
+  if (ascii(head, 0, 4) === 'GIF8') return { kind: 'image', mime: 'image/gif', ext: 'gif' };
+  if (ascii(head, 0, 4) === 'RIFF' && ascii(head, 8, 12) === 'WEBP') return { kind: 'image', mime: 'image/webp', ext: 'webp' };
+
+  // ISO BMFF: mp4 / mov / m4a / heic — различаем по major brand
+  if (head.length >= 12 && ascii(head, 4, 8) === 'ftyp') {
+    const brand = ascii(head, 8, 12);
+    if (brand === 'qt  ') return { kind: 'video', mime: 'video/quicktime', ext: 'mov' };
+    if (brand === 'M4A ' || brand === 'M4B ') return { kind: 'audio', mime: 'audio/mp4', ext: 'm4a' };
+    if (['heic', 'heix', 'mif1', 'msf1'].includes(brand)) return { kind: 'image', mime: 'image/heic', ext: 'heic' };
+    return { kind: 'video', mime: 'video/mp4', ext: 'mp4' };
+  }
+  // Matroska / WebM
+  if (head[0] === 0x1a && head[1] === 0x45 && head[2] === 0xdf && head[3] === 0xa3) {
+    return { kind: 'video', mime: 'video/webm', ext: 'webm' };
+  }
+
+  // Аудио
+  if (ascii(head, 0, 4) === 'OggS') return { kind: 'audio', mime: 'audio/ogg', ext: 'ogg' };
+  if (ascii(head, 0, 4) === 'RIFF' && ascii(head, 8, 12) === 'WAVE') return { kind: 'audio', mime: 'audio/wav', ext: 'wav' };
+  if (ascii(head, 0, 3) === 'ID3' || (head[0] === 0xff && (head[1] & 0xe6) === 0xe2)) {
+    return { kind: 'audio', mime: 'audio/mpeg', ext: 'mp3' };
+  }
+  if (head[0] === 0xff && (head[1] & 0xf6) === 0xf0) return { kind: 'audio', mime: 'audio/aac', ext: 'aac' };
+
+  // Документы
+  if (ascii(head, 0, 5) === '%PDF-') return { kind: 'document', mime: 'application/pdf', ext: 'pdf' };
+  if (head[0] === 0x50 && head[1] === 0x4b && head[2] === 0x03 && head[3] === 0x04) {
+    // Office Open XML — это zip; расширение берём у клиента, только из разрешённого списка
+    const ext = String(originalName || '').split('.').pop()?.toLowerCase();
+    if (ext === 'docx') return { kind: 'document', mime: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', ext };
+    if (ext === 'xlsx') return { kind: 'document', mime: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', ext };
+    if (ext === 'pptx') return { kind: 'document', mime: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', ext };
+    return { kind: 'document', mime: 'application/zip', ext: 'zip' };
+  }
+
+  return null;
+}
+
+/** Читаем первые байты файла с диска */
+export async function readFileHead(filePath: string, bytes = SNIFF_BYTES): Promise<Buffer> {
+  const fh = await fs.promises.open(filePath, 'r');
+  try {
+    const buf = Buffer.alloc(bytes);
+    const { bytesRead } = await fh.read(buf, 0, bytes, 0);
+    return buf.subarray(0, bytesRead);
+  } finally {
+    await fh.close();
+  }
+}
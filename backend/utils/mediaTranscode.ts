@@ -0,0 +1,126 @@
+// backend/utils/mediaTranscode.ts
+import ffmpeg from 'fluent-ffmpeg';
+
+// Путь к бинарникам можно задать через FFMPEG_PATH / FFPROBE_PATH (fluent-ffmpeg читает их сам)
+
+/** Столбиков в превью волны голосового */
+export const WAVEFORM_BARS = 48;
+
+// Частота, на которой считаем волну: для превью хватает с запасом
+const WAVEFORM_SAMPLE_RATE = 8000;
+
+export type ProbedMedia = {
+  duration: number; // секунды
+  hasAudio: boolean;
+  hasVideo: boolean;
+};
+
+/** Длительность и набор потоков через ffprobe */
+export function probeMedia(filePath: string): Promise<ProbedMedia> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, data) => {
+      if (err) return reject(err);
+      const streams = data?.streams || [];
+      resolve({
+        duration: Number(data?.format?.duration) || 0,
+        hasAudio: streams.some((s) => s.codec_type === 'audio'),
+        hasVideo: streams.some((s) => s.codec_type === 'video' && s.disposition?.attached_pic !== 1),
+      });
+    });
+  });
+}
+
+/**
+ * Голосовое → AAC в m4a: моно, низкий битрейт, проигрывается нативно и на iOS, и на Android.
+ * faststart — чтобы плеер начинал играть до полной загрузки.
+ */
+export function transcodeVoice(inputPath: string, outputPath: string, maxSeconds: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(inputPath)
+      .noVideo()
+      .audioCodec('aac')
+      .audioChannels(1)
+      .audioFrequency(24000)
+      .audioBitrate('48k')
+      .duration(maxSeconds)
+      .outputOptions(['-movflags +faststart'])
+      .format('mp4')
+      .on('error', reject)
+      .on('end', () => resolve())
+      .save(outputPath);
+  });
+}
+
+/** Ширина превью-кадра видео (высота — по пропорциям) */
+export const VIDEO_THUMB_WIDTH = 480;
+
+/**
+ * Превью-кадр видео в JPEG. Берём кадр на 1-й секунде (у коротких — с начала),
+ * чтобы не попасть на чёрный первый кадр.
+ */
+export function extractVideoThumbnail(inputPath: string, outputPath: string, duration: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(inputPath)
+      .seekInput(duration > 2 ? 1 : 0)
+      .frames(1)
+      .videoFilters(`scale=${VIDEO_THUMB_WIDTH}:-2`)
+      .outputOptions(['-q:v 4'])
+      .on('error', reject)
+      .on('end', () => resolve())
+      .save(outputPath);
+  });
+}
+
+/**
+ * Превью волны: декодируем в 16-bit PCM моно и берём пик по каждому из `bars` отрезков.
+ * Значения нормированы к 0..100 относительно самого громкого отрезка.
+ */
+export function computeWaveform(filePath: string, bars = WAVEFORM_BARS): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    // Пики по окнам 10 мс, потом сжимаем до нужного числа столбиков
+    const windowSamples = WAVEFORM_SAMPLE_RATE / 100;
+    const windows: number[] = [];
+    let windowPeak = 0;
+    let windowFill = 0;
+    let carry: Buffer | null = null;
+
+    const stream = ffmpeg(filePath)
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(WAVEFORM_SAMPLE_RATE)
+      .format('s16le')
+      .on('error', reject)
+      .pipe();
+
+    stream.on('data', (chunk: Buffer) => {
+      const buf = carry ? Buffer.concat([carry, chunk]) : chunk;
+      const usable = buf.length - (buf.length % 2);
+      carry = usable < buf.length ? buf.subarray(usable) : null;
+      for (let i = 0; i < usable; i += 2) {
+        const v = Math.abs(buf.readInt16LE(i));
+        if (v > windowPeak) windowPeak = v;
+        if (++windowFill === windowSamples) {
+          windows.push(windowPeak);
+          windowPeak = 0;
+          windowFill = 0;
+        }
+      }
+    });
+    stream.on('error', reject);
+    stream.on('end', () => {
+      if (windowFill > 0) windows.push(windowPeak);
+      if (!windows.length) return resolve(new Array(bars).fill(0));
+
+      const peaks: number[] = [];
+      for (let b = 0; b < bars; b++) {
+        const start = Math.floor((b * windows.length) / bars);
+        const end = Math.max(start + 1, Math.floor(((b + 1) * windows.length) / bars));
+        let peak = 0;
+        for (let i = start; i < end && i < windows.length; i++) peak = Math.max(peak, windows[i]);
+        peaks.push(peak);
+      }
+      const max = Math.max(...peaks) || 1;
+      resolve(peaks.map((p) => Math.round((p / max) * 100)));
+    });
+  });
+}
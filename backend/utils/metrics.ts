@@ -0,0 +1,166 @@
+// backend/utils/metrics.ts
+
+/**
+ * Метрики в формате Prometheus (text exposition 0.0.4) без внешних зависимостей.
+ * Счётчики и гистограммы копятся в памяти процесса; gauge могут считаться в момент запроса (collect).
+ * При нескольких нодах каждая отдаёт свои значения — суммирует Prometheus.
+ * Отдаётся через GET /metrics (routes/metrics.ts).
+ */
+
+type Labels = Record<string, string | number | undefined>;
+
+interface Metric {
+  render(): string[];
+}
+
+const registry = new Map<string, { help: string; type: 'counter' | 'gauge' | 'histogram'; metric: Metric }>();
+const collectors: Array<() => void | Promise<void>> = [];
+
+const escapeLabel = (v: string) => v.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+function labelKey(labelNames: readonly string[], labels?: Labels): string {
+  return labelNames.map((n) => String(labels?.[n] ?? '')).join('\u0000');
+}
+
+function formatLabels(labelNames: readonly string[], key: string, extra?: [string, string]): string {
+  const values = labelNames.length ? key.split('\u0000') : [];
+  const pairs = labelNames.map((n, i) => `${n}="${escapeLabel(values[i] || '')}"`);
+  if (extra) pairs.push(`${extra[0]}="${escapeLabel(extra[1])}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+const formatValue = (v: number) => (Number.isFinite(v) ? String(v) : v > 0 ? '+Inf' : v < 0 ? '-Inf' : 'NaN');
+
+function register<M extends Metric>(name: string, help: string, type: 'counter' | 'gauge' | 'histogram', metric: M): M {
+  if (registry.has(name)) throw new Error(`metric ${name} already registered`);
+  registry.set(name, { help, type, metric });
+  return metric;
+}
+
+// === Типы метрик =================================================================
+export type Counter = { inc(labels?: Labels, value?: number): void };
+
+export function counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+  const values = new Map<string, number>();
+  return register(name, help, 'counter', {
+    inc(labels?: Labels, value = 1) {
+      if (!(value >= 0)) return;
+      const key = labelKey(labelNames, labels);
+      values.set(key, (values.get(key) || 0) + value);
+    },
+    render() {
+      if (!values.size && !labelNames.length) return [`${name} 0`];
+      return Array.from(values, ([key, v]) => `${name}${formatLabels(labelNames, key)} ${formatValue(v)}`);
+    },
+  });
+}
+
+export type Gauge = { set(value: number, labels?: Labels): void };
+
+/** collect — вызывается перед каждой выдачей /metrics и может выставить актуальное значение */
+export function gauge(
+  name: string,
+  help: string,
+  labelNames: readonly string[] = [],
+  collect?: (g: Gauge) => void | Promise<void>
+): Gauge {
+  const values = new Map<string, number>();
+  const g = register(name, help, 'gauge', {
+    set(value: number, labels?: Labels) {
+      values.set(labelKey(labelNames, labels), value);
+    },
+    render() {
+      return Array.from(values, ([key, v]) => `${name}${formatLabels(labelNames, key)} ${formatValue(v)}`);
+    },
+  });
+  if (collect) collectors.push(() => collect(g));
+  return g;
+}
+
+export type Histogram = {
+  observe(value: number, labels?: Labels): void;
+  /** Таймер: вызов возвращённой функции записывает прошедшее время в секундах */
+  startTimer(labels?: Labels): (endLabels?: Labels) => number;
+};
+
+export function histogram(name: string, help: string, buckets: readonly number[], labelNames: readonly string[] = []): Histogram {
+  const bounds = [...buckets].sort((a, b) => a - b);
+  const series = new Map<string, { counts: number[]; sum: number; count: number }>();
+
+  const h: Histogram & Metric = {
+    observe(value: number, labels?: Labels) {
+      if (!Number.isFinite(value) || value < 0) return;
+      const key = labelKey(labelNames, labels);
+      let s = series.get(key);
+      if (!s) series.set(key, (s = { counts: bounds.map(() => 0), sum: 0, count: 0 }));
+      for (let i = 0; i < bounds.length; i++) if (value <= bounds[i]) s.counts[i]++;
+      s.sum += value;
+      s.count++;
+    },
+    startTimer(labels?: Labels) {
+      const start = process.hrtime.bigint();
+      return (endLabels?: Labels) => {
+        const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+        h.observe(seconds, { ...labels, ...endLabels });
+        return seconds;
+      };
+    },
+    render() {
+      const out: string[] = [];
+      for (const [key, s] of series) {
+        bounds.forEach((b, i) => out.push(`${name}_bucket${formatLabels(labelNames, key, ['le', String(b)])} ${s.counts[i]}`));
+        out.push(`${name}_bucket${formatLabels(labelNames, key, ['le', '+Inf'])} ${s.count}`);
+        out.push(`${name}_sum${formatLabels(labelNames, key)} ${formatValue(s.sum)}`);
+        out.push(`${name}_count${formatLabels(labelNames, key)} ${s.count}`);
+      }
+      return out;
+    },
+  };
+  return register(name, help, 'histogram', h);
+}
+
+/** Текст для /metrics: сначала пересчитываем gauge, ошибка одного сборщика не ломает выдачу */
+export async function renderMetrics(): Promise<string> {
+  await Promise.all(collectors.map(async (c) => { try { await c(); } catch {} }));
+  const lines: string[] = [];
+  for (const [name, { help, type, metric }] of registry) {
+    lines.push(`# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+    lines.push(`# TYPE ${name} ${type}`);
+    lines.push(...metric.render());
+  }
+  return lines.join('\n') + '\n';
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// === Метрики приложения ==========================================================
+// Границы в секундах
+const WAIT_BUCKETS = [0.5, 1, 2, 5, 10, 20, 30, 60, 120, 300];
+const SESSION_BUCKETS = [5, 15, 30, 60, 120, 300, 600, 1800, 3600];
+const RING_BUCKETS = [1, 2, 3, 5, 8, 12, 20, 30, 60];
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+export const metrics = {
+  // Рандом-матчинг
+  matchWaitSeconds: histogram('livi_match_wait_seconds', 'Time from start/next to match_found', WAIT_BUCKETS, ['relaxed']),
+  randomSessionSeconds: histogram('livi_random_session_duration_seconds', 'Duration of a random chat pair', SESSION_BUCKETS, ['reason']),
+  matchNext: counter('livi_match_next_total', 'Random chat "next" requests'),
+  matchStop: counter('livi_match_stop_total', 'Random chat "stop" requests'),
+
+  // Звонки
+  callRingToAcceptSeconds: histogram('livi_call_ring_to_accept_seconds', 'Time from call:initiate to call:accept', RING_BUCKETS, ['group']),
+  callOutcomes: counter('livi_call_outcomes_total', 'Direct call outcomes', ['outcome', 'group']),
+  livekitTokenErrors: counter('livi_livekit_token_errors_total', 'LiveKit token creation failures', ['reason']),
+
+  // Сообщения и медиа
+  messageSendSeconds: histogram('livi_message_send_duration_seconds', 'message:send handling time until ack', LATENCY_BUCKETS, ['result']),
+  uploadBytes: counter('livi_upload_bytes_total', 'Bytes of accepted media uploads', ['kind']),
+
+  // Rate limit (utils/rateLimit)
+  rateLimited: counter('livi_rate_limited_total', 'Requests rejected by the rate limiter', ['name']),
+};
+
+// === Процесс =====================================================================
+gauge('process_resident_memory_bytes', 'Resident memory size in bytes', [], (g) => g.set(process.memoryUsage().rss));
+gauge('nodejs_heap_used_bytes', 'V8 heap used in bytes', [], (g) => g.set(process.memoryUsage().heapUsed));
+gauge('process_uptime_seconds', 'Process uptime in seconds', [], (g) => g.set(Math.round(process.uptime())));
@@ -0,0 +1,83 @@
+// backend/utils/moderation.ts
+import mongoose from 'mongoose';
+import User from '../models/User';
+import Report from '../models/Report';
+import * as queueStore from './queueStore';
+import { getIoInstance } from './ioInstance';
+import { fetchUserSockets } from './socketCluster';
+import { logger } from './logger';
+
+/**
+ * Отстранение от рандом-поиска.
+ * Авто: если за REPORT_WINDOW_HOURS на пользователя пожаловались >= REPORT_SUSPEND_THRESHOLD разных людей
+ * (жалобы ещё не разобраны), отстраняем на REPORT_SUSPEND_HOURS. Модератор может снять/продлить вручную.
+ */
+const REPORT_SUSPEND_THRESHOLD = Math.max(1, Number(process.env.REPORT_SUSPEND_THRESHOLD || 3));
+const REPORT_WINDOW_HOURS = Math.max(1, Number(process.env.REPORT_WINDOW_HOURS || 24));
+const REPORT_SUSPEND_HOURS = Math.max(1, Number(process.env.REPORT_SUSPEND_HOURS || 24));
+
+const CACHE_TTL_MS = 10_000;
+
+export type Suspension = { until: Date; reason: string };
+
+const suspensionCache = new Map<string, { v: Suspension | null; exp: number }>();
+
+const isOid = (s?: string) => !!s && mongoose.Types.ObjectId.isValid(String(s));
+
+export async function getSuspension(userId?: string): Promise<Suspension | null> {
+  if (!isOid(userId) || mongoose.connection.readyState !== 1) return null;
+  const uid = String(userId);
+  const now = Date.now();
+  const hit = suspensionCache.get(uid);
+  if (hit && hit.exp > now) return hit.v && hit.v.until.getTime() > now ? hit.v : null;
+
+  const u = (await User.findById(uid).select('suspendedUntil suspendReason').lean()) as any;
+  const until = u?.suspendedUntil ? new Date(u.suspendedUntil) : null;
+  const v = until && until.getTime() > now ? { until, reason: String(u?.suspendReason || '') } : null;
+  suspensionCache.set(uid, { v, exp: now + CACHE_TTL_MS });
+  return v;
+}
+
+export async function suspendUser(userId: string, ms: number, reason: string): Promise<Suspension> {
+  const until = new Date(Date.now() + Math.max(0, ms));
+  await User.updateOne({ _id: userId }, { $set: { suspendedUntil: until, suspendReason: reason } });
+  const v = { until, reason };
+  suspensionCache.set(String(userId), { v, exp: Date.now() + CACHE_TTL_MS });
+
+  // Убираем из очереди и сообщаем клиенту (на всех нодах)
+  const io = getIoInstance();
+  if (io) {
+    try {
+      for (const s of await fetchUserSockets(io, String(userId))) {
+        await queueStore.removeFromQueue(s.id);
+        s.emit('match:suspended', { until: until.toISOString(), reason });
+      }
+    } catch (e: any) {
+      logger.warn('[moderation] Failed to notify suspended user', { userId, error: e?.message || String(e) });
+    }
+  }
+
+  logger.info('[moderation] User suspended', { userId, until: until.toISOString(), reason });
+  return v;
+}
+
+export async function liftSuspension(userId: string): Promise<void> {
+  await User.updateOne({ _id: userId }, { $set: { suspendedUntil: null, suspendReason: '' } });
+  suspensionCache.delete(String(userId));
+  logger.info('[moderation] Suspension lifted', { userId });
+}
+
+/** Проверяем порог жалоб после новой жалобы */
+export async function maybeAutoSuspend(userId: string): Promise<Suspension | null> {
+  if (await getSuspension(userId)) return null;
+
+  const since = new Date(Date.now() - REPORT_WINDOW_HOURS * 60 * 60 * 1000);
+  const reporters = await Report.distinct('reporter', {
+    reported: userId,
+    status: { $in: ['open', 'reviewing'] },
+    createdAt: { $gte: since },
+  });
+  if (reporters.length < REPORT_SUSPEND_THRESHOLD) return null;
+
+  return suspendUser(userId, REPORT_SUSPEND_HOURS * 60 * 60 * 1000, 'auto:reports');
+}
@@ -0,0 +1,261 @@
+/**
+ * Push-уведомления на устройства (новые сообщения, заявки в друзья, входящие звонки).
+ * Токены устройств хранятся в Install (push:register), отправка — через подключаемый PushSender.
+ * Бэкенд выбирается через env:
+ * - PUSH_PROVIDER=expo — Expo Push API (по умолчанию в production)
+ * - PUSH_PROVIDER=log — ничего не отправляет, только пишет в лог (по умолчанию вне production)
+ * - PUSH_PROVIDER=fake — ничего не отправляет, складывает уведомления в память (для тестов: память не освобождается)
+ * - PUSH_PROVIDER=off — отключено
+ * Для тестов реализацию можно подменить через usePushSender() (например, createFakePushSender()).
+ */
+import mongoose from 'mongoose';
+import Install from '../models/Install';
+import { logger } from './logger';
+import { pushText } from './pushTexts';
+
+export type PushPriority = 'default' | 'high';
+
+export type PushMessage = {
+  token: string;
+  title: string;
+  body: string;
+  data?: Record<string, any>;
+  priority?: PushPriority;
+  /** Android: канал уведомлений (для звонков — отдельный канал с рингтоном) */
+  channelId?: string;
+  /** Сколько секунд уведомление актуально (звонок после таймаута уже не нужен) */
+  ttl?: number;
+  sound?: string | null;
+};
+
+export type PushSendResult = {
+  sent: number;
+  /** Токены, которые провайдер считает недействительными (приложение удалено и т.п.) — их надо забыть */
+  invalidTokens: string[];
+};
+
+export interface PushSender {
+  send(messages: PushMessage[]): Promise<PushSendResult>;
+}
+
+/** Fake-провайдер: всё "отправленное" остаётся в sent */
+export type FakePushSender = PushSender & { sent: PushMessage[]; clear(): void };
+
+export const PUSH_CHANNEL_MESSAGES = 'messages';
+export const PUSH_CHANNEL_CALLS = 'calls';
+
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send';
+// Expo принимает до 100 уведомлений за запрос
+const EXPO_BATCH_SIZE = 100;
+const PUSH_BODY_MAX = 140;
+
+// === Expo =====================================================================
+export function createExpoPushSender(accessToken = String(process.env.EXPO_ACCESS_TOKEN || '').trim()): PushSender {
+  return {
+    async send(messages) {
+      const result: PushSendResult = { sent: 0, invalidTokens: [] };
+      for (let i = 0; i < messages.length; i += EXPO_BATCH_SIZE) {
+        const batch = messages.slice(i, i + EXPO_BATCH_SIZE);
+        const res = await fetch(EXPO_PUSH_URL, {
+          method: 'POST',
+          headers: {
+            Accept: 'application/json',
+            'Content-Type': 'application/json',
+            ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+          },
+          body: JSON.stringify(
+            batch.map((m) => ({
+              to: m.token,
+              title: m.title,
+              body: m.body,
+              data: m.data,
+              priority: m.priority || 'default',
+              channelId: m.channelId,
+              ttl: m.ttl,
+              sound: m.sound === undefined ? 'default' : m.sound,
+            }))
+          ),
+        });
+        const json: any = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          logger.warn('[push] Expo push request failed', { status: res.status, errors: json?.errors });
+          continue;
+        }
+        // Тикеты приходят в том же порядке, что и сообщения
+        const tickets: any[] = Array.isArray(json?.data) ? json.data : [];
+        tickets.forEach((t, idx) => {
+          if (t?.status === 'ok') result.sent++;
+          else if (t?.details?.error === 'DeviceNotRegistered') result.invalidTokens.push(batch[idx].token);
+        });
+      }
+      return result;
+    },
+  };
+}
+
+// === Log (локально) ============================================================
+export function createLoggingPushSender(): PushSender {
+  return {
+    async send(messages) {
+      logger.debug('[push] log sender', { count: messages.length, titles: messages.map((m) => m.title) });
+      return { sent: messages.length, invalidTokens: [] };
+    },
+  };
+}
+
+// === Fake (в тестах) ===========================================================
+export function createFakePushSender(): FakePushSender {
+  const sent: PushMessage[] = [];
+  return {
+    sent,
+    async send(messages) {
+      sent.push(...messages);
+      logger.debug('[push] fake sender', { count: messages.length, titles: messages.map((m) => m.title) });
+      return { sent: messages.length, invalidTokens: [] };
+    },
+    clear() {
+      sent.length = 0;
+    },
+  };
+}
+
+// === Выбор реализации ==========================================================
+let current: PushSender | null | undefined;
+
+function createFromEnv(): PushSender | null {
+  const kind = String(process.env.PUSH_PROVIDER || '').trim().toLowerCase()
+    || (process.env.NODE_ENV === 'production' ? 'expo' : 'log');
+  if (kind === 'off') {
+    logger.info('[push] disabled');
+    return null;
+  }
+  if (kind === 'expo') {
+    logger.info('[push] using Expo push service');
+    return createExpoPushSender();
+  }
+  if (kind === 'fake') {
+    logger.info('[push] using fake sender (notifications are kept in memory, not delivered)');
+    return createFakePushSender();
+  }
+  logger.info('[push] using log sender (notifications are not delivered)');
+  return createLoggingPushSender();
+}
+
+function sender(): PushSender | null {
+  if (current === undefined) current = createFromEnv();
+  return current;
+}
+
+/** Подменить реализацию (тесты / явная инициализация). null — отключить отправку. */
+export function usePushSender(impl: PushSender | null): void {
+  current = impl;
+}
+
+// === Токены ===================================================================
+/** Есть ли у пользователя хотя бы одно устройство с push-токеном */
+export async function hasPushTarget(userId: string): Promise<boolean> {
+  if (!sender() || mongoose.connection.readyState !== 1) return false;
+  return !!(await Install.exists({ user: userId, pushToken: { $type: 'string', $ne: '' } }));
+}
+
+type PushContent = Omit<PushMessage, 'token'>;
+
+/**
+ * Отправить уведомление на все устройства пользователя.
+ * content-функция собирает текст на языке каждого устройства (Install.lang, см. utils/pushTexts).
+ * Ошибки не пробрасываются: push — best effort и не должен ломать основной сценарий.
+ */
+export async function sendPushToUser(
+  userId: string,
+  content: PushContent | ((lang?: string) => PushContent)
+): Promise<number> {
+  const impl = sender();
+  if (!impl || mongoose.connection.readyState !== 1) return 0;
+  try {
+    const installs = await Install.find({ user: userId, pushToken: { $type: 'string', $ne: '' } })
+      .select('pushToken lang')
+      .lean();
+    // token -> язык (один токен — одно устройство, см. push:register)
+    const byToken = new Map<string, string | undefined>();
+    for (const i of installs as any[]) byToken.set(String(i.pushToken), i.lang || undefined);
+    if (!byToken.size) return 0;
+
+    const messages = Array.from(byToken.entries()).map(([token, lang]) => ({
+      ...(typeof content === 'function' ? content(lang) : content),
+      token,
+    }));
+    const { sent, invalidTokens } = await impl.send(messages);
+    if (invalidTokens.length) {
+      await Install.updateMany({ pushToken: { $in: invalidTokens } }, { $unset: { pushToken: 1, pushPlatform: 1 } });
+      logger.info('[push] removed invalid tokens', { userId, count: invalidTokens.length });
+    }
+    return sent;
+  } catch (e: any) {
+    logger.warn('[push] send failed', { userId, error: e?.message || String(e) });
+    return 0;
+  }
+}
+
+const truncate = (s: string, max = PUSH_BODY_MAX) => (s.length > max ? `${s.slice(0, max - 1)}…` : s);
+
+const MESSAGE_PREVIEW = { image: 'photo', video: 'video', audio: 'voice_message', document: 'document' } as const;
+
+// === Сценарии =================================================================
+export function notifyNewMessage(
+  to: string,
+  message: { id: string; from: string; type: string; text?: string; name?: string },
+  fromNick?: string
+) {
+  const previewKey = MESSAGE_PREVIEW[message.type as keyof typeof MESSAGE_PREVIEW];
+  return sendPushToUser(to, (lang) => {
+    const preview = message.type === 'text'
+      ? String(message.text || '')
+      : message.type === 'document' && message.name
+        ? `📎 ${message.name}`
+        : pushText(lang, previewKey || 'new_message');
+    return {
+      title: fromNick || pushText(lang, 'new_message'),
+      body: truncate(preview),
+      data: { type: 'message', messageId: message.id, from: message.from },
+      channelId: PUSH_CHANNEL_MESSAGES,
+    };
+  });
+}
+
+export function notifyFriendRequest(to: string, from: string, fromNick?: string) {
+  return sendPushToUser(to, (lang) => ({
+    title: pushText(lang, 'friend_request_title'),
+    body: fromNick ? pushText(lang, 'friend_request_body', { nick: fromNick }) : pushText(lang, 'friend_request_body_anon'),
+    data: { type: 'friend_request', from },
+    channelId: PUSH_CHANNEL_MESSAGES,
+  }));
+}
+
+/** Друг, которого застали занятым, освободился — можно перезвонить */
+export function notifyCallbackReady(to: string, from: string, fromNick?: string) {
+  return sendPushToUser(to, (lang) => ({
+    title: fromNick || pushText(lang, 'callback_title_anon'),
+    body: fromNick ? pushText(lang, 'callback_body', { nick: fromNick }) : pushText(lang, 'callback_body_anon'),
+    data: { type: 'callback', from },
+    channelId: PUSH_CHANNEL_MESSAGES,
+  }));
+}
+
+/**
+ * Входящий звонок: высокий приоритет, отдельный канал со звонком
+ * и ttl не дольше времени дозвона — пропущенный звонок будить устройство не должен.
+ */
+export function notifyIncomingCall(
+  to: string,
+  call: { callId: string; from: string; fromNick?: string },
+  ringSeconds: number
+) {
+  return sendPushToUser(to, (lang) => ({
+    title: call.fromNick || pushText(lang, 'incoming_call_title'),
+    body: pushText(lang, 'incoming_video_call'),
+    data: { type: 'call', callId: call.callId, from: call.from, fromNick: call.fromNick },
+    priority: 'high',
+    channelId: PUSH_CHANNEL_CALLS,
+    ttl: Math.max(1, Math.round(ringSeconds)),
+  }));
+}
@@ -0,0 +1,296 @@
+// backend/utils/pushTexts.ts
+
+/**
+ * Тексты push-уведомлений на языке устройства (Install.lang, приходит с push:register / push:lang).
+ * Коды языков — как в клиентском utils/i18n. Без языка (старые клиенты) — русский, как и в приложении
+ * по умолчанию; язык, которого здесь нет, — английский. {nick} подставляет pushText().
+ */
+
+export type PushTextKey =
+  | 'new_message'
+  | 'photo'
+  | 'video'
+  | 'voice_message'
+  | 'document'
+  | 'friend_request_title'
+  | 'friend_request_body'
+  | 'friend_request_body_anon'
+  | 'callback_title_anon'
+  | 'callback_body'
+  | 'callback_body_anon'
+  | 'incoming_call_title'
+  | 'incoming_video_call';
+
+const DEFAULT_PUSH_LANG = 'ru';
+const FALLBACK_PUSH_LANG = 'en';
+
+const TEXTS: Record<string, Record<PushTextKey, string>> = {
+  ru: {
+    new_message: 'Новое сообщение',
+    photo: '📷 Фото',
+    video: '🎬 Видео',
+    voice_message: '🎤 Голосовое сообщение',
+    document: '📎 Документ',
+    friend_request_title: 'Заявка в друзья',
+    friend_request_body: '{nick} хочет добавить вас в друзья',
+    friend_request_body_anon: 'Вас хотят добавить в друзья',
+    callback_title_anon: 'Друг освободился',
+    callback_body: '{nick} освободился — можно перезвонить',
+    callback_body_anon: 'Друг освободился — можно перезвонить',
+    incoming_call_title: 'Входящий звонок',
+    incoming_video_call: 'Входящий видеозвонок',
+  },
+  en: {
+    new_message: 'New message',
+    photo: '📷 Photo',
+    video: '🎬 Video',
+    voice_message: '🎤 Voice message',
+    document: '📎 Document',
+    friend_request_title: 'Friend request',
+    friend_request_body: '{nick} wants to add you as a friend',
+    friend_request_body_anon: 'Someone wants to add you as a friend',
+    callback_title_anon: 'Your friend is free',
+    callback_body: '{nick} is free now — you can call back',
+    callback_body_anon: 'Your friend is free now — you can call back',
+    incoming_call_title: 'Incoming call',
+    incoming_video_call: 'Incoming video call',
+  },
+  es: {
+    new_message: 'Nuevo mensaje',
+    photo: '📷 Foto',
+    video: '🎬 Vídeo',
+    voice_message: '🎤 Mensaje de voz',
+    document: '📎 Documento',
+    friend_request_title: 'Solicitud de amistad',
+    friend_request_body: '{nick} quiere agregarte como amigo',
+    friend_request_body_anon: 'Alguien quiere agregarte como amigo',
+    callback_title_anon: 'Tu amigo está libre',
+    callback_body: '{nick} ya está libre — puedes volver a llamar',
+    callback_body_anon: 'Tu amigo ya está libre — puedes volver a llamar',
+    incoming_call_title: 'Llamada entrante',
+    incoming_video_call: 'Videollamada entrante',
+  },
+  de: {
+    new_message: 'Neue Nachricht',
+    photo: '📷 Foto',
+    video: '🎬 Video',
+    voice_message: '🎤 Sprachnachricht',
+    document: '📎 Dokument',
+    friend_request_title: 'Freundschaftsanfrage',
+    friend_request_body: '{nick} möchte dich als Freund hinzufügen',
+    friend_request_body_anon: 'Jemand möchte dich als Freund hinzufügen',
+    callback_title_anon: 'Dein Freund ist frei',
+    callback_body: '{nick} ist jetzt frei — du kannst zurückrufen',
+    callback_body_anon: 'Dein Freund ist jetzt frei — du kannst zurückrufen',
+    incoming_call_title: 'Eingehender Anruf',
+    incoming_video_call: 'Eingehender Videoanruf',
+  },
+  fr: {
+    new_message: 'Nouveau message',
+    photo: '📷 Photo',
+    video: '🎬 Vidéo',
+    voice_message: '🎤 Message vocal',
+    document: '📎 Document',
+    friend_request_title: "Demande d'ami",
+    friend_request_body: '{nick} veut vous ajouter en ami',
+    friend_request_body_anon: "Quelqu'un veut vous ajouter en ami",
+    callback_title_anon: 'Votre ami est disponible',
+    callback_body: '{nick} est disponible — vous pouvez rappeler',
+    callback_body_anon: 'Votre ami est disponible — vous pouvez rappeler',
+    incoming_call_title: 'Appel entrant',
+    incoming_video_call: 'Appel vidéo entrant',
+  },
+  it: {
+    new_message: 'Nuovo messaggio',
+    photo: '📷 Foto',
+    video: '🎬 Video',
+    voice_message: '🎤 Messaggio vocale',
+    document: '📎 Documento',
+    friend_request_title: 'Richiesta di amicizia',
+    friend_request_body: '{nick} vuole aggiungerti come amico',
+    friend_request_body_anon: 'Qualcuno vuole aggiungerti come amico',
+    callback_title_anon: 'Il tuo amico è libero',
+    callback_body: '{nick} è libero — puoi richiamare',
+    callback_body_anon: 'Il tuo amico è libero — puoi richiamare',
+    incoming_call_title: 'Chiamata in arrivo',
+    incoming_video_call: 'Videochiamata in arrivo',
+  },
+  pt: {
+    new_message: 'Nova mensagem',
+    photo: '📷 Foto',
+    video: '🎬 Vídeo',
+    voice_message: '🎤 Mensagem de voz',
+    document: '📎 Documento',
+    friend_request_title: 'Pedido de amizade',
+    friend_request_body: '{nick} quer adicioná-lo como amigo',
+    friend_request_body_anon: 'Alguém quer adicioná-lo como amigo',
+    callback_title_anon: 'Seu amigo está livre',
+    callback_body: '{nick} está livre — você pode ligar de volta',
+    callback_body_anon: 'Seu amigo está livre — você pode ligar de volta',
+    incoming_call_title: 'Chamada recebida',
+    incoming_video_call: 'Videochamada recebida',
+  },
+  tr: {
+    new_message: 'Yeni mesaj',
+    photo: '📷 Fotoğraf',
+    video: '🎬 Video',
+    voice_message: '🎤 Sesli mesaj',
+    document: '📎 Belge',
+    friend_request_title: 'Arkadaşlık isteği',
+    friend_request_body: '{nick} sizi arkadaş olarak eklemek istiyor',
+    friend_request_body_anon: 'Birisi sizi arkadaş olarak eklemek istiyor',
+    callback_title_anon: 'Arkadaşın müsait',
+    callback_body: '{nick} artık müsait — geri arayabilirsin',
+    callback_body_anon: 'Arkadaşın artık müsait — geri arayabilirsin',
+    incoming_call_title: 'Gelen arama',
+    incoming_video_call: 'Gelen görüntülü arama',
+  },
+  ar: {
+    new_message: 'رسالة جديدة',
+    photo: '📷 صورة',
+    video: '🎬 فيديو',
+    voice_message: '🎤 رسالة صوتية',
+    document: '📎 مستند',
+    friend_request_title: 'طلب صداقة',
+    friend_request_body: '{nick} يريد إضافتك كصديق',
+    friend_request_body_anon: 'شخص ما يريد إضافتك كصديق',
+    callback_title_anon: 'صديقك متاح',
+    callback_body: '{nick} متاح الآن — يمكنك معاودة الاتصال',
+    callback_body_anon: 'صديقك متاح الآن — يمكنك معاودة الاتصال',
+    incoming_call_title: 'مكالمة واردة',
+    incoming_video_call: 'مكالمة فيديو واردة',
+  },
+  ja: {
+    new_message: '新しいメッセージ',
+    photo: '📷 写真',
+    video: '🎬 動画',
+    voice_message: '🎤 ボイスメッセージ',
+    document: '📎 ドキュメント',
+    friend_request_title: '友達リクエスト',
+    friend_request_body: '{nick} があなたを友達に追加したいです',
+    friend_request_body_anon: '友達リクエストが届きました',
+    callback_title_anon: '友達が空きました',
+    callback_body: '{nick} が空きました — かけ直せます',
+    callback_body_anon: '友達が空きました — かけ直せます',
+    incoming_call_title: '着信',
+    incoming_video_call: 'ビデオ通話の着信',
+  },
+  ko: {
+    new_message: '새 메시지',
+    photo: '📷 사진',
+    video: '🎬 동영상',
+    voice_message: '🎤 음성 메시지',
+    document: '📎 문서',
+    friend_request_title: '친구 요청',
+    friend_request_body: '{nick}님이 친구 추가를 원합니다',
+    friend_request_body_anon: '누군가 친구 추가를 원합니다',
+    callback_title_anon: '친구가 통화 가능해요',
+    callback_body: '{nick}님이 통화 가능해요 — 다시 걸 수 있어요',
+    callback_body_anon: '친구가 통화 가능해요 — 다시 걸 수 있어요',
+    incoming_call_title: '수신 전화',
+    incoming_video_call: '영상 통화 수신',
+  },
+  zh: {
+    new_message: '新消息',
+    photo: '📷 照片',
+    video: '🎬 视频',
+    voice_message: '🎤 语音消息',
+    document: '📎 文件',
+    friend_request_title: '好友请求',
+    friend_request_body: '{nick} 想加你为好友',
+    friend_request_body_anon: '有人想加你为好友',
+    callback_title_anon: '好友有空了',
+    callback_body: '{nick} 有空了 — 可以回电',
+    callback_body_anon: '好友有空了 — 可以回电',
+    incoming_call_title: '来电',
+    incoming_video_call: '视频来电',
+  },
+  'zh-TW': {
+    new_message: '新訊息',
+    photo: '📷 照片',
+    video: '🎬 影片',
+    voice_message: '🎤 語音訊息',
+    document: '📎 文件',
+    friend_request_title: '好友邀請',
+    friend_request_body: '{nick} 想加你為好友',
+    friend_request_body_anon: '有人想加你為好友',
+    callback_title_anon: '好友有空了',
+    callback_body: '{nick} 有空了 — 可以回電',
+    callback_body_anon: '好友有空了 — 可以回電',
+    incoming_call_title: '來電',
+    incoming_video_call: '視訊來電',
+  },
+  hi: {
+    new_message: 'नया संदेश',
+    photo: '📷 फ़ोटो',
+    video: '🎬 वीडियो',
+    voice_message: '🎤 वॉइस संदेश',
+    document: '📎 दस्तावेज़',
+    friend_request_title: 'मित्र अनुरोध',
+    friend_request_body: '{nick} आपको दोस्त बनाना चाहता है',
+    friend_request_body_anon: 'कोई आपको दोस्त बनाना चाहता है',
+    callback_title_anon: 'आपका दोस्त फ़्री है',
+    callback_body: '{nick} अब फ़्री है — आप वापस कॉल कर सकते हैं',
+    callback_body_anon: 'आपका दोस्त अब फ़्री है — आप वापस कॉल कर सकते हैं',
+    incoming_call_title: 'इनकमिंग कॉल',
+    incoming_video_call: 'इनकमिंग वीडियो कॉल',
+  },
+  vi: {
+    new_message: 'Tin nhắn mới',
+    photo: '📷 Ảnh',
+    video: '🎬 Video',
+    voice_message: '🎤 Tin nhắn thoại',
+    document: '📎 Tài liệu',
+    friend_request_title: 'Lời mời kết bạn',
+    friend_request_body: '{nick} muốn kết bạn với bạn',
+    friend_request_body_anon: 'Có người muốn kết bạn với bạn',
+    callback_title_anon: 'Bạn của bạn đã rảnh',
+    callback_body: '{nick} đã rảnh — bạn có thể gọi lại',
+    callback_body_anon: 'Bạn của bạn đã rảnh — bạn có thể gọi lại',
+    incoming_call_title: 'Cuộc gọi đến',
+    incoming_video_call: 'Cuộc gọi video đến',
+  },
+  th: {
+    new_message: 'ข้อความใหม่',
+    photo: '📷 รูปภาพ',
+    video: '🎬 วิดีโอ',
+    voice_message: '🎤 ข้อความเสียง',
+    document: '📎 เอกสาร',
+    friend_request_title: 'คำขอเป็นเพื่อน',
+    friend_request_body: '{nick} ต้องการเพิ่มคุณเป็นเพื่อน',
+    friend_request_body_anon: 'มีคนต้องการเพิ่มคุณเป็นเพื่อน',
+    callback_title_anon: 'เพื่อนของคุณว่างแล้ว',
+    callback_body: '{nick} ว่างแล้ว — โทรกลับได้',
+    callback_body_anon: 'เพื่อนของคุณว่างแล้ว — โทรกลับได้',
+    incoming_call_title: 'สายเรียกเข้า',
+    incoming_video_call: 'วิดีโอคอลเรียกเข้า',
+  },
+  id: {
+    new_message: 'Pesan baru',
+    photo: '📷 Foto',
+    video: '🎬 Video',
+    voice_message: '🎤 Pesan suara',
+    document: '📎 Dokumen',
+    friend_request_title: 'Permintaan pertemanan',
+    friend_request_body: '{nick} ingin menambahkan Anda sebagai teman',
+    friend_request_body_anon: 'Seseorang ingin menambahkan Anda sebagai teman',
+    callback_title_anon: 'Teman Anda sudah luang',
+    callback_body: '{nick} sudah luang — Anda bisa menelepon balik',
+    callback_body_anon: 'Teman Anda sudah luang — Anda bisa menelepon balik',
+    incoming_call_title: 'Panggilan masuk',
+    incoming_video_call: 'Panggilan video masuk',
+  },
+};
+
+const LANG_RE = /^[a-z]{2}(-[A-Z]{2})?$/;
+
+/** Язык, который сохраняем в Install: код вида ru / zh-TW, иначе не сохраняем */
+export function normalizePushLang(raw?: string): string | undefined {
+  const lang = String(raw || '').trim();
+  return LANG_RE.test(lang) ? lang : undefined;
+}
+
+export function pushText(lang: string | undefined, key: PushTextKey, vars: { nick?: string } = {}): string {
+  const table = TEXTS[lang || DEFAULT_PUSH_LANG] || TEXTS[FALLBACK_PUSH_LANG];
+  return table[key].replace('{nick}', vars.nick || '');
+}
@@ -1,208 +1,512 @@
 /**
- * Минимальная реализация распределённого хранилища очереди/состояний.
- * В этом репо раньше был Redis-backed store, но файл отсутствовал — для dev используем in-memory.
- * Важно: in-memory работает только в рамках одного процесса backend.
+ * Распределённое хранилище очереди/состояний матчинга.
+ * Бэкенд выбирается через env:
+ * - QUEUE_STORE=redis (или задан REDIS_URL) — Redis, общий для всех процессов backend
+ * - QUEUE_STORE=memory (по умолчанию без REDIS_URL) — in-memory, работает только в рамках одного процесса
+ * Для тестов реализацию можно подменить через useQueueStore() (например, Redis-стор поверх фейкового клиента).
  */
+import { logger } from './logger';
+import type { MatchPrefs } from '../sockets/types';
 
-type CleanupStatesResult = { cleanedBans: number; cleanedLocks: number; cleanedPairs: number };
+export type QueueEntry = { sid: string; addedAt: number };
 
-const waitingQueue: string[] = [];
-const inQueue = new Set<string>();
-const queueAddedAt = new Map<string, number>();
-
-const pair = new Map<string, string>(); // sid -> sid
-const locks = new Map<string, number>(); // sid -> expTs (lock TTL)
+/**
+ * Данные ожидающего, нужные для подбора пары на любой ноде: сокет может жить на другом процессе,
+ * и его socket.data оттуда не видно.
+ */
+export type QueueMeta = { userId?: string; prefs?: MatchPrefs };
 
-const bans = new Map<string, number>(); // "a|b" -> expTs
+export type CleanupStatesResult = { cleanedBans: number; cleanedLocks: number; cleanedPairs: number };
 
-const lastMatchAttempt = new Map<string, number>();
-const lastStart = new Map<string, number>();
-const lastSearch = new Map<string, number>();
+/**
+ * Звонок в дозвоне (index.ts: call:initiate, приглашение в групповой звонок). Лежит в сторе, а не в памяти ноды:
+ * принять/отклонить/отменить его могут с сокета на любой ноде.
+ * a — кто звонит, b — кого зовут, aSid — сокет, с которого позвонили, roomId — у приглашений в групповой звонок,
+ * waiting — вторая линия (b в этот момент разговаривает с кем-то ещё).
+ */
+export type CallRecord = { a: string; b: string; aSid?: string; roomId?: string; waiting?: boolean; startedAt: number };
+
+/** Ответ token bucket: allowed=false — токенов не хватило, повторить не раньше чем через retryAfterMs */
+export type TokenBucketResult = { allowed: boolean; remaining: number; retryAfterMs: number };
+
+export interface QueueStore {
+  /** meta перезаписывается при каждом вызове (новый start — новые фильтры) */
+  addToQueue(sid: string, meta?: QueueMeta): Promise<void>;
+  removeFromQueue(sid: string): Promise<void>;
+  isInQueue(sid: string): Promise<boolean>;
+  getWaitingQueue(): Promise<string[]>;
+  getQueueSize(): Promise<number>;
+  /** Очередь с моментом постановки (ms) — для мониторинга времени ожидания */
+  getQueueEntries(): Promise<QueueEntry[]>;
+  /** meta ожидающих; у кого meta нет (или он уже не в очереди) — в Map отсутствует */
+  getQueueMeta(sids: string[]): Promise<Map<string, QueueMeta>>;
+  /**
+   * Атомарно забираем обоих из очереди и лочим их.
+   * false — если кто-то из них уже не в очереди или залочен (например, его сматчил другой процесс).
+   */
+  claimPair(aSid: string, bSid: string): Promise<boolean>;
+  setPair(aSid: string, bSid: string): Promise<void>;
+  getPartner(sid: string): Promise<string | undefined>;
+  removePair(sid: string): Promise<string | undefined>;
+  lockSocket(sid: string): Promise<void>;
+  unlockSocket(sid: string): Promise<void>;
+  isLocked(sid: string): Promise<boolean>;
+  banPair(aSid: string, bSid: string, ms: number): Promise<void>;
+  isBannedTogether(aSid: string, bSid: string): Promise<boolean>;
+  getLastMatchAttempt(sid: string): Promise<number | undefined>;
+  setLastMatchAttempt(sid: string, ts: number): Promise<void>;
+  getLastStart(sid: string): Promise<number | undefined>;
+  setLastStart(sid: string, ts: number): Promise<void>;
+  getLastSearch(sid: string): Promise<number | undefined>;
+  setLastSearch(sid: string, ts: number): Promise<void>;
+  clearSocketData(sid: string): Promise<void>;
+  /**
+   * Token bucket (utils/rateLimit): ведро ёмкостью capacity, пополняется refillPerSec токенов в секунду.
+   * Списываем cost, если хватает; пустое ведро ничего не меняет. Ведро, простоявшее до полного, можно забыть.
+   */
+  takeTokens(key: string, capacity: number, refillPerSec: number, cost: number): Promise<TokenBucketResult>;
+  /** "Перезвоните, когда освободится" (utils/callbackRequests): callerId ждёт calleeId не дольше ttlMs */
+  addCallbackRequest(calleeId: string, callerId: string, ttlMs: number): Promise<void>;
+  cancelCallbackRequest(calleeId: string, callerId: string): Promise<boolean>;
+  hasCallbackRequests(calleeId: string): Promise<boolean>;
+  /** Атомарно забираем всех ждущих calleeId (просроченные выбрасываем) — срабатывает ровно одна нода */
+  takeCallbackRequests(calleeId: string): Promise<string[]>;
+  /**
+   * Звонок и отметка "в звонке" для каждого из users (кому уже звонят/кто звонит — занят).
+   * false — у кого-то из users уже есть звонок, ничего не пишем. Запись живёт не дольше ttlMs.
+   */
+  createCall(callId: string, call: CallRecord, users: string[], ttlMs: number): Promise<boolean>;
+  getCall(callId: string): Promise<CallRecord | undefined>;
+  /** callId звонка пользователя (из users при createCall) */
+  getUserCall(userId: string): Promise<string | undefined>;
+  /** Атомарно забираем звонок вместе с отметками users — принятие/отказ/таймаут обрабатывает ровно одна нода */
+  takeCall(callId: string): Promise<CallRecord | undefined>;
+  listCalls(): Promise<Array<{ callId: string; call: CallRecord }>>;
+  cleanupStaleQueueEntries(timeoutMs: number, isSocketConnected: (sid: string) => boolean): Promise<string[]>;
+  cleanupStaleStates(isSocketConnected: (sid: string) => boolean): Promise<CleanupStatesResult>;
+  close(): Promise<void>;
+}
 
-const LOCK_TTL_MS = 30_000;
+export const LOCK_TTL_MS = 30_000;
 
 function now() {
   return Date.now();
 }
 
-function banKey(a: string, b: string) {
+export function banKey(a: string, b: string) {
   const [x, y] = [a, b].sort();
   return `${x}|${y}`;
 }
 
-export async function addToQueue(sid: string): Promise<void> {
-  const id = String(sid);
-  if (inQueue.has(id)) return;
-  inQueue.add(id);
-  waitingQueue.push(id);
-  queueAddedAt.set(id, now());
-}
+// === In-memory ================================================================
+export function createMemoryQueueStore(): QueueStore {
+  const waitingQueue: string[] = [];
+  const inQueue = new Set<string>();
+  const queueAddedAt = new Map<string, number>();
+  const queueMeta = new Map<string, QueueMeta>();
 
-export async function removeFromQueue(sid: string): Promise<void> {
-  const id = String(sid);
-  if (!inQueue.has(id)) return;
-  inQueue.delete(id);
-  queueAddedAt.delete(id);
-  const idx = waitingQueue.indexOf(id);
-  if (idx >= 0) waitingQueue.splice(idx, 1);
-}
+  const pair = new Map<string, string>(); // sid -> sid
+  const locks = new Map<string, number>(); // sid -> expTs (lock TTL)
 
-export async function isInQueue(sid: string): Promise<boolean> {
-  return inQueue.has(String(sid));
-}
+  const bans = new Map<string, number>(); // "a|b" -> expTs
 
-export async function getWaitingQueue(): Promise<string[]> {
-  // Возвращаем снепшот, чтобы не было гонок при итерации
-  return waitingQueue.slice();
-}
+  const lastMatchAttempt = new Map<string, number>();
+  const lastStart = new Map<string, number>();
+  const lastSearch = new Map<string, number>();
 
-export async function getQueueSize(): Promise<number> {
-  return waitingQueue.length;
-}
+  const buckets = new Map<string, { tokens: number; at: number; fullAt: number }>();
 
-export async function setPair(aSid: string, bSid: string): Promise<void> {
-  const a = String(aSid);
-  const b = String(bSid);
-  pair.set(a, b);
-  pair.set(b, a);
-}
+  const callbacks = new Map<string, Map<string, number>>(); // calleeId -> (callerId -> expTs)
 
-export async function getPartner(sid: string): Promise<string | undefined> {
-  return pair.get(String(sid));
-}
+  const calls = new Map<string, { call: CallRecord; users: string[]; exp: number }>();
+  const userCalls = new Map<string, string>(); // userId -> callId
 
-export async function removePair(sid: string): Promise<string | undefined> {
-  const a = String(sid);
-  const b = pair.get(a);
-  pair.delete(a);
-  if (b) pair.delete(b);
-  return b;
-}
-
-export async function lockSocket(sid: string): Promise<void> {
-  locks.set(String(sid), now() + LOCK_TTL_MS);
-}
-
-export async function unlockSocket(sid: string): Promise<void> {
-  locks.delete(String(sid));
-}
-
-export async function isLocked(sid: string): Promise<boolean> {
-  const exp = locks.get(String(sid));
-  if (!exp) return false;
-  if (exp <= now()) {
-    locks.delete(String(sid));
-    return false;
-  }
-  return true;
-}
-
-export async function banPair(aSid: string, bSid: string, ms: number): Promise<void> {
-  bans.set(banKey(String(aSid), String(bSid)), now() + Math.max(0, Number(ms) || 0));
+  const liveCall = (callId: string) => {
+    const entry = calls.get(callId);
+    if (entry && entry.exp <= now()) {
+      dropCall(callId);
+      return undefined;
+    }
+    return entry;
+  };
+  const dropCall = (callId: string) => {
+    const entry = calls.get(callId);
+    if (!entry) return undefined;
+    calls.delete(callId);
+    for (const uid of entry.users) if (userCalls.get(uid) === callId) userCalls.delete(uid);
+    return entry;
+  };
+
+  const store: QueueStore = {
+    async addToQueue(sid, meta) {
+      const id = String(sid);
+      if (meta) queueMeta.set(id, meta);
+      if (inQueue.has(id)) return;
+      inQueue.add(id);
+      waitingQueue.push(id);
+      queueAddedAt.set(id, now());
+    },
+
+    async removeFromQueue(sid) {
+      const id = String(sid);
+      queueMeta.delete(id);
+      if (!inQueue.has(id)) return;
+      inQueue.delete(id);
+      queueAddedAt.delete(id);
+      const idx = waitingQueue.indexOf(id);
+      if (idx >= 0) waitingQueue.splice(idx, 1);
+    },
+
+    async isInQueue(sid) {
+      return inQueue.has(String(sid));
+    },
+
+    async getWaitingQueue() {
+      // Возвращаем снепшот, чтобы не было гонок при итерации
+      return waitingQueue.slice();
+    },
+
+    async getQueueSize() {
+      return waitingQueue.length;
+    },
+
+    async getQueueEntries() {
+      return waitingQueue.map((sid) => ({ sid, addedAt: queueAddedAt.get(sid) || now() }));
+    },
+
+    async getQueueMeta(sids) {
+      const res = new Map<string, QueueMeta>();
+      for (const sid of sids) {
+        const meta = inQueue.has(String(sid)) ? queueMeta.get(String(sid)) : undefined;
+        if (meta) res.set(String(sid), meta);
+      }
+      return res;
+    },
+
+    async claimPair(aSid, bSid) {
+      const a = String(aSid);
+      const b = String(bSid);
+      // Проверки и изменения без await между ними — в рамках одного процесса это атомарно
+      if (a === b || !inQueue.has(a) || !inQueue.has(b)) return false;
+      const n = now();
+      if ((locks.get(a) || 0) > n || (locks.get(b) || 0) > n) return false;
+      for (const id of [a, b]) {
+        inQueue.delete(id);
+        queueAddedAt.delete(id);
+        queueMeta.delete(id);
+        const idx = waitingQueue.indexOf(id);
+        if (idx >= 0) waitingQueue.splice(idx, 1);
+        locks.set(id, n + LOCK_TTL_MS);
+      }
+      return true;
+    },
+
+    async setPair(aSid, bSid) {
+      const a = String(aSid);
+      const b = String(bSid);
+      pair.set(a, b);
+      pair.set(b, a);
+    },
+
+    async getPartner(sid) {
+      return pair.get(String(sid));
+    },
+
+    async removePair(sid) {
+      const a = String(sid);
+      const b = pair.get(a);
+      pair.delete(a);
+      if (b) pair.delete(b);
+      return b;
+    },
+
+    async lockSocket(sid) {
+      locks.set(String(sid), now() + LOCK_TTL_MS);
+    },
+
+    async unlockSocket(sid) {
+      locks.delete(String(sid));
+    },
+
+    async isLocked(sid) {
+      const exp = locks.get(String(sid));
+      if (!exp) return false;
+      if (exp <= now()) {
+        locks.delete(String(sid));
+        return false;
+      }
+      return true;
+    },
+
+    async banPair(aSid, bSid, ms) {
+      bans.set(banKey(String(aSid), String(bSid)), now() + Math.max(0, Number(ms) || 0));
+    },
+
+    async isBannedTogether(aSid, bSid) {
+      const k = banKey(String(aSid), String(bSid));
+      const exp = bans.get(k);
+      if (!exp) return false;
+      if (exp <= now()) {
+        bans.delete(k);
+        return false;
+      }
+      return true;
+    },
+
+    async getLastMatchAttempt(sid) {
+      return lastMatchAttempt.get(String(sid));
+    },
+
+    async setLastMatchAttempt(sid, ts) {
+      lastMatchAttempt.set(String(sid), Number(ts) || now());
+    },
+
+    async getLastStart(sid) {
+      return lastStart.get(String(sid));
+    },
+
+    async setLastStart(sid, ts) {
+      lastStart.set(String(sid), Number(ts) || now());
+    },
+
+    async getLastSearch(sid) {
+      return lastSearch.get(String(sid));
+    },
+
+    async setLastSearch(sid, ts) {
+      lastSearch.set(String(sid), Number(ts) || now());
+    },
+
+    async clearSocketData(sid) {
+      const id = String(sid);
+      await store.removeFromQueue(id);
+      await store.unlockSocket(id);
+      await store.removePair(id);
+      lastMatchAttempt.delete(id);
+      lastStart.delete(id);
+      lastSearch.delete(id);
+    },
+
+    async takeTokens(key, capacity, refillPerSec, cost) {
+      const n = now();
+      const prev = buckets.get(key);
+      const tokens = prev ? Math.min(capacity, prev.tokens + ((n - prev.at) / 1000) * refillPerSec) : capacity;
+      const allowed = tokens >= cost;
+      const left = allowed ? tokens - cost : tokens;
+      buckets.set(key, { tokens: left, at: n, fullAt: n + ((capacity - left) / refillPerSec) * 1000 });
+      return {
+        allowed,
+        remaining: Math.floor(left),
+        retryAfterMs: allowed ? 0 : Math.ceil(((cost - tokens) / refillPerSec) * 1000),
+      };
+    },
+
+    async addCallbackRequest(calleeId, callerId, ttlMs) {
+      let waiting = callbacks.get(String(calleeId));
+      if (!waiting) {
+        waiting = new Map();
+        callbacks.set(String(calleeId), waiting);
+      }
+      waiting.set(String(callerId), now() + Math.max(0, Number(ttlMs) || 0));
+    },
+
+    async cancelCallbackRequest(calleeId, callerId) {
+      const waiting = callbacks.get(String(calleeId));
+      if (!waiting?.delete(String(callerId))) return false;
+      if (!waiting.size) callbacks.delete(String(calleeId));
+      return true;
+    },
+
+    async hasCallbackRequests(calleeId) {
+      return callbacks.has(String(calleeId));
+    },
+
+    async takeCallbackRequests(calleeId) {
+      const waiting = callbacks.get(String(calleeId));
+      if (!waiting) return [];
+      callbacks.delete(String(calleeId));
+      const n = now();
+      return Array.from(waiting.entries()).filter(([, exp]) => exp > n).map(([callerId]) => callerId);
+    },
+
+    async createCall(callId, call, users, ttlMs) {
+      const ids = users.map(String);
+      for (const uid of ids) {
+        const cur = userCalls.get(uid);
+        if (cur && liveCall(cur)) return false;
+      }
+      calls.set(String(callId), { call: { ...call }, users: ids, exp: now() + Math.max(1, Number(ttlMs) || 0) });
+      for (const uid of ids) userCalls.set(uid, String(callId));
+      return true;
+    },
+
+    async getCall(callId) {
+      const entry = liveCall(String(callId));
+      return entry ? { ...entry.call } : undefined;
+    },
+
+    async getUserCall(userId) {
+      const callId = userCalls.get(String(userId));
+      return callId && liveCall(callId) ? callId : undefined;
+    },
+
+    async takeCall(callId) {
+      const live = liveCall(String(callId));
+      return live ? dropCall(String(callId))?.call : undefined;
+    },
+
+    async listCalls() {
+      const out: Array<{ callId: string; call: CallRecord }> = [];
+      for (const callId of Array.from(calls.keys())) {
+        const entry = liveCall(callId);
+        if (entry) out.push({ callId, call: { ...entry.call } });
+      }
+      return out;
+    },
+
+    /**
+     * Удаляем из очереди сокеты, которые:
+     * - не подключены (isSocketConnected=false)
+     * - или "висят" в очереди дольше timeoutMs
+     */
+    async cleanupStaleQueueEntries(timeoutMs, isSocketConnected) {
+      const stale: string[] = [];
+      const t = Math.max(0, Number(timeoutMs) || 0);
+      const n = now();
+
+      // Итерация по копии, потому что removeFromQueue мутирует очередь
+      for (const sid of waitingQueue.slice()) {
+        const added = queueAddedAt.get(sid) || n;
+        const tooOld = n - added > t;
+        const disconnected = !isSocketConnected(sid);
+        if (tooOld || disconnected) {
+          stale.push(sid);
+          await store.removeFromQueue(sid);
+        }
+      }
+      return stale;
+    },
+
+    async cleanupStaleStates(isSocketConnected) {
+      const n = now();
+      let cleanedBans = 0;
+      let cleanedLocks = 0;
+      let cleanedPairs = 0;
+
+      for (const [k, exp] of bans.entries()) {
+        if (exp <= n) {
+          bans.delete(k);
+          cleanedBans++;
+        }
+      }
+
+      for (const [sid, exp] of locks.entries()) {
+        if (exp <= n || !isSocketConnected(sid)) {
+          locks.delete(sid);
+          cleanedLocks++;
+        }
+      }
+
+      // Пары: если один из сокетов уже отключён — удаляем пару
+      for (const [a, b] of pair.entries()) {
+        if (!isSocketConnected(a) || !isSocketConnected(b)) {
+          pair.delete(a);
+          pair.delete(b);
+          cleanedPairs++;
+        }
+      }
+
+      // Полные вёдра rate limit ничем не отличаются от отсутствующих
+      for (const [k, b] of buckets.entries()) {
+        if (b.fullAt <= n) buckets.delete(k);
+      }
+
+      // Просьбы перезвонить, которые так и не сработали
+      for (const [calleeId, waiting] of callbacks.entries()) {
+        for (const [callerId, exp] of waiting.entries()) if (exp <= n) waiting.delete(callerId);
+        if (!waiting.size) callbacks.delete(calleeId);
+      }
+
+      // Звонки, чья нода так и не дождалась таймаута дозвона (упала/перезапустилась)
+      for (const callId of Array.from(calls.keys())) liveCall(callId);
+
+      return { cleanedBans, cleanedLocks, cleanedPairs };
+    },
+
+    async close() {
+      // no-op for in-memory
+    },
+  };
+
+  return store;
 }
 
-export async function isBannedTogether(aSid: string, bSid: string): Promise<boolean> {
-  const k = banKey(String(aSid), String(bSid));
-  const exp = bans.get(k);
-  if (!exp) return false;
-  if (exp <= now()) {
-    bans.delete(k);
-    return false;
+// === Выбор реализации ==========================================================
+let current: QueueStore | null = null;
+
+function createFromEnv(): QueueStore {
+  const kind = String(process.env.QUEUE_STORE || '').trim().toLowerCase();
+  const redisUrl = String(process.env.REDIS_URL || '').trim();
+  if (kind === 'redis' || (!kind && redisUrl)) {
+    // require, а не import — чтобы in-memory режим не тянул ioredis
+    const { createRedisQueueStoreFromUrl } = require('./queueStoreRedis') as typeof import('./queueStoreRedis');
+    logger.info('[queueStore] using Redis store', { url: redisUrl ? redisUrl.replace(/\/\/[^@]*@/, '//***@') : 'default' });
+    return createRedisQueueStoreFromUrl(redisUrl || undefined);
   }
-  return true;
+  logger.info('[queueStore] using in-memory store (single process only)');
+  return createMemoryQueueStore();
 }
 
-export async function getLastMatchAttempt(sid: string): Promise<number | undefined> {
-  return lastMatchAttempt.get(String(sid));
+function store(): QueueStore {
+  if (!current) current = createFromEnv();
+  return current;
 }
 
-export async function setLastMatchAttempt(sid: string, ts: number): Promise<void> {
-  lastMatchAttempt.set(String(sid), Number(ts) || now());
+/** Подменить реализацию (тесты / явная инициализация). Предыдущая не закрывается. */
+export function useQueueStore(impl: QueueStore): void {
+  current = impl;
 }
 
-export async function getLastStart(sid: string): Promise<number | undefined> {
-  return lastStart.get(String(sid));
-}
-
-export async function setLastStart(sid: string, ts: number): Promise<void> {
-  lastStart.set(String(sid), Number(ts) || now());
-}
-
-export async function getLastSearch(sid: string): Promise<number | undefined> {
-  return lastSearch.get(String(sid));
-}
-
-export async function setLastSearch(sid: string, ts: number): Promise<void> {
-  lastSearch.set(String(sid), Number(ts) || now());
-}
-
-export async function clearSocketData(sid: string): Promise<void> {
-  const id = String(sid);
-  await removeFromQueue(id);
-  await unlockSocket(id);
-  await removePair(id);
-  lastMatchAttempt.delete(id);
-  lastStart.delete(id);
-  lastSearch.delete(id);
-}
-
-/**
- * Удаляем из очереди сокеты, которые:
- * - не подключены (isSocketConnected=false)
- * - или "висят" в очереди дольше timeoutMs
- */
-export async function cleanupStaleQueueEntries(
-  timeoutMs: number,
-  isSocketConnected: (sid: string) => boolean
-): Promise<string[]> {
-  const stale: string[] = [];
-  const t = Math.max(0, Number(timeoutMs) || 0);
-  const n = now();
-
-  // Итерация по копии, потому что removeFromQueue мутирует очередь
-  for (const sid of waitingQueue.slice()) {
-    const added = queueAddedAt.get(sid) || n;
-    const tooOld = n - added > t;
-    const disconnected = !isSocketConnected(sid);
-    if (tooOld || disconnected) {
-      stale.push(sid);
-      await removeFromQueue(sid);
-    }
-  }
-  return stale;
-}
-
-export async function cleanupStaleStates(isSocketConnected: (sid: string) => boolean): Promise<CleanupStatesResult> {
-  const n = now();
-  let cleanedBans = 0;
-  let cleanedLocks = 0;
-  let cleanedPairs = 0;
-
-  for (const [k, exp] of bans.entries()) {
-    if (exp <= n) {
-      bans.delete(k);
-      cleanedBans++;
-    }
-  }
-
-  for (const [sid, exp] of locks.entries()) {
-    if (exp <= n || !isSocketConnected(sid)) {
-      locks.delete(sid);
-      cleanedLocks++;
-    }
-  }
-
-  // Пары: если один из сокетов уже отключён — удаляем пару
-  for (const [a, b] of pair.entries()) {
-    if (!isSocketConnected(a) || !isSocketConnected(b)) {
-      pair.delete(a);
-      pair.delete(b);
-      cleanedPairs++;
-    }
-  }
-
-  return { cleanedBans, cleanedLocks, cleanedPairs };
-}
+export const addToQueue = (sid: string, meta?: QueueMeta) => store().addToQueue(sid, meta);
+export const removeFromQueue = (sid: string) => store().removeFromQueue(sid);
+export const isInQueue = (sid: string) => store().isInQueue(sid);
+export const getWaitingQueue = () => store().getWaitingQueue();
+export const getQueueSize = () => store().getQueueSize();
+export const getQueueEntries = () => store().getQueueEntries();
+export const getQueueMeta = (sids: string[]) => store().getQueueMeta(sids);
+export const claimPair = (aSid: string, bSid: string) => store().claimPair(aSid, bSid);
+export const setPair = (aSid: string, bSid: string) => store().setPair(aSid, bSid);
+export const getPartner = (sid: string) => store().getPartner(sid);
+export const removePair = (sid: string) => store().removePair(sid);
+export const lockSocket = (sid: string) => store().lockSocket(sid);
+export const unlockSocket = (sid: string) => store().unlockSocket(sid);
+export const isLocked = (sid: string) => store().isLocked(sid);
+export const banPair = (aSid: string, bSid: string, ms: number) => store().banPair(aSid, bSid, ms);
+export const isBannedTogether = (aSid: string, bSid: string) => store().isBannedTogether(aSid, bSid);
+export const getLastMatchAttempt = (sid: string) => store().getLastMatchAttempt(sid);
+export const setLastMatchAttempt = (sid: string, ts: number) => store().setLastMatchAttempt(sid, ts);
+export const getLastStart = (sid: string) => store().getLastStart(sid);
+export const setLastStart = (sid: string, ts: number) => store().setLastStart(sid, ts);
+export const getLastSearch = (sid: string) => store().getLastSearch(sid);
+export const setLastSearch = (sid: string, ts: number) => store().setLastSearch(sid, ts);
+export const clearSocketData = (sid: string) => store().clearSocketData(sid);
+export const takeTokens = (key: string, capacity: number, refillPerSec: number, cost = 1) =>
+  store().takeTokens(key, capacity, refillPerSec, cost);
+export const addCallbackRequest = (calleeId: string, callerId: string, ttlMs: number) =>
+  store().addCallbackRequest(calleeId, callerId, ttlMs);
+export const cancelCallbackRequest = (calleeId: string, callerId: string) => store().cancelCallbackRequest(calleeId, callerId);
+export const hasCallbackRequests = (calleeId: string) => store().hasCallbackRequests(calleeId);
+export const takeCallbackRequests = (calleeId: string) => store().takeCallbackRequests(calleeId);
+export const createCall = (callId: string, call: CallRecord, users: string[], ttlMs: number) =>
+  store().createCall(callId, call, users, ttlMs);
+export const getCall = (callId: string) => store().getCall(callId);
+export const getUserCall = (userId: string) => store().getUserCall(userId);
+export const takeCall = (callId: string) => store().takeCall(callId);
+export const listCalls = () => store().listCalls();
+export const cleanupStaleQueueEntries = (timeoutMs: number, isSocketConnected: (sid: string) => boolean) =>
+  store().cleanupStaleQueueEntries(timeoutMs, isSocketConnected);
+export const cleanupStaleStates = (isSocketConnected: (sid: string) => boolean) =>
+  store().cleanupStaleStates(isSocketConnected);
 
 export async function setBusy(_userId: string, _busy: boolean): Promise<void> {
   // В текущей версии backend busy хранится в socket.data и рассылается через presence:update,
@@ -210,6 +514,8 @@ export async function setBusy(_userId: string, _busy: boolean): Promise<void> {
 }
 
 export async function close(): Promise<void> {
-  // no-op for in-memory
+  if (!current) return;
+  const s = current;
+  current = null;
+  await s.close();
 }
-
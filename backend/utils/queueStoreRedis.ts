@@ -0,0 +1,413 @@
+// backend/utils/queueStoreRedis.ts
+import os from 'os';
+import crypto from 'crypto';
+import Redis from 'ioredis';
+import { logger } from './logger';
+import { banKey, LOCK_TTL_MS, type CallRecord, type QueueMeta, type QueueStore } from './queueStore';
+
+/**
+ * Redis-реализация QueueStore — общая очередь для нескольких процессов backend.
+ *
+ * Ключи (hash-tag {mq} держит их в одном слоте для Redis Cluster и Lua):
+ * - waiting       ZSET sid -> время добавления (ms), порядок = FIFO
+ * - meta          HASH sid -> JSON { userId, prefs } ожидающего (для матчинга с другой ноды)
+ * - pair          HASH sid -> sid партнёра
+ * - owner         HASH sid -> instanceId процесса, которому принадлежит сокет
+ * - lock:<sid>    STRING с PX TTL
+ * - ban:<a|b>     STRING с PX TTL
+ * - ts:<kind>:<sid> — отметки rate-limit (match/start/search), с TTL
+ * - rl:<key>     HASH tokens/at — token bucket из utils/rateLimit, TTL = время до полного ведра
+ * - cb:<userId>  ZSET callerId -> когда истекает (ms) — "перезвоните, когда освободится", TTL = самый поздний запрос
+ * - calls        HASH callId -> JSON { call, users, exp } — звонки в дозвоне (просроченные отбрасываем при чтении)
+ * - ucall:<userId> STRING callId с PX TTL — пользователь в дозвоне
+ *
+ * Очистка "мёртвых" сокетов выполняется только для сокетов своего процесса (по owner):
+ * isSocketConnected знает лишь о локальных сокетах, чужие трогать нельзя.
+ */
+
+export type RedisQueueStoreOptions = {
+  prefix?: string;
+  instanceId?: string;
+};
+
+// Отметки rate-limit живут дольше любого из лимитов в match.ts, но не вечно
+const TS_TTL_MS = 10 * 60 * 1000;
+
+// KEYS: waiting, pair, lock:a, lock:b, meta  ARGV: a, b, lockTtlMs
+// Оба должны быть в очереди, без лока и без пары — иначе 0 и ничего не меняем
+const CLAIM_PAIR_LUA = `
+if ARGV[1] == ARGV[2] then return 0 end
+if not redis.call('ZSCORE', KEYS[1], ARGV[1]) then return 0 end
+if not redis.call('ZSCORE', KEYS[1], ARGV[2]) then return 0 end
+if redis.call('EXISTS', KEYS[3]) == 1 or redis.call('EXISTS', KEYS[4]) == 1 then return 0 end
+if redis.call('HEXISTS', KEYS[2], ARGV[1]) == 1 or redis.call('HEXISTS', KEYS[2], ARGV[2]) == 1 then return 0 end
+redis.call('ZREM', KEYS[1], ARGV[1], ARGV[2])
+redis.call('HDEL', KEYS[5], ARGV[1], ARGV[2])
+redis.call('SET', KEYS[3], '1', 'PX', ARGV[3])
+redis.call('SET', KEYS[4], '1', 'PX', ARGV[3])
+return 1
+`;
+
+// KEYS: pair  ARGV: sid — снимаем пару с обеих сторон, возвращаем партнёра
+const REMOVE_PAIR_LUA = `
+local other = redis.call('HGET', KEYS[1], ARGV[1])
+redis.call('HDEL', KEYS[1], ARGV[1])
+if other then
+  if redis.call('HGET', KEYS[1], other) == ARGV[1] then redis.call('HDEL', KEYS[1], other) end
+  return other
+end
+return false
+`;
+
+// KEYS: bucket  ARGV: capacity, refillPerSec, cost
+// Время берём у Redis — у нод backend часы могут расходиться. Ответ: {allowed 0|1, remaining, retryAfterMs}
+const TAKE_TOKENS_LUA = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local t = redis.call('TIME')
+local now = tonumber(t[1]) * 1000 + math.floor(tonumber(t[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'at')
+local tokens = tonumber(state[1])
+local at = tonumber(state[2])
+if tokens == nil or at == nil then
+  tokens = capacity
+else
+  tokens = math.min(capacity, tokens + math.max(0, now - at) / 1000 * rate)
+end
+local allowed = 0
+local retry = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+else
+  retry = math.ceil((cost - tokens) / rate * 1000)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'at', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.max(1, math.ceil((capacity - tokens) / rate * 1000)))
+return {allowed, math.floor(tokens), retry}
+`;
+
+// KEYS: cb:<callee>  ARGV: callerId, expiresAt, ttlMs — TTL ключа только продлеваем, чтобы не потерять более долгие запросы
+const ADD_CALLBACK_LUA = `
+redis.call('ZADD', KEYS[1], ARGV[2], ARGV[1])
+if redis.call('PTTL', KEYS[1]) < tonumber(ARGV[3]) then redis.call('PEXPIRE', KEYS[1], ARGV[3]) end
+return 1
+`;
+
+// KEYS: cb:<callee>  ARGV: now — забираем и удаляем разом, чтобы две ноды не уведомили дважды
+const TAKE_CALLBACKS_LUA = `
+local callers = redis.call('ZRANGEBYSCORE', KEYS[1], '(' .. ARGV[1], '+inf')
+redis.call('DEL', KEYS[1])
+return callers
+`;
+
+// KEYS: calls, ucall:<user>...  ARGV: callId, json, ttlMs — занятого пользователя не перезаписываем
+const CREATE_CALL_LUA = `
+for i = 2, #KEYS do
+  if redis.call('EXISTS', KEYS[i]) == 1 then return 0 end
+end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+for i = 2, #KEYS do redis.call('SET', KEYS[i], ARGV[1], 'PX', ARGV[3]) end
+return 1
+`;
+
+// KEYS: calls, ucall:<user>...  ARGV: callId — забираем звонок и снимаем отметки, если они ещё его
+const TAKE_CALL_LUA = `
+local v = redis.call('HGET', KEYS[1], ARGV[1])
+if not v then return false end
+redis.call('HDEL', KEYS[1], ARGV[1])
+for i = 2, #KEYS do
+  if redis.call('GET', KEYS[i]) == ARGV[1] then redis.call('DEL', KEYS[i]) end
+end
+return v
+`;
+
+type StoredCall = { call: CallRecord; users: string[]; exp: number };
+
+const parseCall = (raw: string | null | undefined): StoredCall | undefined => {
+  if (!raw) return undefined;
+  try {
+    const v = JSON.parse(raw);
+    return v && v.call && Array.isArray(v.users) ? (v as StoredCall) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export function createRedisQueueStore(client: Redis, opts: RedisQueueStoreOptions = {}): QueueStore {
+  const prefix = opts.prefix ?? 'livi:{mq}:';
+  const instanceId = opts.instanceId ?? `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+  const K = {
+    waiting: `${prefix}waiting`,
+    meta: `${prefix}meta`,
+    pair: `${prefix}pair`,
+    owner: `${prefix}owner`,
+    lock: (sid: string) => `${prefix}lock:${sid}`,
+    ban: (a: string, b: string) => `${prefix}ban:${banKey(a, b)}`,
+    ts: (kind: 'match' | 'start' | 'search', sid: string) => `${prefix}ts:${kind}:${sid}`,
+    bucket: (key: string) => `${prefix}rl:${key}`,
+    callbacks: (userId: string) => `${prefix}cb:${userId}`,
+    calls: `${prefix}calls`,
+    userCall: (userId: string) => `${prefix}ucall:${userId}`,
+  };
+
+  const claimOwnership = (sid: string) => client.hset(K.owner, sid, instanceId);
+
+  const getTs = async (kind: 'match' | 'start' | 'search', sid: string) => {
+    const v = await client.get(K.ts(kind, String(sid)));
+    const n = v == null ? NaN : Number(v);
+    return Number.isFinite(n) ? n : undefined;
+  };
+  const setTs = async (kind: 'match' | 'start' | 'search', sid: string, ts: number) => {
+    await client.set(K.ts(kind, String(sid)), String(Number(ts) || Date.now()), 'PX', TS_TTL_MS);
+  };
+
+  /** Сокеты, принадлежащие этому процессу */
+  const ownSids = async (): Promise<Set<string>> => {
+    const all = await client.hgetall(K.owner);
+    const own = new Set<string>();
+    for (const [sid, owner] of Object.entries(all)) if (owner === instanceId) own.add(sid);
+    return own;
+  };
+
+  const store: QueueStore = {
+    async addToQueue(sid, meta) {
+      const id = String(sid);
+      await claimOwnership(id);
+      // meta пишем раньше ZADD — кандидат в очереди всегда с данными
+      if (meta) await client.hset(K.meta, id, JSON.stringify(meta));
+      // NX — повторный add не сдвигает сокет в конец очереди
+      await client.zadd(K.waiting, 'NX', Date.now(), id);
+    },
+
+    async removeFromQueue(sid) {
+      await client.zrem(K.waiting, String(sid));
+      await client.hdel(K.meta, String(sid));
+    },
+
+    async isInQueue(sid) {
+      return (await client.zscore(K.waiting, String(sid))) != null;
+    },
+
+    async getWaitingQueue() {
+      return client.zrange(K.waiting, 0, -1);
+    },
+
+    async getQueueSize() {
+      return client.zcard(K.waiting);
+    },
+
+    async getQueueEntries() {
+      // WITHSCORES: [sid, score, sid, score, ...]
+      const flat = await client.zrange(K.waiting, 0, -1, 'WITHSCORES');
+      const res = [];
+      for (let i = 0; i < flat.length; i += 2) res.push({ sid: flat[i], addedAt: Number(flat[i + 1]) || Date.now() });
+      return res;
+    },
+
+    async getQueueMeta(sids) {
+      const res = new Map<string, QueueMeta>();
+      if (!sids.length) return res;
+      const raw = await client.hmget(K.meta, ...sids.map(String));
+      raw.forEach((json, i) => {
+        if (!json) return;
+        try {
+          res.set(String(sids[i]), JSON.parse(json) as QueueMeta);
+        } catch {}
+      });
+      return res;
+    },
+
+    async claimPair(aSid, bSid) {
+      const a = String(aSid);
+      const b = String(bSid);
+      const res = await client.eval(CLAIM_PAIR_LUA, 5, K.waiting, K.pair, K.lock(a), K.lock(b), K.meta, a, b, LOCK_TTL_MS);
+      return Number(res) === 1;
+    },
+
+    async setPair(aSid, bSid) {
+      const a = String(aSid);
+      const b = String(bSid);
+      await client.hset(K.pair, a, b, b, a);
+    },
+
+    async getPartner(sid) {
+      return (await client.hget(K.pair, String(sid))) ?? undefined;
+    },
+
+    async removePair(sid) {
+      const res = await client.eval(REMOVE_PAIR_LUA, 1, K.pair, String(sid));
+      return typeof res === 'string' && res ? res : undefined;
+    },
+
+    async lockSocket(sid) {
+      const id = String(sid);
+      await claimOwnership(id);
+      await client.set(K.lock(id), '1', 'PX', LOCK_TTL_MS);
+    },
+
+    async unlockSocket(sid) {
+      await client.del(K.lock(String(sid)));
+    },
+
+    async isLocked(sid) {
+      return (await client.exists(K.lock(String(sid)))) === 1;
+    },
+
+    async banPair(aSid, bSid, ms) {
+      const ttl = Math.max(0, Number(ms) || 0);
+      const key = K.ban(String(aSid), String(bSid));
+      if (ttl <= 0) {
+        await client.del(key);
+        return;
+      }
+      await client.set(key, '1', 'PX', ttl);
+    },
+
+    async isBannedTogether(aSid, bSid) {
+      return (await client.exists(K.ban(String(aSid), String(bSid)))) === 1;
+    },
+
+    getLastMatchAttempt: (sid) => getTs('match', sid),
+    setLastMatchAttempt: (sid, ts) => setTs('match', sid, ts),
+    getLastStart: (sid) => getTs('start', sid),
+    setLastStart: (sid, ts) => setTs('start', sid, ts),
+    getLastSearch: (sid) => getTs('search', sid),
+    setLastSearch: (sid, ts) => setTs('search', sid, ts),
+
+    async clearSocketData(sid) {
+      const id = String(sid);
+      await store.removeFromQueue(id);
+      await store.unlockSocket(id);
+      await store.removePair(id);
+      await client.del(K.ts('match', id), K.ts('start', id), K.ts('search', id));
+      await client.hdel(K.owner, id);
+    },
+
+    async takeTokens(key, capacity, refillPerSec, cost) {
+      const res = (await client.eval(TAKE_TOKENS_LUA, 1, K.bucket(key), capacity, refillPerSec, cost)) as number[];
+      return { allowed: Number(res?.[0]) === 1, remaining: Number(res?.[1]) || 0, retryAfterMs: Number(res?.[2]) || 0 };
+    },
+
+    async addCallbackRequest(calleeId, callerId, ttlMs) {
+      const ttl = Math.max(1, Number(ttlMs) || 0);
+      await client.eval(ADD_CALLBACK_LUA, 1, K.callbacks(String(calleeId)), String(callerId), Date.now() + ttl, ttl);
+    },
+
+    async cancelCallbackRequest(calleeId, callerId) {
+      return (await client.zrem(K.callbacks(String(calleeId)), String(callerId))) > 0;
+    },
+
+    async hasCallbackRequests(calleeId) {
+      return (await client.exists(K.callbacks(String(calleeId)))) === 1;
+    },
+
+    async takeCallbackRequests(calleeId) {
+      const res = await client.eval(TAKE_CALLBACKS_LUA, 1, K.callbacks(String(calleeId)), Date.now());
+      return Array.isArray(res) ? res.map(String) : [];
+    },
+
+    async createCall(callId, call, users, ttlMs) {
+      const ttl = Math.max(1, Number(ttlMs) || 0);
+      const ids = users.map(String);
+      const json = JSON.stringify({ call, users: ids, exp: Date.now() + ttl });
+      const keys = [K.calls, ...ids.map(K.userCall)];
+      return Number(await client.eval(CREATE_CALL_LUA, keys.length, ...keys, String(callId), json, ttl)) === 1;
+    },
+
+    async getCall(callId) {
+      const entry = parseCall(await client.hget(K.calls, String(callId)));
+      return entry && entry.exp > Date.now() ? entry.call : undefined;
+    },
+
+    async getUserCall(userId) {
+      return (await client.get(K.userCall(String(userId)))) || undefined;
+    },
+
+    async takeCall(callId) {
+      // users нужны для KEYS скрипта; у записи они не меняются, так что читать заранее безопасно
+      const known = parseCall(await client.hget(K.calls, String(callId)));
+      if (!known) return undefined;
+      const keys = [K.calls, ...known.users.map(K.userCall)];
+      const entry = parseCall((await client.eval(TAKE_CALL_LUA, keys.length, ...keys, String(callId))) as string | null);
+      return entry && entry.exp > Date.now() ? entry.call : undefined;
+    },
+
+    async listCalls() {
+      const n = Date.now();
+      const out: Array<{ callId: string; call: CallRecord }> = [];
+      for (const [callId, raw] of Object.entries(await client.hgetall(K.calls))) {
+        const entry = parseCall(raw);
+        if (entry && entry.exp > n) out.push({ callId, call: entry.call });
+      }
+      return out;
+    },
+
+    async cleanupStaleQueueEntries(timeoutMs, isSocketConnected) {
+      const stale: string[] = [];
+      const t = Math.max(0, Number(timeoutMs) || 0);
+      const n = Date.now();
+      const own = await ownSids();
+
+      // WITHSCORES: [sid, score, sid, score, ...]
+      const flat = await client.zrange(K.waiting, 0, -1, 'WITHSCORES');
+      for (let i = 0; i < flat.length; i += 2) {
+        const sid = flat[i];
+        const added = Number(flat[i + 1]) || n;
+        const tooOld = n - added > t;
+        // Отключение проверяем только для своих сокетов; "висящие" слишком долго чистит любой процесс
+        const disconnected = own.has(sid) && !isSocketConnected(sid);
+        if (tooOld || disconnected) {
+          stale.push(sid);
+          await store.removeFromQueue(sid);
+        }
+      }
+      return stale;
+    },
+
+    async cleanupStaleStates(isSocketConnected) {
+      // Баны и локи истекают сами по TTL в Redis — здесь только локи/пары отключившихся своих сокетов
+      let cleanedLocks = 0;
+      let cleanedPairs = 0;
+
+      for (const sid of await ownSids()) {
+        if (isSocketConnected(sid)) continue;
+        if (await client.del(K.lock(sid))) cleanedLocks++;
+        if (await store.removePair(sid)) cleanedPairs++;
+        const inQueue = await store.isInQueue(sid);
+        if (!inQueue) await client.hdel(K.owner, sid);
+      }
+
+      // Звонки, чья нода так и не дождалась таймаута дозвона (отметки ucall истекли сами)
+      const n = Date.now();
+      for (const [callId, raw] of Object.entries(await client.hgetall(K.calls))) {
+        const entry = parseCall(raw);
+        if (!entry || entry.exp <= n) await client.hdel(K.calls, callId);
+      }
+
+      return { cleanedBans: 0, cleanedLocks, cleanedPairs };
+    },
+
+    async close() {
+      try {
+        await client.quit();
+      } catch (e: any) {
+        logger.warn('[queueStore] Redis quit failed', { error: e?.message || String(e) });
+        client.disconnect();
+      }
+    },
+  };
+
+  return store;
+}
+
+/** Создаём клиента по REDIS_URL (без URL — localhost:6379) */
+export function createRedisQueueStoreFromUrl(url?: string, opts?: RedisQueueStoreOptions): QueueStore {
+  const client = url ? new Redis(url) : new Redis();
+  client.on('error', (e: any) => {
+    logger.error('[queueStore] Redis error', { error: e?.message || String(e) });
+  });
+  return createRedisQueueStore(client, opts);
+}
@@ -0,0 +1,165 @@
+// backend/utils/rateLimit.ts
+import type { Request, Response, NextFunction } from 'express';
+import type { Socket } from 'socket.io';
+import * as queueStore from './queueStore';
+import { logger } from './logger';
+import { metrics } from './metrics';
+
+/**
+ * Общий rate limit для socket-событий и REST-маршрутов: token bucket по userId и по IP.
+ * Состояние вёдер — в queueStore (Redis при нескольких нодах, иначе память процесса).
+ *
+ * Правила — RATE_LIMIT_RULES ниже, переопределяются env RATE_LIMITS (JSON):
+ *   RATE_LIMITS='{"message:send":{"capacity":60,"perMinute":240},"friends:add":null}'
+ * null выключает правило, RATE_LIMIT_DISABLED=1 — весь лимитер.
+ * IP-ведро в IP_CAPACITY_FACTOR раз больше пользовательского: за одним NAT бывает много людей.
+ * Правила ipOnly (ввод кодов привязки/восстановления) считают только по IP и без множителя:
+ * перебирают с новых соединений и аккаунтов, так что userId тут ничего не ограничивает.
+ * За прокси (nginx.conf, docker-compose, systemd-юнит ставят TRUST_PROXY=1) адрес клиента берём из X-Real-IP,
+ * который nginx перезаписывает на $remote_addr, либо из последнего звена X-Forwarded-For — его дописал наш прокси.
+ * Левые звенья X-Forwarded-For присылает сам клиент, им верить нельзя. Без TRUST_PROXY за прокси все клиенты
+ * делят одно IP-ведро (адрес прокси), а напрямую выставленный backend без прокси пусть его не включает.
+ *
+ * Отказ у всех один: { ok: false, error: 'rate_limited', retryAfterMs } (в ack или HTTP 429 + Retry-After).
+ * Дебаунсы матчинга (START_RATE_LIMIT_MS и т.п. в sockets/match.ts) остаются там — это часть логики поиска.
+ */
+
+export type RateLimitRule = {
+  /** Размер ведра — сколько запросов можно сделать подряд */
+  capacity: number;
+  /** Скорость пополнения */
+  perMinute: number;
+  /** Только ведро IP (ёмкость capacity, без IP_CAPACITY_FACTOR) */
+  ipOnly?: boolean;
+};
+
+export type RateLimitVerdict = { ok: true } | { ok: false; error: 'rate_limited'; retryAfterMs: number };
+
+const RATE_LIMIT_RULES: Record<string, RateLimitRule> = {
+  // socket-события
+  'message:send': { capacity: 30, perMinute: 120 },
+  'friends:add': { capacity: 10, perMinute: 20 },
+  'call:initiate': { capacity: 5, perMinute: 12 },
+  'call:group:start': { capacity: 3, perMinute: 6 },
+  'call:invite': { capacity: 10, perMinute: 20 },
+  'user.uploadAvatar': { capacity: 5, perMinute: 10 },
+  'report:create': { capacity: 5, perMinute: 10 },
+  'devices:link:create': { capacity: 5, perMinute: 10 },
+  'devices:link:redeem': { capacity: 5, perMinute: 5, ipOnly: true },
+  'devices:recovery:restore': { capacity: 5, perMinute: 5, ipOnly: true },
+  // REST
+  'upload:media': { capacity: 20, perMinute: 60 },
+  'upload:voice': { capacity: 20, perMinute: 60 },
+  'upload:avatar': { capacity: 5, perMinute: 10 },
+  'auth:refresh': { capacity: 10, perMinute: 30 },
+};
+
+const IP_CAPACITY_FACTOR = 5;
+
+const isRule = (r: any): r is RateLimitRule =>
+  !!r && Number(r.capacity) > 0 && Number(r.perMinute) > 0;
+
+function loadRules(): Map<string, RateLimitRule> {
+  const rules = new Map(Object.entries(RATE_LIMIT_RULES));
+  const raw = String(process.env.RATE_LIMITS || '').trim();
+  if (!raw) return rules;
+  try {
+    for (const [name, rule] of Object.entries(JSON.parse(raw) as Record<string, unknown>)) {
+      if (rule === null) rules.delete(name);
+      else if (isRule(rule)) {
+        const ipOnly = typeof rule.ipOnly === 'boolean' ? rule.ipOnly : rules.get(name)?.ipOnly;
+        rules.set(name, { capacity: Number(rule.capacity), perMinute: Number(rule.perMinute), ...(ipOnly ? { ipOnly } : {}) });
+      }
+      else logger.warn('[rateLimit] ignoring invalid rule from RATE_LIMITS', { name, rule });
+    }
+  } catch (e: any) {
+    logger.warn('[rateLimit] RATE_LIMITS is not valid JSON, using defaults', { error: e?.message || String(e) });
+  }
+  return rules;
+}
+
+let rules: Map<string, RateLimitRule> | null = null;
+const getRule = (name: string) => (rules ||= loadRules()).get(name);
+
+const disabled = () => String(process.env.RATE_LIMIT_DISABLED || '') === '1';
+
+const headerValue = (v?: string | string[]) => String((Array.isArray(v) ? v[v.length - 1] : v) || '');
+const normalizeIp = (ip: string) => ip.trim().replace(/^::ffff:/, '');
+
+/** Адрес клиента: заголовки прокси учитываем только при TRUST_PROXY=1 и только то, что дописал сам прокси */
+export function clientIp(remoteAddress?: string, headers: Record<string, string | string[] | undefined> = {}): string {
+  if (String(process.env.TRUST_PROXY || '') === '1') {
+    const realIp = normalizeIp(headerValue(headers['x-real-ip']));
+    if (realIp) return realIp;
+    const lastHop = normalizeIp(headerValue(headers['x-forwarded-for']).split(',').pop() || '');
+    if (lastHop) return lastHop;
+  }
+  return normalizeIp(String(remoteAddress || '')) || 'unknown';
+}
+
+/**
+ * Списать запрос из вёдер пользователя и IP. Ошибка хранилища — пропускаем (лимитер не должен класть сервис).
+ * Без правила для name — всегда ok.
+ */
+export async function consumeRateLimit(name: string, who: { userId?: string | null; ip?: string }): Promise<RateLimitVerdict> {
+  const rule = getRule(name);
+  if (!rule || disabled()) return { ok: true };
+
+  const perSec = rule.perMinute / 60;
+  const buckets: Array<[string, number]> = [];
+  if (who.userId && !rule.ipOnly) buckets.push([`${name}:u:${who.userId}`, rule.capacity]);
+  if (who.ip) buckets.push([`${name}:ip:${who.ip}`, rule.ipOnly ? rule.capacity : rule.capacity * IP_CAPACITY_FACTOR]);
+
+  try {
+    let retryAfterMs = 0;
+    // Отказ по пользователю не тратит токены IP
+    for (const [key, capacity] of buckets) {
+      const res = await queueStore.takeTokens(key, capacity, perSec);
+      if (!res.allowed) {
+        retryAfterMs = Math.max(1, res.retryAfterMs);
+        break;
+      }
+    }
+    if (!retryAfterMs) return { ok: true };
+
+    metrics.rateLimited.inc({ name });
+    logger.info('Rate limited', { name, ip: who.ip, retryAfterMs });
+    return { ok: false, error: 'rate_limited', retryAfterMs };
+  } catch (e: any) {
+    logger.warn('[rateLimit] store error, request allowed', { name, error: e?.message || String(e) });
+    return { ok: true };
+  }
+}
+
+/**
+ * io.use(): лимит на входящие события. Отказ уходит в ack события,
+ * а если его нет — отдельным событием rate_limited { event, retryAfterMs }.
+ */
+export function socketRateLimitMiddleware(sock: Socket, next: (err?: Error) => void) {
+  const ip = clientIp(sock.handshake.address, sock.handshake.headers);
+  sock.use(async (packet, nextPacket) => {
+    const event = String(packet[0]);
+    if (!getRule(event)) return nextPacket();
+
+    const verdict = await consumeRateLimit(event, { userId: (sock.data as any)?.userId, ip });
+    if (verdict.ok) return nextPacket();
+
+    const ack = packet[packet.length - 1];
+    if (typeof ack === 'function') ack(verdict);
+    else sock.emit('rate_limited', { event, retryAfterMs: verdict.retryAfterMs });
+  });
+  next();
+}
+
+/** Express: router.post('/upload/media', rateLimit('upload:media'), ...) → 429 с Retry-After (секунды) */
+export function rateLimit(name: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const verdict = await consumeRateLimit(name, {
+      userId: (req as any).userId,
+      ip: clientIp(req.socket.remoteAddress, req.headers),
+    });
+    if (verdict.ok) return next();
+    res.setHeader('Retry-After', String(Math.max(1, Math.ceil(verdict.retryAfterMs / 1000))));
+    return res.status(429).json(verdict);
+  };
+}
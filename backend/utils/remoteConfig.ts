@@ -0,0 +1,267 @@
+// backend/utils/remoteConfig.ts
+import fs from 'fs';
+import crypto from 'crypto';
+import { logger } from './logger';
+import { CALL_RING_TIMEOUT_SECONDS, RING_TIMEOUT_MAX_SECONDS, RING_TIMEOUT_MIN_SECONDS } from './callConfig';
+
+/**
+ * Remote config: фич-флаги, настраиваемые параметры, минимальная версия клиента и баннер техработ.
+ * Отдаётся клиенту через GET /api/app-settings (поле config), на сервере — getTunables() / isFeatureEnabled().
+ *
+ * Значения по умолчанию — DEFAULT_CONFIG ниже, переопределения — JSON той же формы:
+ * - REMOTE_CONFIG_FILE — путь к файлу; перечитывается при изменении (проверка не чаще раза в 5с), без рестарта
+ * - REMOTE_CONFIG — JSON прямо в переменной
+ * Некорректные поля пропускаются с предупреждением, остальное применяется.
+ *
+ * Флаги раскатываются по проценту пользователей: { enabled: true, rollout: 20 } — 20% userId
+ * (стабильно: один и тот же пользователь всегда в одной группе). Без userId — только rollout 100.
+ * Варианты (randomMode) выбираются так же, по весам.
+ */
+
+export type BooleanFlag = { enabled: boolean; rollout: number };
+export type VariantFlag<V extends string> = { variants: Record<V, number> };
+
+export type RandomMode = 'classic' | 'interests';
+const RANDOM_MODES: RandomMode[] = ['classic', 'interests'];
+
+export type RemoteConfig = {
+  flags: {
+    groupCalls: BooleanFlag;
+    voiceMessages: BooleanFlag;
+    // classic — рандом без фильтров, interests — с выбором интересов/строгого поиска
+    randomMode: VariantFlag<RandomMode>;
+  };
+  tunables: {
+    ringTimeoutSeconds: number;
+    rematchBanMs: number;
+    queueTimeoutMs: number;
+    matchRelaxAfterMs: number;
+  };
+  client: {
+    minSupportedVersion: string | null;
+    latestVersion: string | null;
+    updateUrl: string | null;
+  };
+  maintenance: { message: string; level: 'info' | 'warning'; until: string | null } | null;
+};
+
+/** То, что получает клиент: флаги уже вычислены для него */
+export type ClientRemoteConfig = Omit<RemoteConfig, 'flags'> & {
+  flags: { groupCalls: boolean; voiceMessages: boolean; randomMode: RandomMode };
+};
+
+export type FeatureName = 'groupCalls' | 'voiceMessages';
+
+const DEFAULT_CONFIG: RemoteConfig = {
+  flags: {
+    groupCalls: { enabled: true, rollout: 100 },
+    voiceMessages: { enabled: true, rollout: 100 },
+    randomMode: { variants: { classic: 0, interests: 100 } },
+  },
+  tunables: {
+    ringTimeoutSeconds: CALL_RING_TIMEOUT_SECONDS,
+    rematchBanMs: 5000,
+    queueTimeoutMs: 5 * 60 * 1000,
+    matchRelaxAfterMs: Number(process.env.MATCH_RELAX_AFTER_MS || 15_000),
+  },
+  client: { minSupportedVersion: null, latestVersion: null, updateUrl: null },
+  maintenance: null,
+};
+
+// Границы настраиваемых параметров — опечатка в конфиге не должна сломать матчинг
+const TUNABLE_RANGES: Record<keyof RemoteConfig['tunables'], [number, number]> = {
+  ringTimeoutSeconds: [RING_TIMEOUT_MIN_SECONDS, RING_TIMEOUT_MAX_SECONDS],
+  rematchBanMs: [0, 60_000],
+  queueTimeoutMs: [30_000, 60 * 60 * 1000],
+  matchRelaxAfterMs: [5_000, 120_000],
+};
+
+const VERSION_RE = /^\d+(\.\d+){0,2}$/;
+const FILE_CHECK_INTERVAL_MS = 5000;
+
+// === Разбор переопределений =======================================================
+const isObj = (v: unknown): v is Record<string, any> => !!v && typeof v === 'object' && !Array.isArray(v);
+const clampPercent = (n: number) => Math.min(100, Math.max(0, n));
+
+function warn(field: string, value: unknown) {
+  logger.warn('[remoteConfig] ignoring invalid value', { field, value });
+}
+
+function mergeBooleanFlag(base: BooleanFlag, raw: unknown, field: string): BooleanFlag {
+  if (raw === undefined) return base;
+  if (typeof raw === 'boolean') return { enabled: raw, rollout: 100 };
+  if (!isObj(raw)) return warn(field, raw), base;
+  const enabled = typeof raw.enabled === 'boolean' ? raw.enabled : base.enabled;
+  const rollout = raw.rollout === undefined ? base.rollout : Number(raw.rollout);
+  if (!Number.isFinite(rollout)) return warn(`${field}.rollout`, raw.rollout), { ...base, enabled };
+  return { enabled, rollout: clampPercent(rollout) };
+}
+
+function mergeVariantFlag<V extends string>(base: VariantFlag<V>, raw: unknown, allowed: V[], field: string): VariantFlag<V> {
+  if (raw === undefined) return base;
+  const variants = isObj(raw) && isObj(raw.variants) ? raw.variants : null;
+  if (!variants) return warn(field, raw), base;
+  const out = {} as Record<V, number>;
+  for (const v of allowed) {
+    const w = Number(variants[v] ?? 0);
+    out[v] = Number.isFinite(w) && w > 0 ? w : 0;
+  }
+  if (!allowed.some((v) => out[v] > 0)) return warn(field, raw), base;
+  return { variants: out };
+}
+
+function mergeConfig(base: RemoteConfig, raw: unknown): RemoteConfig {
+  if (!isObj(raw)) return base;
+  const out: RemoteConfig = JSON.parse(JSON.stringify(base));
+
+  const flags = isObj(raw.flags) ? raw.flags : {};
+  out.flags.groupCalls = mergeBooleanFlag(base.flags.groupCalls, flags.groupCalls, 'flags.groupCalls');
+  out.flags.voiceMessages = mergeBooleanFlag(base.flags.voiceMessages, flags.voiceMessages, 'flags.voiceMessages');
+  out.flags.randomMode = mergeVariantFlag(base.flags.randomMode, flags.randomMode, RANDOM_MODES, 'flags.randomMode');
+
+  const tunables = isObj(raw.tunables) ? raw.tunables : {};
+  for (const key of Object.keys(TUNABLE_RANGES) as Array<keyof RemoteConfig['tunables']>) {
+    if (tunables[key] === undefined) continue;
+    const n = Math.round(Number(tunables[key]));
+    const [min, max] = TUNABLE_RANGES[key];
+    if (!Number.isFinite(n)) warn(`tunables.${key}`, tunables[key]);
+    else out.tunables[key] = Math.min(max, Math.max(min, n));
+  }
+
+  if (isObj(raw.client)) {
+    for (const key of ['minSupportedVersion', 'latestVersion'] as const) {
+      const v = raw.client[key];
+      if (v === undefined) continue;
+      if (v === null || (typeof v === 'string' && VERSION_RE.test(v.trim()))) out.client[key] = v === null ? null : v.trim();
+      else warn(`client.${key}`, v);
+    }
+    if (raw.client.updateUrl !== undefined) {
+      out.client.updateUrl = typeof raw.client.updateUrl === 'string' ? raw.client.updateUrl.trim() || null : null;
+    }
+  }
+
+  if (raw.maintenance === null) out.maintenance = null;
+  else if (isObj(raw.maintenance)) {
+    const message = String(raw.maintenance.message || '').trim().slice(0, 500);
+    const until = typeof raw.maintenance.until === 'string' && !Number.isNaN(Date.parse(raw.maintenance.until))
+      ? new Date(raw.maintenance.until).toISOString()
+      : null;
+    out.maintenance = message ? { message, level: raw.maintenance.level === 'warning' ? 'warning' : 'info', until } : null;
+  } else if (raw.maintenance !== undefined) warn('maintenance', raw.maintenance);
+
+  return out;
+}
+
+// === Источник =====================================================================
+export interface RemoteConfigSource {
+  /** Текущие переопределения (JSON-объект той же формы, что RemoteConfig) */
+  read(): unknown;
+}
+
+function parseJson(raw: string, origin: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch (e: any) {
+    logger.warn('[remoteConfig] invalid JSON, using defaults', { origin, error: e?.message || String(e) });
+    return null;
+  }
+}
+
+export function createFileRemoteConfigSource(file: string): RemoteConfigSource {
+  let checkedAt = 0;
+  let mtimeMs = -1;
+  let value: unknown = null;
+  return {
+    read() {
+      const now = Date.now();
+      if (now - checkedAt < FILE_CHECK_INTERVAL_MS) return value;
+      checkedAt = now;
+      try {
+        const stat = fs.statSync(file);
+        if (stat.mtimeMs !== mtimeMs) {
+          mtimeMs = stat.mtimeMs;
+          value = parseJson(fs.readFileSync(file, 'utf8'), file);
+          logger.info('[remoteConfig] loaded', { file });
+        }
+      } catch (e: any) {
+        if (mtimeMs !== -2) logger.warn('[remoteConfig] cannot read config file', { file, error: e?.message || String(e) });
+        mtimeMs = -2;
+        value = null;
+      }
+      return value;
+    },
+  };
+}
+
+let source: RemoteConfigSource | undefined;
+
+function createFromEnv(): RemoteConfigSource {
+  const file = String(process.env.REMOTE_CONFIG_FILE || '').trim();
+  if (file) return createFileRemoteConfigSource(file);
+  const inline = parseJson(String(process.env.REMOTE_CONFIG || '').trim() || 'null', 'REMOTE_CONFIG');
+  return { read: () => inline };
+}
+
+/** Подменить источник (тесты / явная инициализация) */
+export function useRemoteConfigSource(impl: RemoteConfigSource): void {
+  source = impl;
+  cached = null;
+}
+
+let cached: { raw: unknown; config: RemoteConfig } | null = null;
+
+export function getRemoteConfig(): RemoteConfig {
+  if (!source) source = createFromEnv();
+  const raw = source.read();
+  if (!cached || cached.raw !== raw) cached = { raw, config: mergeConfig(DEFAULT_CONFIG, raw) };
+  return cached.config;
+}
+
+export const getTunables = () => getRemoteConfig().tunables;
+
+// === Вычисление флагов ==============================================================
+/** Стабильная позиция пользователя 0..100 для флага (разная для разных флагов) */
+function rolloutBucket(flag: string, userId: string): number {
+  const h = crypto.createHash('sha1').update(`${flag}:${userId}`).digest();
+  return (h.readUInt32BE(0) % 10_000) / 100;
+}
+
+function evalBoolean(name: string, flag: BooleanFlag, userId?: string | null): boolean {
+  if (!flag.enabled || flag.rollout <= 0) return false;
+  if (flag.rollout >= 100) return true;
+  return !!userId && rolloutBucket(name, userId) < flag.rollout;
+}
+
+function evalVariant<V extends string>(name: string, flag: VariantFlag<V>, userId?: string | null): V {
+  const entries = (Object.entries(flag.variants) as Array<[V, number]>).filter(([, w]) => w > 0);
+  const total = entries.reduce((sum, [, w]) => sum + w, 0);
+  // Без userId — самый "тяжёлый" вариант
+  if (!userId) return entries.reduce((best, e) => (e[1] > best[1] ? e : best))[0];
+  let point = (rolloutBucket(name, userId) / 100) * total;
+  for (const [variant, weight] of entries) {
+    if (point < weight) return variant;
+    point -= weight;
+  }
+  return entries[entries.length - 1][0];
+}
+
+export function isFeatureEnabled(name: FeatureName, userId?: string | null): boolean {
+  return evalBoolean(name, getRemoteConfig().flags[name], userId);
+}
+
+/** Вариант рандома для пользователя: classic — сервер игнорирует фильтры из start */
+export function getRandomMode(userId?: string | null): RandomMode {
+  return evalVariant('randomMode', getRemoteConfig().flags.randomMode, userId);
+}
+
+export function resolveClientConfig(userId?: string | null): ClientRemoteConfig {
+  const config = getRemoteConfig();
+  return {
+    ...config,
+    flags: {
+      groupCalls: evalBoolean('groupCalls', config.flags.groupCalls, userId),
+      voiceMessages: evalBoolean('voiceMessages', config.flags.voiceMessages, userId),
+      randomMode: getRandomMode(userId),
+    },
+  };
+}
@@ -0,0 +1,96 @@
+// backend/utils/sessionTokens.ts
+import crypto from 'crypto';
+import type { Request } from 'express';
+import { logger } from './logger';
+
+/**
+ * Подписанные сессионные токены (HMAC-SHA256) вместо доверия x-user-id / installId.
+ * Формат: base64url(JSON payload).base64url(подпись)
+ * - access  — короткоживущий, передаётся в Authorization: Bearer и в socket.auth.token
+ * - refresh — долгоживущий, привязан к installId, обменивается на новую пару через /api/auth/refresh
+ */
+
+export type SessionTokenType = 'access' | 'refresh';
+
+export type SessionClaims = {
+  sub: string; // userId
+  iid: string; // installId, к которому привязана сессия
+  typ: SessionTokenType;
+  iat: number; // unix seconds
+  exp: number; // unix seconds
+};
+
+export type SessionBundle = {
+  token: string;
+  refreshToken: string;
+  expiresAt: number; // ms, когда истекает access-токен
+};
+
+const ACCESS_TTL_SECONDS = Number(process.env.SESSION_TTL_SECONDS || 60 * 60); // 1 час
+const REFRESH_TTL_SECONDS = Number(process.env.SESSION_REFRESH_TTL_SECONDS || 30 * 24 * 60 * 60); // 30 дней
+
+let SESSION_SECRET = (process.env.SESSION_SECRET || '').trim();
+if (!SESSION_SECRET) {
+  // Без секрета токены будут инвалидированы при рестарте — клиент заново пройдёт identity:attach
+  SESSION_SECRET = crypto.randomBytes(32).toString('hex');
+  logger.warn('[auth] ⚠️ SESSION_SECRET not configured, using random per-process secret');
+}
+
+const b64url = (buf: Buffer | string) => Buffer.from(buf).toString('base64url');
+
+function sign(body: string): string {
+  return b64url(crypto.createHmac('sha256', SESSION_SECRET).update(body).digest());
+}
+
+function encode(claims: SessionClaims): string {
+  const body = b64url(JSON.stringify(claims));
+  return `${body}.${sign(body)}`;
+}
+
+function decode(token: string, typ: SessionTokenType): SessionClaims | null {
+  const raw = String(token || '').trim();
+  const dot = raw.indexOf('.');
+  if (dot <= 0) return null;
+
+  const body = raw.slice(0, dot);
+  const sig = Buffer.from(raw.slice(dot + 1));
+  const expected = Buffer.from(sign(body));
+  if (sig.length !== expected.length || !crypto.timingSafeEqual(sig, expected)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as SessionClaims;
+    if (claims?.typ !== typ || !claims.sub || !claims.iid) return null;
+    if (!Number.isFinite(claims.exp) || claims.exp * 1000 <= Date.now()) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+/** Выпускаем пару access/refresh для userId, привязанную к installId */
+export function issueSession(userId: string, installId: string): SessionBundle {
+  const iat = Math.floor(Date.now() / 1000);
+  const base = { sub: String(userId), iid: String(installId), iat };
+  const access: SessionClaims = { ...base, typ: 'access', exp: iat + ACCESS_TTL_SECONDS };
+  const refresh: SessionClaims = { ...base, typ: 'refresh', exp: iat + REFRESH_TTL_SECONDS };
+  return {
+    token: encode(access),
+    refreshToken: encode(refresh),
+    expiresAt: access.exp * 1000,
+  };
+}
+
+export function verifyAccessToken(token?: string | null): SessionClaims | null {
+  return token ? decode(token, 'access') : null;
+}
+
+export function verifyRefreshToken(token?: string | null): SessionClaims | null {
+  return token ? decode(token, 'refresh') : null;
+}
+
+/** Достаём Bearer-токен из заголовка Authorization */
+export function getBearerToken(req: Request): string {
+  const h = String(req.header('authorization') || '').trim();
+  const m = h.match(/^Bearer\s+(.+)$/i);
+  return m ? m[1].trim() : '';
+}
@@ -0,0 +1,87 @@
+// backend/utils/socketCluster.ts
+import type { Server } from 'socket.io';
+import Redis from 'ioredis';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { logger } from './logger';
+
+/**
+ * Кластерная доставка Socket.IO.
+ * С REDIS_URL (или SOCKET_ADAPTER=redis) подключаем Redis-адаптер: io.to(room).emit и fetchSockets
+ * работают через все процессы backend. Без него — стандартный in-memory адаптер одного процесса.
+ *
+ * ВАЖНО: io.sockets.sockets содержит только локальные сокеты. Для поиска сокетов пользователя
+ * используем комнату u:<userId> и fetchSockets (RemoteSocket: id, data, emit, join/leave, disconnect).
+ */
+
+let pubClient: Redis | null = null;
+let subClient: Redis | null = null;
+
+export function attachClusterAdapter(io: Server): void {
+  const kind = String(process.env.SOCKET_ADAPTER || '').trim().toLowerCase();
+  const redisUrl = String(process.env.REDIS_URL || '').trim();
+  if (kind === 'memory' || (kind !== 'redis' && !redisUrl)) {
+    logger.info('[socket] using in-memory adapter (single process only)');
+    return;
+  }
+
+  pubClient = redisUrl ? new Redis(redisUrl) : new Redis();
+  subClient = pubClient.duplicate();
+  for (const c of [pubClient, subClient]) {
+    c.on('error', (e: any) => logger.error('[socket] Redis adapter error', { error: e?.message || String(e) }));
+  }
+  io.adapter(createAdapter(pubClient, subClient, { key: 'livi:sio' }));
+  logger.info('[socket] using Redis adapter');
+}
+
+export async function closeClusterAdapter(): Promise<void> {
+  const clients = [pubClient, subClient].filter(Boolean) as Redis[];
+  pubClient = null;
+  subClient = null;
+  await Promise.all(clients.map((c) => c.quit().catch(() => c.disconnect())));
+}
+
+/** Подключён ли Redis-адаптер: без него других нод нет и io.serverSideEmit некуда слать */
+export const isClustered = () => !!pubClient;
+
+export const userRoom = (userId: string) => `u:${String(userId)}`;
+
+/** Все сокеты пользователя на всех нодах */
+export async function fetchUserSockets(io: Server, userId: string) {
+  if (!userId) return [];
+  return io.in(userRoom(userId)).fetchSockets();
+}
+
+export async function isUserOnline(io: Server, userId: string): Promise<boolean> {
+  return (await fetchUserSockets(io, userId)).length > 0;
+}
+
+/**
+ * Статус нескольких пользователей за один запрос к адаптеру (а не по запросу на каждого):
+ * userId -> { online, busy }
+ */
+export async function getUsersStatus(
+  io: Server,
+  userIds: string[]
+): Promise<Map<string, { online: boolean; busy: boolean }>> {
+  const res = new Map<string, { online: boolean; busy: boolean }>();
+  if (!userIds.length) return res;
+  const sockets = await io.in(userIds.map(userRoom)).fetchSockets();
+  for (const s of sockets) {
+    const uid = String((s.data as any)?.userId || '');
+    if (!uid) continue;
+    const prev = res.get(uid);
+    const busy = !!(s.data as any)?.busy;
+    res.set(uid, { online: true, busy: (prev?.busy || false) || busy });
+  }
+  return res;
+}
+
+/** Список онлайн userId по всему кластеру */
+export async function getOnlineUserIds(io: Server): Promise<string[]> {
+  const set = new Set<string>();
+  for (const s of await io.fetchSockets()) {
+    const uid = (s.data as any)?.userId;
+    if (uid) set.add(String(uid));
+  }
+  return Array.from(set);
+}
@@ -10,19 +10,25 @@ import { NavigationContainer, createNavigationContainerRef, CommonActions, Defau
 import { ThemeProvider, useAppTheme } from "./theme/ThemeProvider";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import { Audio } from "expo-av";
-import { View, Text, Animated, TouchableOpacity, StyleSheet, Easing, AppState, StatusBar, Linking } from "react-native";
+import { View, Text, Animated, TouchableOpacity, StyleSheet, Easing, AppState, StatusBar, Linking, Alert } from "react-native";
 import { BlurView } from "expo-blur";
 import { MaterialIcons } from "@expo/vector-icons";
 import { PanGestureHandler } from "react-native-gesture-handler";
-import socket, { onCallIncoming, onCallTimeout, onCallDeclined, onCallCanceled, onCallAccepted, acceptCall, declineCall, checkInviteLink, getCurrentUserId } from "./sockets/socket";
+import socket, { onCallIncoming, onCallWaiting, onCallTimeout, onCallDeclined, onCallCanceled, onCallAccepted, acceptCall, declineCall, checkInviteLink, getCurrentUserId, onConnected, getCallSettings, loadCallSettings, onDeviceUnlinked, clearAllUserData, type CallDeclineReply } from "./sockets/socket";
 import { emitMissedIncrement, emitCloseIncoming, emitRequestCloseIncoming, onRequestCloseIncoming, onCloseIncoming } from './utils/globalEvents';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { logger } from './utils/logger';
+import { registerForPushNotifications, onPushNotificationTap } from './utils/pushNotifications';
+import { useRemoteConfig, loadRemoteConfig, compareVersions } from './store/remoteConfig';
+import * as Application from 'expo-application';
+import Constants from 'expo-constants';
+import { QuickReplies } from './components/VideoChat/shared/QuickReplies';
 import InCallManager from 'react-native-incall-manager';
 import HomeScreen from "./screens/HomeScreen";
 import VideoCallScreen from "./screens/VideoCallScreen";
 import RandomChatScreen from "./screens/RandomChatScreen";
 import ChatScreen from "./screens/ChatScreen";
+import DevicesScreen from "./screens/DevicesScreen";
 import { PiPProvider, usePiP } from "./src/pip/PiPContext";
 import PiPOverlay from "./src/pip/PiPOverlay";
 import { ensureCometChatReady } from "./chat/cometchat";
@@ -75,6 +81,15 @@ const navRef = createNavigationContainerRef<RootStackParamList>();
 // (безопасно: используется только для navigate на Home при разрыве вызова)
 (global as any).__navRef = navRef;
 
+// Навигация может быть ещё не готова (приложение запущено нажатием на push) — ждём до ~5с
+const runWhenNavReady = (fn: () => void, attempts = 50) => {
+  if (navRef.isReady()) return fn();
+  if (attempts > 0) setTimeout(() => runWhenNavReady(fn, attempts - 1), 100);
+};
+
+// Вторая линия: сколько ждём подтверждения завершения текущего разговора перед тем, как принять новый
+const CALL_SWITCH_END_TIMEOUT_MS = 3000;
+
 const isVideoSessionRoute = (routeName?: string | null) =>
   routeName === 'VideoCall' || routeName === 'RandomChat';
 
@@ -107,7 +122,9 @@ function AppContent() {
 
 
   // ==== incoming call (global, когда не на экране видеозвонка) ====
-  const [incoming, setIncoming] = React.useState<{ callId: string; from: string; fromNick?: string } | null>(null);
+  const [incoming, setIncoming] = React.useState<{ callId: string; from: string; fromNick?: string; ringTimeout?: number } | null>(null);
+  // ==== вторая линия: звонок во время разговора (баннер поверх экрана звонка) ====
+  const [waitingCall, setWaitingCall] = React.useState<{ callId: string; from: string; fromNick?: string } | null>(null);
   const bounce = React.useRef(new Animated.Value(0)).current;
   const wave1 = React.useRef(new Animated.Value(0)).current;
   const wave2 = React.useRef(new Animated.Value(0)).current;
@@ -249,10 +266,28 @@ function AppContent() {
     };
   }, []);
 
+  // Устройство отвязали с другого устройства аккаунта: стираем локальные данные и начинаем с чистого профиля
+  React.useEffect(() => {
+    return onDeviceUnlinked(async () => {
+      logger.info('[App] This device was unlinked from the account');
+      await clearAllUserData();
+      try { socket.connect(); } catch {}
+      runWhenNavReady(() => navRef.reset({ index: 0, routes: [{ name: 'Home' }] }));
+    });
+  }, []);
+
   // Функция обработки реферальной ссылки
   const handleInviteLink = async (url: string) => {
     try {
       logger.info('[App] Processing invite link:', url);
+
+      // livi://link?code=XXXX-XXXX — код привязки устройства (QR с другого устройства)
+      const linkMatch = url.match(/livi:\/\/link\?code=([A-Za-z0-9-]+)/i);
+      if (linkMatch) {
+        const code = linkMatch[1];
+        runWhenNavReady(() => navRef.navigate('Devices', { code }));
+        return;
+      }
       
       // Парсим URL: 
       // - livi://invite/{code} (custom scheme для тестирования)
@@ -545,7 +580,7 @@ function AppContent() {
 
   // КРИТИЧНО: Обработчик входящего звонка - должен быть всегда зарегистрирован
   // Используем useRef для хранения функции, чтобы она не пересоздавалась
-  const handleIncomingCall = React.useCallback((d: { callId: string; from: string; fromNick?: string }) => {
+  const handleIncomingCall = React.useCallback((d: { callId: string; from: string; fromNick?: string; ringTimeout?: number }) => {
     logger.debug('Received call:incoming event', { callId: d.callId, from: d.from, fromNick: d.fromNick });
     
     // КРИТИЧНО: Используем актуальное значение навигации напрямую, а не routeName (который обновляется асинхронно)
@@ -746,6 +781,11 @@ function AppContent() {
       // Мгновенно закрываем UI
       setIncoming(null); stopAnim(); try { emitCloseIncoming(); emitRequestCloseIncoming(); } catch {}
       // Никакой навигации — остаёмся на текущем экране
+      // Ответили на другом устройстве — звонок не пропущен
+      if (d?.reason === 'answered_elsewhere') {
+        try { await AsyncStorage.removeItem('last_incoming_from'); } catch {}
+        return;
+      }
       // Инкремент пропущенного (на стороне получателя)
       try {
         const uid = await AsyncStorage.getItem('last_incoming_from');
@@ -836,7 +876,7 @@ function AppContent() {
     return () => { offDecl?.(); offCancel?.(); onAccepted?.(); offTimeout?.(); };
   }, [stopAnim]);
 
-  // Fallback: если по какой-то причине не пришёл call:timeout, авто-сворачиваем через 20с и фиксируем пропущенный
+  // Fallback: если по какой-то причине не пришёл call:timeout, авто-сворачиваем по истечении дозвона и фиксируем пропущенный
   React.useEffect(() => {
     if (!incoming) return;
     const t = setTimeout(async () => {
@@ -865,10 +905,121 @@ function AppContent() {
           setIncoming(null); stopAnim(); try { emitCloseIncoming(); emitRequestCloseIncoming(); } catch {}
         }
       } catch {}
-    }, 20000);
+    }, (incoming.ringTimeout || getCallSettings().ringTimeoutSeconds) * 1000);
     return () => { try { clearTimeout(t); } catch {} };
   }, [incoming, stopAnim]);
 
+  // Вторая линия: показываем баннер, снимаем его, если звонящий отменил или дозвон истёк
+  React.useEffect(() => {
+    const offWaiting = onCallWaiting((d) => setWaitingCall(d));
+    const clearIf = (d: { callId?: string }) =>
+      setWaitingCall((cur) => (cur && cur.callId === String(d?.callId || '') ? null : cur));
+    const offCancel = onCallCanceled(clearIf);
+    const offTimeout = onCallTimeout(clearIf);
+    return () => { offWaiting(); offCancel(); offTimeout(); };
+  }, []);
+
+  // Завершить текущий разговор и принять звонок со второй линии.
+  // Принимаем только после call:ended — иначе сервер завершит новый звонок вместе со старым
+  const acceptWaitingCall = React.useCallback(async () => {
+    const call = waitingCall;
+    if (!call) return;
+    setWaitingCall(null);
+    await new Promise<void>((resolve) => {
+      const done = () => { clearTimeout(t); socket.off('call:ended', done); resolve(); };
+      const t = setTimeout(done, CALL_SWITCH_END_TIMEOUT_MS);
+      socket.on('call:ended', done);
+      try {
+        (global as any).__endCallCleanupRef?.current?.();
+      } catch (e) {
+        logger.warn('[App] Failed to end current call before switching', e);
+        done();
+      }
+    });
+    acceptCall(call.callId);
+    runWhenNavReady(() => {
+      navRef.dispatch(
+        CommonActions.reset({
+          index: 1,
+          routes: [
+            { name: 'Home' as any },
+            { name: 'VideoCall' as any, params: { peerUserId: call.from, directCall: true, directInitiator: false, callId: call.callId } },
+          ],
+        })
+      );
+    });
+  }, [waitingCall]);
+
+  const declineWaitingCall = React.useCallback((reply?: CallDeclineReply) => {
+    if (!waitingCall) return;
+    declineCall(waitingCall.callId, reply);
+    setWaitingCall(null);
+  }, [waitingCall]);
+
+  // Настройки звонков с сервера (длительность дозвона, быстрые ответы)
+  React.useEffect(() => { loadCallSettings(); }, []);
+
+  // Remote config (флаги, техработы, минимальная версия): кэш сразу, свежий — при каждом подключении
+  React.useEffect(() => {
+    loadRemoteConfig();
+    return onConnected(() => { useRemoteConfig.getState().refresh(); });
+  }, []);
+
+  // Версия ниже минимально поддерживаемой — просим обновиться (один раз за запуск на каждую минимальную версию)
+  const minSupportedVersion = useRemoteConfig((s) => s.config.client.minSupportedVersion);
+  const updateUrl = useRemoteConfig((s) => s.config.client.updateUrl);
+  const updatePromptedForRef = React.useRef<string | null>(null);
+  React.useEffect(() => {
+    const current = Application.nativeApplicationVersion || Constants.expoConfig?.version;
+    if (!minSupportedVersion || !current || updatePromptedForRef.current === minSupportedVersion) return;
+    if (compareVersions(current, minSupportedVersion) >= 0) return;
+    updatePromptedForRef.current = minSupportedVersion;
+    Alert.alert(
+      'Доступно обновление',
+      'Эта версия приложения больше не поддерживается. Обновите приложение, чтобы звонки и чаты работали корректно.',
+      updateUrl
+        ? [{ text: 'Позже', style: 'cancel' }, { text: 'Обновить', onPress: () => { Linking.openURL(updateUrl).catch(() => {}); } }]
+        : [{ text: 'OK' }]
+    );
+  }, [minSupportedVersion, updateUrl]);
+
+  // Push: привязываем токен устройства после подключения и при возврате в приложение
+  // (у нового пользователя userId появляется уже после первого connect)
+  React.useEffect(() => {
+    const offConnected = onConnected(() => { registerForPushNotifications(); });
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') registerForPushNotifications();
+    });
+    return () => { offConnected(); sub.remove(); };
+  }, []);
+
+  // Нажатие на push: сообщение → чат с отправителем, заявка → главный экран, звонок → входящий вызов
+  React.useEffect(() => {
+    return onPushNotificationTap((data, receivedAt) => {
+      logger.debug('[App] Push notification tapped', { type: data.type, from: data.from });
+      if (data.type === 'call') {
+        // Push о звонке старше таймаута дозвона уже неактуален — звонок истёк
+        if (Date.now() - receivedAt > getCallSettings().ringTimeoutSeconds * 1000) return;
+        // Сервер тоже повторит call:incoming после подключения — модалка для того же callId просто обновится
+        runWhenNavReady(() => incomingCallHandlerRef.current?.({ callId: data.callId, from: data.from, fromNick: data.fromNick }));
+        return;
+      }
+      runWhenNavReady(() => {
+        if (isVideoSessionRoute(navRef.getCurrentRoute()?.name)) return; // разговор не прерываем
+        if (data.type === 'message') {
+          navRef.dispatch(
+            CommonActions.reset({
+              index: 1,
+              routes: [{ name: 'Home' as any }, { name: 'Chat' as any, params: { peerId: data.from } }],
+            })
+          );
+        } else {
+          navRef.navigate('Home');
+        }
+      });
+    });
+  }, []);
+
   // Debug logging for incoming call modal
   React.useEffect(() => {
     if (incoming) {
@@ -942,6 +1093,7 @@ function AppContent() {
                 }}
               />
               <Stack.Screen name="Chat" component={ChatScreen} />
+              <Stack.Screen name="Devices" component={DevicesScreen} />
             </Stack.Navigator>
           </NavigationContainer>
 
@@ -979,7 +1131,19 @@ function AppContent() {
                   <Text style={{ color: '#fff', fontWeight: '700', marginTop: 10 }}>Вам звонит</Text>
                   <Text style={{ color: '#e5e7eb', marginTop: 4 }}>{incoming.fromNick || `id: ${String(incoming.from || '').slice(0, 5)}`}</Text>
 
-                  <View style={{ flexDirection: 'row', gap: 12, marginTop: 300, width: '100%', paddingHorizontal: 15, paddingBottom: 60 }}>
+                  {/* Отклонить с быстрым ответом звонящему */}
+                  <View style={{ width: '100%', paddingHorizontal: 15, marginTop: 200 }}>
+                    <QuickReplies
+                      onReply={async (reply) => {
+                        try { await AsyncStorage.removeItem('last_incoming_from'); } catch {}
+                        declineCall(incoming.callId, reply);
+                        setIncoming(null);
+                        stopAnim();
+                      }}
+                    />
+                  </View>
+
+                  <View style={{ flexDirection: 'row', gap: 12, marginTop: 24, width: '100%', paddingHorizontal: 15, paddingBottom: 60 }}>
   {/* Принять */}
   <TouchableOpacity
     onPress={async () => {
@@ -1052,6 +1216,32 @@ function AppContent() {
             </View>
           )}
 
+          {/* Вторая линия: звонок во время разговора */}
+          {waitingCall && (
+            <View pointerEvents="box-none" style={[StyleSheet.absoluteFill, { zIndex: 10000 }]}>
+              <View style={styles.waitingBanner}>
+                <View style={styles.waitingHeader}>
+                  <MaterialIcons name="phone-in-talk" size={22} color="#4FC3F7" />
+                  <View style={{ flex: 1, marginLeft: 10 }}>
+                    <Text style={styles.waitingTitle} numberOfLines={1}>
+                      {waitingCall.fromNick || `id: ${String(waitingCall.from || '').slice(0, 5)}`}
+                    </Text>
+                    <Text style={styles.waitingSubtitle}>Звонит по второй линии</Text>
+                  </View>
+                </View>
+                <View style={styles.waitingActions}>
+                  <TouchableOpacity onPress={acceptWaitingCall} activeOpacity={0.7} style={[styles.waitingBtn, styles.waitingBtnAccept]}>
+                    <Text style={[styles.waitingBtnText, { color: 'rgb(52,199,89)' }]}>Завершить и принять</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => declineWaitingCall()} activeOpacity={0.7} style={[styles.waitingBtn, styles.waitingBtnDecline]}>
+                    <Text style={[styles.waitingBtnText, { color: 'rgb(255,90,103)' }]}>Отклонить</Text>
+                  </TouchableOpacity>
+                </View>
+                <QuickReplies onReply={declineWaitingCall} />
+              </View>
+            </View>
+          )}
+
           {/* Глобальный PiP оверлей - виден на всех страницах когда pip.visible === true */}
           <PiPOverlay />
 
@@ -1117,3 +1307,32 @@ export default function App() {
     </GestureHandlerRootView>
   );
 }
+
+const styles = StyleSheet.create({
+  waitingBanner: {
+    position: 'absolute',
+    top: Platform.OS === 'ios' ? 54 : 36,
+    left: 12,
+    right: 12,
+    padding: 14,
+    borderRadius: 14,
+    backgroundColor: 'rgba(13,14,16,0.94)',
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: 'rgba(255,255,255,0.12)',
+  },
+  waitingHeader: { flexDirection: 'row', alignItems: 'center' },
+  waitingTitle: { color: '#fff', fontWeight: '700' },
+  waitingSubtitle: { color: '#9ca3af', marginTop: 2, fontSize: 12 },
+  waitingActions: { flexDirection: 'row', gap: 10, marginTop: 12 },
+  waitingBtn: {
+    flex: 1,
+    height: 42,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+  },
+  waitingBtnAccept: { backgroundColor: 'rgba(52,199,89,0.18)', borderColor: 'rgba(36,150,65,0.7)' },
+  waitingBtnDecline: { backgroundColor: 'rgba(255,90,103,0.18)', borderColor: 'rgba(200,50,65,0.7)' },
+  waitingBtnText: { fontWeight: '700', fontSize: 13 },
+});
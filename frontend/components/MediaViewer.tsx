@@ -15,6 +15,7 @@ import { PinchGestureHandler, State } from 'react-native-gesture-handler';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import { Image as ExpoImage } from 'expo-image';
+import { useVideoPlayer, VideoView } from 'expo-video';
 import { Ionicons } from '@expo/vector-icons';
 import Modal from 'react-native-modal';
 import { LIVI } from '../utils/i18n';
@@ -25,11 +26,34 @@ const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 interface MediaViewerProps {
   visible: boolean;
   onClose: () => void;
-  mediaType: 'image';
+  mediaType: 'image' | 'video' | 'document';
   uri: string;
   name?: string;
 }
 
+// Расширение по умолчанию для скачанного файла, если в имени его нет
+const DEFAULT_EXT: Record<MediaViewerProps['mediaType'], string> = {
+  image: 'jpg',
+  video: 'mp4',
+  document: 'bin',
+};
+
+/** Видео со штатными контролами; плеер создаётся только когда вьюер открыт с видео */
+function VideoContent({ uri }: { uri: string }) {
+  const player = useVideoPlayer(uri, (p) => {
+    p.play();
+  });
+  return (
+    <VideoView
+      player={player}
+      style={styles.image}
+      contentFit="contain"
+      nativeControls
+      allowsFullscreen
+    />
+  );
+}
+
 export default function MediaViewer({ 
   visible, 
   onClose, 
@@ -72,7 +96,7 @@ export default function MediaViewer({
     if (/^(file|content):\/\//i.test(resolvedUri)) return resolvedUri;
     const baseName = (name || resolvedUri.split('?')[0].split('#')[0].split('/').pop() || `image_${Date.now()}`).toString();
     const hasExt = /\.[a-zA-Z0-9]{2,5}$/.test(baseName);
-    const fileName = hasExt ? baseName : `${baseName}.jpg`;
+    const fileName = hasExt ? baseName : `${baseName}.${DEFAULT_EXT[mediaType]}`;
     const target = FileSystem.cacheDirectory + fileName;
     try {
       const { uri: localUri } = await FileSystem.downloadAsync(resolvedUri, target);
@@ -80,7 +104,7 @@ export default function MediaViewer({
     } catch (e) {
       throw e;
     }
-  }, [resolvedUri, name]);
+  }, [resolvedUri, name, mediaType]);
 
   const handleShare = React.useCallback(async () => {
     if (busy) return;
@@ -98,7 +122,7 @@ export default function MediaViewer({
         } catch {}
       }
     } catch (e) {
-      console.error('Share image error:', e);
+      console.error('Share media error:', e);
     } finally {
       setBusy(false);
     }
@@ -132,6 +156,15 @@ export default function MediaViewer({
 
         {/* Media Content */}
         <View style={styles.mediaContainer}>
+          {mediaType === 'video' ? (
+            visible && !!resolvedUri && <VideoContent uri={resolvedUri} />
+          ) : mediaType === 'document' ? (
+            // Документы не рендерим сами — открываем через системный "Открыть в…" / "Поделиться"
+            <View style={styles.documentCard}>
+              <Ionicons name="document-text-outline" size={72} color={LIVI.white} />
+              <Text style={styles.documentName} numberOfLines={3}>{name || 'Документ'}</Text>
+            </View>
+          ) : (
           <PinchGestureHandler
             onGestureEvent={onPinchEvent}
             onHandlerStateChange={onPinchStateChange}
@@ -152,6 +185,7 @@ export default function MediaViewer({
               />
             </Animated.View>
           </PinchGestureHandler>
+          )}
         </View>
 
         {/* Footer */}
@@ -161,8 +195,8 @@ export default function MediaViewer({
             onPress={handleShare}
             disabled={busy}
           >
-            <Ionicons name="share-outline" size={22} color={LIVI.white} />
-            <Text style={styles.actionText}>Поделиться</Text>
+            <Ionicons name={mediaType === 'document' ? 'open-outline' : 'share-outline'} size={22} color={LIVI.white} />
+            <Text style={styles.actionText}>{mediaType === 'document' ? 'Открыть' : 'Поделиться'}</Text>
           </TouchableOpacity>
         </View>
       </SafeAreaView>
@@ -210,6 +244,17 @@ const styles = StyleSheet.create({
     width: screenWidth,
     height: screenHeight - 120,
   },
+  documentCard: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  documentName: {
+    color: LIVI.white,
+    fontSize: 16,
+    fontWeight: '500',
+    marginTop: 16,
+    textAlign: 'center',
+  },
   footer: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -22,6 +22,8 @@ import {
   Easing,
   ActivityIndicator,
   StatusBar,
+  TextInput,
+  Switch,
 } from 'react-native';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { CommonActions } from '@react-navigation/native';
@@ -37,7 +39,8 @@ import { useAppTheme } from '../../theme/ThemeProvider';
 import { isValidStream } from '../../utils/streamUtils';
 import InCallManager from 'react-native-incall-manager';
 import { logger } from '../../utils/logger';
-import { fetchFriends, requestFriend, respondFriend, onFriendRequest, onFriendAdded, onFriendAccepted, onFriendDeclined, updateProfile, onCallIncoming, onCallCanceled, acceptCall, declineCall } from '../../sockets/socket';
+import { useRandomMode, useRemoteConfig } from '../../store/remoteConfig';
+import { blockUser, reportUser, fetchFriends, requestFriend, respondFriend, onFriendRequest, onFriendAdded, onFriendAccepted, onFriendDeclined, updateProfile, onCallIncoming, onCallCanceled, acceptCall, declineCall } from '../../sockets/socket';
 import socket from '../../sockets/socket';
 import { syncMyStreamProfile } from '../../chat/cometchat';
 import { loadProfileFromStorage } from '../../utils/profileStorage';
@@ -45,6 +48,10 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { BlurView } from 'expo-blur';
 import { activateKeepAwakeAsync, deactivateKeepAwakeAsync } from '../../utils/keepAwake';
 import * as Device from 'expo-device';
+import { captureRef } from 'react-native-view-shot';
+import { buildStartPayload, defaultMatchPrefs, loadMatchPrefs, parseInterests, saveMatchPrefs } from '../../utils/matchPrefs';
+import type { MatchCriteria, MatchPrefs } from '../../utils/matchPrefs';
+import type { ReportReason } from '../../sockets/socket';
 
 type Props = { 
   route?: { 
@@ -65,6 +72,15 @@ const CARD_BASE = {
   position: 'relative' as const,
 };
 
+const REPORT_REASON_LABELS: { key: ReportReason; label: string }[] = [
+  { key: 'spam', label: 'Спам' },
+  { key: 'nudity', label: 'Обнажёнка' },
+  { key: 'harassment', label: 'Оскорбления' },
+  { key: 'underage', label: 'Несовершеннолетний' },
+  { key: 'violence', label: 'Насилие' },
+  { key: 'other', label: 'Другое' },
+];
+
 const boostMicLevel = (level: number) => {
   if (!level || level <= 0) return 0;
   const shaped = Math.pow(level, 0.55) * 2.4;
@@ -93,6 +109,21 @@ const RandomChat: React.FC<Props> = ({ route }) => {
   const [addPending, setAddPending] = useState(false);
   const [addBlocked, setAddBlocked] = useState(false);
   const [friendModalVisible, setFriendModalVisible] = useState(false);
+  // Фильтры поиска: интересы и strict/relaxed (язык берётся из настроек приложения)
+  const [matchPrefs, setMatchPrefs] = useState<MatchPrefs>(defaultMatchPrefs);
+  const [prefsModalVisible, setPrefsModalVisible] = useState(false);
+  const [interestsDraft, setInterestsDraft] = useState('');
+  const [strictDraft, setStrictDraft] = useState(false);
+  // Вариант рандома из remote config: classic — без фильтров (сервер их тоже не учитывает)
+  const filtersEnabled = useRandomMode() === 'interests';
+  const relaxAfterSec = useRemoteConfig((s) => Math.round(s.config.tunables.matchRelaxAfterMs / 1000));
+  // Жалоба на собеседника: кадр снимаем в момент нажатия, до открытия модалки
+  const remoteCardRef = useRef<View>(null);
+  const reportTargetRef = useRef<{ userId: string; roomName?: string; snapshot?: string } | null>(null);
+  const [reportModalVisible, setReportModalVisible] = useState(false);
+  const [reportReason, setReportReason] = useState<ReportReason>('spam');
+  const [reportComment, setReportComment] = useState('');
+  const [reportSending, setReportSending] = useState(false);
   const [incomingFriendFrom, setIncomingFriendFrom] = useState<string | null>(null);
   const [incomingFriendNick, setIncomingFriendNick] = useState<string | undefined>(undefined);
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
@@ -187,6 +218,7 @@ const RandomChat: React.FC<Props> = ({ route }) => {
   useEffect(() => {
     (async () => {
       setLang(await loadLang());
+      setMatchPrefs(await loadMatchPrefs());
       
       // Загружаем список друзей
       try {
@@ -219,6 +251,32 @@ const RandomChat: React.FC<Props> = ({ route }) => {
     });
   }, [toastOpacity]);
   
+  const openPrefsModal = useCallback(() => {
+    setInterestsDraft(matchPrefs.interests.join(', '));
+    setStrictDraft(matchPrefs.strict);
+    setPrefsModalVisible(true);
+  }, [matchPrefs]);
+  
+  const savePrefs = useCallback(async () => {
+    const next: MatchPrefs = { interests: parseInterests(interestsDraft), strict: strictDraft };
+    setMatchPrefs(next);
+    setPrefsModalVisible(false);
+    await saveMatchPrefs(next);
+  }, [interestsDraft, strictDraft]);
+  
+  // Сообщаем, по каким критериям нашли собеседника
+  const describeCriteria = useCallback((criteria?: MatchCriteria | null) => {
+    if (!criteria) return '';
+    const parts: string[] = [];
+    if (criteria.language) parts.push(L('match_criteria_language').replace('{value}', criteria.language));
+    if (criteria.interests.length) parts.push(L('match_criteria_interests').replace('{value}', criteria.interests.join(', ')));
+    if (parts.length) return L('match_criteria').replace('{list}', parts.join('; '));
+    return criteria.relaxed ? L('match_relaxed') : '';
+  }, [L]);
+  // Обработчики session подписываются один раз, а язык подгружается позже — берём актуальную функцию через ref
+  const describeCriteriaRef = useRef(describeCriteria);
+  describeCriteriaRef.current = describeCriteria;
+  
   // Обработка заявок в друзья
   useEffect(() => {
     const offReq = onFriendRequest?.(({ from, fromNick }) => {
@@ -711,8 +769,10 @@ const RandomChat: React.FC<Props> = ({ route }) => {
       // Здесь только UI-обновление
     });
     
-    session.on('matchFound', ({ partnerId: matchPartnerId, roomId: matchRoomId, userId }) => {
+    session.on('matchFound', ({ partnerId: matchPartnerId, roomId: matchRoomId, userId, criteria }) => {
       // Обработка match_found
+      const criteriaText = describeCriteriaRef.current(criteria);
+      if (criteriaText) showToast(criteriaText, 2500);
       if (matchPartnerId) {
         setPartnerId(matchPartnerId);
       }
@@ -815,6 +875,7 @@ const RandomChat: React.FC<Props> = ({ route }) => {
       try {
         loadingRef.current = true;
         setLoading(true);
+        session.setMatchPreferences(await buildStartPayload(filtersEnabled ? matchPrefs : defaultMatchPrefs));
         await session.startRandomChat();
         startedRef.current = true;
         setStarted(true);
@@ -829,7 +890,7 @@ const RandomChat: React.FC<Props> = ({ route }) => {
         loadingRef.current = false;
       }
     }
-  }, [requestPermissions]);
+  }, [requestPermissions, matchPrefs, filtersEnabled]);
   
   // Дополнительная защита от спама кнопок: минимальный интервал между действиями
   const lastActionRef = useRef<number>(0);
@@ -921,6 +982,101 @@ const RandomChat: React.FC<Props> = ({ route }) => {
     }
   }, [isNexting, started, loading, isInactiveState, canRunAction]);
   
+  // Заблокировать собеседника: больше не попадётся в поиске, не позвонит и не напишет
+  const onBlockPartner = useCallback(() => {
+    const target = partnerUserId;
+    if (!target) return;
+    Alert.alert(
+      'Заблокировать собеседника?',
+      'Он больше не попадётся вам в поиске и не сможет звонить или писать.',
+      [
+        { text: 'Отмена', style: 'cancel' },
+        {
+          text: 'Заблокировать',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const res = await blockUser(target);
+              if (!res?.ok) throw new Error(res?.error || 'block failed');
+              showToast('Пользователь заблокирован');
+              onNext();
+            } catch (e) {
+              logger.warn('[RandomChat] Failed to block partner:', e);
+              showToast('Не удалось заблокировать');
+            }
+          },
+        },
+      ]
+    );
+  }, [partnerUserId, showToast, onNext]);
+  
+  // Пожаловаться на собеседника: кадр + комната уходят модерации
+  const openReport = useCallback(async () => {
+    const target = partnerUserId;
+    if (!target) return;
+    let snapshot: string | undefined;
+    try {
+      if (remoteCardRef.current) {
+        snapshot = await captureRef(remoteCardRef, { format: 'jpg', quality: 0.5, result: 'data-uri' });
+      }
+    } catch (e) {
+      // RTCView на части устройств не попадает в снимок — жалоба уходит без кадра
+      logger.warn('[RandomChat] Failed to capture partner snapshot:', e);
+    }
+    reportTargetRef.current = { userId: target, roomName: sessionRef.current?.getRoomId() || undefined, snapshot };
+    setReportReason('spam');
+    setReportComment('');
+    setReportModalVisible(true);
+  }, [partnerUserId]);
+  
+  const submitReport = useCallback(async () => {
+    const target = reportTargetRef.current;
+    if (!target || reportSending) return;
+    setReportSending(true);
+    try {
+      const res = await reportUser({
+        userId: target.userId,
+        reason: reportReason,
+        comment: reportComment.trim() || undefined,
+        snapshot: target.snapshot,
+        roomName: target.roomName,
+        context: 'random',
+      });
+      if (!res?.ok) throw new Error(res?.error || 'report failed');
+      setReportModalVisible(false);
+      reportTargetRef.current = null;
+      showToast('Жалоба отправлена');
+      // Если это всё ещё тот же собеседник — переходим к следующему
+      if (partnerUserId === target.userId) onNext();
+    } catch (e) {
+      logger.warn('[RandomChat] Failed to report partner:', e);
+      showToast('Не удалось отправить жалобу');
+    } finally {
+      setReportSending(false);
+    }
+  }, [reportReason, reportComment, reportSending, partnerUserId, showToast, onNext]);
+  
+  // Сервер не пустил в поиск (жалобы/модерация) — останавливаемся и объясняем
+  useEffect(() => {
+    const onSuspended = (d?: { until?: string }) => {
+      const until = d?.until ? new Date(d.until) : null;
+      const when = until && !isNaN(until.getTime())
+        ? until.toLocaleString([], { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })
+        : '';
+      if (startedRef.current) {
+        lastActionRef.current = 0;
+        onStartStop();
+      }
+      Alert.alert('Поиск недоступен', when
+        ? `Из-за жалоб других пользователей поиск ограничен до ${when}.`
+        : 'Из-за жалоб других пользователей поиск временно ограничен.');
+    };
+    socket.on('match:suspended', onSuspended);
+    return () => {
+      socket.off('match:suspended', onSuspended);
+    };
+  }, [onStartStop]);
+  
   // Функция для переключения динамика собеседника
   const toggleRemoteAudio = useCallback(() => {
     if (!canRunAction()) return;
@@ -1478,7 +1634,7 @@ const RandomChat: React.FC<Props> = ({ route }) => {
         edges={Platform.OS === 'android' ? ['top', 'bottom', 'left', 'right'] : undefined}
       >
         {/* Карточка "Собеседник" */}
-        <View style={styles.card}>
+        <View ref={remoteCardRef} collapsable={false} style={styles.card}>
           {(() => {
             // КРИТИЧНО: Если поиск остановлен (started=false), всегда показываем текст "Собеседник"
             if (!started) {
@@ -1792,6 +1948,34 @@ const RandomChat: React.FC<Props> = ({ route }) => {
             </Animated.View>
           )}
           
+          {/* Кнопка "Заблокировать" */}
+          {started && !isInactiveState && !!partnerId && !!remoteStream && !!partnerUserId && (
+            <Animated.View style={{ position: "absolute", bottom: 8, left: 8, opacity: buttonsOpacity }}>
+              <TouchableOpacity
+                onPress={onBlockPartner}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                activeOpacity={0.7}
+                style={styles.iconBtn}
+              >
+                <MaterialIcons name="block" size={24} color="#fff" />
+              </TouchableOpacity>
+            </Animated.View>
+          )}
+          
+          {/* Кнопка "Пожаловаться" */}
+          {started && !isInactiveState && !!partnerId && !!remoteStream && !!partnerUserId && (
+            <Animated.View style={{ position: "absolute", bottom: 8, right: 8, opacity: buttonsOpacity }}>
+              <TouchableOpacity
+                onPress={openReport}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                activeOpacity={0.7}
+                style={styles.iconBtn}
+              >
+                <MaterialIcons name="flag" size={24} color="#fff" />
+              </TouchableOpacity>
+            </Animated.View>
+          )}
+          
           {/* Бейдж "Друг" */}
           {!isInactiveState && showFriendBadge && !!remoteStream && (
             <View style={[styles.friendBadge, { position: "absolute", top: 8, right: 8 }]}>
@@ -1827,6 +2011,21 @@ const RandomChat: React.FC<Props> = ({ route }) => {
         
         {/* Карточка "Вы" */}
         <View style={styles.card}>
+          {/* Фильтры поиска (до старта) */}
+          {!started && filtersEnabled && (
+            <TouchableOpacity
+              onPress={openPrefsModal}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              activeOpacity={0.7}
+              style={[styles.topRight, styles.iconBtn, { zIndex: 2 }]}
+            >
+              <MaterialIcons
+                name="tune"
+                size={24}
+                color={matchPrefs.interests.length || matchPrefs.strict ? '#4FC3F7' : '#fff'}
+              />
+            </TouchableOpacity>
+          )}
           {(() => {
             // КРИТИЧНО: Если поиск не начат, всегда показываем "Вы"
             if (!started) {
@@ -2033,6 +2232,106 @@ const RandomChat: React.FC<Props> = ({ route }) => {
         </View>
       </Modal>
       
+      {/* Модалка фильтров поиска */}
+      <Modal
+        visible={prefsModalVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setPrefsModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <BlurView intensity={60} tint={isDark ? 'dark' : 'light'} style={StyleSheet.absoluteFill} />
+          <View style={[StyleSheet.absoluteFill, { backgroundColor: 'rgba(0,0,0,0.5)' }]} />
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>{L('match_filters_title')}</Text>
+            <Text style={styles.modalText}>{L('match_filters_text').replace('{lang}', lang)}</Text>
+            <TextInput
+              value={interestsDraft}
+              onChangeText={setInterestsDraft}
+              placeholder={L('match_interests_placeholder')}
+              placeholderTextColor="rgba(229,231,235,0.4)"
+              autoCapitalize="none"
+              style={styles.prefsInput}
+            />
+            <View style={styles.prefsRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.modalText}>{L('match_strict')}</Text>
+                <Text style={styles.prefsHint}>
+                  {strictDraft ? L('match_strict_on_hint') : L('match_strict_off_hint').replace('{sec}', String(relaxAfterSec))}
+                </Text>
+              </View>
+              <Switch value={strictDraft} onValueChange={setStrictDraft} />
+            </View>
+            <View style={{ flexDirection: "row", gap: 12, marginTop: 16 }}>
+              <TouchableOpacity
+                style={[styles.btnGlassBase, styles.btnGlassDanger]}
+                onPress={() => setPrefsModalVisible(false)}
+              >
+                <Text style={styles.modalBtnText}>{L('cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.btnGlassBase, styles.btnGlassTitan]}
+                onPress={savePrefs}
+              >
+                <Text style={styles.modalBtnText}>{L('save')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+      
+      {/* Модалка жалобы */}
+      <Modal
+        visible={reportModalVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setReportModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <BlurView intensity={60} tint={isDark ? 'dark' : 'light'} style={StyleSheet.absoluteFill} />
+          <View style={[StyleSheet.absoluteFill, { backgroundColor: 'rgba(0,0,0,0.5)' }]} />
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>Пожаловаться</Text>
+            <Text style={styles.modalText}>Что произошло?</Text>
+            <View style={styles.reportReasons}>
+              {REPORT_REASON_LABELS.map(({ key, label }) => (
+                <TouchableOpacity
+                  key={key}
+                  onPress={() => setReportReason(key)}
+                  style={[styles.reportChip, reportReason === key && styles.reportChipActive]}
+                >
+                  <Text style={styles.reportChipText}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              value={reportComment}
+              onChangeText={setReportComment}
+              placeholder="Комментарий (необязательно)"
+              placeholderTextColor="rgba(229,231,235,0.4)"
+              maxLength={500}
+              multiline
+              style={[styles.prefsInput, { height: 72, paddingTop: 10, textAlignVertical: 'top' }]}
+            />
+            <View style={{ flexDirection: "row", gap: 12, marginTop: 16 }}>
+              <TouchableOpacity
+                style={[styles.btnGlassBase, styles.btnGlassTitan]}
+                onPress={() => setReportModalVisible(false)}
+              >
+                <Text style={styles.modalBtnText}>{L('cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.btnGlassBase, styles.btnGlassDanger, { opacity: reportSending ? 0.6 : 1 }]}
+                onPress={submitReport}
+                disabled={reportSending}
+              >
+                <Text style={styles.modalBtnText}>Отправить</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+      
       {/* Toast уведомления */}
       {toastVisible && (
         <Animated.View style={[styles.toast, { opacity: toastOpacity }]}>
@@ -2194,6 +2493,48 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '700',
   },
+  prefsInput: {
+    marginTop: 10,
+    height: 44,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(138,143,153,0.65)',
+    paddingHorizontal: 12,
+    color: '#fff',
+    fontSize: 15,
+  },
+  prefsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 14,
+  },
+  prefsHint: {
+    color: 'rgba(229,231,235,0.6)',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  reportReasons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  reportChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(138,143,153,0.65)',
+  },
+  reportChipActive: {
+    backgroundColor: 'rgba(255,77,77,0.2)',
+    borderColor: 'rgba(255,77,77,0.8)',
+  },
+  reportChipText: {
+    color: '#fff',
+    fontSize: 13,
+  },
   friendBadge: {
     flexDirection: 'row',
     alignItems: 'center',
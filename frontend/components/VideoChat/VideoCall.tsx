@@ -15,25 +15,31 @@ import {
   Animated,
   BackHandler,
   Easing,
+  Modal,
+  ScrollView,
+  Alert,
 } from 'react-native';
 import { useNavigation, useFocusEffect, usePreventRemove } from '@react-navigation/native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { MediaStream } from '@livekit/react-native-webrtc';
 import { MaterialIcons } from '@expo/vector-icons';
-import { VideoCallSession } from '../../src/webrtc/sessions/VideoCallSession';
+import { VideoCallSession, type RemoteParticipantView } from '../../src/webrtc/sessions/VideoCallSession';
 import type { WebRTCSessionConfig } from '../../src/webrtc/types';
 import { BlurView } from 'expo-blur';
 import { MediaControls } from './shared/MediaControls';
 import { LocalVideo } from './shared/LocalVideo';
 import { RemoteVideo } from './shared/RemoteVideo';
+import { ParticipantGrid } from './shared/ParticipantGrid';
+import { QuickReplies } from './shared/QuickReplies';
 import VoiceEqualizer from '../VoiceEqualizer';
 import { t, loadLang, defaultLang } from '../../utils/i18n';
 import type { Lang } from '../../utils/i18n';
 import { useAppTheme } from '../../theme/ThemeProvider';
 import { isValidStream } from '../../utils/streamUtils';
 import { logger } from '../../utils/logger';
+import { useFeatureFlag } from '../../store/remoteConfig';
 import { usePiP } from '../../src/pip/PiPContext';
-import socket, { fetchFriends, getCurrentUserId } from '../../sockets/socket';
+import socket, { fetchFriends, getCurrentUserId, type CallDeclineReply } from '../../sockets/socket';
 import { activateKeepAwakeAsync, deactivateKeepAwakeAsync } from '../../utils/keepAwake';
 import { useAudioRouting } from './hooks/useAudioRouting';
 import { usePiP as usePiPHook } from './hooks/usePiP';
@@ -54,6 +60,7 @@ type Props = {
       fromPiP?: boolean;
       isIncoming?: boolean;
       partnerNick?: string;
+      groupPeerUserIds?: string[]; // групповой звонок: кого позвать сразу
     } 
   } 
 };
@@ -146,6 +153,11 @@ const VideoCall: React.FC<Props> = ({ route }) => {
   
   const [lang, setLang] = useState<Lang>(defaultLang);
   const [friends, setFriends] = useState<any[]>([]);
+  // Групповой звонок: плитки всех удалённых участников и выбор друга для приглашения
+  const [remoteParticipants, setRemoteParticipants] = useState<RemoteParticipantView[]>([]);
+  const [invitePickerOpen, setInvitePickerOpen] = useState(false);
+  const [invitedIds, setInvitedIds] = useState<string[]>([]);
+  const groupCallsEnabled = useFeatureFlag('groupCalls');
   const myUserId = route?.params?.myUserId;
   
   // Состояния
@@ -359,8 +371,8 @@ const VideoCall: React.FC<Props> = ({ route }) => {
     incomingCallHook.handleAccept();
   }, [incomingCallHook]);
 
-  const handleIncomingDecline = useCallback(() => {
-    incomingCallHook.handleDecline();
+  const handleIncomingDecline = useCallback((reply?: CallDeclineReply) => {
+    incomingCallHook.handleDecline(reply);
   }, [incomingCallHook]);
 
   const incomingCallIconStyle = useMemo(() => ({
@@ -875,6 +887,17 @@ const VideoCall: React.FC<Props> = ({ route }) => {
       }
       
       session.resumeFromPiP?.();
+    } else if (isDirectCall && isDirectInitiator && route?.params?.groupPeerUserIds?.length) {
+      // Групповой звонок: комнату создаёт сервер, подключаемся сразу, не дожидаясь ответа друзей
+      const groupIds = route.params.groupPeerUserIds;
+      setPartnerUserId(groupIds[0]);
+      setStarted(true);
+      setLoading(true);
+      session.startGroupCall(groupIds).catch((e) => {
+        logger.error('[VideoCall] Error starting group call:', e);
+        setStarted(false);
+        setLoading(false);
+      });
     } else if (isDirectCall && isDirectInitiator && route?.params?.peerUserId) {
       // Инициация звонка другу
       // КРИТИЧНО: Проверяем что сессия существует и не в процессе создания
@@ -1265,8 +1288,29 @@ const VideoCall: React.FC<Props> = ({ route }) => {
       }
     };
     
+    const handleRemoteParticipants = (list: RemoteParticipantView[]) => {
+      setRemoteParticipants(list);
+    };
+    const handleParticipantJoined = ({ userId }: { userId?: string }) => {
+      if (userId) setInvitedIds((prev) => prev.filter((id) => id !== userId));
+    };
+    const handleParticipantDeclined = ({ userId, message }: { userId?: string; message?: string }) => {
+      if (userId) setInvitedIds((prev) => prev.filter((id) => id !== userId));
+      // Приглашённый отклонил с быстрым ответом — показываем его (в чате он тоже останется)
+      if (message) Alert.alert('Приглашение отклонено', message);
+    };
+    const handleGroupCallFailed = () => {
+      setStarted(false);
+      setLoading(false);
+      Alert.alert('Групповой звонок', 'Никого из друзей не удалось позвать');
+    };
+    
     // Устанавливаем обработчики событий
     session.on('remoteViewKeyChanged', handleRemoteViewKeyChange);
+    session.on('remoteParticipants', handleRemoteParticipants);
+    session.on('participantJoined', handleParticipantJoined);
+    session.on('participantDeclined', handleParticipantDeclined);
+    session.on('groupCallFailed', handleGroupCallFailed);
     session.on('callEnded', handleCallEnded);
     session.on('callAnswered', handleCallAnswered);
     session.on('callDeclined', handleCallDeclined);
@@ -1282,6 +1326,10 @@ const VideoCall: React.FC<Props> = ({ route }) => {
       // КРИТИЧНО: Удаляем обработчики при изменении сессии или размонтировании
       if (session) {
         session.off('remoteViewKeyChanged', handleRemoteViewKeyChange);
+        session.off('remoteParticipants', handleRemoteParticipants);
+        session.off('participantJoined', handleParticipantJoined);
+        session.off('participantDeclined', handleParticipantDeclined);
+        session.off('groupCallFailed', handleGroupCallFailed);
         session.off('callEnded', handleCallEnded);
         session.off('callAnswered', handleCallAnswered);
         session.off('callDeclined', handleCallDeclined);
@@ -2023,6 +2071,40 @@ const VideoCall: React.FC<Props> = ({ route }) => {
   );
   
   
+  // Друзья, которых можно добавить в текущий звонок
+  const invitableFriends = useMemo(() => {
+    const inCall = new Set(remoteParticipants.map((p) => p.userId));
+    return friends.filter((f) => f.online && !f.isBusy && !inCall.has(String(f._id)));
+  }, [friends, remoteParticipants]);
+
+  const friendNicks = useMemo(() => {
+    const map: Record<string, string> = {};
+    friends.forEach((f) => { if (f?.nick) map[String(f._id)] = f.nick; });
+    return map;
+  }, [friends]);
+
+  const inviteFriend = useCallback(async (friendId: string) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    try {
+      const res = await session.inviteToCall(friendId);
+      if (res?.ok) {
+        setInvitedIds((prev) => (prev.includes(friendId) ? prev : [...prev, friendId]));
+      } else {
+        const reason = res?.error === 'room_full' ? 'В звонке уже максимум участников'
+          : res?.error === 'peer_busy' ? 'Друг сейчас занят'
+          : res?.error === 'peer_offline' ? 'Друг не в сети'
+          : res?.error === 'feature_disabled' ? 'Групповые звонки временно недоступны'
+          : 'Не удалось пригласить';
+        Alert.alert('Добавить в звонок', reason);
+      }
+    } catch (e) {
+      logger.warn('[VideoCall] Failed to invite friend to call:', e);
+    }
+  }, []);
+
+  const canInvite = groupCallsEnabled && started && !isInactiveState && !!roomId;
+  
   return (
     <SafeAreaView 
       style={[styles.container, { backgroundColor: isDark ? '#151F33' : (theme.colors.background as string) }]}
@@ -2036,6 +2118,9 @@ const VideoCall: React.FC<Props> = ({ route }) => {
             logger.info('[VideoCall] Remote card layout', { width, height });
           }}
         >
+          {remoteParticipants.length > 1 ? (
+            <ParticipantGrid participants={remoteParticipants} nicks={friendNicks} />
+          ) : (
           <RemoteVideo
             remoteStream={currentRemoteStream}
             remoteCamOn={remoteCamOn}
@@ -2051,6 +2136,7 @@ const VideoCall: React.FC<Props> = ({ route }) => {
             remoteStreamReceivedAt={remoteStreamReceivedAtRef.current}
             partnerInPiP={partnerInPiP}
           />
+          )}
           
           {showIncomingFriendOverlay && (
             <View style={styles.incomingOverlayContainer}>
@@ -2074,12 +2160,13 @@ const VideoCall: React.FC<Props> = ({ route }) => {
                     <Text style={styles.modalBtnText}>Принять</Text>
                   </TouchableOpacity>
                   <TouchableOpacity
-                    onPress={handleIncomingDecline}
+                    onPress={() => handleIncomingDecline()}
                     style={[styles.btnGlassBase, styles.btnGlassDanger]}
                   >
                     <Text style={styles.modalBtnText}>Отклонить</Text>
                   </TouchableOpacity>
                 </View>
+                <QuickReplies onReply={handleIncomingDecline} />
               </View>
             </View>
           )}
@@ -2115,8 +2202,66 @@ const VideoCall: React.FC<Props> = ({ route }) => {
               </TouchableOpacity>
             </Animated.View>
           )}
+          
+          {/* Добавить друга в звонок */}
+          {showControls && canInvite && (
+            <Animated.View style={[styles.topRightInvite, { opacity: buttonsOpacity }]}>
+              <TouchableOpacity
+                onPress={() => setInvitePickerOpen(true)}
+                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                activeOpacity={0.7}
+                style={styles.iconBtn}
+              >
+                <MaterialIcons name="person-add" size={26} color="#fff" />
+              </TouchableOpacity>
+            </Animated.View>
+          )}
         </View>
         
+        <Modal
+          visible={invitePickerOpen}
+          transparent
+          animationType="fade"
+          onRequestClose={() => setInvitePickerOpen(false)}
+        >
+          <View style={styles.inviteBackdrop}>
+            <View style={[styles.inviteSheet, { backgroundColor: isDark ? '#1E2A44' : '#fff' }]}>
+              <Text style={[styles.inviteTitle, { color: isDark ? '#fff' : '#111' }]}>Добавить в звонок</Text>
+              <ScrollView style={{ maxHeight: 320 }}>
+                {invitableFriends.length === 0 ? (
+                  <Text style={[styles.inviteEmpty, { color: isDark ? '#aaa' : '#666' }]}>Нет друзей в сети</Text>
+                ) : invitableFriends.map((f) => {
+                  const fid = String(f._id);
+                  const invited = invitedIds.includes(fid);
+                  return (
+                    <TouchableOpacity
+                      key={fid}
+                      disabled={invited}
+                      onPress={() => inviteFriend(fid)}
+                      style={styles.inviteRow}
+                    >
+                      <Text style={[styles.inviteNick, { color: isDark ? '#fff' : '#111' }]} numberOfLines={1}>
+                        {f.nick || fid.slice(-6)}
+                      </Text>
+                      <MaterialIcons
+                        name={invited ? 'schedule' : 'add-call'}
+                        size={22}
+                        color={invited ? '#999' : '#4FC3F7'}
+                      />
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+              <TouchableOpacity
+                onPress={() => setInvitePickerOpen(false)}
+                style={[styles.btnGlassBase, styles.btnGlassDanger, { marginTop: 12, alignSelf: 'center' }]}
+              >
+                <Text style={styles.modalBtnText}>Закрыть</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </Modal>
+        
         {/* Эквалайзер */}
         <View style={styles.eqWrapper}>
           <VoiceEqualizer
@@ -2258,6 +2403,41 @@ const styles = StyleSheet.create({
     top: 8,
     left: 8,
   },
+  topRightInvite: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+  },
+  inviteBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  inviteSheet: {
+    borderRadius: 14,
+    padding: 16,
+  },
+  inviteTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 10,
+  },
+  inviteEmpty: {
+    paddingVertical: 16,
+    textAlign: 'center',
+  },
+  inviteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+  },
+  inviteNick: {
+    flex: 1,
+    fontSize: 16,
+    marginRight: 8,
+  },
   iconBtn: {
     backgroundColor: 'rgba(0,0,0,0.5)',
     borderRadius: 22,
@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { onCallIncoming, onCallCanceled, acceptCall, declineCall } from '../../../sockets/socket';
+import { onCallIncoming, onCallCanceled, acceptCall, declineCall, type CallDeclineReply } from '../../../sockets/socket';
 import socket from '../../../sockets/socket';
 import { logger } from '../../../utils/logger';
 
@@ -102,9 +102,9 @@ export const useIncomingCall = ({
         return;
       }
 
-      // Отмена инициатором — закрыть оверлей и отметить пропущенный
+      // Отмена инициатором — закрыть оверлей и отметить пропущенный (если ответили на другом устройстве — не пропущенный)
       const from = d?.from ? String(d.from) : undefined;
-      if (from && from !== String(myUserId || '')) {
+      if (from && from !== String(myUserId || '') && d?.reason !== 'answered_elsewhere') {
         await incMissed(from);
       }
 
@@ -289,11 +289,11 @@ export const useIncomingCall = ({
     onAccept?.(finalCallId, fromUserId);
   }, [incomingCall, incomingFriendCall, currentCallIdRef, onAccept]);
 
-  // Функция отклонения звонка
-  const handleDecline = useCallback(() => {
+  // Функция отклонения звонка (reply — быстрый ответ звонящему)
+  const handleDecline = useCallback((reply?: CallDeclineReply) => {
     const callIdToDecline = incomingCall?.callId || currentCallIdRef.current;
     if (callIdToDecline) {
-      declineCall(callIdToDecline);
+      declineCall(callIdToDecline, reply);
     }
     setDeclinedBlock(incomingCall?.from || incomingFriendCall?.from || '', 12000);
     setIncomingFriendCall(null);
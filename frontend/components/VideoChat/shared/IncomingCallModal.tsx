@@ -13,6 +13,8 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { useAppTheme } from '../../../theme/ThemeProvider';
 import { t, type Lang } from '../../../utils/i18n';
 import { logger } from '../../../utils/logger';
+import type { CallDeclineReply } from '../../../sockets/socket';
+import { QuickReplies } from './QuickReplies';
 
 interface IncomingCallModalProps {
   visible: boolean;
@@ -22,6 +24,8 @@ interface IncomingCallModalProps {
   isDark: boolean;
   onAccept: () => void;
   onDecline: () => void;
+  /** Отклонить с быстрым ответом; без обработчика быстрые ответы не показываются */
+  onQuickReply?: (reply: CallDeclineReply) => void;
   onRequestClose: () => void;
 }
 
@@ -37,6 +41,7 @@ export const IncomingCallModal: React.FC<IncomingCallModalProps> = ({
   isDark,
   onAccept,
   onDecline,
+  onQuickReply,
   onRequestClose,
 }) => {
   const L = (key: string) => t(key, lang);
@@ -150,6 +155,7 @@ export const IncomingCallModal: React.FC<IncomingCallModalProps> = ({
                 <Text style={styles.modalBtnText}>Отклонить</Text>
               </TouchableOpacity>
             </View>
+            {onQuickReply && <QuickReplies onReply={onQuickReply} />}
           </View>
         </View>
       </View>
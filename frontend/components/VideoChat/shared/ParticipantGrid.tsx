@@ -0,0 +1,103 @@
+import React from 'react';
+import { View, Text, StyleSheet, Platform } from 'react-native';
+import { RTCView } from '@livekit/react-native-webrtc';
+import { MaterialIcons } from '@expo/vector-icons';
+import type { RemoteParticipantView } from '../../../src/webrtc/sessions/VideoCallSession';
+
+interface ParticipantGridProps {
+  participants: RemoteParticipantView[];
+  nicks?: Record<string, string>;
+}
+
+/**
+ * Плитки удалённых участников группового звонка.
+ * 2 участника — друг под другом, больше — сетка в два столбца.
+ */
+export const ParticipantGrid: React.FC<ParticipantGridProps> = ({ participants, nicks = {} }) => {
+  const columns = participants.length > 2 ? 2 : 1;
+  const rows = Math.ceil(participants.length / columns);
+
+  return (
+    <View style={styles.grid}>
+      {participants.map((p) => {
+        const videoTrack = (p.stream as any)?.getVideoTracks?.()?.[0];
+        const showVideo = p.camEnabled && !!videoTrack && videoTrack.readyState === 'live';
+        const streamURL = p.stream.toURL?.();
+        // КРИТИЧНО: На Android используем prop `stream`, на iOS - `streamURL` (как в RemoteVideo)
+        const rtcViewProps = Platform.OS === 'android'
+          ? { stream: p.stream, streamURL, renderToHardwareTextureAndroid: true }
+          : { streamURL: streamURL! };
+        const nick = nicks[p.userId];
+
+        return (
+          <View
+            key={p.userId}
+            style={[styles.tile, { width: `${100 / columns}%`, height: `${100 / rows}%` }]}
+          >
+            {showVideo && streamURL ? (
+              <RTCView
+                key={`tile-${p.userId}-${p.stream.id}`}
+                {...rtcViewProps}
+                style={styles.rtc}
+                objectFit="cover"
+                mirror={false}
+                zOrder={1}
+              />
+            ) : (
+              <View style={styles.placeholder}>
+                <MaterialIcons name="videocam-off" size={28} color="rgba(255,255,255,0.6)" />
+              </View>
+            )}
+            {!!nick && (
+              <View style={styles.nickBadge}>
+                <Text style={styles.nickText} numberOfLines={1}>{nick}</Text>
+              </View>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  grid: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    backgroundColor: 'black',
+  },
+  tile: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: 'rgba(255,255,255,0.15)',
+    overflow: 'hidden',
+  },
+  rtc: {
+    flex: 1,
+    backgroundColor: 'black',
+  },
+  placeholder: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#111',
+  },
+  nickBadge: {
+    position: 'absolute',
+    left: 6,
+    bottom: 6,
+    maxWidth: '80%',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+    backgroundColor: 'rgba(0,0,0,0.55)',
+  },
+  nickText: {
+    color: '#fff',
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,127 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import {
+  getCallSettings,
+  loadCallSettings,
+  type CallDeclineReply,
+  type CallQuickReply,
+  type CallSettings,
+} from '../../../sockets/socket';
+import { t, loadLang, defaultLang } from '../../../utils/i18n';
+import type { Lang } from '../../../utils/i18n';
+
+interface QuickRepliesProps {
+  onReply: (reply: CallDeclineReply) => void;
+}
+
+/**
+ * Быстрые ответы при отклонении звонка: готовые фразы с сервера и свой текст.
+ * Выбор сразу отклоняет звонок — ответ придёт звонящему сообщением в чат
+ */
+export const QuickReplies: React.FC<QuickRepliesProps> = ({ onReply }) => {
+  const [settings, setSettings] = useState<CallSettings>(getCallSettings());
+  const [customOpen, setCustomOpen] = useState(false);
+  const [custom, setCustom] = useState('');
+  const [lang, setLang] = useState<Lang>(defaultLang);
+  const L = useCallback((key: string) => t(key, lang), [lang]);
+
+  useEffect(() => {
+    let alive = true;
+    loadCallSettings().then((s) => { if (alive) setSettings(s); });
+    loadLang().then((l) => { if (alive) setLang(l); });
+    return () => { alive = false; };
+  }, []);
+
+  // Готовый ответ — на языке пользователя; ключа нет в словаре (новый ответ на сервере) — текст сервера
+  const replyText = (r: CallQuickReply) => {
+    const translated = r.key ? L(r.key) : '';
+    return translated && translated !== r.key ? translated : r.text;
+  };
+
+  const sendCustom = () => {
+    const text = custom.trim();
+    if (!text) return;
+    onReply({ message: text });
+    setCustom('');
+    setCustomOpen(false);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chips}>
+        {settings.quickReplies.map((r) => (
+          <TouchableOpacity key={r.id} onPress={() => onReply({ replyId: r.id, message: replyText(r) })} activeOpacity={0.7} style={styles.chip}>
+            <Text style={styles.chipText} numberOfLines={1}>{replyText(r)}</Text>
+          </TouchableOpacity>
+        ))}
+        {!customOpen && (
+          <TouchableOpacity onPress={() => setCustomOpen(true)} activeOpacity={0.7} style={styles.chip}>
+            <Text style={styles.chipText}>{L('call_reply_custom')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {customOpen && (
+        <View style={styles.customRow}>
+          <TextInput
+            value={custom}
+            onChangeText={setCustom}
+            placeholder={L('call_reply_placeholder')}
+            placeholderTextColor="rgba(255,255,255,0.45)"
+            maxLength={settings.quickReplyMaxLength}
+            autoFocus
+            returnKeyType="send"
+            onSubmitEditing={sendCustom}
+            style={styles.customInput}
+          />
+          <TouchableOpacity onPress={sendCustom} disabled={!custom.trim()} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <MaterialIcons name="send" size={22} color={custom.trim() ? '#4FC3F7' : 'rgba(255,255,255,0.3)'} />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    marginTop: 14,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.22)',
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    maxWidth: '100%',
+  },
+  chipText: {
+    color: '#e5e7eb',
+    fontSize: 13,
+  },
+  customRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 10,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.22)',
+    backgroundColor: 'rgba(255,255,255,0.08)',
+  },
+  customInput: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    paddingVertical: 10,
+  },
+});
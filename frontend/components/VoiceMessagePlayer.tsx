@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { Audio, type AVPlaybackStatus } from 'expo-av';
+import { Ionicons } from '@expo/vector-icons';
+import { logger } from '../utils/logger';
+
+type Props = {
+  uri: string;
+  duration?: number; // секунды (от сервера)
+  waveform?: number[]; // 0..100
+  color: string; // основной цвет (кнопка, проигранная часть волны)
+  mutedColor: string; // непроигранная часть волны, подписи
+};
+
+const FALLBACK_BARS = 32;
+
+const formatTime = (sec: number) => {
+  const s = Math.max(0, Math.round(sec));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Встроенный плеер голосового сообщения: play/pause, волна с прогрессом и время.
+ * Звук грузится только по первому нажатию.
+ */
+export default function VoiceMessagePlayer({ uri, duration = 0, waveform, color, mutedColor }: Props) {
+  const soundRef = useRef<Audio.Sound | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [positionSec, setPositionSec] = useState(0);
+  const [totalSec, setTotalSec] = useState(duration);
+
+  const bars = waveform?.length ? waveform : new Array(FALLBACK_BARS).fill(30);
+  const progress = totalSec > 0 ? Math.min(1, positionSec / totalSec) : 0;
+
+  useEffect(() => () => {
+    soundRef.current?.unloadAsync().catch(() => {});
+    soundRef.current = null;
+  }, [uri]);
+
+  const onStatus = (status: AVPlaybackStatus) => {
+    if (!status.isLoaded) return;
+    setPlaying(status.isPlaying);
+    setPositionSec((status.positionMillis || 0) / 1000);
+    if (status.durationMillis) setTotalSec(status.durationMillis / 1000);
+    if (status.didJustFinish) {
+      setPlaying(false);
+      setPositionSec(0);
+      soundRef.current?.setPositionAsync(0).catch(() => {});
+    }
+  };
+
+  const toggle = async () => {
+    try {
+      if (!soundRef.current) {
+        setLoading(true);
+        // Играем через динамик даже в беззвучном режиме iOS, как в мессенджерах
+        await Audio.setAudioModeAsync({ playsInSilentModeIOS: true, allowsRecordingIOS: false });
+        const { sound } = await Audio.Sound.createAsync({ uri }, { shouldPlay: true, progressUpdateIntervalMillis: 100 }, onStatus);
+        soundRef.current = sound;
+        return;
+      }
+      if (playing) await soundRef.current.pauseAsync();
+      else await soundRef.current.playAsync();
+    } catch (e) {
+      logger.warn('[VoiceMessagePlayer] playback failed', { uri, error: (e as any)?.message || String(e) });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <View style={styles.row}>
+      <TouchableOpacity onPress={toggle} style={[styles.button, { borderColor: color }]} activeOpacity={0.8}>
+        {loading ? (
+          <ActivityIndicator size="small" color={color} />
+        ) : (
+          <Ionicons name={playing ? 'pause' : 'play'} size={18} color={color} />
+        )}
+      </TouchableOpacity>
+      <View style={styles.body}>
+        <View style={styles.wave}>
+          {bars.map((v, i) => (
+            <View
+              key={i}
+              style={[
+                styles.bar,
+                {
+                  height: Math.max(3, (v / 100) * 24),
+                  backgroundColor: i / bars.length < progress ? color : mutedColor,
+                },
+              ]}
+            />
+          ))}
+        </View>
+        <Text style={[styles.time, { color: mutedColor }]}>
+          {formatTime(playing || positionSec > 0 ? positionSec : totalSec)}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minWidth: 200,
+    marginBottom: 4,
+  },
+  button: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1.5,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 10,
+  },
+  body: {
+    flex: 1,
+  },
+  wave: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 26,
+  },
+  bar: {
+    flex: 1,
+    marginHorizontal: 0.5,
+    borderRadius: 1.5,
+  },
+  time: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+});
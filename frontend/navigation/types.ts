@@ -21,4 +21,5 @@ export type RootStackParamList = {
       }
     | undefined;
   Chat: { peerId: string; peerName?: string; peerAvatar?: string };
+  Devices: { code?: string } | undefined;
 };
@@ -1,5 +1,5 @@
 // screens/ChatScreen.tsx
-import React, { useEffect, useState, useRef } from "react";
+import React, { useEffect, useState, useRef, useCallback } from "react";
 import {
   View,
   Text,
@@ -29,11 +29,15 @@ import { getFull, putFull, putThumb } from '../utils/avatarCache';
  
 import { API_BASE, getMyProfile } from '../sockets/socket';
 import { logger } from '../utils/logger';
+import { useFeatureFlag, useRemoteConfig } from '../store/remoteConfig';
 import { toAvatarThumb } from '../utils/uploadAvatar';
 import { onFriendProfile, onPresenceUpdate } from '../sockets/socket';
-import { uploadMediaToServer } from '../utils/mediaUpload';
+import { uploadMediaToServer, uploadVoiceMessage } from '../utils/mediaUpload';
+import { startVoiceRecording, stopVoiceRecording } from '../utils/voiceRecorder';
+import VoiceMessagePlayer from '../components/VoiceMessagePlayer';
 import MediaViewer from '../components/MediaViewer';
 import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
 import * as FileSystem from 'expo-file-system';
 import { CometChat } from "@cometchat/chat-sdk-react-native";
 import { 
@@ -53,7 +57,20 @@ import {
   globalMessageStorage,
   fetchMessages,
   getAvatar,
+  blockUser,
+  reportUser,
+  sendTyping,
+  sendRecording,
+  onChatActivity,
+  editMessage,
+  reactToMessage,
+  onMessageEdited,
+  onMessageReaction,
+  onMessageDeliveryReceipt,
+  fetchMessageStatuses,
+  onConnected,
 } from "../sockets/socket";
+import type { ReportReason } from "../sockets/socket";
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 type RouteParams = {
@@ -66,6 +83,38 @@ type RouteParams = {
 };
 type Props = { route: { params?: RouteParams }; navigation: any };
 
+// Быстрые реакции в меню сообщения
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🔥'];
+// Должно совпадать с MESSAGE_EDIT_WINDOW_MINUTES на сервере (сервер всё равно проверяет сам)
+const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+const canEditMessage = (m: any) =>
+  !!m && m.sender === 'me' && m.type === 'text' &&
+  Date.now() - new Date(m.timestamp).getTime() < MESSAGE_EDIT_WINDOW_MS;
+
+/** Подпись цитаты: текст или тип вложения */
+const replyPreviewText = (p: { type?: string; text?: string }) => {
+  if (p.text) return p.text;
+  if (p.type === 'image') return 'Фото';
+  if (p.type === 'video') return 'Видео';
+  if (p.type === 'document') return 'Документ';
+  if (p.type === 'audio') return 'Голосовое сообщение';
+  return 'Вложение';
+};
+
+const formatFileSize = (bytes?: number) => {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} Б`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} КБ`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} МБ`;
+};
+
+const formatDuration = (sec?: number) => {
+  if (!sec) return '';
+  const s = Math.round(sec);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
 export default function ChatScreen({ route, navigation }: Props) {
   const insets = useSafeAreaInsets();
   const { theme, isDark } = useAppTheme();
@@ -116,6 +165,11 @@ export default function ChatScreen({ route, navigation }: Props) {
   const peerAvatarThumbB64Param = route?.params?.peerAvatarThumbB64 || '';
   const [peerAvatarVerState, setPeerAvatarVerState] = useState<number>(peerAvatarVer);
   const [peerOnline, setPeerOnline] = useState<boolean>(!!route?.params?.peerOnline);
+  // Что собеседник делает прямо сейчас (индикатор в шапке)
+  const [peerActivity, setPeerActivity] = useState<'typing' | 'recording' | null>(null);
+  const peerActivityTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const typingStopTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isTypingRef = useRef(false);
   const [fullAvatarUri, setFullAvatarUri] = useState<string>(peerAvatarThumbB64Param); // Используем миниатюру как начальное значение
 
   const [conversation, setConversation] =
@@ -123,14 +177,25 @@ export default function ChatScreen({ route, navigation }: Props) {
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
   const [messages, setMessages] = useState<any[]>([]);
+  // Пагинация истории: курсор более старых сообщений и флаг догрузки (чтобы не скроллить вниз при prepend)
+  const olderCursorRef = useRef<string | null>(null);
+  const loadingOlderRef = useRef(false);
+  const prependingRef = useRef(false);
   const [keyboardVisible, setKeyboardVisible] = useState(false);
   const [keyboardHeight, setKeyboardHeight] = useState(0);
   const [inputHeight, setInputHeight] = useState(0);
   const [messageText, setMessageText] = useState("");
   const [readStatuses, setReadStatuses] = useState<Record<string, 'sending' | 'delivered' | 'read' | 'failed' | 'sent'>>({});
   const [uploadStatus, setUploadStatus] = useState<Record<string, 'sending' | 'sent' | 'failed'>>({});
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
   const [showClearMenu, setShowClearMenu] = useState(false);
   const [selectedMessage, setSelectedMessage] = useState<any>(null);
+  // Ответ с цитатой и редактирование своего сообщения (панель над полем ввода)
+  const [replyingTo, setReplyingTo] = useState<any>(null);
+  const [editingMessage, setEditingMessage] = useState<any>(null);
+  // Удержание кнопки микрофона — запись голосового
+  const [isRecordingVoice, setIsRecordingVoice] = useState(false);
+  const voiceMessagesEnabled = useFeatureFlag('voiceMessages');
   const [showDeleteIndicator, setShowDeleteIndicator] = useState(false);
   const deleteModalOpacity = useRef(new Animated.Value(0)).current;
   const deleteModalScale = useRef(new Animated.Value(0.8)).current;
@@ -141,7 +206,7 @@ export default function ChatScreen({ route, navigation }: Props) {
   // Состояние для полноэкранного просмотра медиа
   const [mediaViewerVisible, setMediaViewerVisible] = useState(false);
   const [selectedMedia, setSelectedMedia] = useState<{
-    type: 'image';
+    type: 'image' | 'video' | 'document';
     uri: string;
     name?: string;
   } | null>(null);
@@ -329,7 +394,7 @@ export default function ChatScreen({ route, navigation }: Props) {
   }, [peerId, peerAvatarVerState]);
 
   // Функция для открытия медиа в полноэкранном режиме
-  const openMediaViewer = (type: 'image', uri: string, name?: string) => {
+  const openMediaViewer = (type: 'image' | 'video' | 'document', uri: string, name?: string) => {
     setSelectedMedia({ type, uri, name });
     setMediaViewerVisible(true);
   };
@@ -463,10 +528,14 @@ export default function ChatScreen({ route, navigation }: Props) {
           uri: message.uri,
           name: (message as any).name,
           size: (message as any).size,
+          duration: message.duration,
+          waveform: message.waveform,
+          thumbnailUri: message.thumbnailUri,
           sender: isFromMe ? "me" : "peer",
           from: message.from,
           to: message.to,
           timestamp: new Date(message.timestamp),
+          replyPreview: message.replyPreview,
         };
         
         // КРИТИЧНО: Логируем входящие сообщения с изображениями для отладки
@@ -516,9 +585,17 @@ export default function ChatScreen({ route, navigation }: Props) {
       }));
     });
 
-    // Отслеживаем подтверждение доставки, если прилетает отдельным событием
-    // Если статус доставки приходит отдельным механизмом, можно повесить сюда нужный слушатель в будущем
-    const unsubscribeDelivered = () => {};
+    // Подтверждение доставки от устройства собеседника (не понижаем уже "прочитано")
+    const unsubscribeDelivered = onMessageDeliveryReceipt((receipt) => {
+      if (receipt.deliveredTo !== peerId) return;
+      updateReadStatuses(prev => {
+        const next = { ...prev };
+        for (const id of receipt.messageIds) {
+          if (next[id] !== 'read') next[id] = 'delivered';
+        }
+        return next;
+      });
+    });
 
     // Слушатель очистки чата
     const unsubscribeChatCleared = onChatCleared((data) => {
@@ -545,16 +622,65 @@ export default function ChatScreen({ route, navigation }: Props) {
       setMessages(prev => prev.filter(msg => msg.id !== data.messageId));
     });
 
+    // Правки и реакции приходят обоим участникам (в т.ч. на мои другие устройства)
+    const unsubscribeMessageEdited = onMessageEdited((data) => {
+      setMessages(prev => {
+        if (!prev.some(msg => msg.id === data.messageId)) return prev;
+        const updated = prev.map(msg => msg.id === data.messageId ? { ...msg, text: data.text, editedAt: data.editedAt } : msg);
+        saveMessages(updated);
+        return updated;
+      });
+    });
+
+    const unsubscribeMessageReaction = onMessageReaction((data) => {
+      setMessages(prev => prev.map(msg => msg.id === data.messageId ? { ...msg, reactions: data.reactions } : msg));
+    });
+
 
     return () => {
       unsubscribeReceived();
       unsubscribeReadReceipt();
       unsubscribeChatCleared();
       unsubscribeMessageDeleted();
+      unsubscribeMessageEdited();
+      unsubscribeMessageReaction();
       unsubscribeDelivered();
     };
   }, [currentUserId, peerId]);
 
+  // После переподключения подтягиваем статусы своих сообщений, receipts которых могли пропустить
+  const readStatusesRef = useRef(readStatuses);
+  readStatusesRef.current = readStatuses;
+  useEffect(() => {
+    if (!currentUserId || !peerId) return;
+    let first = true;
+    const off = onConnected(async () => {
+      // Первое подключение покрывает загрузка истории
+      if (first) {
+        first = false;
+        return;
+      }
+      const pendingIds = Object.entries(readStatusesRef.current)
+        .filter(([id, status]) => (status === 'sent' || status === 'delivered') && id.startsWith('msg_'))
+        .map(([id]) => id);
+      if (!pendingIds.length) return;
+      try {
+        const res = await fetchMessageStatuses(peerId, pendingIds);
+        if (!res?.ok || !res.statuses?.length) return;
+        updateReadStatuses(prev => {
+          const next = { ...prev };
+          for (const st of res.statuses!) {
+            if (next[st.messageId] !== 'read') next[st.messageId] = st.status;
+          }
+          return next;
+        });
+      } catch (e) {
+        logger.warn('[ChatScreen] status sync failed', e);
+      }
+    });
+    return off;
+  }, [currentUserId, peerId]);
+
   // Отправляем read receipt для всех сообщений peer при открытии чата
   useEffect(() => {
     if (messages.length && peerId && currentUserId) {
@@ -578,6 +704,50 @@ export default function ChatScreen({ route, navigation }: Props) {
     return unsubscribePresence;
   }, [peerId]);
 
+  // "Печатает…" / "Записывает…" от собеседника; гаснет сам по expiresInMs
+  useEffect(() => {
+    if (!peerId) return;
+    const off = onChatActivity(({ from, activity, active, expiresInMs }) => {
+      if (from !== peerId) return;
+      if (peerActivityTimerRef.current) clearTimeout(peerActivityTimerRef.current);
+      peerActivityTimerRef.current = null;
+      if (!active) {
+        setPeerActivity((cur) => (cur === activity ? null : cur));
+        return;
+      }
+      setPeerActivity(activity);
+      peerActivityTimerRef.current = setTimeout(() => setPeerActivity(null), expiresInMs || 6000);
+    });
+    return () => {
+      off();
+      if (peerActivityTimerRef.current) clearTimeout(peerActivityTimerRef.current);
+      setPeerActivity(null);
+    };
+  }, [peerId]);
+
+  // Свой набор текста: старт шлём при вводе (сервер троттлит), stop — после паузы или при уходе с экрана
+  const stopTyping = useCallback(() => {
+    if (typingStopTimerRef.current) clearTimeout(typingStopTimerRef.current);
+    typingStopTimerRef.current = null;
+    if (isTypingRef.current && peerId) sendTyping(peerId, false);
+    isTypingRef.current = false;
+  }, [peerId]);
+
+  const handleMessageTextChange = useCallback((value: string) => {
+    setMessageText(value);
+    if (!peerId) return;
+    if (!value.trim()) {
+      stopTyping();
+      return;
+    }
+    isTypingRef.current = true;
+    sendTyping(peerId, true);
+    if (typingStopTimerRef.current) clearTimeout(typingStopTimerRef.current);
+    typingStopTimerRef.current = setTimeout(stopTyping, 4000);
+  }, [peerId, stopTyping]);
+
+  useEffect(() => stopTyping, [stopTyping]);
+
   // Загрузка истории при открытии чата
   useEffect(() => {
     if (!currentUserId || !peerId) return;
@@ -615,15 +785,23 @@ export default function ChatScreen({ route, navigation }: Props) {
               uri: msg.uri,
               name: (msg as any).name,
               size: (msg as any).size,
+              duration: msg.duration,
+              waveform: msg.waveform,
+              thumbnailUri: msg.thumbnailUri,
               sender: msg.from === currentUserId ? 'me' : 'peer',
               from: msg.from,
               to: msg.to,
               timestamp: new Date(msg.timestamp),
               read: !!msg.read,
+              deliveredAt: msg.deliveredAt,
+              replyPreview: msg.replyPreview,
+              editedAt: msg.editedAt,
+              reactions: msg.reactions || [],
             };
           });
           
               setMessages(formattedMessages);
+              olderCursorRef.current = serverMessages.hasMore ? (serverMessages.nextCursor ?? null) : null;
           
           // Отмечаем сообщения как прочитанные
           await markMessagesAsRead(peerId);
@@ -633,7 +811,7 @@ export default function ChatScreen({ route, navigation }: Props) {
                 const serverStatuses: Record<string, 'sending' | 'delivered' | 'read' | 'failed' | 'sent'> = {};
                 for (const m of formattedMessages) {
                   if (m.sender === 'me') {
-                    serverStatuses[m.id] = m.read ? 'read' : 'sent';
+                    serverStatuses[m.id] = m.read ? 'read' : m.deliveredAt ? 'delivered' : 'sent';
                   }
                 }
                 // Загружаем сохраненные статусы и объединяем, отдавая приоритет данным с сервера
@@ -667,9 +845,60 @@ export default function ChatScreen({ route, navigation }: Props) {
       }
     };
 
+    olderCursorRef.current = null;
     loadHistory();
   }, [peerId, currentUserId]);
 
+  // Догрузка более старых сообщений при прокрутке к началу переписки
+  const loadOlderMessages = useCallback(async () => {
+    const cursor = olderCursorRef.current;
+    if (!cursor || loadingOlderRef.current || !peerId || !currentUserId) return;
+    loadingOlderRef.current = true;
+    try {
+      const page = await fetchMessages({ with: peerId, limit: 50, cursor });
+      if (!page?.ok || !page.messages) return;
+      const older = page.messages.map((msg) => ({
+        id: msg.id,
+        text: msg.text,
+        type: msg.type,
+        uri: msg.uri,
+        name: (msg as any).name,
+        size: (msg as any).size,
+        duration: msg.duration,
+        waveform: msg.waveform,
+        thumbnailUri: msg.thumbnailUri,
+        sender: msg.from === currentUserId ? 'me' : 'peer',
+        from: msg.from,
+        to: msg.to,
+        timestamp: new Date(msg.timestamp),
+        read: !!msg.read,
+        deliveredAt: msg.deliveredAt,
+        replyPreview: msg.replyPreview,
+        editedAt: msg.editedAt,
+        reactions: msg.reactions || [],
+      }));
+      olderCursorRef.current = page.hasMore ? (page.nextCursor ?? null) : null;
+      if (older.length) {
+        setReadStatuses((prev) => {
+          const next = { ...prev };
+          for (const m of older) {
+            if (m.sender === 'me') next[m.id] = m.read ? 'read' : m.deliveredAt ? 'delivered' : 'sent';
+          }
+          return next;
+        });
+        prependingRef.current = true;
+        setMessages((prev) => {
+          const known = new Set(prev.map((m) => m.id));
+          return [...older.filter((m) => !known.has(m.id)), ...prev];
+        });
+      }
+    } catch (e) {
+      logger.warn('[ChatScreen] Failed to load older messages', e);
+    } finally {
+      loadingOlderRef.current = false;
+    }
+  }, [peerId, currentUserId]);
+
 
 
   const headerH = 56;
@@ -748,11 +977,15 @@ export default function ChatScreen({ route, navigation }: Props) {
           style={{
             marginTop: 2,
             fontSize: 12,
-            color: peerOnline ? LIVI.green : LIVI.red,
+            color: peerActivity || peerOnline ? LIVI.green : LIVI.red,
             fontWeight: "600",
           }}
         >
-          {peerOnline ? "Online" : "Offline"}
+          {peerActivity === 'typing'
+            ? "печатает…"
+            : peerActivity === 'recording'
+              ? "записывает голосовое…"
+              : peerOnline ? "Online" : "Offline"}
         </Text>
       </View>
 
@@ -936,6 +1169,58 @@ export default function ChatScreen({ route, navigation }: Props) {
     );
   };
 
+  const blockPeer = async () => {
+    if (!peerId) return;
+
+    Alert.alert(
+      "Заблокировать пользователя",
+      "Пользователь будет удалён из друзей и больше не сможет писать, звонить или попасться вам в поиске.",
+      [
+        { text: "Отмена", style: "cancel" },
+        {
+          text: "Заблокировать",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              const res = await blockUser(peerId);
+              if (!res?.ok) throw new Error(res?.error || 'block failed');
+              navigation.goBack();
+            } catch (e) {
+              logger.warn('[ChatScreen] Failed to block user', e);
+              Alert.alert("Ошибка", "Не удалось заблокировать пользователя");
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const reportPeer = () => {
+    if (!peerId) return;
+
+    const send = async (reason: ReportReason) => {
+      try {
+        const res = await reportUser({ userId: peerId, reason, context: 'chat' });
+        if (!res?.ok) throw new Error(res?.error || 'report failed');
+        Alert.alert("Жалоба отправлена", "Модераторы проверят переписку.");
+      } catch (e) {
+        logger.warn('[ChatScreen] Failed to report user', e);
+        Alert.alert("Ошибка", "Не удалось отправить жалобу");
+      }
+    };
+
+    // Не больше трёх кнопок — ограничение Alert на Android
+    Alert.alert(
+      "Пожаловаться",
+      "Что произошло?",
+      [
+        { text: "Отмена", style: "cancel" },
+        { text: "Спам", onPress: () => send('spam') },
+        { text: "Оскорбления", style: "destructive", onPress: () => send('harassment') },
+      ]
+    );
+  };
+
   const clearChatForAll = async () => {
     if (!currentUserId || !peerId) return;
     
@@ -1072,12 +1357,88 @@ export default function ChatScreen({ route, navigation }: Props) {
     });
   };
 
+  const startReply = (m: any) => {
+    setEditingMessage(null);
+    setReplyingTo(m);
+  };
+
+  const startEdit = (m: any) => {
+    setReplyingTo(null);
+    setEditingMessage(m);
+    setMessageText(m.text || '');
+  };
+
+  const cancelComposerMode = () => {
+    if (editingMessage) setMessageText('');
+    setEditingMessage(null);
+    setReplyingTo(null);
+  };
+
+  // Панель "Ответ на…" / "Редактирование" над полем ввода
+  const renderComposerBanner = () => {
+    const target = editingMessage || replyingTo;
+    if (!target) return null;
+    return (
+      <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 10 }}>
+        <Ionicons name={editingMessage ? 'create-outline' : 'arrow-undo-outline'} size={20} color={LIVI.titan} />
+        <View style={{ flex: 1, borderLeftWidth: 3, borderLeftColor: LIVI.titan, paddingLeft: 8, marginLeft: 8 }}>
+          <Text style={{ color: LIVI.titan, fontSize: 12, fontWeight: '600' }} numberOfLines={1}>
+            {editingMessage ? 'Редактирование' : `Ответ ${target.sender === 'me' ? 'себе' : peerNameParam}`}
+          </Text>
+          <Text style={{ color: LIVI.text, fontSize: 13 }} numberOfLines={1}>
+            {replyPreviewText({ type: target.type, text: target.type === 'text' ? target.text : target.name })}
+          </Text>
+        </View>
+        <TouchableOpacity onPress={cancelComposerMode} style={{ padding: 4, marginLeft: 8 }}>
+          <Ionicons name="close" size={20} color={LIVI.titan} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const toggleReaction = async (m: any, emoji: string) => {
+    const result = await reactToMessage(m.id, emoji);
+    if (result?.ok && result.reactions) {
+      setMessages(prev => prev.map(msg => msg.id === m.id ? { ...msg, reactions: result.reactions } : msg));
+    } else if (!result?.ok) {
+      logger.warn('[ChatScreen] reaction failed', { messageId: m.id, error: result?.error });
+    }
+  };
+
+  const submitEdit = async (target: any, text: string) => {
+    setEditingMessage(null);
+    setMessageText('');
+    if (text === target.text) return;
+    const result = await editMessage(target.id, text);
+    if (result?.ok) {
+      setMessages(prev => {
+        const updated = prev.map(msg => msg.id === target.id ? { ...msg, text, editedAt: result.editedAt } : msg);
+        saveMessages(updated);
+        return updated;
+      });
+    } else {
+      Alert.alert("Ошибка", result?.error === 'edit_window_expired'
+        ? "Время для редактирования истекло"
+        : "Не удалось изменить сообщение");
+    }
+  };
+
   const sendMessage = async () => {
     if (!messageText.trim() || !currentUserId) return;
     
     
     const messageToSend = messageText.trim();
+    if (editingMessage) {
+      stopTyping();
+      return submitEdit(editingMessage, messageToSend);
+    }
+    const replyTarget = replyingTo;
+    setReplyingTo(null);
     setMessageText(""); // Очищаем поле сразу
+    // Сервер сам гасит "печатает…" при отправке — здесь только сбрасываем локальное состояние
+    if (typingStopTimerRef.current) clearTimeout(typingStopTimerRef.current);
+    typingStopTimerRef.current = null;
+    isTypingRef.current = false;
     
     // Добавляем сообщение локально
     const messageId = Date.now().toString();
@@ -1089,6 +1450,10 @@ export default function ChatScreen({ route, navigation }: Props) {
       to: peerId,
       timestamp: new Date(),
       type: 'text',
+      // Локальная цитата до ответа сервера
+      replyPreview: replyTarget
+        ? { id: replyTarget.id, from: replyTarget.from, type: replyTarget.type, text: replyTarget.type === 'text' ? replyTarget.text : replyTarget.name }
+        : undefined,
     };
     
     const updatedMessages = [...messages, newMessage];
@@ -1106,15 +1471,16 @@ export default function ChatScreen({ route, navigation }: Props) {
       const result = await sendSocketMessage({
         to: peerId,
         text: messageToSend,
-        type: 'text'
+        type: 'text',
+        replyTo: replyTarget?.id,
       });
       
       if (result.ok) {
         // Очищаем кэш для обновления сообщений с правильными полями
         clearMessageCache(peerId, currentUserId);
 
-        // Определяем статус доставки
-        const deliveryStatus = result.delivered ? 'delivered' : 'sent';
+        // Сервер принял; "доставлено" придёт отдельным message:delivery_receipt
+        const deliveryStatus = 'sent';
 
         // Сразу ставим статус доставки
         updateReadStatuses(prev => ({
@@ -1129,7 +1495,7 @@ export default function ChatScreen({ route, navigation }: Props) {
             setMessages(prev => {
               const updated = prev.map(msg => 
                 msg.id === messageId 
-                  ? { ...msg, id: result.messageId!, from: currentUserId, to: peerId }
+                  ? { ...msg, id: result.messageId!, from: currentUserId, to: peerId, replyPreview: result.replyPreview }
                   : msg
               );
               saveMessages(updated);
@@ -1161,8 +1527,9 @@ export default function ChatScreen({ route, navigation }: Props) {
         throw new Error(result.error || 'Failed to send message');
       }
       
-    } catch (e) {
+    } catch (e: any) {
       console.error('❌ Failed to send via socket:', e);
+      if (e?.message === 'rate_limited') Alert.alert('Слишком часто', 'Подождите немного и отправьте снова');
       // Помечаем сообщение как неотправленное
       updateReadStatuses(prev => ({
         ...prev,
@@ -1172,6 +1539,135 @@ export default function ChatScreen({ route, navigation }: Props) {
     }
   };
 
+  /** Голосовое: загрузка (сервер перекодирует и посчитает волну) → message:send с type 'audio' */
+  const sendVoiceMessage = async (localUri: string, durationMs: number) => {
+    if (!currentUserId) return;
+    const messageId = Date.now().toString();
+    const replyTarget = replyingTo;
+    setReplyingTo(null);
+
+    setMessages(prev => [...prev, {
+      id: messageId,
+      type: 'audio',
+      uri: localUri,
+      duration: durationMs / 1000,
+      sender: 'me',
+      from: currentUserId,
+      to: peerId,
+      timestamp: new Date(),
+    }]);
+    updateReadStatuses(prev => ({ ...prev, [messageId]: 'sending' }));
+    setUploadStatus(prev => ({ ...prev, [messageId]: 'sending' }));
+
+    const markFailed = () => {
+      updateReadStatuses(prev => ({ ...prev, [messageId]: 'failed' }));
+      setUploadStatus(prev => ({ ...prev, [messageId]: 'failed' }));
+    };
+
+    try {
+      const uploadResult = await uploadVoiceMessage(
+        localUri,
+        (progress) => setUploadProgress(prev => ({ ...prev, [messageId]: progress }))
+      );
+      setUploadProgress(prev => {
+        const next = { ...prev };
+        delete next[messageId];
+        return next;
+      });
+      if (!uploadResult.success || !uploadResult.url) {
+        console.error('❌ Voice upload failed:', uploadResult.error);
+        if (uploadResult.error === 'feature_disabled') {
+          // Голосовые выключили на сервере — подтягиваем конфиг, кнопка микрофона пропадёт
+          Alert.alert('Недоступно', 'Голосовые сообщения временно отключены');
+          useRemoteConfig.getState().refresh();
+        }
+        return markFailed();
+      }
+
+      const socketResult = await sendSocketMessage({
+        to: peerId,
+        type: 'audio',
+        uri: uploadResult.url,
+        duration: uploadResult.duration,
+        waveform: uploadResult.waveform,
+        replyTo: replyTarget?.id,
+      });
+      if (!socketResult.ok || !socketResult.messageId) {
+        console.warn('❌ Socket send failed:', socketResult);
+        return markFailed();
+      }
+
+      setMessages(prev => {
+        const updated = prev.map(msg =>
+          msg.id === messageId
+            ? {
+                ...msg,
+                id: socketResult.messageId!,
+                uri: resolveMediaUri(uploadResult.url),
+                duration: uploadResult.duration,
+                waveform: uploadResult.waveform,
+                replyPreview: socketResult.replyPreview,
+              }
+            : msg
+        );
+        saveMessages(updated);
+        return updated;
+      });
+      setUploadStatus(prev => {
+        const next = { ...prev };
+        next[socketResult.messageId!] = 'sent';
+        delete next[messageId];
+        return next;
+      });
+      updateReadStatuses(prev => {
+        const next = { ...prev };
+        next[socketResult.messageId!] = 'sent';
+        delete next[messageId];
+        return next;
+      });
+    } catch (e) {
+      console.error('Failed to upload and send voice message:', e);
+      markFailed();
+    }
+  };
+
+  const handleVoicePressIn = async () => {
+    const started = await startVoiceRecording();
+    if (!started) {
+      Alert.alert('Ошибка', 'Нет доступа к микрофону');
+      return;
+    }
+    setIsRecordingVoice(true);
+    if (peerId) sendRecording(peerId, true);
+  };
+
+  const handleVoicePressOut = async () => {
+    if (!isRecordingVoice) return;
+    setIsRecordingVoice(false);
+    if (peerId) sendRecording(peerId, false);
+    const recorded = await stopVoiceRecording();
+    // Слишком короткое нажатие — просто не отправляем
+    if (recorded) sendVoiceMessage(recorded.uri, recorded.durationMs);
+  };
+
+  const renderVoiceButton = () => !voiceMessagesEnabled ? null : (
+    <TouchableOpacity
+      onPressIn={handleVoicePressIn}
+      onPressOut={handleVoicePressOut}
+      delayPressOut={0}
+      style={{
+        backgroundColor: isRecordingVoice ? LIVI.red : "rgba(255,255,255,0.2)",
+        borderRadius: 14,
+        padding: 6,
+        marginLeft: 6,
+        borderWidth: 1,
+        borderColor: BORDER_COLOR,
+      }}
+    >
+      <Ionicons name="mic" size={20} color={isRecordingVoice ? LIVI.white : LIVI.titan} />
+    </TouchableOpacity>
+  );
+
   const handleAttachments = () => {
     if (Platform.OS === 'ios') {
       ActionSheetIOS.showActionSheetWithOptions(
@@ -1179,9 +1675,10 @@ export default function ChatScreen({ route, navigation }: Props) {
           options: [
             'Сделать фото',
             'Выбрать из галереи',
+            'Документ',
             'Отмена'
           ],
-          cancelButtonIndex: 2,
+          cancelButtonIndex: 3,
           userInterfaceStyle: 'dark'
         },
         (buttonIndex) => {
@@ -1192,6 +1689,9 @@ export default function ChatScreen({ route, navigation }: Props) {
             case 1:
               handleImagePicker();
               break;
+            case 2:
+              handleDocumentPicker();
+              break;
           }
         }
       );
@@ -1202,12 +1702,135 @@ export default function ChatScreen({ route, navigation }: Props) {
         [
           { text: 'Сделать фото', onPress: handleCamera },
           { text: 'Выбрать из галереи', onPress: handleImagePicker },
+          { text: 'Документ', onPress: handleDocumentPicker },
           { text: 'Отмена', style: 'cancel' }
         ]
       );
     }
   };
 
+  /**
+   * Вложение (фото, видео, документ): локальный пузырь → загрузка → message:send.
+   * Для видео сервер возвращает превью-кадр, для документов — имя и размер.
+   */
+  const sendMediaAttachment = async (asset: {
+    uri: string;
+    type: 'image' | 'video' | 'document';
+    name?: string | null;
+    size?: number | null;
+  }) => {
+    const messageId = Date.now().toString();
+    const messageType = asset.type;
+    const name = asset.name || asset.uri.split('/').pop() || `file_${Date.now()}`;
+
+    const newMessage = {
+      id: messageId,
+      type: messageType,
+      uri: asset.uri,
+      name,
+      size: asset.size || 0,
+      sender: 'me',
+      from: currentUserId,
+      to: peerId,
+      timestamp: new Date(),
+    };
+    setMessages(prev => {
+      // Проверяем, есть ли уже сообщение с таким ID
+      if (prev.some(msg => msg.id === messageId)) return prev;
+      return [...prev, newMessage];
+    });
+
+    // Статус для медиа файлов
+    updateReadStatuses(prev => ({ ...prev, [messageId]: 'sending' }));
+    if (!currentUserId) return;
+
+    const markFailed = () => {
+      updateReadStatuses(prev => ({ ...prev, [messageId]: 'failed' }));
+      setUploadStatus(prev => ({ ...prev, [messageId]: 'failed' }));
+    };
+
+    try {
+      // Устанавливаем статус "отправляется"
+      setUploadStatus(prev => ({ ...prev, [messageId]: 'sending' }));
+
+      // Загружаем файл на сервер
+      const uploadResult = await uploadMediaToServer(
+        asset.uri,
+        messageType,
+        (progress) => setUploadProgress(prev => ({ ...prev, [messageId]: progress })),
+        name
+      );
+      setUploadProgress(prev => {
+        const next = { ...prev };
+        delete next[messageId];
+        return next;
+      });
+
+      if (!uploadResult.success || !uploadResult.url) {
+        console.error('❌ Media upload failed:', uploadResult.error);
+        if (uploadResult.error === 'file_too_large') Alert.alert('Ошибка', 'Файл слишком большой');
+        if (uploadResult.error === 'unsupported_type') Alert.alert('Ошибка', 'Этот тип файла не поддерживается');
+        if (uploadResult.error === 'rate_limited') Alert.alert('Слишком часто', 'Подождите немного и попробуйте снова');
+        return markFailed();
+      }
+
+      // Тип определяет сервер по содержимому (например, .mov из галереи — видео)
+      const sentType = uploadResult.kind && uploadResult.kind !== 'audio' ? uploadResult.kind : messageType;
+      const socketResult = await sendSocketMessage({
+        to: peerId,
+        type: sentType,
+        uri: uploadResult.url, // Используем публичный URL вместо локального
+        name,
+        size: uploadResult.size || asset.size || undefined,
+        thumbnailUri: uploadResult.thumbnailUrl,
+        duration: uploadResult.duration,
+      });
+
+      if (!socketResult.ok || !socketResult.messageId) {
+        console.warn('❌ Socket send failed:', socketResult);
+        return markFailed();
+      }
+
+      setMessages(prev => {
+        const updated = prev.map(msg =>
+          msg.id === messageId
+            ? {
+                ...msg,
+                id: socketResult.messageId!,
+                type: sentType,
+                uri: resolveMediaUri(uploadResult.url),
+                thumbnailUri: uploadResult.thumbnailUrl,
+                duration: uploadResult.duration,
+                size: uploadResult.size || msg.size,
+                from: currentUserId,
+                to: peerId,
+              }
+            : msg
+        );
+        saveMessages(updated); // Сохраняем обновленные сообщения
+        return updated;
+      });
+
+      // Устанавливаем статус отправки/доставки по факту
+      setUploadStatus(prev => {
+        const newStatus = { ...prev };
+        newStatus[socketResult.messageId!] = 'sent';
+        delete newStatus[messageId]; // Удаляем старый статус
+        return newStatus;
+      });
+
+      updateReadStatuses(prev => {
+        const newStatuses = { ...prev };
+        newStatuses[socketResult.messageId!] = 'sent';
+        delete newStatuses[messageId];
+        return newStatuses;
+      });
+    } catch (e) {
+      console.error('Failed to upload and send media:', e);
+      markFailed();
+    }
+  };
+
   const handleCamera = async () => {
     try {
       const permission = await ImagePicker.requestCameraPermissionsAsync();
@@ -1225,98 +1848,12 @@ export default function ChatScreen({ route, navigation }: Props) {
 
       if (!result.canceled && result.assets[0]) {
         const asset = result.assets[0];
-        const messageId = Date.now().toString();
-        
-        // Только изображения
-        const messageType = 'image';
-        
-        const newMessage = {
-          id: messageId,
-          type: messageType,
+        await sendMediaAttachment({
           uri: asset.uri,
-          name: asset.fileName || `file_${Date.now()}`,
-          size: asset.fileSize || 0,
-          sender: 'me',
-          from: currentUserId,
-          to: peerId,
-          timestamp: new Date(),
-        };
-        setMessages(prev => {
-          // Проверяем, есть ли уже сообщение с таким ID
-          const existingMessage = prev.find(msg => msg.id === messageId);
-          if (existingMessage) {
-            return prev;
-          }
-
-
-          return [...prev, newMessage];
+          type: asset.type === 'video' ? 'video' : 'image',
+          name: asset.fileName,
+          size: asset.fileSize,
         });
-        
-        // Статус для медиа файлов
-        updateReadStatuses(prev => ({ ...prev, [messageId]: 'sending' }));
-        
-        // Загружаем медиа файл на сервер и отправляем через сокеты
-        if (currentUserId) {
-          try {
-            // Устанавливаем статус "отправляется"
-            setUploadStatus(prev => ({ ...prev, [messageId]: 'sending' }));
-
-            // Загружаем файл на сервер
-            const uploadResult = await uploadMediaToServer(asset.uri, messageType, undefined, currentUserId, peerId);
-
-            if (uploadResult.success && uploadResult.url) {
-              // Устанавливаем статус "отправляется"
-              setUploadStatus(prev => ({ ...prev, [messageId]: 'sending' }));
-
-              const socketResult = await sendSocketMessage({
-                to: peerId,
-                type: messageType,
-                uri: uploadResult.url, // Используем публичный URL вместо локального
-                name: asset.fileName || undefined,
-                size: asset.fileSize || undefined
-              });
-
-              if (socketResult.ok && socketResult.messageId) {
-                setMessages(prev => {
-                  const updated = prev.map(msg => 
-                    msg.id === messageId 
-                      ? { ...msg, id: socketResult.messageId!, uri: resolveMediaUri(uploadResult.url), from: currentUserId, to: peerId }
-                      : msg
-                  );
-                  saveMessages(updated); // Сохраняем обновленные сообщения
-                  return updated;
-                });
-
-                // Устанавливаем статус отправки/доставки по факту
-                setUploadStatus(prev => {
-                  const newStatus = { ...prev };
-                  newStatus[socketResult.messageId!] = 'sent';
-                  delete newStatus[messageId]; // Удаляем старый статус
-                  return newStatus;
-                });
-
-                updateReadStatuses(prev => {
-                  const newStatuses = { ...prev };
-                  const delivery = socketResult.delivered ? 'delivered' : 'sent';
-                  newStatuses[socketResult.messageId!] = delivery;
-                  delete newStatuses[messageId];
-                  return newStatuses;
-                });
-              } else {
-                console.warn('❌ Socket send failed:', socketResult);
-                updateReadStatuses(prev => ({ ...prev, [messageId]: 'failed' }));
-                setUploadStatus(prev => ({ ...prev, [messageId]: 'failed' }));
-              }
-            } else {
-              console.error('❌ Media upload failed:', uploadResult.error);
-              updateReadStatuses(prev => ({ ...prev, [messageId]: 'failed' }));
-              setUploadStatus(prev => ({ ...prev, [messageId]: 'failed' }));
-            }
-          } catch (e) {
-            console.error('Failed to upload and send media:', e);
-            updateReadStatuses(prev => ({ ...prev, [messageId]: 'failed' }));
-          }
-        }
       }
     } catch (error) {
       console.error('Camera error:', error);
@@ -1341,97 +1878,12 @@ export default function ChatScreen({ route, navigation }: Props) {
 
       if (!result.canceled && result.assets[0]) {
         const asset = result.assets[0];
-        const messageId = Date.now().toString();
-        
-        // Только изображения
-        const messageType = 'image';
-        
-        const newMessage = {
-          id: messageId,
-          type: messageType,
+        await sendMediaAttachment({
           uri: asset.uri,
-          name: asset.fileName || `file_${Date.now()}`,
-          size: asset.fileSize || 0,
-          sender: 'me',
-          from: currentUserId,
-          to: peerId,
-          timestamp: new Date(),
-        };
-        setMessages(prev => {
-          // Проверяем, есть ли уже сообщение с таким ID
-          const existingMessage = prev.find(msg => msg.id === messageId);
-          if (existingMessage) {
-            return prev;
-          }
-
-
-          return [...prev, newMessage];
+          type: asset.type === 'video' ? 'video' : 'image',
+          name: asset.fileName,
+          size: asset.fileSize,
         });
-        
-        // Статус для медиа файлов
-        updateReadStatuses(prev => ({ ...prev, [messageId]: 'sending' }));
-        
-        // Загружаем медиа файл на сервер и отправляем через сокеты
-        if (currentUserId) {
-          try {
-            // Устанавливаем статус "отправляется"
-            setUploadStatus(prev => ({ ...prev, [messageId]: 'sending' }));
-
-            // Загружаем файл на сервер
-            const uploadResult = await uploadMediaToServer(asset.uri, messageType, undefined, currentUserId, peerId);
-
-            if (uploadResult.success && uploadResult.url) {
-              // Устанавливаем статус "отправляется"
-              setUploadStatus(prev => ({ ...prev, [messageId]: 'sending' }));
-
-              const socketResult = await sendSocketMessage({
-                to: peerId,
-                type: messageType,
-                uri: uploadResult.url, // Используем публичный URL вместо локального
-                name: asset.fileName || undefined,
-                size: asset.fileSize || undefined
-              });
-
-              if (socketResult.ok && socketResult.messageId) {
-                setMessages(prev => {
-                  const updated = prev.map(msg => 
-                    msg.id === messageId 
-                      ? { ...msg, id: socketResult.messageId!, uri: uploadResult.url, from: currentUserId, to: peerId }
-                      : msg
-                  );
-                  saveMessages(updated); // Сохраняем обновленные сообщения
-                  return updated;
-                });
-
-                // Устанавливаем статус "отправлено"
-
-                setUploadStatus(prev => {
-                  const newStatus = { ...prev };
-                  newStatus[socketResult.messageId!] = 'sent';
-                  delete newStatus[messageId]; // Удаляем старый статус
-                  return newStatus;
-                });
-
-                updateReadStatuses(prev => {
-                  const newStatuses = { ...prev };
-                  newStatuses[socketResult.messageId!] = 'delivered';
-                  delete newStatuses[messageId];
-                  return newStatuses;
-                });
-              } else {
-                console.warn('❌ Socket send failed:', socketResult);
-                updateReadStatuses(prev => ({ ...prev, [messageId]: 'failed' }));
-              }
-            } else {
-              console.error('❌ Media upload failed:', uploadResult.error);
-              updateReadStatuses(prev => ({ ...prev, [messageId]: 'failed' }));
-              setUploadStatus(prev => ({ ...prev, [messageId]: 'failed' }));
-            }
-          } catch (e) {
-            console.error('Failed to upload and send media:', e);
-            updateReadStatuses(prev => ({ ...prev, [messageId]: 'failed' }));
-          }
-        }
       }
     } catch (error) {
       console.error('Image picker error:', error);
@@ -1439,8 +1891,22 @@ export default function ChatScreen({ route, navigation }: Props) {
     }
   };
 
+  const handleDocumentPicker = async () => {
+    try {
+      // copyToCacheDirectory — чтобы загрузчик мог читать файл по file:// (в т.ч. чанками)
+      const result = await DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true, multiple: false });
+      if (!result.canceled && result.assets?.[0]) {
+        const asset = result.assets[0];
+        await sendMediaAttachment({ uri: asset.uri, type: 'document', name: asset.name, size: asset.size });
+      }
+    } catch (error) {
+      console.error('Document picker error:', error);
+      Alert.alert('Ошибка', 'Не удалось выбрать файл');
+    }
+  };
 
-  const MessageItem = React.memo(({ item, currentUserId, readStatus, uploadStatus, onPressImage, onLongPressMessage }: any) => {
+
+  const MessageItem = React.memo(({ item, currentUserId, readStatus, uploadStatus, uploadProgress, onPressImage, onLongPressMessage, onPressReaction }: any) => {
     const [imageLoadError, setImageLoadError] = React.useState(false);
     const [localImageUri, setLocalImageUri] = React.useState<string | null>(null);
     const [isDownloading, setIsDownloading] = React.useState(false);
@@ -1503,6 +1969,16 @@ export default function ChatScreen({ route, navigation }: Props) {
 
     const renderContent = () => {
       switch (item.type) {
+        case 'audio':
+          return (
+            <VoiceMessagePlayer
+              uri={resolveMediaUri(item.uri)}
+              duration={item.duration}
+              waveform={item.waveform}
+              color={LIVI.white}
+              mutedColor={LIVI.titan}
+            />
+          );
         case 'image':
           const imageUri = resolveMediaUri(item.uri);
           if (!imageUri) {
@@ -1715,7 +2191,7 @@ export default function ChatScreen({ route, navigation }: Props) {
                     fontSize: 10,
                     fontWeight: '600',
                   }}>
-                    Отправляется...
+                    {typeof uploadProgress === 'number' ? `Отправляется... ${uploadProgress}%` : 'Отправляется...'}
                   </Text>
                 </View>
               )}
@@ -1745,6 +2221,75 @@ export default function ChatScreen({ route, navigation }: Props) {
               )}
             </TouchableOpacity>
           );
+        case 'video': {
+          const videoUri = resolveMediaUri(item.uri);
+          const thumbUri = item.thumbnailUri ? resolveMediaUri(item.thumbnailUri) : '';
+          return (
+            <TouchableOpacity
+              style={{
+                width: 220,
+                height: 150,
+                borderRadius: 12,
+                overflow: 'hidden',
+                marginBottom: 8,
+                backgroundColor: 'rgba(0,0,0,0.4)',
+                borderWidth: 1,
+                borderColor: 'rgba(255,255,255,0.2)',
+                alignItems: 'center',
+                justifyContent: 'center',
+              }}
+              disabled={messageUploadStatus === 'sending'}
+              onPress={() => animateMessagePress(item.id, () => onPressImage('video', videoUri, item.name))}
+              activeOpacity={0.9}
+            >
+              {!!thumbUri && (
+                <ExpoImage
+                  source={{ uri: thumbUri }}
+                  style={{ position: 'absolute', top: 0, left: 0, right: 0, bottom: 0 }}
+                  contentFit="cover"
+                  cachePolicy="memory-disk"
+                />
+              )}
+              <View style={{ width: 48, height: 48, borderRadius: 24, backgroundColor: 'rgba(0,0,0,0.55)', alignItems: 'center', justifyContent: 'center' }}>
+                {messageUploadStatus === 'sending'
+                  ? <ActivityIndicator size="small" color="#fff" />
+                  : <Ionicons name={messageUploadStatus === 'failed' ? 'alert-circle' : 'play'} size={24} color="#fff" />}
+              </View>
+              <Text style={{ position: 'absolute', right: 8, bottom: 6, color: '#fff', fontSize: 11, fontWeight: '600' }}>
+                {messageUploadStatus === 'sending'
+                  ? (typeof uploadProgress === 'number' ? `${uploadProgress}%` : '')
+                  : messageUploadStatus === 'failed' ? 'Ошибка отправки' : formatDuration(item.duration)}
+              </Text>
+            </TouchableOpacity>
+          );
+        }
+        case 'document': {
+          const docUri = resolveMediaUri(item.uri);
+          return (
+            <TouchableOpacity
+              style={{ flexDirection: 'row', alignItems: 'center', minWidth: 200, marginBottom: 8 }}
+              disabled={messageUploadStatus === 'sending'}
+              onPress={() => animateMessagePress(item.id, () => onPressImage('document', docUri, item.name))}
+              activeOpacity={0.8}
+            >
+              <View style={{ width: 40, height: 40, borderRadius: 10, backgroundColor: 'rgba(255,255,255,0.1)', alignItems: 'center', justifyContent: 'center', marginRight: 10 }}>
+                {messageUploadStatus === 'sending'
+                  ? <ActivityIndicator size="small" color={LIVI.white} />
+                  : <Ionicons name="document-text-outline" size={22} color={LIVI.white} />}
+              </View>
+              <View style={{ flexShrink: 1 }}>
+                <Text style={{ color: LIVI.white, fontSize: 14, fontWeight: '600' }} numberOfLines={2}>
+                  {item.name || 'Документ'}
+                </Text>
+                <Text style={{ color: LIVI.text, fontSize: 12, marginTop: 2 }}>
+                  {messageUploadStatus === 'sending'
+                    ? (typeof uploadProgress === 'number' ? `Отправляется... ${uploadProgress}%` : 'Отправляется...')
+                    : messageUploadStatus === 'failed' ? 'Ошибка отправки' : formatFileSize(item.size)}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          );
+        }
         default:
           return null; // Текст будет отображаться в основном блоке
       }
@@ -1854,11 +2399,10 @@ export default function ChatScreen({ route, navigation }: Props) {
             animateMessagePress(item.id);
           }}
           onLongPress={() => {
-            if (isMyMessage) {
-              animateMessagePress(item.id, () => {
-                onLongPressMessage(item);
-              });
-            }
+            // Меню доступно для любых сообщений: ответ и реакции — и на входящие
+            animateMessagePress(item.id, () => {
+              onLongPressMessage(item);
+            });
           }}
           activeOpacity={0.7}
           style={{
@@ -1869,6 +2413,23 @@ export default function ChatScreen({ route, navigation }: Props) {
             borderColor: BORDER_COLOR,
           }}
         >
+        {/* Цитата сообщения, на которое отвечают */}
+        {!!item.replyPreview && (
+          <View style={{
+            borderLeftWidth: 3,
+            borderLeftColor: LIVI.titan,
+            paddingLeft: 8,
+            marginBottom: 6,
+          }}>
+            <Text style={{ color: LIVI.titan, fontSize: 12, fontWeight: '600' }} numberOfLines={1}>
+              {item.replyPreview.from === currentUserId ? 'Вы' : peerNameParam}
+            </Text>
+            <Text style={{ color: LIVI.text, fontSize: 13 }} numberOfLines={2}>
+              {replyPreviewText(item.replyPreview)}
+            </Text>
+          </View>
+        )}
+
         {/* Основной контент */}
         {renderContent()}
         
@@ -1884,6 +2445,39 @@ export default function ChatScreen({ route, navigation }: Props) {
             {item.text}
           </Text>
         )}
+
+        {/* Реакции: тап по своей снимает её, по чужой — ставит такую же */}
+        {!!item.reactions?.length && (
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', marginBottom: 4 }}>
+            {Object.entries(
+              (item.reactions as Array<{ userId: string; emoji: string }>).reduce<Record<string, { count: number; mine: boolean }>>((acc, r) => {
+                const cur = acc[r.emoji] || { count: 0, mine: false };
+                acc[r.emoji] = { count: cur.count + 1, mine: cur.mine || r.userId === currentUserId };
+                return acc;
+              }, {})
+            ).map(([emoji, { count, mine }]) => (
+              <TouchableOpacity
+                key={emoji}
+                onPress={() => onPressReaction(item, emoji)}
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  paddingHorizontal: 6,
+                  paddingVertical: 2,
+                  marginRight: 4,
+                  marginTop: 2,
+                  borderRadius: 10,
+                  borderWidth: 1,
+                  borderColor: mine ? LIVI.titan : BORDER_COLOR,
+                  backgroundColor: mine ? 'rgba(255,255,255,0.12)' : 'transparent',
+                }}
+              >
+                <Text style={{ fontSize: 13 }}>{emoji}</Text>
+                {count > 1 && <Text style={{ color: LIVI.text, fontSize: 12, marginLeft: 3 }}>{count}</Text>}
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
         
         {/* Нижняя строка: время + статус в стиле Telegram */}
         <View style={{ 
@@ -1899,6 +2493,7 @@ export default function ChatScreen({ route, navigation }: Props) {
             opacity: 0.8,
             fontWeight: '500',
           }}>
+            {item.editedAt ? 'изменено ' : ''}
             {new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
           </Text>
           {renderStatusIcons()}
@@ -1954,8 +2549,10 @@ export default function ChatScreen({ route, navigation }: Props) {
                 currentUserId={currentUserId}
                 readStatus={readStatuses[item.id]}
                 uploadStatus={uploadStatus[item.id]}
+                uploadProgress={uploadProgress[item.id]}
                 onPressImage={openMediaViewer}
                 onLongPressMessage={(m: any) => { setSelectedMessage(m); showDeleteModal(); }}
+                onPressReaction={toggleReaction}
               />
             )}
             style={{ flex: 1 }}
@@ -1967,7 +2564,17 @@ export default function ChatScreen({ route, navigation }: Props) {
             }}
             showsVerticalScrollIndicator={false}
             inverted={false}
-            onContentSizeChange={() => setTimeout(() => scrollToBottom(), 0)}
+            onStartReached={loadOlderMessages}
+            onStartReachedThreshold={0.2}
+            maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+            onContentSizeChange={() => {
+              // При догрузке старых сообщений остаёмся на месте, а не прыгаем вниз
+              if (prependingRef.current) {
+                prependingRef.current = false;
+                return;
+              }
+              setTimeout(() => scrollToBottom(), 0);
+            }}
             ListEmptyComponent={() => (
               <View
                 style={{
@@ -2011,6 +2618,7 @@ export default function ChatScreen({ route, navigation }: Props) {
             }}
             onLayout={(e) => setInputHeight(e.nativeEvent.layout.height)}
           >
+            {renderComposerBanner()}
             <View
               style={{
 
@@ -2042,36 +2650,38 @@ export default function ChatScreen({ route, navigation }: Props) {
                   fontSize: 16,
                   maxHeight: 100,
                 }}
-                placeholder="Введите сообщение..."
+                placeholder={isRecordingVoice ? "Запись… отпустите, чтобы отправить" : "Введите сообщение..."}
                 placeholderTextColor={LIVI.titan}
                 value={messageText}
-                onChangeText={setMessageText}
+                onChangeText={handleMessageTextChange}
                 multiline
                 onSubmitEditing={sendMessage}
                 returnKeyType="send"
               />
 
 
-              <TouchableOpacity
-                onPress={sendMessage}
-                style={{
-                  backgroundColor: messageText.trim()
-                    ? LIVI.titan
-                    : "rgba(255,255,255,0.2)",
-                  borderRadius: 14,
-                  padding: 6,
-                  marginLeft: 6,
-                  borderWidth: 1,
-                  borderColor: BORDER_COLOR,
-                }}
-                disabled={!messageText.trim()}
-              >
-                <Ionicons
-                  name="send"
-                  size={20}
-                  color={messageText.trim() ? LIVI.white : LIVI.titan}
-                />
-              </TouchableOpacity>
+              {messageText.trim() || editingMessage ? (
+                <TouchableOpacity
+                  onPress={sendMessage}
+                  style={{
+                    backgroundColor: messageText.trim()
+                      ? LIVI.titan
+                      : "rgba(255,255,255,0.2)",
+                    borderRadius: 14,
+                    padding: 6,
+                    marginLeft: 6,
+                    borderWidth: 1,
+                    borderColor: BORDER_COLOR,
+                  }}
+                  disabled={!messageText.trim()}
+                >
+                  <Ionicons
+                    name="send"
+                    size={20}
+                    color={messageText.trim() ? LIVI.white : LIVI.titan}
+                  />
+                </TouchableOpacity>
+              ) : renderVoiceButton()}
             </View>
           </View>
         </KeyboardAvoidingView>)
@@ -2089,8 +2699,10 @@ export default function ChatScreen({ route, navigation }: Props) {
                 currentUserId={currentUserId}
                 readStatus={readStatuses[item.id]}
                 uploadStatus={uploadStatus[item.id]}
+                uploadProgress={uploadProgress[item.id]}
                 onPressImage={openMediaViewer}
                 onLongPressMessage={(m: any) => { setSelectedMessage(m); showDeleteModal(); }}
+                onPressReaction={toggleReaction}
               />
             )}
             style={{ flex: 1 }}
@@ -2164,6 +2776,7 @@ export default function ChatScreen({ route, navigation }: Props) {
               }}
               onLayout={(e) => setInputHeight(e.nativeEvent.layout.height)}
             >
+              {renderComposerBanner()}
             <View
               style={{
                 flexDirection: "row",
@@ -2190,33 +2803,35 @@ export default function ChatScreen({ route, navigation }: Props) {
 
               <TextInput
                 style={{ flex: 1, color: LIVI.white, fontSize: 16, maxHeight: 100 }}
-                placeholder="Введите сообщение..."
+                placeholder={isRecordingVoice ? "Запись… отпустите, чтобы отправить" : "Введите сообщение..."}
                 placeholderTextColor={LIVI.titan}
                 value={messageText}
-                onChangeText={setMessageText}
+                onChangeText={handleMessageTextChange}
                 multiline
                 onSubmitEditing={sendMessage}
                 returnKeyType="send"
               />
 
-              <TouchableOpacity
-                onPress={sendMessage}
-                style={{
-                  backgroundColor: messageText.trim() ? LIVI.titan : "rgba(255,255,255,0.2)",
-                  borderRadius: 14,
-                  padding: 6,
-                  marginLeft: 6,
-                  borderWidth: 1,
-                  borderColor: BORDER_COLOR,
-                }}
-                disabled={!messageText.trim()}
-              >
-                <Ionicons
-                  name="send"
-                  size={20}
-                  color={messageText.trim() ? LIVI.white : LIVI.titan}
-                />
-              </TouchableOpacity>
+              {messageText.trim() || editingMessage ? (
+                <TouchableOpacity
+                  onPress={sendMessage}
+                  style={{
+                    backgroundColor: messageText.trim() ? LIVI.titan : "rgba(255,255,255,0.2)",
+                    borderRadius: 14,
+                    padding: 6,
+                    marginLeft: 6,
+                    borderWidth: 1,
+                    borderColor: BORDER_COLOR,
+                  }}
+                  disabled={!messageText.trim()}
+                >
+                  <Ionicons
+                    name="send"
+                    size={20}
+                    color={messageText.trim() ? LIVI.white : LIVI.titan}
+                  />
+                </TouchableOpacity>
+              ) : renderVoiceButton()}
             </View>
           </View>
           </KeyboardAvoidingView>
@@ -2352,6 +2967,58 @@ export default function ChatScreen({ route, navigation }: Props) {
               </Text>
             </TouchableOpacity>
 
+            <TouchableOpacity
+              onPress={() => {
+                setShowClearMenu(false);
+                blockPeer();
+              }}
+              style={{
+                backgroundColor: 'rgba(255,77,77,0.12)',
+                borderRadius: 12,
+                padding: 16,
+                marginBottom: 20,
+                alignItems: 'center',
+              }}
+            >
+              <Text style={{
+                color: LIVI.red,
+                fontSize: 16,
+                fontWeight: '600',
+              }}>
+                Заблокировать
+              </Text>
+              <Text style={{
+                color: LIVI.titan,
+                fontSize: 12,
+                marginTop: 4,
+                textAlign: 'center',
+              }}>
+                Удалить из друзей и запретить писать и звонить
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              onPress={() => {
+                setShowClearMenu(false);
+                reportPeer();
+              }}
+              style={{
+                backgroundColor: 'rgba(255,255,255,0.05)',
+                borderRadius: 12,
+                padding: 16,
+                marginBottom: 20,
+                alignItems: 'center',
+              }}
+            >
+              <Text style={{
+                color: LIVI.white,
+                fontSize: 16,
+                fontWeight: '600',
+              }}>
+                Пожаловаться
+              </Text>
+            </TouchableOpacity>
+
             <TouchableOpacity
               onPress={() => setShowClearMenu(false)}
               style={{
@@ -2405,6 +3072,49 @@ export default function ChatScreen({ route, navigation }: Props) {
             shadowRadius: 8,
             elevation: 6,
           }}>
+            {/* Быстрые реакции */}
+            <View style={{ flexDirection: 'row', marginBottom: 14 }}>
+              {QUICK_REACTIONS.map((emoji) => (
+                <TouchableOpacity
+                  key={emoji}
+                  onPress={() => {
+                    const target = selectedMessage;
+                    hideDeleteModal();
+                    toggleReaction(target, emoji);
+                  }}
+                  style={{ paddingHorizontal: 6, paddingVertical: 4 }}
+                >
+                  <Text style={{ fontSize: 24 }}>{emoji}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* Ответить / Изменить */}
+            <View style={{ flexDirection: 'row', gap: 12, marginBottom: 18 }}>
+              <TouchableOpacity
+                onPress={() => {
+                  startReply(selectedMessage);
+                  hideDeleteModal();
+                }}
+                style={{ flexDirection: 'row', alignItems: 'center', paddingHorizontal: 12, paddingVertical: 8, borderRadius: 12, borderWidth: 1, borderColor: BORDER_COLOR }}
+              >
+                <Ionicons name="arrow-undo-outline" size={18} color={LIVI.white} />
+                <Text style={{ color: LIVI.white, marginLeft: 6, fontWeight: '600' }}>Ответить</Text>
+              </TouchableOpacity>
+              {canEditMessage(selectedMessage) && (
+                <TouchableOpacity
+                  onPress={() => {
+                    startEdit(selectedMessage);
+                    hideDeleteModal();
+                  }}
+                  style={{ flexDirection: 'row', alignItems: 'center', paddingHorizontal: 12, paddingVertical: 8, borderRadius: 12, borderWidth: 1, borderColor: BORDER_COLOR }}
+                >
+                  <Ionicons name="create-outline" size={18} color={LIVI.white} />
+                  <Text style={{ color: LIVI.white, marginLeft: 6, fontWeight: '600' }}>Изменить</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
             <Text style={{
               color: LIVI.white,
               fontSize: 16,
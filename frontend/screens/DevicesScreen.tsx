@@ -0,0 +1,422 @@
+// screens/DevicesScreen.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  Modal,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import QRCode from 'react-native-qrcode-svg';
+import { useAppTheme } from '../theme/ThemeProvider';
+import {
+  fetchDevices,
+  createLinkCode,
+  createRecoveryCode,
+  redeemLinkCode,
+  restoreWithRecoveryCode,
+  unlinkDevice,
+  onDevicesChanged,
+  type LinkedDevice,
+} from '../sockets/socket';
+import { logger } from '../utils/logger';
+
+type Props = { route: { params?: { code?: string } }; navigation: any };
+
+// QR содержит ту же ссылку, что открывает приложение: livi://link?code=XXXX-XXXX
+const LINK_URL_PREFIX = 'livi://link?code=';
+
+const ERROR_TEXT: Record<string, string> = {
+  invalid_code: 'Код неверный или уже истёк',
+  too_many_attempts: 'Слишком много попыток. Попробуйте позже',
+  rate_limited: 'Слишком много попыток. Попробуйте через минуту',
+  no_session: 'Нет соединения с сервером. Подождите пару секунд и повторите',
+  user_not_found: 'Этот аккаунт удалён',
+  cannot_unlink_current: 'Это устройство нельзя отвязать отсюда',
+  database_unavailable: 'Сервер временно недоступен',
+};
+const errorText = (e?: string) => (e && ERROR_TEXT[e]) || 'Не удалось выполнить действие';
+
+/** Код из QR или вставленной ссылки */
+export const extractLinkCode = (raw: string) => {
+  const s = String(raw || '').trim();
+  const m = s.match(/[?&]code=([A-Za-z0-9-]+)/);
+  return m ? m[1] : s;
+};
+
+const formatLeft = (ms: number) => {
+  const s = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Устройства аккаунта: показать код/QR для входа с другого устройства, войти по коду,
+ * код восстановления и список привязанных устройств
+ */
+export default function DevicesScreen({ route, navigation }: Props) {
+  const { theme, isDark } = useAppTheme();
+  const text = isDark ? '#fff' : '#111';
+  const text2 = theme.colors.onSurfaceVariant;
+  const card = isDark ? 'rgba(255,255,255,0.04)' : 'rgba(255,255,255,0.6)';
+
+  const [devices, setDevices] = useState<LinkedDevice[]>([]);
+  const [recoveryEnabled, setRecoveryEnabled] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const [link, setLink] = useState<{ code: string; expiresAt: number } | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const [codeInput, setCodeInput] = useState(route.params?.code || '');
+  const [mode, setMode] = useState<'link' | 'recovery'>('link');
+  const [busy, setBusy] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [permission, requestPermission] = useCameraPermissions();
+
+  const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const r = await fetchDevices();
+      if (r?.ok) {
+        setDevices(r.devices || []);
+        setRecoveryEnabled(!!r.recoveryCode?.enabled);
+      }
+    } catch (e) {
+      logger.warn('[Devices] load failed', e);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    return onDevicesChanged(load);
+  }, [load]);
+
+  // Обратный отсчёт для кода привязки
+  useEffect(() => {
+    if (!link) return;
+    const t = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(t);
+  }, [link]);
+  const linkLeft = link ? link.expiresAt - now : 0;
+  useEffect(() => {
+    if (link && linkLeft <= 0) setLink(null);
+  }, [link, linkLeft]);
+
+  const showLinkCode = async () => {
+    try {
+      const r = await createLinkCode();
+      if (!r?.ok || !r.code) return Alert.alert('Ошибка', errorText(r?.error));
+      setNow(Date.now());
+      setLink({ code: r.code, expiresAt: Number(r.expiresAt) || Date.now() });
+    } catch (e) {
+      Alert.alert('Ошибка', errorText());
+    }
+  };
+
+  const submitCode = (raw: string) => {
+    const code = extractLinkCode(raw);
+    if (!code || busy) return;
+    Alert.alert(
+      mode === 'link' ? 'Войти в другой аккаунт?' : 'Восстановить аккаунт?',
+      'Это устройство перейдёт в аккаунт, которому принадлежит код. Данные текущего профиля на этом устройстве будут стёрты.',
+      [
+        { text: 'Отмена', style: 'cancel' },
+        {
+          text: 'Продолжить',
+          style: 'destructive',
+          onPress: async () => {
+            setBusy(true);
+            try {
+              const r = mode === 'link' ? await redeemLinkCode(code) : await restoreWithRecoveryCode(code);
+              if (!r?.ok) return Alert.alert('Ошибка', errorText(r?.error));
+              // Новый аккаунт: экраны загружаются заново
+              navigation.reset({ index: 0, routes: [{ name: 'Home' }] });
+            } catch (e) {
+              Alert.alert('Ошибка', errorText());
+            } finally {
+              setBusy(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const startScan = async () => {
+    if (!permission?.granted) {
+      const p = await requestPermission();
+      if (!p.granted) return Alert.alert('Нет доступа к камере', 'Разрешите доступ к камере, чтобы отсканировать QR-код');
+    }
+    setMode('link');
+    setScanning(true);
+  };
+
+  const onScanned = ({ data }: { data: string }) => {
+    if (!scanning) return;
+    setScanning(false);
+    const code = extractLinkCode(data);
+    setCodeInput(code);
+    submitCode(code);
+  };
+
+  const generateRecovery = () => {
+    Alert.alert(
+      recoveryEnabled ? 'Новый код восстановления?' : 'Создать код восстановления?',
+      recoveryEnabled
+        ? 'Старый код перестанет работать.'
+        : 'С этим кодом можно вернуть аккаунт на новом устройстве. Храните его в надёжном месте и никому не показывайте.',
+      [
+        { text: 'Отмена', style: 'cancel' },
+        {
+          text: 'Создать',
+          onPress: async () => {
+            try {
+              const r = await createRecoveryCode();
+              if (!r?.ok || !r.code) return Alert.alert('Ошибка', errorText(r?.error));
+              setRecoveryCode(r.code);
+              setRecoveryEnabled(true);
+            } catch (e) {
+              Alert.alert('Ошибка', errorText());
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const confirmUnlink = (d: LinkedDevice) => {
+    Alert.alert('Отвязать устройство?', 'На нём произойдёт выход из аккаунта.', [
+      { text: 'Отмена', style: 'cancel' },
+      {
+        text: 'Отвязать',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            const r = await unlinkDevice(d.installId);
+            if (!r?.ok) return Alert.alert('Ошибка', errorText(r?.error));
+            load();
+          } catch (e) {
+            Alert.alert('Ошибка', errorText());
+          }
+        },
+      },
+    ]);
+  };
+
+  const deviceTitle = (d: LinkedDevice) =>
+    d.platform === 'ios' ? 'iPhone / iPad' : d.platform === 'android' ? 'Android' : 'Устройство';
+
+  return (
+    <SafeAreaView style={[styles.root, { backgroundColor: theme.colors.background }]} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+          <Ionicons name="arrow-back" size={Platform.OS === 'ios' ? 22 : 20} color={theme.colors.titan} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: text }]}>Устройства</Text>
+        <View style={{ width: 22 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {/* --- Войти на другом устройстве --- */}
+        <View style={[styles.card, { backgroundColor: card, borderColor: theme.colors.outline }]}>
+          <Text style={[styles.cardTitle, { color: text }]}>Добавить устройство</Text>
+          <Text style={[styles.hint, { color: text2 }]}>
+            Покажите код или QR на этом устройстве и введите его на новом — там откроется этот же аккаунт.
+          </Text>
+          {link ? (
+            <View style={styles.linkBox}>
+              <View style={styles.qr}>
+                <QRCode value={`${LINK_URL_PREFIX}${link.code}`} size={180} />
+              </View>
+              <Text selectable style={[styles.code, { color: text }]}>{link.code}</Text>
+              <Text style={[styles.hint, { color: text2 }]}>Действует ещё {formatLeft(linkLeft)}</Text>
+            </View>
+          ) : (
+            <TouchableOpacity style={[styles.button, { backgroundColor: theme.colors.primary }]} onPress={showLinkCode}>
+              <Text style={styles.buttonText}>Показать код</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* --- Ввести код --- */}
+        <View style={[styles.card, { backgroundColor: card, borderColor: theme.colors.outline }]}>
+          <Text style={[styles.cardTitle, { color: text }]}>Войти по коду</Text>
+          <View style={styles.modeRow}>
+            {(['link', 'recovery'] as const).map((m) => (
+              <TouchableOpacity
+                key={m}
+                onPress={() => setMode(m)}
+                style={[styles.modeChip, { borderColor: theme.colors.outline }, mode === m && { backgroundColor: 'rgba(113,91,168,0.22)' }]}
+              >
+                <Text style={{ color: text, fontWeight: mode === m ? '700' : '500' }}>
+                  {m === 'link' ? 'Код привязки' : 'Код восстановления'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            value={codeInput}
+            onChangeText={setCodeInput}
+            placeholder={mode === 'link' ? 'XXXX-XXXX' : 'XXXXX-XXXXX-XXXXX-XXXXX'}
+            placeholderTextColor={text2}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            style={[styles.input, { color: text, borderColor: theme.colors.outline }]}
+          />
+          <View style={styles.row}>
+            <TouchableOpacity
+              style={[styles.button, styles.flex, { backgroundColor: theme.colors.primary, opacity: codeInput.trim() && !busy ? 1 : 0.5 }]}
+              disabled={!codeInput.trim() || busy}
+              onPress={() => submitCode(codeInput)}
+            >
+              {busy ? <ActivityIndicator color="#fff" /> : <Text style={styles.buttonText}>Войти</Text>}
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.iconButton, { borderColor: theme.colors.outline }]} onPress={startScan}>
+              <Ionicons name="qr-code-outline" size={22} color={text} />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* --- Код восстановления --- */}
+        <View style={[styles.card, { backgroundColor: card, borderColor: theme.colors.outline }]}>
+          <Text style={[styles.cardTitle, { color: text }]}>Код восстановления</Text>
+          <Text style={[styles.hint, { color: text2 }]}>
+            {recoveryEnabled
+              ? 'Код создан. Если потеряли его — создайте новый.'
+              : 'Нужен, чтобы вернуть аккаунт после переустановки приложения или на новом телефоне.'}
+          </Text>
+          {recoveryCode && (
+            <TouchableOpacity
+              style={styles.linkBox}
+              onPress={async () => {
+                await Clipboard.setStringAsync(recoveryCode);
+                Alert.alert('Скопировано', 'Сохраните код в надёжном месте — больше он показан не будет.');
+              }}
+            >
+              <Text selectable style={[styles.code, { color: text }]}>{recoveryCode}</Text>
+              <Text style={[styles.hint, { color: text2 }]}>Нажмите, чтобы скопировать</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={[styles.button, { borderWidth: 1, borderColor: theme.colors.outline }]} onPress={generateRecovery}>
+            <Text style={[styles.buttonText, { color: text }]}>{recoveryEnabled ? 'Создать новый код' : 'Создать код'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* --- Список устройств --- */}
+        <View style={[styles.card, { backgroundColor: card, borderColor: theme.colors.outline }]}>
+          <Text style={[styles.cardTitle, { color: text }]}>Привязанные устройства</Text>
+          {loading ? (
+            <ActivityIndicator />
+          ) : (
+            devices.map((d) => (
+              <View key={d.installId} style={styles.deviceRow}>
+                <Ionicons
+                  name={d.platform === 'ios' ? 'logo-apple' : d.platform === 'android' ? 'logo-android' : 'phone-portrait-outline'}
+                  size={22}
+                  color={text2}
+                />
+                <View style={styles.flex}>
+                  <Text style={{ color: text, fontWeight: '600' }}>
+                    {deviceTitle(d)}{d.current ? ' · это устройство' : ''}
+                  </Text>
+                  <Text style={{ color: text2, fontSize: 12 }}>
+                    {d.online ? 'в сети' : `добавлено ${new Date(d.linkedAt).toLocaleDateString()}`}
+                  </Text>
+                </View>
+                {!d.current && (
+                  <TouchableOpacity onPress={() => confirmUnlink(d)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                    <Ionicons name="close-circle-outline" size={22} color="rgba(255,90,103,0.8)" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+
+      <Modal visible={scanning} animationType="slide" onRequestClose={() => setScanning(false)}>
+        <View style={styles.scanner}>
+          <CameraView
+            style={StyleSheet.absoluteFill}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+            onBarcodeScanned={scanning ? onScanned : undefined}
+          />
+          <TouchableOpacity style={styles.scannerClose} onPress={() => setScanning(false)}>
+            <Ionicons name="close" size={28} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  root: { flex: 1 },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  headerTitle: { fontSize: 18, fontWeight: '700' },
+  content: { padding: 16, gap: 16 },
+  card: {
+    borderRadius: 12,
+    borderWidth: StyleSheet.hairlineWidth,
+    padding: 14,
+    gap: 10,
+  },
+  cardTitle: { fontSize: 16, fontWeight: '700' },
+  hint: { fontSize: 13, lineHeight: 18 },
+  linkBox: { alignItems: 'center', gap: 8, paddingVertical: 6 },
+  qr: { padding: 10, backgroundColor: '#fff', borderRadius: 8 },
+  code: { fontSize: 22, fontWeight: '700', letterSpacing: 2, textAlign: 'center' },
+  modeRow: { flexDirection: 'row', gap: 8 },
+  modeChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 18,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  input: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    letterSpacing: 1,
+  },
+  row: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  flex: { flex: 1 },
+  button: {
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonText: { color: '#fff', fontWeight: '700', fontSize: 15 },
+  iconButton: {
+    width: 46,
+    height: 46,
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  deviceRow: { flexDirection: 'row', alignItems: 'center', gap: 12, paddingVertical: 6 },
+  scanner: { flex: 1, backgroundColor: '#000' },
+  scannerClose: { position: 'absolute', top: 50, right: 20, padding: 8 },
+});
@@ -20,6 +20,7 @@ import {
   ActivityIndicator,
   Linking,
   Share,
+  Alert,
 } from 'react-native';
 
 import { syncMyStreamProfile } from '../chat/cometchat';
@@ -46,6 +47,7 @@ import {
 import LanguagePicker from '../components/LanguagePicker';
 import { useAppTheme, ThemePreference } from '../theme/ThemeProvider';
 import { t, loadLang, saveLang, defaultLang } from '../utils/i18n';
+import { setPushLanguage } from '../utils/pushNotifications';
 import type { Lang } from '../utils/i18n';
 
 // expo-linear-gradient -> react-native-linear-gradient -> fallback
@@ -65,6 +67,7 @@ const LinearGradient: any = (() => {
 
 import { getInstallId, resetInstallId } from '../utils/installId';
 import { logger } from '../utils/logger';
+import { useFeatureFlag, useRemoteConfig } from '../store/remoteConfig';
 import { onMessageReceived, onMessageReadReceipt, getUnreadCount, onCallTimeout as onCallTimeoutEvent, onCallIncoming as onCallIncomingEvent, onCallDeclined as onCallDeclinedEvent } from '../sockets/socket';
 import { onMissedIncrement, onRequestCloseIncoming, emitCloseIncoming } from '../utils/globalEvents';
 import SettingsTab from '../components/SettingsTab';
@@ -83,6 +86,7 @@ import socket, {
   onConnected,
   onFriendRemoved,
   removeFriend,
+  blockUser,
   updateProfile,
   onFriendProfile,
   emitAck,
@@ -108,6 +112,11 @@ import socket, {
   checkInviteLink,
   requestFriend,
   acceptInvite,
+  fetchCallHistory,
+  requestCallback,
+  onCallbackReady,
+  getCallSettings,
+  type CallHistoryItem,
 } from '../sockets/socket';
 
 
@@ -178,6 +187,30 @@ const mapToFriend = (u: any): Friend => {
 
 const DRAFT_KEY = 'profile_draft_v1';
 const MISSED_CALLS_KEY = 'missed_calls_by_user_v1';
+// Сколько последних звонков показываем над списком друзей
+const RECENT_CALLS_LIMIT = 5;
+
+const formatCallTime = (iso: string) => {
+  const d = new Date(iso);
+  const now = new Date();
+  const hhmm = `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+  if (d.toDateString() === now.toDateString()) return hhmm;
+  return `${String(d.getDate()).padStart(2, '0')}.${String(d.getMonth() + 1).padStart(2, '0')} ${hhmm}`;
+};
+
+const formatCallDuration = (sec: number) => {
+  const s = Math.max(0, Math.round(sec));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+const callOutcomeLabel = (c: CallHistoryItem) => {
+  if (c.outcome === 'accepted') return formatCallDuration(c.duration);
+  if (c.missed) return 'Пропущенный';
+  if (c.outcome === 'declined') return 'Отклонён';
+  if (c.outcome === 'busy') return 'Занято';
+  if (c.direction === 'outgoing') return c.outcome === 'canceled' ? 'Отменён' : 'Нет ответа';
+  return 'Отменён';
+};
 const PROFILE_KEY = 'livi.profile.v1';
 const INSTALL_ID_KEY = 'livi.installId';
 const USER_ID_KEY = 'userId';
@@ -555,6 +588,7 @@ export default function HomeScreen({ navigation, route }: Props & { route?: { pa
   const [refreshing, setRefreshing] = useState(false);
   const friendsRef = useRef<Friend[]>([]);
   useEffect(() => { friendsRef.current = friends; }, [friends]);
+  const [recentCalls, setRecentCalls] = useState<CallHistoryItem[]>([]);
 
   /* tabs & menu */
   const [menuOpen, setMenuOpen] = useState(false);
@@ -717,7 +751,7 @@ export default function HomeScreen({ navigation, route }: Props & { route?: { pa
   useEffect(() => { (async () => { setLang(await loadLang()); })(); }, []);
   const openLangPicker  = () => setLangPickerVisible(true);
   const closeLangPicker = () => setLangPickerVisible(false);
-  const handleSelectLang = async (code: Lang) => { setLang(code); await saveLang(code); setLangPickerVisible(false); };
+  const handleSelectLang = async (code: Lang) => { setLang(code); await saveLang(code); setLangPickerVisible(false); void setPushLanguage(code); };
 
   // ===== Обработка реферальной ссылки из route params =====
   const processedInviteRef = useRef<string | null>(null);
@@ -841,6 +875,9 @@ export default function HomeScreen({ navigation, route }: Props & { route?: { pa
   }, [route?.params?.inviteCode]);
 
   const { showNotice: baseShowNotice, NoticeView } = useLiviNotice();
+  // Баннер техработ из remote config — висит, пока сервер его отдаёт
+  const maintenance = useRemoteConfig((s) => s.config.maintenance);
+  const groupCallsEnabled = useFeatureFlag('groupCalls');
   const showNotice = useCallback((text: string, kind: NoticeKind = 'info', ms = 1700) => {
     const normalized = (text ?? '').trim().toLowerCase();
     if (normalized === t('saved', lang).toLowerCase() || normalized === `${t('saved', lang).toLowerCase()}!`) {
@@ -850,11 +887,14 @@ export default function HomeScreen({ navigation, route }: Props & { route?: { pa
   }, [baseShowNotice, setSavedToast, lang]);
 
   /* ===== Call (outgoing modal) ===== */
-  const [calling, setCalling] = useState<{ visible: boolean; friend?: Friend | null; callId?: string | null }>({ visible: false });
+  // waiting — друг разговаривает, наш звонок у него на второй линии
+  const [calling, setCalling] = useState<{ visible: boolean; friend?: Friend | null; callId?: string | null; waiting?: boolean }>({ visible: false });
   const [missedByUser, setMissedByUser] = useState<Record<string, number>>({});
   const [missedLoaded, setMissedLoaded] = useState(false);
   const lastIncomingFromRef = useRef<string | null>(null);
   const [roomFull, setRoomFull] = useState<{ visible: boolean; name?: string }>({ visible: false });
+  // Групповой звонок: выбор нескольких друзей
+  const [groupPicker, setGroupPicker] = useState<{ visible: boolean; selected: string[] }>({ visible: false, selected: [] });
   const wave1 = useRef(new Animated.Value(0)).current;
   const wave2 = useRef(new Animated.Value(0)).current;
   const wave3 = useRef(new Animated.Value(0)).current;
@@ -894,13 +934,32 @@ export default function HomeScreen({ navigation, route }: Props & { route?: { pa
 
   const pendingCancelRef = useRef(false);
 
+  // Друг занят — предлагаем сообщить, когда он освободится (call:callback_ready)
+  const offerCallback = useCallback(async (friend: Friend) => {
+    const ok = await askConfirm({
+      title: 'Друг занят',
+      message: `${displayName(friend.name)} сейчас разговаривает. Сообщить, когда освободится?`,
+      confirmText: 'Сообщить',
+      cancelText: 'Не нужно',
+    });
+    if (!ok) return;
+    try {
+      const r = await requestCallback(friend.id);
+      if (!r?.ok) throw new Error(r?.error || 'callback_failed');
+      showNotice('Сообщим, когда друг освободится', 'success', 2000);
+    } catch (e) {
+      logger.warn('[HomeScreen] Callback request failed', e);
+      showNotice('Не удалось оставить запрос', 'error', 2000);
+    }
+  }, [askConfirm, showNotice]);
+
   const handleStartVideoCall = useCallback(async (friend: Friend) => {
     try {
       setCalling({ visible: true, friend, callId: null });
       startWaves();
       const r: any = await startCall(friend.id);
       if (!r?.ok) throw new Error(r?.error || 'call_failed');
-      setCalling((c) => ({ ...c, callId: r.callId || null }));
+      setCalling((c) => ({ ...c, callId: r.callId || null, waiting: !!r.waiting }));
 
       // Если пользователь успел нажать «Отменить» до прихода callId — шлём отмену сразу после ack
       if (pendingCancelRef.current && r.callId) {
@@ -945,19 +1004,23 @@ export default function HomeScreen({ navigation, route }: Props & { route?: { pa
           returnTo: { name: 'Home', params: { openFriendsMenu: true } } 
         });
       });
-      const offDeclined = onCallDeclined?.(() => {
+      const offDeclined = onCallDeclined?.(({ message }) => {
         if (cleaned) return; cleaned = true;
         // Получатель отклонил: инициатор НЕ увеличивает пропущенные
         setCalling({ visible: false, friend: null, callId: null });
         stopWaves();
-        showNotice('Вызов отклонён', 'error', 1800);
+        // Отказ с коротким ответом показываем дольше, чтобы успеть прочитать
+        if (message) showNotice(`${displayName(friend.name)}: ${message}`, 'info', 3500);
+        else showNotice('Вызов отклонён', 'error', 1800);
       });
       const offTimeout = onCallTimeout?.(() => {
         if (cleaned) return; cleaned = true;
         // Таймаут: у инициатора счётчик не увеличиваем, просто закрываем UI
         setCalling({ visible: false, friend: null, callId: null });
         stopWaves();
-        showNotice('Нет ответа', 'error', 1800);
+        // Не ответил на второй линии — значит, всё ещё разговаривает
+        if (r.waiting) offerCallback(friend);
+        else showNotice('Нет ответа', 'error', 1800);
       });
       const offRoomFull = onCallRoomFull?.(() => {
         if (cleaned) return; cleaned = true;
@@ -967,7 +1030,7 @@ export default function HomeScreen({ navigation, route }: Props & { route?: { pa
         setTimeout(() => setRoomFull({ visible: false, name: '' }), 2000);
       });
 
-      // Таймаут на клиенте (20 сек) как safeguard
+      // Таймаут на клиенте (длительность дозвона с сервера) как safeguard
       setTimeout(() => {
         if (!cleaned) {
           cleaned = true;
@@ -975,16 +1038,35 @@ export default function HomeScreen({ navigation, route }: Props & { route?: { pa
           stopWaves();
           showNotice('Нет ответа', 'error', 1800);
         }
-      }, 20000);
+      }, (r.ringTimeout || getCallSettings().ringTimeoutSeconds) * 1000);
 
       // Очистка будет при срабатывании одного из событий или таймаута
       return () => { offAccepted?.(); offDeclined?.(); offTimeout?.(); offRoomFull?.(); };
     } catch (e: any) {
       setCalling({ visible: false, friend: null, callId: null });
       stopWaves();
-      showNotice('Не удалось инициировать вызов', 'error', 2000);
+      if (e?.message === 'peer_busy') offerCallback(friend);
+      else if (e?.message === 'rate_limited') showNotice('Слишком много вызовов подряд, подождите немного', 'error', 2500);
+      else if (e?.message === 'server_draining') showNotice('Переподключаемся к серверу, попробуйте через пару секунд', 'info', 2500);
+      else showNotice('Не удалось инициировать вызов', 'error', 2000);
     }
-  }, [navigation, showNotice, startWaves, stopWaves]);
+  }, [navigation, showNotice, startWaves, stopWaves, offerCallback]);
+
+  // Друг, которого мы застали занятым, освободился
+  useEffect(() => {
+    const off = onCallbackReady(async ({ userId, nick }) => {
+      const friend = friendsRef.current.find((f) => String(f.id) === String(userId));
+      if (!friend) return;
+      const ok = await askConfirm({
+        title: 'Друг освободился',
+        message: `${displayName(friend.name || nick)} закончил разговор. Позвонить?`,
+        confirmText: 'Позвонить',
+        cancelText: 'Позже',
+      });
+      if (ok) handleStartVideoCall(friend);
+    });
+    return () => { off(); };
+  }, [askConfirm, handleStartVideoCall]);
 
   const handleCancelCall = useCallback(() => {
     if (calling.callId) {
@@ -1804,15 +1886,26 @@ export default function HomeScreen({ navigation, route }: Props & { route?: { pa
     })();
   }, [menuOpen, tab]);
 
+  /* ===== recent calls (журнал на сервере, пропущенные считаются и для офлайн-звонков) === */
+  const loadRecentCalls = useCallback(async () => {
+    try {
+      const res = await fetchCallHistory({ limit: RECENT_CALLS_LIMIT });
+      if (res?.ok && Array.isArray(res.calls)) setRecentCalls(res.calls);
+    } catch (e) {
+      logger.warn('[HomeScreen] Failed to load call history', e);
+    }
+  }, []);
+
   /* ===== refresh friends === */
   useEffect(() => {
     if (menuOpen && tab === 'friends') {
       setInitialized(true);
       void loadFriends();
+      void loadRecentCalls();
       const tmr = setInterval(() => void loadFriends(), 10_000);
       return () => clearInterval(tmr);
     }
-  }, [menuOpen, tab, loadFriends]);
+  }, [menuOpen, tab, loadFriends, loadRecentCalls]);
 
   /* ===== warm avatar cache когда открыта вкладка друзей === */
   useEffect(() => {
@@ -2898,7 +2991,7 @@ const handleClearNick = useCallback(async () => {
 
   /* ================= UI ================= */
 
-  const onRefreshFriends = async () => { setRefreshing(true); await loadFriends(); setRefreshing(false); };
+  const onRefreshFriends = async () => { setRefreshing(true); await Promise.all([loadFriends(), loadRecentCalls()]); setRefreshing(false); };
 
   const ChatButton = ({ friend }: { friend: Friend }) => {
     // КРИТИЧНО: Нормализуем ключ (преобразуем в строку) для корректной работы с счетчиками
@@ -2948,7 +3041,8 @@ const handleClearNick = useCallback(async () => {
     );
   };
   const renderRightActions = (id: string) => (
-    <View style={styles.swipeRight}>
+    <View style={[styles.swipeRight, { flexDirection: 'row', justifyContent: 'flex-end', alignItems: 'center' }]}>
+      <IconButton icon="block-helper" size={20} iconColor="#fff" style={{ backgroundColor: LIVI.titan, marginRight: 4 }} onPress={() => confirmBlockFriend(id)} />
       <IconButton icon="close" size={22} iconColor="#fff" style={{ backgroundColor: LIVI.red, marginRight: 12 }} onPress={() => handleRemoveFriend(id)} />
     </View>
   );
@@ -2969,6 +3063,38 @@ const handleClearNick = useCallback(async () => {
     [showNotice, L],
   );
 
+  // Блокировка: сервер сам снимает дружбу и шлёт friend_removed, здесь только оптимистично убираем из списка
+  const handleBlockFriend = useCallback(
+    async (peerId: string) => {
+      const prevFriends = friendsRef.current;
+      setFriends((prev) => prev.filter((f) => f.id !== peerId));
+      try {
+        const res = await blockUser(peerId);
+        if (!res?.ok) throw new Error(res?.error || 'block failed');
+        showNotice(L('friendBlocked'), 'success', 1400);
+      } catch (e: any) {
+        setFriends(prevFriends);
+        showNotice(`${L('friendBlockFailed')}: ${e?.message || 'error'}`, 'error', 2200);
+      }
+    },
+    [showNotice, L],
+  );
+
+  const confirmBlockFriend = useCallback(
+    (peerId: string) => {
+      const friend = friendsRef.current.find((f) => f.id === peerId);
+      Alert.alert(
+        friend?.name ? `Заблокировать ${friend.name}?` : 'Заблокировать пользователя?',
+        'Он будет удалён из друзей и не сможет писать, звонить или попасться вам в поиске.',
+        [
+          { text: 'Отмена', style: 'cancel' },
+          { text: 'Заблокировать', style: 'destructive', onPress: () => handleBlockFriend(peerId) },
+        ],
+      );
+    },
+    [handleBlockFriend],
+  );
+
   type FriendDisplay = {
     displayName: string;
     avatarLetter: string;
@@ -3077,6 +3203,75 @@ const handleClearNick = useCallback(async () => {
   };
   
 
+  const groupCandidates = friends.filter((f) => f.online && !f.isBusy && !f.inCall);
+
+  const toggleGroupPick = (id: string) => {
+    setGroupPicker((g) => ({
+      ...g,
+      selected: g.selected.includes(id) ? g.selected.filter((x) => x !== id) : [...g.selected, id],
+    }));
+  };
+
+  const handleStartGroupCall = () => {
+    const ids = groupPicker.selected;
+    setGroupPicker({ visible: false, selected: [] });
+    if (ids.length === 0) return;
+    // Комнату создаёт сервер на call:group:start — экран звонка подключается сразу, не дожидаясь ответов
+    navigation.navigate('VideoCall', {
+      directCall: true,
+      directInitiator: true,
+      peerUserId: ids[0],
+      groupPeerUserIds: ids,
+      myUserId: getCurrentUserId(),
+      returnTo: { name: 'Home', params: { openFriendsMenu: true } },
+    });
+  };
+
+  const handleCallBack = (call: CallHistoryItem) => {
+    const friend = friends.find((f) => f.id === call.peerId);
+    if (!friend) return showNotice('Пользователь больше не в друзьях', 'error', 1800);
+    if (!friend.online) return showNotice('Друг не в сети', 'error', 1800);
+    if (friend.isBusy) return showNotice('Друг сейчас занят', 'error', 1800);
+    handleStartVideoCall(friend);
+  };
+
+  const RecentCalls = () => {
+    if (!recentCalls.length) return null;
+    return (
+      <View style={styles.recentCalls}>
+        <Text style={styles.recentCallsTitle}>Недавние звонки</Text>
+        {recentCalls.map((call) => {
+          const friend = friends.find((f) => f.id === call.peerId);
+          const name = (friend?.name || call.peerNick || '').trim() || '—';
+          const unanswered = call.outcome !== 'accepted';
+          const icon = call.direction === 'outgoing'
+            ? (unanswered ? 'call-missed-outgoing' : 'call-made')
+            : (call.missed ? 'call-missed' : 'call-received');
+          return (
+            <View key={call.id} style={styles.recentCallRow}>
+              <MaterialIcons name={icon as any} size={18} color={call.missed ? LIVI.red : LIVI.text2} />
+              <View style={styles.recentCallInfo}>
+                <Text style={[styles.recentCallName, call.missed && { color: LIVI.red }]} numberOfLines={1}>
+                  {name}{call.group ? ' · группа' : ''}
+                </Text>
+                <Text style={styles.recentCallMeta}>
+                  {formatCallTime(call.startedAt)} · {callOutcomeLabel(call)}
+                </Text>
+              </View>
+              <IconButton
+                icon="video"
+                size={20}
+                iconColor={friend?.online ? LIVI.white : LIVI.text2}
+                style={styles.inviteBtn}
+                onPress={() => handleCallBack(call)}
+              />
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
   const FriendsTab = () => (
     <FlatList
       keyboardShouldPersistTaps="handled"
@@ -3136,6 +3331,21 @@ const handleClearNick = useCallback(async () => {
           />
         </Swipeable>
       )}
+      ListHeaderComponent={
+        <>
+          {groupCallsEnabled && groupCandidates.length >= 2 && (
+            <TouchableOpacity
+              onPress={() => setGroupPicker({ visible: true, selected: [] })}
+              activeOpacity={0.85}
+              style={styles.groupCallBtn}
+            >
+              <MaterialIcons name="groups" size={20} color={LIVI.white} />
+              <Text style={styles.groupCallBtnText}>Групповой звонок</Text>
+            </TouchableOpacity>
+          )}
+          <RecentCalls />
+        </>
+      }
       contentContainerStyle={{ paddingBottom: 24, paddingHorizontal: 16, paddingRight: 6 }}
       ListEmptyComponent={initialized ? (<View style={{ padding: 16 }}><Text style={{ color: LIVI.text2 }}>👤 {L('friendsEmpty')}</Text></View>) : null}
     />
@@ -3230,6 +3440,42 @@ const handleClearNick = useCallback(async () => {
         </View>
       </TouchableOpacity>
 
+      {/* Devices & recovery */}
+      <TouchableOpacity
+        activeOpacity={0.85}
+        onPress={() => navigation.navigate('Devices')}
+        style={{
+          backgroundColor: 'rgba(255,255,255,0.03)',
+          borderColor: LIVI.border,
+          borderWidth: StyleSheet.hairlineWidth,
+          borderRadius: 12,
+          padding: 14,
+          flexDirection: 'row',
+          alignItems: 'center'
+        }}
+      >
+        <View style={{
+          width: 44,
+          height: 44,
+          borderRadius: 22,
+          backgroundColor: 'rgba(113,91,168,0.35)',
+          justifyContent: 'center',
+          alignItems: 'center',
+          marginRight: 14,
+          flexShrink: 0
+        }}>
+          <Ionicons name="phone-portrait-outline" size={22} color={LIVI.white} />
+        </View>
+        <View style={{ flex: 1, justifyContent: 'center' }}>
+          <Text style={{ color: LIVI.white, fontSize: 16, fontWeight: '700', marginBottom: 3, lineHeight: 20 }}>
+            Устройства и восстановление
+          </Text>
+          <Text style={{ color: LIVI.text2, fontSize: 13, lineHeight: 17 }}>
+            Войти с другого телефона, код восстановления аккаунта
+          </Text>
+        </View>
+      </TouchableOpacity>
+
       {/* Donate */}
       <TouchableOpacity 
         activeOpacity={0.85}
@@ -3324,6 +3570,7 @@ const handleClearNick = useCallback(async () => {
     const openFriendsMenu = (route as any)?.params?.openFriendsMenu;
     if (ended) {
       showNotice('Звонок завершён', 'success', 3000);
+      void loadRecentCalls();
     }
     if (openFriendsMenu) {
       setMenuOpen(true);
@@ -3331,7 +3578,7 @@ const handleClearNick = useCallback(async () => {
     if (ended || openFriendsMenu) {
       try { navigation.setParams?.({ callEnded: undefined, openFriendsMenu: undefined }); } catch {}
     }
-  }, [route, navigation, showNotice]);
+  }, [route, navigation, showNotice, loadRecentCalls]);
 
   // Обработка «занято» от друга
   useEffect(() => {
@@ -3456,6 +3703,27 @@ const handleClearNick = useCallback(async () => {
         <Text style={[styles.subtitle, { color: isDark ? LIVI.text2 : LIVI.textThemeWhite }]}>{L('welcomeSubtitle')}</Text>
       </View>
 
+      {maintenance && (
+        <View
+          style={[
+            styles.maintenance,
+            {
+              borderColor: maintenance.level === 'warning' ? LIVI.red : LIVI.accent,
+              backgroundColor: maintenance.level === 'warning'
+                ? (isDark ? 'rgba(255,90,103,0.16)' : 'rgba(255,90,103,0.30)')
+                : (isDark ? 'rgba(113,91,168,0.15)' : 'rgba(113,91,168,0.28)'),
+            },
+          ]}
+        >
+          <Text style={[styles.noticeText, { color: isDark ? LIVI.text2 : LIVI.textThemeWhite }]}>
+            {maintenance.message}
+            {maintenance.until
+              ? ` (до ${new Date(maintenance.until).toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })})`
+              : ''}
+          </Text>
+        </View>
+      )}
+
       {NoticeView}
 
       <AnimatedBorderButton
@@ -3596,6 +3864,51 @@ const handleClearNick = useCallback(async () => {
           </View>
         </View>
       )}
+      {groupPicker.visible && (
+        <View style={styles.overlayModal} pointerEvents="box-none">
+          <BlurView intensity={50} tint="dark" style={StyleSheet.absoluteFill} />
+          <Surface style={styles.confirmCard}>
+            <Text style={styles.confirmTitle}>Групповой звонок</Text>
+            <Text style={styles.confirmMsg}>Выберите друзей в сети</Text>
+            <View style={{ marginTop: 10, maxHeight: 320 }}>
+              <FlatList
+                data={groupCandidates}
+                keyExtractor={(item) => item.id}
+                renderItem={({ item }) => {
+                  const picked = groupPicker.selected.includes(item.id);
+                  return (
+                    <TouchableOpacity onPress={() => toggleGroupPick(item.id)} activeOpacity={0.85} style={styles.groupPickRow}>
+                      <Text style={styles.friendName} numberOfLines={1}>{getFriendDisplay(item).displayName}</Text>
+                      <MaterialIcons
+                        name={picked ? 'check-box' : 'check-box-outline-blank'}
+                        size={22}
+                        color={picked ? LIVI.green : LIVI.text2}
+                      />
+                    </TouchableOpacity>
+                  );
+                }}
+              />
+            </View>
+            <View style={styles.confirmBtns}>
+              <TouchableOpacity
+                onPress={() => setGroupPicker({ visible: false, selected: [] })}
+                activeOpacity={0.85}
+                style={[styles.confirmBtn, { backgroundColor: 'rgba(255,255,255,0.08)' }]}
+              >
+                <Text style={[styles.confirmBtnText, { color: LIVI.white }]}>Отмена</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleStartGroupCall}
+                disabled={groupPicker.selected.length === 0}
+                activeOpacity={0.85}
+                style={[styles.confirmBtn, { backgroundColor: LIVI.green, opacity: groupPicker.selected.length ? 1 : 0.5 }]}
+              >
+                <Text style={[styles.confirmBtnText, { color: LIVI.white }]}>Позвонить</Text>
+              </TouchableOpacity>
+            </View>
+          </Surface>
+        </View>
+      )}
       {/* ───── Исходящий видеозвонок (caller modal) ───── */}
       {calling.visible && (
         <View style={styles.overlayModal} pointerEvents="box-none">
@@ -3625,7 +3938,7 @@ const handleClearNick = useCallback(async () => {
               </View>
             </View>
             <Text style={{ color: LIVI.white, fontSize: 16, fontWeight: '700', marginTop: 12 }}>Вы звоните {displayName(calling.friend?.name)}</Text>
-            <Text style={{ color: LIVI.text2, marginTop: 6 }}>Ожидаем ответа…</Text>
+            <Text style={{ color: LIVI.text2, marginTop: 6 }}>{calling.waiting ? 'Абонент разговаривает — ждём ответа…' : 'Ожидаем ответа…'}</Text>
             <View style={{ flexDirection: 'row', gap: 12, marginTop: 18 }}>
             <TouchableOpacity
   onPress={handleCancelCall}
@@ -4244,6 +4557,14 @@ const styles = StyleSheet.create({
     alignItems: 'center', justifyContent: 'center',
   },
   noticeText: { color: LIVI.text2, fontSize: 14, fontWeight: '500', textAlign: 'center' },
+  maintenance: {
+    marginHorizontal: '8%',
+    marginBottom: 12,
+    borderRadius: 14,
+    paddingVertical: 10, paddingHorizontal: 14,
+    borderWidth: StyleSheet.hairlineWidth,
+    alignItems: 'center', justifyContent: 'center',
+  },
 
   confirmCard: {
     width: '92%', backgroundColor: 'rgba(13,14,16,0.94)', borderRadius: 12,
@@ -4265,4 +4586,37 @@ const styles = StyleSheet.create({
     borderColor: 'rgb(200, 50, 65)',
   },
   confirmBtnText: { fontSize: 15, fontWeight: '700' },
+  groupCallBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 8,
+    marginBottom: 4,
+    marginRight: 10,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: LIVI.border,
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  groupCallBtnText: { color: LIVI.white, fontSize: 15, fontWeight: '600' },
+  recentCalls: {
+    marginTop: 8,
+    marginRight: 10,
+    paddingBottom: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: LIVI.border,
+  },
+  recentCallsTitle: { color: LIVI.text2, fontSize: 13, fontWeight: '600', marginBottom: 4 },
+  recentCallRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 2 },
+  recentCallInfo: { flex: 1, marginLeft: 10 },
+  recentCallName: { color: LIVI.white, fontSize: 15, fontWeight: '600' },
+  recentCallMeta: { color: LIVI.text2, fontSize: 12, marginTop: 1 },
+  groupPickRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+  },
 });
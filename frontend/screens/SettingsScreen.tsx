@@ -8,7 +8,7 @@ import { getClient } from '../chat/cometchat';
 import { uploadAvatarToCloudinary, normalizeLocalImageUri } from '../utils/uploadAvatar';
 import { getInstallId } from '../utils/installId';
 import { clearAllAvatarCaches, forceClearAllCaches, loadProfileFromStorage, saveProfileToStorage } from '../utils/profileStorage';
-import { getMyProfile, getCurrentUserId } from '../sockets/socket';
+import { getMyProfile, getCurrentUserId, authHeaders } from '../sockets/socket';
 import { logger } from '../utils/logger';
 import * as ImagePicker from 'expo-image-picker';
 import SplashLoader from '../components/SplashLoader';
@@ -208,8 +208,7 @@ export default function SettingsScreen() {
 
       const headers: Record<string, string> = {
         'Content-Type': 'application/json',
-        'x-user-id': me.id,
-        'x-install-id': await getInstallId(),
+        ...(await authHeaders()),
       };
 
       const r = await fetch(url, {
@@ -346,7 +345,7 @@ export default function SettingsScreen() {
     patchMe({ avatar: '' });
 
     try {
-      const headers: Record<string, string> = { 'x-user-id': me.id };
+      const headers: Record<string, string> = await authHeaders();
       const r = await fetch(`${API_BASE}/api/avatar/${encodeURIComponent(me.id)}`, { method: 'DELETE', headers });
 
       const txt = await r.clone().text();
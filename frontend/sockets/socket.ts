@@ -43,6 +43,7 @@ export const globalMessageStorage = {
 };
 import { Platform } from "react-native";
 import { getInstallId } from "../utils/installId";
+import { getSession, saveSession, clearSession } from "../utils/sessionToken";
 
 /* ========= Server URL ========= */
 // Получаем BASE_URL из переменных окружения
@@ -77,6 +78,7 @@ export const getSocket = (): Socket => {
       reconnectionAttempts: 10,
       reconnectionDelay: 1000,
       timeout: 15000,
+      auth: provideSocketAuth,
     });
   }
   return socketInstance;
@@ -84,12 +86,93 @@ export const getSocket = (): Socket => {
 
 export const socket: Socket = getSocket();
 
+/* ========= session token ========= */
+// Обновляем access-токен заранее, за минуту до истечения
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+let refreshPromise: Promise<string | null> | null = null;
+
+/** Сохраняем сессию из ack identity:attach / ответа /api/auth/refresh */
+async function storeSessionFrom(resp: any): Promise<void> {
+  if (resp?.token && resp?.refreshToken) {
+    await saveSession({ token: resp.token, refreshToken: resp.refreshToken, expiresAt: Number(resp.expiresAt) || 0 });
+  }
+}
+
+async function refreshSessionInternal(): Promise<string | null> {
+  const session = await getSession();
+  if (!session?.refreshToken) return null;
+  try {
+    const installId = await getInstallId();
+    const r = await fetch(`${API_BASE}/api/auth/refresh`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refreshToken: session.refreshToken, installId }),
+    });
+    const j = await r.json().catch(() => ({}));
+    if (r.ok && j?.ok && j?.token) {
+      await storeSessionFrom(j);
+      return String(j.token);
+    }
+    // Сессия отозвана/просрочена — забываем её, заново получим через identity:attach
+    if (r.status === 401) {
+      logger.warn('[auth] refresh rejected:', j?.error);
+      await clearSession();
+    }
+  } catch (e) {
+    logger.warn('[auth] refresh failed:', e);
+  }
+  return null;
+}
+
+/** Принудительно обновить сессию (параллельные вызовы ждут один запрос) */
+export function refreshSession(): Promise<string | null> {
+  if (!refreshPromise) {
+    refreshPromise = refreshSessionInternal().finally(() => { refreshPromise = null; });
+  }
+  return refreshPromise;
+}
+
+/** Актуальный access-токен; прозрачно обновляет его, если срок почти истёк */
+export async function getAccessToken(): Promise<string | null> {
+  const session = await getSession();
+  if (!session) return null;
+  if (session.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) return session.token;
+  return refreshSession();
+}
+
+/** Заголовки авторизации для REST-запросов к backend */
+export async function authHeaders(): Promise<Record<string, string>> {
+  const token = await getAccessToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/** socket.auth как функция вызывается при каждом (пере)подключении — токен всегда свежий */
+function provideSocketAuth(cb: (data: object) => void) {
+  getAccessToken()
+    .then((token) => cb(token ? { token } : {}))
+    .catch(() => cb({}));
+}
+
+/** Восстанавливаем сессию по installId (сервер найдёт того же пользователя) */
+async function reattachByInstall(): Promise<string | null> {
+  try {
+    const installId = await getInstallId();
+    const resp = await identityAttach({ installId });
+    if (resp?.ok && resp?.userId) {
+      setCurrentUserId(resp.userId);
+      return resp.userId;
+    }
+  } catch (e) {
+    logger.warn('[auth] reattach by installId failed:', e);
+  }
+  return null;
+}
+
 /* ========= auth apply & connect ========= */
 async function applyAuthAndConnect() {
   try {
-    const installId = await getInstallId();
     // @ts-ignore
-    socket.auth = { installId, ...(currentUserId ? { userId: currentUserId } : {}) };
+    socket.auth = provideSocketAuth;
 
     if (!socket.connected) {
       logger.debug("Connecting socket...");
@@ -165,7 +248,11 @@ async function boot() {
       // Не пересоздаём пользователя на временных проблемах сети/авторизации — сначала пробуем reauth.
       try {
         if (socket.connected) {
-          await emitAck<{ ok: boolean; userId?: string; error?: string }>('reauth', { userId: saved }, 6000, 1);
+          const token = await getAccessToken();
+          const reauthResponse = await emitAck<{ ok: boolean; userId?: string; error?: string }>('reauth', { userId: saved, token }, 6000, 1);
+          if (reauthResponse?.error === 'invalid_token') {
+            await reattachByInstall();
+          }
         }
       } catch (e) {
         // мягко игнорируем — может быть оффлайн, но userId локально сохраняем
@@ -218,11 +305,15 @@ async function boot() {
     // Если socket уже подключен, но у нас есть userId - отправляем reauth
     logger.debug('Socket connected, sending reauth with userId:', currentUserId);
     try {
-      const reauthResponse = await emitAck<{ ok: boolean; userId?: string; error?: string }>('reauth', { userId: currentUserId });
+      const token = await getAccessToken();
+      const reauthResponse = await emitAck<{ ok: boolean; userId?: string; error?: string }>('reauth', { userId: currentUserId, token });
       if (reauthResponse?.ok) {
         logger.debug('Reauth successful');
       } else {
         logger.warn('Reauth failed:', reauthResponse?.error);
+        if (reauthResponse?.error === 'invalid_token') {
+          await reattachByInstall();
+        }
         // Если пользователь не найден на сервере - очищаем локальный userId и создаем нового
         if (reauthResponse?.error === 'user_not_found') {
           logger.warn('User not found on server, clearing local userId and creating new user...');
@@ -268,11 +359,16 @@ socket.on("connect", async () => {
   if (currentUserId && !(socket as any).data?.userId) {
     console.log('[socket] Connected without userId, sending reauth:', currentUserId);
     try {
-      const reauthResponse = await emitAck<{ ok: boolean; userId?: string; error?: string }>('reauth', { userId: currentUserId });
+      const token = await getAccessToken();
+      const reauthResponse = await emitAck<{ ok: boolean; userId?: string; error?: string }>('reauth', { userId: currentUserId, token });
       if (reauthResponse?.ok) {
         console.log('[socket] Reauth successful after connect');
       } else {
         console.warn('[socket] Reauth failed after connect:', reauthResponse?.error);
+        // Токена нет или он отозван — получаем новую сессию по installId
+        if (reauthResponse?.error === 'invalid_token') {
+          await reattachByInstall();
+        }
         // Если пользователь не найден на сервере - очищаем локальный userId и создаем нового
         if (reauthResponse?.error === 'user_not_found') {
           console.warn('[socket] User not found on server, clearing local userId and creating new user...');
@@ -292,9 +388,20 @@ socket.on("disconnect", (r) => {
   reconnecting = transient.includes(r) || r === undefined;
   console.warn(`[socket] disconnected (${r}) reconnecting=${reconnecting}`);
 });
-socket.on("connect_error", (e) => {
+socket.on("connect_error", async (e) => {
   reconnecting = true;
   console.warn(`[socket] error ${e?.message || e}`);
+  // Сервер отклонил handshake из-за токена: автопереподключения не будет —
+  // обновляем сессию (или сбрасываем её и заходим гостем) и подключаемся заново
+  if (e?.message === 'invalid_token') {
+    const token = await refreshSession();
+    if (!token) await clearSession();
+    try { socket.connect(); } catch {}
+  }
+  // Нода останавливается и новых не принимает — пробуем ещё раз, балансировщик отправит на другую
+  if (e?.message === 'server_draining') {
+    setTimeout(() => { try { socket.connect(); } catch {} }, 1000 + Math.random() * 2000);
+  }
 });
 // Busy handler (for logging/forwarding to UI screens)
 socket.on('call:busy', (data) => {});
@@ -403,6 +510,27 @@ export async function emitAck<T = any>(
   throw lastErr;
 }
 
+/* ========= Подтверждение доставки =========
+ * Любое полученное сообщение (в т.ч. офлайн-очередь при подключении) подтверждаем серверу,
+ * независимо от того, какой экран открыт. Копим id и шлём пачкой.
+ */
+const pendingDeliveryAcks = new Set<string>();
+let deliveryAckTimer: ReturnType<typeof setTimeout> | null = null;
+
+function flushDeliveryAcks() {
+  deliveryAckTimer = null;
+  if (!pendingDeliveryAcks.size) return;
+  const messageIds = [...pendingDeliveryAcks];
+  pendingDeliveryAcks.clear();
+  socket.emit('message:delivered', { messageIds });
+}
+
+socket.on('message:received', (message: any) => {
+  if (!message?.id || !currentUserId || String(message.to) !== currentUserId) return;
+  pendingDeliveryAcks.add(String(message.id));
+  if (!deliveryAckTimer) deliveryAckTimer = setTimeout(flushDeliveryAcks, 300);
+});
+
 export function onConnected(cb: () => void): () => void {
   const h = () => cb();
   if (socket.connected) h();
@@ -416,6 +544,39 @@ export function onDisconnected(cb: (reason?: string) => void): () => void {
   return () => socket.off("disconnect", h);
 }
 
+/* ========= Draining: нода backend останавливается ========= */
+// По server:draining переподключаемся — балансировщик отправит на живую ноду.
+// Пока идёт разговор (пара рандома, звонок), ждём его конца, но не дольше grace периода сервера.
+const DRAIN_JITTER_MS = 3000; // разносим переподключения клиентов во времени
+const DRAIN_POLL_MS = 1000;
+const DRAIN_SAFETY_MS = 2000; // успеть уйти до того, как сервер отключит сам
+
+const drainBusyChecks = new Set<() => boolean>();
+let drainTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Проверка "сейчас занят, не переподключай" (активная пара / звонок) */
+export function addDrainBusyCheck(check: () => boolean): () => void {
+  drainBusyChecks.add(check);
+  return () => { drainBusyChecks.delete(check); };
+}
+
+socket.on('server:draining', ({ graceMs }: { graceMs?: number } = {}) => {
+  if (drainTimer) return;
+  const deadline = Date.now() + Math.max(0, (Number(graceMs) || 0) - DRAIN_SAFETY_MS);
+  const attempt = () => {
+    const busy = Array.from(drainBusyChecks).some((check) => { try { return check(); } catch { return false; } });
+    if (busy && Date.now() < deadline) {
+      drainTimer = setTimeout(attempt, DRAIN_POLL_MS);
+      return;
+    }
+    drainTimer = null;
+    logger.info('[socket] server is draining, reconnecting');
+    socket.disconnect();
+    socket.connect();
+  };
+  drainTimer = setTimeout(attempt, Math.random() * Math.min(DRAIN_JITTER_MS, Math.max(0, deadline - Date.now())));
+});
+
 /* ========= Friends API ========= */
 export type FriendListItem = {
   _id: string;
@@ -523,6 +684,44 @@ export function removeFriend(peerId: string) {
   return emitAck<{ ok: boolean; error?: string }>("friends:remove", { peerId });
 }
 
+/* ========= Block list ========= */
+export type BlockedUserItem = {
+  _id: string;
+  nick?: string;
+  avatarVer?: number;
+  avatarThumbB64?: string;
+};
+
+export function blockUser(userId: string) {
+  if (!isOid(userId)) return Promise.reject(new Error("invalid ObjectId"));
+  return emitAck<{ ok: boolean; error?: string }>("user:block", { userId });
+}
+
+export function unblockUser(userId: string) {
+  if (!isOid(userId)) return Promise.reject(new Error("invalid ObjectId"));
+  return emitAck<{ ok: boolean; error?: string }>("user:unblock", { userId });
+}
+
+export function fetchBlockedUsers() {
+  return emitAck<{ ok: boolean; list?: BlockedUserItem[]; error?: string }>("user:blocks", {});
+}
+
+export type ReportReason = 'spam' | 'nudity' | 'harassment' | 'underage' | 'violence' | 'other';
+
+export type ReportPayload = {
+  userId: string;
+  reason: ReportReason;
+  comment?: string;
+  snapshot?: string; // data:image/jpeg;base64,...
+  roomName?: string;
+  context?: 'random' | 'chat';
+};
+
+export function reportUser(payload: ReportPayload) {
+  if (!isOid(payload?.userId)) return Promise.reject(new Error("invalid ObjectId"));
+  return emitAck<{ ok: boolean; reportId?: string; duplicate?: boolean; error?: string }>("report:create", payload);
+}
+
 // Проверка реферальной ссылки
 export async function checkInviteLink(code: string): Promise<{
   ok: boolean;
@@ -544,11 +743,7 @@ export async function checkInviteLink(code: string): Promise<{
     }
 
     const userId = getCurrentUserId();
-    const headers: Record<string, string> = {};
-    
-    if (userId) {
-      headers['x-user-id'] = userId;
-    }
+    const headers: Record<string, string> = await authHeaders();
 
     const url = `${API_BASE}/api/invite/${code}`;
     logger.debug('Checking invite link:', { url, code, userId });
@@ -736,14 +931,23 @@ export async function getAvatar(userId: string) {
 }
 
 /* ========= Identity ========= */
-export function identityAttach(payload: {
+export async function identityAttach(payload: {
   installId?: string;
   profile?: { nick?: string; avatarUrl?: string };
 }) {
-  return emitAck<{ ok: boolean; userId?: string; error?: string }>(
+  const resp = await emitAck<{
+    ok: boolean;
+    userId?: string;
+    token?: string;
+    refreshToken?: string;
+    expiresAt?: number;
+    error?: string;
+  }>(
     "identity:attach",
     payload,
   );
+  if (resp?.ok) await storeSessionFrom(resp);
+  return resp;
 }
 export const attachIdentity = identityAttach;
 
@@ -762,7 +966,7 @@ export async function attachUserId(userId: string) {
   if (socket.connected) {
     console.log('[socket] reauth — skip full disconnect');
     // Убираем избыточную проверку - reauth сам проверит существование пользователя
-    socket.emit('reauth', { userId }); // мягкая переавторизация
+    socket.emit('reauth', { userId, token: await getAccessToken() }); // мягкая переавторизация
     return;
   }
   await applyAuthAndConnect();
@@ -1027,6 +1231,7 @@ export function setCurrentUserId(userId: string) {
 export function clearCurrentUserId() {
   currentUserId = undefined;
   AsyncStorage.removeItem("userId").catch(e => console.warn('Failed to remove userId from storage:', e));
+  clearSession().catch(e => console.warn('Failed to clear session:', e));
   console.log('[clearCurrentUserId] Cleared currentUserId');
 }
 
@@ -1085,28 +1290,69 @@ export function onFriendProfile(
 }
 
 /* ========= Messages ========= */
+export type MessageReplyPreview = {
+  id: string;
+  from: string;
+  type: string;
+  text: string;
+};
+
+export type MessageReaction = { userId: string; emoji: string };
+
 export function sendMessage(payload: {
   to: string;
   text?: string;
-  type: 'text' | 'image' | 'video' | 'document';
+  type: 'text' | 'image' | 'video' | 'document' | 'audio';
   uri?: string;
   name?: string;
   size?: number;
+  duration?: number; // audio/video: секунды
+  waveform?: number[]; // audio: превью волны от /api/upload/voice
+  thumbnailUri?: string; // video: превью-кадр от /api/upload/media
+  replyTo?: string; // id сообщения, на которое отвечаем
 }) {
-  // Ограничиваем типы сообщений для новой системы
-  const messageType = payload.type === 'video' || payload.type === 'document' ? 'text' : payload.type;
-
-  return emitAck<{ ok: boolean; messageId?: string; timestamp?: Date; delivered?: boolean; error?: string }>(
+  return emitAck<{
+    ok: boolean;
+    messageId?: string;
+    timestamp?: Date;
+    status?: 'sent'; // "доставлено" приходит отдельно: message:delivery_receipt
+    recipientOnline?: boolean;
+    replyPreview?: MessageReplyPreview;
+    error?: string;
+    retryAfterMs?: number; // error === 'rate_limited'
+  }>(
     "message:send",
     {
       to: payload.to,
       text: payload.text,
-      type: messageType,
-      uri: payload.uri
+      type: payload.type,
+      uri: payload.uri,
+      name: payload.name,
+      size: payload.size,
+      duration: payload.duration,
+      waveform: payload.waveform,
+      thumbnailUri: payload.thumbnailUri,
+      replyTo: payload.replyTo,
     }
   );
 }
 
+/** Редактирование своего текстового сообщения (только в окне после отправки) */
+export function editMessage(messageId: string, text: string) {
+  return emitAck<{ ok: boolean; messageId?: string; text?: string; editedAt?: string; error?: string }>(
+    "message:edit",
+    { messageId, text }
+  );
+}
+
+/** Реакция на сообщение; повтор той же реакции снимает её */
+export function reactToMessage(messageId: string, emoji: string) {
+  return emitAck<{ ok: boolean; messageId?: string; reactions?: MessageReaction[]; error?: string }>(
+    "message:react",
+    { messageId, emoji }
+  );
+}
+
 export function markMessagesAsRead(from: string) {
   return emitAck<{ ok: boolean; error?: string }>(
     "messages:mark_read",
@@ -1118,11 +1364,43 @@ export function sendReadReceipt(messageId: string, from: string) {
   socket.emit('message:read', { messageId, from });
 }
 
+/** "Печатает…" для друга; сервер сам троттлит повторные старты */
+export function sendTyping(to: string, typing: boolean) {
+  if (!isOid(to)) return;
+  socket.emit('chat:typing', { to, typing });
+}
+
+/** "Записывает голосовое…" для друга */
+export function sendRecording(to: string, recording: boolean) {
+  if (!isOid(to)) return;
+  socket.emit('chat:recording', { to, recording });
+}
+
+export type ChatActivityEvent = {
+  from: string;
+  activity: 'typing' | 'recording';
+  active: boolean;
+  expiresInMs: number;
+};
+
+export function onChatActivity(cb: (d: ChatActivityEvent) => void): () => void {
+  const onTyping = (d: any) =>
+    cb({ from: String(d?.from || ''), activity: 'typing', active: !!d?.typing, expiresInMs: Number(d?.expiresInMs) || 0 });
+  const onRecording = (d: any) =>
+    cb({ from: String(d?.from || ''), activity: 'recording', active: !!d?.recording, expiresInMs: Number(d?.expiresInMs) || 0 });
+  socket.on('chat:typing', onTyping);
+  socket.on('chat:recording', onRecording);
+  return () => {
+    socket.off('chat:typing', onTyping);
+    socket.off('chat:recording', onRecording);
+  };
+}
+
 // Новая функция для получения сообщений
 export function fetchMessages(payload: {
   with: string;
   limit?: number;
-  before?: string;
+  cursor?: string | null; // nextCursor из предыдущей страницы — грузим более старые
 }) {
   return emitAck<{ 
     ok: boolean; 
@@ -1130,13 +1408,25 @@ export function fetchMessages(payload: {
       id: string;
       from: string;
       to: string;
-      type: 'text' | 'image';
+      type: 'text' | 'image' | 'video' | 'document' | 'audio';
       text?: string;
       uri?: string;
+      name?: string;
+      size?: number;
+      duration?: number;
+      waveform?: number[];
+      thumbnailUri?: string;
       timestamp: string;
       read: boolean;
+      deliveredAt?: string;
+      readAt?: string;
+      replyTo?: string;
+      replyPreview?: MessageReplyPreview;
+      editedAt?: string;
+      reactions?: MessageReaction[];
     }>;
     hasMore?: boolean;
+    nextCursor?: string | null;
     error?: string;
   }>("messages:fetch", payload);
 }
@@ -1155,11 +1445,18 @@ export function onMessageReceived(
     id: string;
     from: string;
     to: string;
-    type: 'text' | 'image';
+    type: 'text' | 'image' | 'video' | 'document' | 'audio';
     text?: string;
     uri?: string;
+    name?: string;
+    size?: number;
+    duration?: number;
+    waveform?: number[];
+    thumbnailUri?: string;
     timestamp: string;
     read: boolean;
+    replyTo?: string;
+    replyPreview?: MessageReplyPreview;
   }) => void
 ): () => void {
   const h = (message: any) => {
@@ -1185,6 +1482,41 @@ export function onMessageDeleted(
   return () => { socket.off("message:deleted", h); };
 }
 
+export function onMessageEdited(
+  cb: (data: { messageId: string; text: string; editedAt: string; editedBy: string }) => void
+): () => void {
+  const h = (data: any) => cb(data);
+  socket.on("message:edited", h);
+  return () => { socket.off("message:edited", h); };
+}
+
+export function onMessageReaction(
+  cb: (data: { messageId: string; reactions: MessageReaction[] }) => void
+): () => void {
+  const h = (data: any) => cb(data);
+  socket.on("message:reaction", h);
+  return () => { socket.off("message:reaction", h); };
+}
+
+export type MessageDeliveryStatus = 'sent' | 'delivered' | 'read';
+
+export function onMessageDeliveryReceipt(
+  cb: (receipt: { messageIds: string[]; deliveredTo: string; timestamp: string }) => void
+): () => void {
+  const h = (receipt: any) => cb(receipt);
+  socket.on("message:delivery_receipt", h);
+  return () => { socket.off("message:delivery_receipt", h); };
+}
+
+/** Актуальные статусы моих сообщений с сервера (после переподключения) */
+export function fetchMessageStatuses(withUserId: string, messageIds: string[]) {
+  return emitAck<{
+    ok: boolean;
+    statuses?: Array<{ messageId: string; status: MessageDeliveryStatus; deliveredAt?: string; readAt?: string }>;
+    error?: string;
+  }>("messages:status", { with: withUserId, messageIds });
+}
+
 export function onMessageReadReceipt(
   cb: (receipt: {
     messageId: string;
@@ -1265,8 +1597,9 @@ export async function clearAllUserData(): Promise<{ success: boolean; error?: an
       console.warn('Failed to clear avatar cache:', e);
     }
     
-    // Сбрасываем текущий userId
+    // Сбрасываем текущий userId и сессию
     currentUserId = undefined;
+    await clearSession();
     
     return { success: true };
   } catch (error) {
@@ -1430,13 +1763,62 @@ export default socket;
 /* ========= Calls (direct video) ========= */
 export function startCall(toUserId: string) {
   if (!isOid(toUserId)) return Promise.reject(new Error('invalid ObjectId'));
-  return emitAck<{ ok: boolean; callId?: string; error?: string }>(
+  // waiting — друг сейчас разговаривает, у него звонок показан второй линией; ringTimeout — секунды дозвона
+  return emitAck<{ ok: boolean; callId?: string; viaPush?: boolean; waiting?: boolean; ringTimeout?: number; error?: string; retryAfterMs?: number }>(
     'call:initiate',
     { to: toUserId },
     20000,
   );
 }
 
+export type GroupCallInvite = { ok: boolean; userId: string; callId?: string; error?: string };
+
+// Групповой звонок нескольким друзьям: инициатор сразу получает LiveKit токен своей комнаты
+export function startGroupCall(toUserIds: string[]) {
+  const to = toUserIds.filter(isOid);
+  if (!to.length) return Promise.reject(new Error('invalid ObjectId'));
+  return emitAck<{
+    ok: boolean;
+    roomId?: string;
+    invites?: GroupCallInvite[];
+    livekitToken?: string | null;
+    livekitRoomName?: string | null;
+    livekitUrl?: string | null;
+    error?: string;
+  }>('call:group:start', { to }, 20000);
+}
+
+// Пригласить друга в уже идущий звонок
+export function inviteToCall(roomId: string, toUserId: string) {
+  if (!isOid(toUserId)) return Promise.reject(new Error('invalid ObjectId'));
+  return emitAck<GroupCallInvite>('call:invite', { roomId, to: toUserId });
+}
+
+export type CallOutcome = 'accepted' | 'declined' | 'canceled' | 'timeout' | 'busy';
+
+export type CallHistoryItem = {
+  id: string;
+  peerId: string;
+  peerNick: string;
+  peerAvatarVer: number;
+  direction: 'outgoing' | 'incoming';
+  outcome: CallOutcome;
+  missed: boolean; // входящий, на который не ответили
+  group: boolean;
+  startedAt: string;
+  acceptedAt: string | null;
+  endedAt: string | null;
+  duration: number; // секунды разговора
+};
+
+// Последние звонки (before — nextBefore из предыдущей страницы)
+export function fetchCallHistory(opts: { limit?: number; before?: string } = {}) {
+  return emitAck<{ ok: boolean; calls?: CallHistoryItem[]; nextBefore?: string | null; error?: string }>(
+    'calls:history',
+    opts,
+  );
+}
+
 export function cancelCall(callId: string) {
   socket.emit('call:cancel', { callId });
 }
@@ -1445,11 +1827,106 @@ export function acceptCall(callId: string) {
   socket.emit('call:accept', { callId });
 }
 
-export function declineCall(callId: string) {
-  socket.emit('call:decline', { callId });
+// key — ключ перевода в utils/i18n (text — запасной текст с сервера)
+export type CallQuickReply = { id: string; key?: string; text: string };
+
+// Быстрый ответ при отклонении: готовый (replyId из настроек сервера + показанный пользователю перевод) или свой текст.
+// Звонящий видит его вместе с отказом, а в чате он остаётся обычным сообщением
+export type CallDeclineReply = { replyId?: string; message?: string };
+
+export function declineCall(callId: string, reply?: CallDeclineReply) {
+  socket.emit('call:decline', { callId, ...(reply || {}) });
+}
+
+export type CallSettings = {
+  ringTimeoutSeconds: number;
+  quickReplies: CallQuickReply[];
+  quickReplyMaxLength: number;
+};
+
+// До ответа /api/app-settings — те же значения, что у сервера по умолчанию
+let callSettings: CallSettings = {
+  ringTimeoutSeconds: 20,
+  quickReplies: [
+    { id: 'call_later', key: 'call_reply_call_later', text: 'Не могу говорить, перезвоню позже' },
+    { id: 'busy_write', key: 'call_reply_busy_write', text: 'Сейчас занят, напиши сообщение' },
+    { id: 'in_5_min', key: 'call_reply_in_5_min', text: 'Перезвоню через 5 минут' },
+    { id: 'driving', key: 'call_reply_driving', text: 'За рулём, позвоню, как доеду' },
+  ],
+  quickReplyMaxLength: 200,
+};
+let callSettingsPromise: Promise<CallSettings> | null = null;
+let appSettingsRequest: Promise<any> | null = null;
+
+export function getCallSettings(): CallSettings {
+  return callSettings;
+}
+
+/**
+ * GET /api/app-settings с токеном (флаги remote config раскатываются по userId).
+ * Параллельные вызовы (настройки звонков и store/remoteConfig) делят один запрос.
+ */
+export function fetchAppSettings(): Promise<any> {
+  if (!appSettingsRequest) {
+    appSettingsRequest = authHeaders()
+      .catch(() => ({}))
+      .then((headers) => fetch(`${API_BASE}/api/app-settings`, { headers }))
+      .then((r) => {
+        if (!r.ok) throw new Error(`app-settings: HTTP ${r.status}`);
+        return r.json();
+      })
+      .finally(() => { appSettingsRequest = null; });
+  }
+  return appSettingsRequest;
+}
+
+// Настройки звонков с сервера (один раз за запуск; при ошибке — повторим при следующем вызове)
+export function loadCallSettings(): Promise<CallSettings> {
+  if (!callSettingsPromise) {
+    callSettingsPromise = fetchAppSettings()
+      .then((json: any) => {
+        const calls = json?.calls;
+        if (calls && Number(calls.ringTimeoutSeconds) > 0) {
+          callSettings = {
+            ringTimeoutSeconds: Number(calls.ringTimeoutSeconds),
+            quickReplies: Array.isArray(calls.quickReplies) ? calls.quickReplies : callSettings.quickReplies,
+            quickReplyMaxLength: Number(calls.quickReplyMaxLength) || callSettings.quickReplyMaxLength,
+          };
+        }
+        return callSettings;
+      })
+      .catch((e) => {
+        logger.warn('[calls] Failed to load call settings', e);
+        callSettingsPromise = null;
+        return callSettings;
+      });
+  }
+  return callSettingsPromise;
+}
+
+// Входящий звонок, пока идёт другой разговор (вторая линия)
+export function onCallWaiting(cb: (d: { callId: string; from: string; fromNick?: string }) => void): () => void {
+  const h = (d: any) => {
+    logger.debug('Socket received call:waiting', { callId: d.callId, from: d.from });
+    cb(d);
+  };
+  socket.on('call:waiting', h);
+  return () => socket.off('call:waiting', h);
 }
 
-export function onCallIncoming(cb: (d: { callId: string; from: string; fromNick?: string }) => void): () => void {
+// Попросить сообщить, когда занятый друг освободится
+export function requestCallback(toUserId: string) {
+  if (!isOid(toUserId)) return Promise.reject(new Error('invalid ObjectId'));
+  return emitAck<{ ok: boolean; error?: string }>('call:callback:request', { to: toUserId });
+}
+
+export function onCallbackReady(cb: (d: { userId: string; nick?: string }) => void): () => void {
+  const h = (d: any) => cb(d);
+  socket.on('call:callback_ready', h);
+  return () => socket.off('call:callback_ready', h);
+}
+
+export function onCallIncoming(cb: (d: { callId: string; from: string; fromNick?: string; ringTimeout?: number }) => void): () => void {
   const h = (d: any) => {
     logger.debug('Socket received call:incoming', { callId: d.callId, from: d.from, fromNick: d.fromNick });
     cb(d);
@@ -1467,14 +1944,15 @@ export function onCallAccepted(cb: (d: { callId: string; from: string }) => void
   return () => socket.off('call:accepted', h);
 }
 
-export function onCallDeclined(cb: (d: { callId: string; from: string }) => void): () => void {
+export function onCallDeclined(cb: (d: { callId: string; from: string; message?: string }) => void): () => void {
   const h = (d: any) => cb(d);
   socket.on('call:declined', h);
   return () => socket.off('call:declined', h);
 }
 
 // Отдельное событие для явной отмены звонком инициатора (дублирует call:declined на сервере, но даём отдельный listener для явности)
-export function onCallCanceled(cb: (d: { callId: string; from: string }) => void): () => void {
+// reason: 'answered_elsewhere' — звонок принят/отклонён на другом устройстве этого же аккаунта
+export function onCallCanceled(cb: (d: { callId: string; from: string; reason?: 'answered_elsewhere' }) => void): () => void {
   const h = (d: any) => cb(d);
   socket.on('call:cancel', h);
   return () => socket.off('call:cancel', h);
@@ -1504,3 +1982,73 @@ export function onFriendsRoomState(cb: (data: { roomId: string; participants: st
   socket.on('friends:room_state', h);
   return () => socket.off('friends:room_state', h);
 }
+
+/* ========= Устройства и восстановление аккаунта ========= */
+export type LinkedDevice = {
+  installId: string;
+  platform: 'ios' | 'android' | null;
+  linkedAt: string;
+  current: boolean;
+  online: boolean;
+};
+
+type SessionResponse = { ok: boolean; userId?: string; token?: string; refreshToken?: string; expiresAt?: number; error?: string };
+
+export function fetchDevices() {
+  return emitAck<{
+    ok: boolean;
+    devices?: LinkedDevice[];
+    recoveryCode?: { enabled: boolean; createdAt: string | null };
+    error?: string;
+  }>('devices:list', {});
+}
+
+// Одноразовый код привязки (XXXX-XXXX) для входа в этот аккаунт с другого устройства
+export function createLinkCode() {
+  return emitAck<{ ok: boolean; code?: string; expiresAt?: number; error?: string }>('devices:link:create', {});
+}
+
+// Новый код восстановления; прежний перестаёт действовать. Показываем один раз — сервер его не хранит
+export function createRecoveryCode() {
+  return emitAck<{ ok: boolean; code?: string; error?: string }>('devices:recovery:create', {});
+}
+
+export function unlinkDevice(installId: string) {
+  return emitAck<{ ok: boolean; error?: string }>('devices:unlink', { installId });
+}
+
+/**
+ * Это устройство переходит в другой аккаунт: локальные данные прежнего аккаунта стираем,
+ * сохраняем новую сессию. Сокет сервер уже перевёл на новый userId
+ */
+async function switchToAccount(resp: SessionResponse): Promise<SessionResponse> {
+  if (!resp?.ok || !resp.userId) return resp;
+  await clearAllUserData();
+  await storeSessionFrom(resp);
+  setCurrentUserId(resp.userId);
+  return resp;
+}
+
+// Войти в существующий аккаунт по коду привязки с другого устройства
+// (installId сервер берёт из сессии сокета, поэтому сокет должен быть уже авторизован)
+export async function redeemLinkCode(code: string) {
+  return switchToAccount(await emitAck<SessionResponse>('devices:link:redeem', { code }));
+}
+
+// Вернуть аккаунт по коду восстановления (после переустановки / на новом телефоне)
+export async function restoreWithRecoveryCode(code: string) {
+  return switchToAccount(await emitAck<SessionResponse>('devices:recovery:restore', { code }));
+}
+
+export function onDevicesChanged(cb: () => void): () => void {
+  const h = () => cb();
+  socket.on('devices:changed', h);
+  return () => socket.off('devices:changed', h);
+}
+
+// Это устройство отвязали с другого устройства аккаунта — сессия больше не действует
+export function onDeviceUnlinked(cb: () => void): () => void {
+  const h = () => cb();
+  socket.on('devices:unlinked', h);
+  return () => socket.off('devices:unlinked', h);
+}
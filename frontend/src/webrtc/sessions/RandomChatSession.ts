@@ -17,9 +17,10 @@ import { Platform } from 'react-native';
 import * as Device from 'expo-device';
 import { SimpleEventEmitter } from '../base/SimpleEventEmitter';
 import type { WebRTCSessionConfig, CamSide } from '../types';
-import socket from '../../../sockets/socket';
+import socket, { addDrainBusyCheck } from '../../../sockets/socket';
 import { logger } from '../../../utils/logger';
 import { getIceConfiguration } from '../../../utils/iceConfig';
+import type { MatchCriteria, StartPayload } from '../../../utils/matchPrefs';
 
 const LIVEKIT_URL = ((process.env.EXPO_PUBLIC_LIVEKIT_URL as string | undefined) ?? '').trim();
 
@@ -30,6 +31,7 @@ type MatchPayload = {
   livekitToken?: string | null;
   livekitRoomName?: string | null;
   livekitUrl?: string | null;
+  criteria?: MatchCriteria | null;
 };
 
 export class RandomChatSession extends SimpleEventEmitter {
@@ -51,11 +53,13 @@ export class RandomChatSession extends SimpleEventEmitter {
   private remoteAudioMuted = false;
   private remoteCamEnabled = false;
   private lastAutoSearchAt = 0;
+  private startPayload: StartPayload | null = null; // язык/интересы для socket.emit('start')
   private socketOffs: Array<() => void> = [];
   private connectRequestId = 0;
   private disconnectReason: 'user' | 'server' | 'unknown' = 'unknown';
   private isDisconnecting = false;
   private disconnectHandled = false;
+  private resumeSearchAfterReconnect = false; // server:draining: после переподключения заново встаём в очередь
   private disconnectPromise: Promise<void> | null = null;
   private currentRoomName: string | null = null; // Имя текущей подключенной комнаты LiveKit
   private micLevelInterval: NodeJS.Timeout | null = null;
@@ -87,6 +91,11 @@ export class RandomChatSession extends SimpleEventEmitter {
 
   /* ===================== Public API ===================== */
 
+  /** Предпочтения поиска — применяются со следующего start (в т.ч. автопоиска) */
+  setMatchPreferences(payload: StartPayload | null): void {
+    this.startPayload = payload;
+  }
+
   async startRandomChat(): Promise<void> {
     this.started = true;
     this.isCamOn = true;
@@ -321,7 +330,7 @@ export class RandomChatSession extends SimpleEventEmitter {
     if (now - this.lastAutoSearchAt < 200) return;
     this.lastAutoSearchAt = now;
     try {
-      socket.emit('start');
+      socket.emit('start', this.startPayload ?? undefined);
       this.emit('searching');
       this.config.callbacks.onLoadingChange?.(true);
       this.config.onLoadingChange?.(true);
@@ -615,12 +624,24 @@ export class RandomChatSession extends SimpleEventEmitter {
     const peerStoppedHandler = () => this.handleRandomDisconnected('server');
     const peerLeftHandler = () => this.handlePeerLeft();
     const disconnectedHandler = () => this.handleRandomDisconnected('server');
+    // Нода backend останавливается: пока идёт разговор — не переподключаемся, после переподключения ищем заново
+    const drainingHandler = () => { this.resumeSearchAfterReconnect = true; };
+    const reconnectHandler = () => {
+      if (!this.resumeSearchAfterReconnect) return;
+      this.resumeSearchAfterReconnect = false;
+      if (this.started && !this.isDisconnecting && (!this.room || this.room.state === 'disconnected')) {
+        this.autoNext('server_draining');
+      }
+    };
+    const offDrainBusy = addDrainBusyCheck(() => this.room?.state === 'connected');
 
     socket.on('match_found', matchHandler);
     socket.on('peer:stopped', peerStoppedHandler);
     socket.on('peer:left', peerLeftHandler);
     socket.on('disconnected', disconnectedHandler);
     socket.on('hangup', disconnectedHandler);
+    socket.on('server:draining', drainingHandler);
+    socket.on('connect', reconnectHandler);
 
     this.socketOffs = [
       () => socket.off('match_found', matchHandler),
@@ -628,6 +649,9 @@ export class RandomChatSession extends SimpleEventEmitter {
       () => socket.off('peer:left', peerLeftHandler),
       () => socket.off('disconnected', disconnectedHandler),
       () => socket.off('hangup', disconnectedHandler),
+      () => socket.off('server:draining', drainingHandler),
+      () => socket.off('connect', reconnectHandler),
+      offDrainBusy,
     ];
   }
 
@@ -688,7 +712,7 @@ export class RandomChatSession extends SimpleEventEmitter {
     this.lastMatchFoundTime = now;
 
     this.resetRemoteState();
-    this.emit('matchFound', { partnerId, roomId, userId });
+    this.emit('matchFound', { partnerId, roomId, userId, criteria: data.criteria ?? null });
     this.config.callbacks.onPartnerIdChange?.(partnerId);
     this.config.onPartnerIdChange?.(partnerId);
     if (roomId) {
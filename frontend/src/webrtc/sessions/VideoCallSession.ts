@@ -19,7 +19,7 @@ import {
 } from 'livekit-client';
 import { SimpleEventEmitter } from '../base/SimpleEventEmitter';
 import type { WebRTCSessionConfig, CamSide } from '../types';
-import socket from '../../../sockets/socket';
+import socket, { addDrainBusyCheck, authHeaders, startGroupCall, inviteToCall } from '../../../sockets/socket';
 import { logger } from '../../../utils/logger';
 
 const LIVEKIT_URL = ((process.env.EXPO_PUBLIC_LIVEKIT_URL as string | undefined) ?? '').trim();
@@ -40,6 +40,15 @@ type CallIncomingPayload = {
   fromNick?: string;
 };
 
+/** Удалённый участник звонка для плиток группового звонка */
+export type RemoteParticipantView = {
+  userId: string;
+  stream: MediaStream;
+  camEnabled: boolean;
+};
+
+type GroupParticipantEvent = { roomId?: string; userId?: string; reason?: string; message?: string };
+
 export class VideoCallSession extends SimpleEventEmitter {
   private hasLoggedLiveKitApiKeyWarning = false;
   private config: WebRTCSessionConfig;
@@ -49,6 +58,8 @@ export class VideoCallSession extends SimpleEventEmitter {
   private localStream: MediaStream | null = null;
   private remoteStream: MediaStream | null = null;
   private currentRemoteParticipant: RemoteParticipant | null = null;
+  // Все удалённые участники комнаты (групповой звонок); currentRemoteParticipant — основной из них
+  private remoteParticipants = new Map<string, { participant: RemoteParticipant; stream: MediaStream; camEnabled: boolean }>();
   private remoteAudioTrack: RemoteTrack | null = null;
   private remoteVideoTrack: RemoteTrack | null = null;
   private remoteViewKey = 0;
@@ -332,6 +343,7 @@ export class VideoCallSession extends SimpleEventEmitter {
     // Останавливаем локальные треки и сбрасываем состояние
     void this.disconnectRoom('user');
     this.resetRemoteState();
+    this.clearRemoteParticipants();
     this.stopLocalTracks();
     
     // КРИТИЧНО: Отправляем call:end на сервер ПЕРЕД очисткой callId и roomId
@@ -605,9 +617,8 @@ export class VideoCallSession extends SimpleEventEmitter {
       try {
         const response = await fetch(`${process.env.EXPO_PUBLIC_SERVER_URL}/api/livekit/token`, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
           body: JSON.stringify({
-            userId: this.config.myUserId,
             roomName: params.roomId,
           }),
         });
@@ -658,6 +669,68 @@ export class VideoCallSession extends SimpleEventEmitter {
     return this.remoteStream;
   }
 
+  getRemoteParticipants(): RemoteParticipantView[] {
+    return Array.from(this.remoteParticipants.entries()).map(([userId, p]) => ({
+      userId,
+      stream: p.stream,
+      camEnabled: p.camEnabled,
+    }));
+  }
+
+  /**
+   * Групповой звонок: сервер создаёт комнату и рассылает приглашения,
+   * инициатор подключается к LiveKit сразу по токену из ack.
+   */
+  async startGroupCall(friendUserIds: string[]): Promise<void> {
+    if (this.room) {
+      logger.info('[VideoCallSession] Cleaning up old room before startGroupCall');
+      try {
+        this.room.removeAllListeners();
+        this.room.disconnect();
+      } catch {}
+      this.room = null;
+      this.isDisconnecting = false;
+      this.disconnectPromise = null;
+      this.connectingPromise = null;
+      this.currentRoomName = null;
+    }
+
+    this.partnerUserId = friendUserIds[0] ?? null;
+    this.config.callbacks.onLoadingChange?.(true);
+    this.config.onLoadingChange?.(true);
+    await this.ensureLocalTracks();
+
+    try {
+      const res = await startGroupCall(friendUserIds);
+      if (!res?.ok || !res.roomId) {
+        logger.warn('[VideoCallSession] Group call was not started', { error: res?.error, invites: res?.invites });
+        this.config.callbacks.onLoadingChange?.(false);
+        this.config.onLoadingChange?.(false);
+        this.emit('groupCallFailed', { error: res?.error || 'server_error', invites: res?.invites || [] });
+        return;
+      }
+      this.emit('groupInvites', res.invites || []);
+      await this.handleCallAccepted({
+        callId: res.roomId,
+        roomId: res.roomId,
+        livekitToken: res.livekitToken,
+        livekitRoomName: res.livekitRoomName,
+        livekitUrl: res.livekitUrl,
+      });
+    } catch (e) {
+      logger.error('[VideoCallSession] Error starting group call', e);
+      this.config.callbacks.onLoadingChange?.(false);
+      this.config.onLoadingChange?.(false);
+    }
+  }
+
+  /** Пригласить друга в текущий звонок */
+  async inviteToCall(friendUserId: string) {
+    const roomId = this.getRoomId();
+    if (!roomId) return { ok: false, userId: friendUserId, error: 'not_in_call' };
+    return inviteToCall(roomId, friendUserId);
+  }
+
   getPartnerId(): string | null {
     return this.currentRemoteParticipant?.identity || this.partnerId;
   }
@@ -836,8 +909,10 @@ export class VideoCallSession extends SimpleEventEmitter {
         scope: data?.scope,
         currentCallId: this.callId,
         currentRoomId: this.roomId,
-        willHandle: true
+        willHandle: data?.reason !== 'answered_elsewhere'
       });
+      // Другое устройство этого аккаунта ответило на входящий — к идущему здесь разговору это не относится
+      if (data?.reason === 'answered_elsewhere') return;
       this.handleCallEnded();
     };
     
@@ -932,6 +1007,17 @@ export class VideoCallSession extends SimpleEventEmitter {
       }
     };
 
+    // События группового звонка: сами треки приходят из LiveKit, здесь только уведомления для UI
+    const participantJoinedHandler = (data: GroupParticipantEvent) => {
+      if (data?.roomId && data.roomId === this.getRoomId()) this.emit('participantJoined', data);
+    };
+    const participantLeftHandler = (data: GroupParticipantEvent) => {
+      if (data?.roomId && data.roomId === this.getRoomId()) this.emit('participantLeft', data);
+    };
+    const participantDeclinedHandler = (data: GroupParticipantEvent) => {
+      if (data?.roomId && data.roomId === this.getRoomId()) this.emit('participantDeclined', data);
+    };
+
     // Сохраняем ссылки на обработчики для возможности их удаления
     this.socketHandlers.callAccepted = callAcceptedHandler;
     this.socketHandlers.callIncoming = callIncomingHandler;
@@ -947,12 +1033,19 @@ export class VideoCallSession extends SimpleEventEmitter {
     socket.on('call:cancel', callEndedHandler);
     socket.on('pip:state', pipStateHandler);
     socket.on('cam-toggle', camToggleHandler);
+    socket.on('call:participant:joined', participantJoinedHandler);
+    socket.on('call:participant:left', participantLeftHandler);
+    socket.on('call:participant:declined', participantDeclinedHandler);
     
     logger.info('[VideoCallSession] ✅ Socket handlers registered', {
       myUserId: this.config.myUserId,
     });
 
+    // server:draining: пока идёт звонок, сокет не переподключаем (состояние звонка живёт на этой ноде)
+    const offDrainBusy = addDrainBusyCheck(() => this.room?.state === 'connected');
+
     this.socketOffs = [
+      offDrainBusy,
       () => socket.off('call:accepted', callAcceptedHandler),
       () => socket.off('call:incoming', callIncomingHandler),
       () => socket.off('call:ended', callEndedHandler),
@@ -960,6 +1053,9 @@ export class VideoCallSession extends SimpleEventEmitter {
       () => socket.off('call:cancel', callEndedHandler),
       () => socket.off('pip:state', pipStateHandler),
       () => socket.off('cam-toggle', camToggleHandler),
+      () => socket.off('call:participant:joined', participantJoinedHandler),
+      () => socket.off('call:participant:left', participantLeftHandler),
+      () => socket.off('call:participant:declined', participantDeclinedHandler),
     ];
   }
 
@@ -1216,9 +1312,8 @@ export class VideoCallSession extends SimpleEventEmitter {
       try {
         const response = await fetch(`${process.env.EXPO_PUBLIC_SERVER_URL}/api/livekit/token`, {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
           body: JSON.stringify({
-            userId: this.config.myUserId,
             roomName: roomId,
           }),
         });
@@ -1336,6 +1431,7 @@ export class VideoCallSession extends SimpleEventEmitter {
     // Это гарантирует, что оба участника завершат звонок одновременно
     void this.disconnectRoom('server');
     this.resetRemoteState();
+    this.clearRemoteParticipants();
     this.stopLocalTracks();
     
     // Очищаем состояние
@@ -1369,6 +1465,68 @@ export class VideoCallSession extends SimpleEventEmitter {
   private handleDisconnected(): void {
     void this.disconnectRoom('server');
     this.resetRemoteState();
+    this.clearRemoteParticipants();
+  }
+
+  private emitRemoteParticipants(): void {
+    this.emit('remoteParticipants', this.getRemoteParticipants());
+  }
+
+  private clearRemoteParticipants(): void {
+    if (this.remoteParticipants.size === 0) return;
+    this.remoteParticipants.clear();
+    this.emitRemoteParticipants();
+  }
+
+  private addParticipantTrack(participant: RemoteParticipant, track: RemoteTrack, kind: Track.Kind): void {
+    const mediaTrack = track.mediaStreamTrack;
+    if (!mediaTrack) return;
+    let entry = this.remoteParticipants.get(participant.identity);
+    if (!entry) {
+      entry = { participant, stream: new MediaStream(), camEnabled: false };
+      this.remoteParticipants.set(participant.identity, entry);
+    }
+    const camEnabled = kind === Track.Kind.Video ? !track.isMuted : entry.camEnabled;
+    // Повторная подписка на тот же трек (ParticipantConnected + TrackSubscribed) — ничего не меняем
+    if (entry.stream.getTracks().some((t: any) => t.id === mediaTrack.id) && camEnabled === entry.camEnabled) return;
+    // Заменяем трек того же типа, чтобы в плитке не оставались завершённые треки
+    entry.stream.getTracks()
+      .filter((t: any) => t.kind === mediaTrack.kind && t.id !== mediaTrack.id)
+      .forEach((t: any) => entry!.stream.removeTrack(t));
+    if (!entry.stream.getTracks().some((t: any) => t.id === mediaTrack.id)) {
+      entry.stream.addTrack(mediaTrack as any);
+    }
+    entry.camEnabled = camEnabled;
+    // Новый объект stream, чтобы RTCView перерисовал плитку
+    entry.stream = new MediaStream(entry.stream.getTracks());
+    this.emitRemoteParticipants();
+  }
+
+  private removeParticipantTrack(participant: RemoteParticipant, kind: Track.Kind): void {
+    const entry = this.remoteParticipants.get(participant.identity);
+    if (!entry) return;
+    const trackKind = kind === Track.Kind.Video ? 'video' : 'audio';
+    entry.stream.getTracks()
+      .filter((t: any) => t.kind === trackKind)
+      .forEach((t: any) => entry.stream.removeTrack(t));
+    if (kind === Track.Kind.Video) entry.camEnabled = false;
+    entry.stream = new MediaStream(entry.stream.getTracks());
+    this.emitRemoteParticipants();
+  }
+
+  /** Основной участник ушёл из группового звонка — показываем следующего вместо завершения звонка */
+  private promoteNextRemoteParticipant(): boolean {
+    const next = this.remoteParticipants.values().next().value;
+    if (!next) return false;
+    this.resetRemoteState();
+    const participant = next.participant;
+    this.partnerUserId = participant.identity;
+    participant.trackPublications.forEach((publication) => {
+      if (publication.track) {
+        this.handleTrackSubscribed(publication.track as RemoteTrack, publication as RemoteTrackPublication, participant);
+      }
+    });
+    return true;
   }
 
   private async ensureLocalTracks(force = false): Promise<void> {
@@ -3052,6 +3210,12 @@ export class VideoCallSession extends SimpleEventEmitter {
       })
       .on(RoomEvent.TrackMuted, (pub, participant) => {
         if (!participant.isLocal && pub.kind === Track.Kind.Video) {
+          const entry = this.remoteParticipants.get(participant.identity);
+          if (entry) {
+            entry.camEnabled = false;
+            this.emitRemoteParticipants();
+          }
+          if (this.currentRemoteParticipant && participant !== this.currentRemoteParticipant) return;
           this.remoteCamEnabled = false;
           this.config.callbacks.onRemoteCamStateChange?.(false);
           this.config.onRemoteCamStateChange?.(false);
@@ -3059,13 +3223,24 @@ export class VideoCallSession extends SimpleEventEmitter {
       })
       .on(RoomEvent.TrackUnmuted, (pub, participant) => {
         if (!participant.isLocal && pub.kind === Track.Kind.Video) {
+          const entry = this.remoteParticipants.get(participant.identity);
+          if (entry) {
+            entry.camEnabled = true;
+            this.emitRemoteParticipants();
+          }
+          if (this.currentRemoteParticipant && participant !== this.currentRemoteParticipant) return;
           this.remoteCamEnabled = true;
           this.config.callbacks.onRemoteCamStateChange?.(true);
           this.config.onRemoteCamStateChange?.(true);
         }
       })
       .on(RoomEvent.ParticipantDisconnected, (participant) => {
+        if (this.remoteParticipants.delete(participant.identity)) {
+          this.emitRemoteParticipants();
+        }
         if (participant === this.currentRemoteParticipant) {
+          // В групповом звонке остаёмся, пока в комнате есть кто-то ещё
+          if (this.promoteNextRemoteParticipant()) return;
           if (!this.isDisconnecting) {
             this.handleDisconnected();
           }
@@ -3101,6 +3276,13 @@ export class VideoCallSession extends SimpleEventEmitter {
       trackReady: track.mediaStreamTrack?.readyState,
     });
     
+    this.addParticipantTrack(participant, track, publication.kind);
+    
+    // Основной remoteStream ведём только для одного участника, остальные — в плитках группового звонка
+    if (this.currentRemoteParticipant && this.currentRemoteParticipant !== participant) {
+      return;
+    }
+    
     this.currentRemoteParticipant = participant;
     
     const isVideoTrack = publication.kind === Track.Kind.Video;
@@ -3244,6 +3426,8 @@ export class VideoCallSession extends SimpleEventEmitter {
     publication: RemoteTrackPublication,
     participant: RemoteParticipant
   ): void {
+    this.removeParticipantTrack(participant, publication.kind);
+    
     if (participant !== this.currentRemoteParticipant) {
       return;
     }
@@ -0,0 +1,138 @@
+// store/remoteConfig.ts
+import { create, StateCreator } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { fetchAppSettings } from '../sockets/socket';
+import { logger } from '../utils/logger';
+
+// Remote config с сервера (поле config в /api/app-settings): флаги уже вычислены для текущего пользователя
+
+export type FeatureFlag = 'groupCalls' | 'voiceMessages';
+export type RandomMode = 'classic' | 'interests';
+
+export type RemoteConfig = {
+  flags: Record<FeatureFlag, boolean> & { randomMode: RandomMode };
+  tunables: {
+    ringTimeoutSeconds: number;
+    rematchBanMs: number;
+    queueTimeoutMs: number;
+    matchRelaxAfterMs: number;
+  };
+  client: {
+    minSupportedVersion: string | null;
+    latestVersion: string | null;
+    updateUrl: string | null;
+  };
+  maintenance: { message: string; level: 'info' | 'warning'; until: string | null } | null;
+};
+
+const KEY = 'remote_config_v1';
+
+// До первого ответа сервера и без кэша — то же, что сервер отдаёт по умолчанию
+export const defaultRemoteConfig: RemoteConfig = {
+  flags: { groupCalls: true, voiceMessages: true, randomMode: 'interests' },
+  tunables: { ringTimeoutSeconds: 20, rematchBanMs: 5000, queueTimeoutMs: 5 * 60 * 1000, matchRelaxAfterMs: 15_000 },
+  client: { minSupportedVersion: null, latestVersion: null, updateUrl: null },
+  maintenance: null,
+};
+
+const str = (v: any): string | null => (typeof v === 'string' && v.trim() ? v.trim() : null);
+
+/** Старый сервер или битый кэш: чего нет — берём по умолчанию */
+function normalize(raw: any): RemoteConfig {
+  const d = defaultRemoteConfig;
+  const flags = raw?.flags || {};
+  const tunables = raw?.tunables || {};
+  const num = (v: any, fallback: number) => (Number(v) > 0 ? Number(v) : fallback);
+  const m = raw?.maintenance;
+  return {
+    flags: {
+      groupCalls: typeof flags.groupCalls === 'boolean' ? flags.groupCalls : d.flags.groupCalls,
+      voiceMessages: typeof flags.voiceMessages === 'boolean' ? flags.voiceMessages : d.flags.voiceMessages,
+      randomMode: flags.randomMode === 'classic' || flags.randomMode === 'interests' ? flags.randomMode : d.flags.randomMode,
+    },
+    tunables: {
+      ringTimeoutSeconds: num(tunables.ringTimeoutSeconds, d.tunables.ringTimeoutSeconds),
+      rematchBanMs: num(tunables.rematchBanMs, d.tunables.rematchBanMs),
+      queueTimeoutMs: num(tunables.queueTimeoutMs, d.tunables.queueTimeoutMs),
+      matchRelaxAfterMs: num(tunables.matchRelaxAfterMs, d.tunables.matchRelaxAfterMs),
+    },
+    client: {
+      minSupportedVersion: str(raw?.client?.minSupportedVersion),
+      latestVersion: str(raw?.client?.latestVersion),
+      updateUrl: str(raw?.client?.updateUrl),
+    },
+    maintenance: str(m?.message)
+      ? { message: String(m.message), level: m.level === 'warning' ? 'warning' : 'info', until: str(m.until) }
+      : null,
+  };
+}
+
+export interface RemoteConfigState {
+  config: RemoteConfig;
+  /** Когда конфиг получен с сервера (null — пока только кэш / значения по умолчанию) */
+  fetchedAt: number | null;
+  hydrate: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+let hydrated = false;
+
+const creator: StateCreator<RemoteConfigState> = (set, get) => ({
+  config: defaultRemoteConfig,
+  fetchedAt: null,
+
+  // Последний известный конфиг из AsyncStorage — чтобы флаги были верными сразу после запуска, без сети
+  hydrate: async () => {
+    if (hydrated) return;
+    hydrated = true;
+    try {
+      const raw = await AsyncStorage.getItem(KEY);
+      // Ответ сервера мог прийти раньше кэша — он свежее
+      if (raw && !get().fetchedAt) set({ config: normalize(JSON.parse(raw)) });
+    } catch {}
+  },
+
+  refresh: async () => {
+    try {
+      const json = await fetchAppSettings();
+      if (!json?.config) return;
+      const config = normalize(json.config);
+      set({ config, fetchedAt: Date.now() });
+      AsyncStorage.setItem(KEY, JSON.stringify(config)).catch(() => {});
+    } catch (e) {
+      logger.warn('[remoteConfig] Failed to load remote config', e);
+    }
+  },
+});
+
+export const useRemoteConfig = create<RemoteConfigState>(creator);
+
+/** Кэш, затем свежий конфиг с сервера (при запуске и после переподключения) */
+export async function loadRemoteConfig(): Promise<RemoteConfig> {
+  const { hydrate, refresh } = useRemoteConfig.getState();
+  await hydrate();
+  await refresh();
+  return useRemoteConfig.getState().config;
+}
+
+export const getRemoteConfig = (): RemoteConfig => useRemoteConfig.getState().config;
+
+/** const groupCalls = useFeatureFlag('groupCalls') */
+export function useFeatureFlag(name: FeatureFlag): boolean {
+  return useRemoteConfig((s) => s.config.flags[name]);
+}
+
+export function useRandomMode(): RandomMode {
+  return useRemoteConfig((s) => s.config.flags.randomMode);
+}
+
+/** '1.0.9' < '1.0.10'; отсутствующие части считаем нулями */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map((x) => parseInt(x, 10) || 0);
+  const pb = b.split('.').map((x) => parseInt(x, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff) return diff;
+  }
+  return 0;
+}
@@ -76,6 +76,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: 'Не удалось отправить приглашение',
     friendRemoved: 'Друг удалён',
     friendRemoveFailed: 'Не удалось удалить друга',
+    friendBlocked: 'Пользователь заблокирован',
+    friendBlockFailed: 'Не удалось заблокировать',
     avatarUploading: 'Загрузка аватара…',
     avatarUploadingWait: 'Подождите, загружается аватар…',
     saved: 'Сохранено',
@@ -116,6 +118,25 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_request_sent: 'Заявка отправлена',
     friend_request_failed: 'Не удалось отправить заявку',
 
+    // — Random chat filters
+    match_filters_title: 'Кого искать',
+    match_filters_text: 'Язык: {lang}. Интересы через запятую:',
+    match_interests_placeholder: 'музыка, игры, кино',
+    match_strict: 'Только точное совпадение',
+    match_strict_on_hint: 'Ждать подходящего собеседника',
+    match_strict_off_hint: 'Через {sec} секунд искать среди всех',
+    match_criteria: 'Совпадение — {list}',
+    match_criteria_language: 'язык: {value}',
+    match_criteria_interests: 'интересы: {value}',
+    match_relaxed: 'Фильтры расширены: совпадений нет',
+
+    // — Call quick replies
+    call_reply_call_later: 'Не могу говорить, перезвоню позже',
+    call_reply_busy_write: 'Сейчас занят, напиши сообщение',
+    call_reply_in_5_min: 'Перезвоню через 5 минут',
+    call_reply_driving: 'За рулём, позвоню, как доеду',
+    call_reply_custom: 'Свой ответ…',
+    call_reply_placeholder: 'Ответ звонящему',
   },
   en: {
     // — Main / tabs
@@ -156,6 +177,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: 'Failed to send invite',
     friendRemoved: 'Friend removed',
     friendRemoveFailed: 'Failed to remove friend',
+    friendBlocked: 'User blocked',
+    friendBlockFailed: 'Failed to block user',
     avatarUploading: 'Uploading avatar…',
     avatarUploadingWait: 'Please wait, uploading avatar…',
     saved: 'Saved',
@@ -200,6 +223,26 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_request_sent: 'Request sent',
     friend_request_failed: 'Failed to send request',
     user_busy: 'User is busy',
+
+    // — Random chat filters
+    match_filters_title: 'Who to look for',
+    match_filters_text: 'Language: {lang}. Interests, comma-separated:',
+    match_interests_placeholder: 'music, games, movies',
+    match_strict: 'Exact match only',
+    match_strict_on_hint: 'Wait for a matching partner',
+    match_strict_off_hint: 'After {sec} seconds search among everyone',
+    match_criteria: 'Match — {list}',
+    match_criteria_language: 'language: {value}',
+    match_criteria_interests: 'interests: {value}',
+    match_relaxed: 'Filters relaxed: no matches',
+
+    // — Call quick replies
+    call_reply_call_later: "Can't talk now, I'll call you back later",
+    call_reply_busy_write: 'Busy right now, send me a message',
+    call_reply_in_5_min: "I'll call you back in 5 minutes",
+    call_reply_driving: "Driving, I'll call when I get there",
+    call_reply_custom: 'Custom reply…',
+    call_reply_placeholder: 'Reply to caller',
   },
   
   es: {
@@ -233,6 +276,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: 'No se pudo enviar la invitación',
     friendRemoved: 'Amigo eliminado',
     friendRemoveFailed: 'No se pudo eliminar al amigo',
+    friendBlocked: 'Usuario bloqueado',
+    friendBlockFailed: 'No se pudo bloquear al usuario',
     avatarUploading: 'Subiendo avatar…',
     avatarUploadingWait: 'Espere, subiendo el avatar…',
     saved: 'Guardado',
@@ -270,6 +315,26 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_declined: 'Solicitud rechazada',
     friend_request_sent: 'Solicitud enviada',
     friend_request_failed: 'No se pudo enviar la solicitud',
+
+    // — Random chat filters
+    match_filters_title: 'A quién buscar',
+    match_filters_text: 'Idioma: {lang}. Intereses separados por comas:',
+    match_interests_placeholder: 'música, juegos, cine',
+    match_strict: 'Solo coincidencia exacta',
+    match_strict_on_hint: 'Esperar a un compañero adecuado',
+    match_strict_off_hint: 'Tras {sec} segundos buscar entre todos',
+    match_criteria: 'Coincidencia — {list}',
+    match_criteria_language: 'idioma: {value}',
+    match_criteria_interests: 'intereses: {value}',
+    match_relaxed: 'Filtros ampliados: sin coincidencias',
+
+    // — Call quick replies
+    call_reply_call_later: 'No puedo hablar, te llamo más tarde',
+    call_reply_busy_write: 'Ahora estoy ocupado, escríbeme',
+    call_reply_in_5_min: 'Te llamo en 5 minutos',
+    call_reply_driving: 'Estoy conduciendo, te llamo al llegar',
+    call_reply_custom: 'Respuesta propia…',
+    call_reply_placeholder: 'Respuesta a quien llama',
   },
   de: {
     welcomeTitle: 'Willkommen',
@@ -302,6 +367,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: 'Einladung konnte nicht gesendet werden',
     friendRemoved: 'Freund entfernt',
     friendRemoveFailed: 'Freund konnte nicht entfernt werden',
+    friendBlocked: 'Nutzer blockiert',
+    friendBlockFailed: 'Nutzer konnte nicht blockiert werden',
     avatarUploading: 'Avatar wird hochgeladen…',
     avatarUploadingWait: 'Bitte warten, Avatar wird hochgeladen…',
     saved: 'Gespeichert',
@@ -339,6 +406,26 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_declined: 'Anfrage abgelehnt',
     friend_request_sent: 'Anfrage gesendet',
     friend_request_failed: 'Fehler beim Senden der Anfrage',
+
+    // — Random chat filters
+    match_filters_title: 'Wen suchen',
+    match_filters_text: 'Sprache: {lang}. Interessen, durch Kommas getrennt:',
+    match_interests_placeholder: 'Musik, Spiele, Filme',
+    match_strict: 'Nur genaue Übereinstimmung',
+    match_strict_on_hint: 'Auf passenden Partner warten',
+    match_strict_off_hint: 'Nach {sec} Sekunden unter allen suchen',
+    match_criteria: 'Übereinstimmung — {list}',
+    match_criteria_language: 'Sprache: {value}',
+    match_criteria_interests: 'Interessen: {value}',
+    match_relaxed: 'Filter erweitert: keine Übereinstimmungen',
+
+    // — Call quick replies
+    call_reply_call_later: 'Kann gerade nicht sprechen, rufe später zurück',
+    call_reply_busy_write: 'Bin gerade beschäftigt, schreib mir',
+    call_reply_in_5_min: 'Rufe in 5 Minuten zurück',
+    call_reply_driving: 'Fahre gerade, rufe an, wenn ich ankomme',
+    call_reply_custom: 'Eigene Antwort…',
+    call_reply_placeholder: 'Antwort an den Anrufer',
   },
   fr: {
     welcomeTitle: 'Bienvenue',
@@ -371,6 +458,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: 'Échec de l’envoi de l’invitation',
     friendRemoved: 'Ami supprimé',
     friendRemoveFailed: 'Échec de la suppression de l’ami',
+    friendBlocked: 'Utilisateur bloqué',
+    friendBlockFailed: 'Impossible de bloquer l’utilisateur',
     avatarUploading: 'Téléversement de l’avatar…',
     avatarUploadingWait: 'Veuillez patienter, envoi de l’avatar…',
     saved: 'Enregistré',
@@ -408,6 +497,26 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_declined: 'Demande refusée',
     friend_request_sent: 'Demande envoyée',
     friend_request_failed: 'Échec de l’envoi de la demande',
+
+    // — Random chat filters
+    match_filters_title: 'Qui chercher',
+    match_filters_text: 'Langue : {lang}. Centres d’intérêt séparés par des virgules :',
+    match_interests_placeholder: 'musique, jeux, cinéma',
+    match_strict: 'Correspondance exacte uniquement',
+    match_strict_on_hint: 'Attendre un interlocuteur adapté',
+    match_strict_off_hint: 'Après {sec} secondes chercher parmi tous',
+    match_criteria: 'Correspondance — {list}',
+    match_criteria_language: 'langue : {value}',
+    match_criteria_interests: 'centres d’intérêt : {value}',
+    match_relaxed: 'Filtres élargis : aucune correspondance',
+
+    // — Call quick replies
+    call_reply_call_later: 'Je ne peux pas parler, je te rappelle plus tard',
+    call_reply_busy_write: 'Occupé pour le moment, écris-moi',
+    call_reply_in_5_min: 'Je te rappelle dans 5 minutes',
+    call_reply_driving: 'Je conduis, je t’appelle en arrivant',
+    call_reply_custom: 'Réponse personnalisée…',
+    call_reply_placeholder: 'Réponse à l’appelant',
   },
   it: {
     welcomeTitle: 'Benvenuto',
@@ -440,6 +549,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: 'Invio invito non riuscito',
     friendRemoved: 'Amico rimosso',
     friendRemoveFailed: 'Impossibile rimuovere l’amico',
+    friendBlocked: 'Utente bloccato',
+    friendBlockFailed: 'Impossibile bloccare l’utente',
     avatarUploading: 'Caricamento avatar…',
     avatarUploadingWait: "Attendi, caricamento dell'avatar…",
     saved: 'Salvato',
@@ -477,6 +588,26 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_declined: 'Richiesta rifiutata',
     friend_request_sent: 'Richiesta inviata',
     friend_request_failed: 'Invio della richiesta non riuscito',
+
+    // — Random chat filters
+    match_filters_title: 'Chi cercare',
+    match_filters_text: 'Lingua: {lang}. Interessi separati da virgole:',
+    match_interests_placeholder: 'musica, giochi, film',
+    match_strict: 'Solo corrispondenza esatta',
+    match_strict_on_hint: 'Aspetta un interlocutore adatto',
+    match_strict_off_hint: 'Dopo {sec} secondi cerca tra tutti',
+    match_criteria: 'Corrispondenza — {list}',
+    match_criteria_language: 'lingua: {value}',
+    match_criteria_interests: 'interessi: {value}',
+    match_relaxed: 'Filtri allargati: nessuna corrispondenza',
+
+    // — Call quick replies
+    call_reply_call_later: 'Non posso parlare, ti richiamo più tardi',
+    call_reply_busy_write: 'Sono occupato, scrivimi un messaggio',
+    call_reply_in_5_min: 'Ti richiamo tra 5 minuti',
+    call_reply_driving: 'Sto guidando, ti chiamo quando arrivo',
+    call_reply_custom: 'Risposta personalizzata…',
+    call_reply_placeholder: 'Risposta al chiamante',
   },
   pt: {
     welcomeTitle: 'Bem-vindo',
@@ -509,6 +640,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: 'Falha ao enviar convite',
     friendRemoved: 'Amigo removido',
     friendRemoveFailed: 'Falha ao remover amigo',
+    friendBlocked: 'Usuário bloqueado',
+    friendBlockFailed: 'Falha ao bloquear usuário',
     avatarUploading: 'Enviando avatar…',
     avatarUploadingWait: 'Aguarde, enviando o avatar…',
     saved: 'Salvo',
@@ -546,6 +679,26 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_declined: 'Pedido recusado',
     friend_request_sent: 'Pedido enviado',
     friend_request_failed: 'Falha ao enviar pedido',
+
+    // — Random chat filters
+    match_filters_title: 'Quem procurar',
+    match_filters_text: 'Idioma: {lang}. Interesses separados por vírgulas:',
+    match_interests_placeholder: 'música, jogos, filmes',
+    match_strict: 'Apenas correspondência exata',
+    match_strict_on_hint: 'Esperar por um parceiro adequado',
+    match_strict_off_hint: 'Após {sec} segundos procurar entre todos',
+    match_criteria: 'Correspondência — {list}',
+    match_criteria_language: 'idioma: {value}',
+    match_criteria_interests: 'interesses: {value}',
+    match_relaxed: 'Filtros ampliados: sem correspondências',
+
+    // — Call quick replies
+    call_reply_call_later: 'Não posso falar, ligo mais tarde',
+    call_reply_busy_write: 'Estou ocupado agora, mande uma mensagem',
+    call_reply_in_5_min: 'Ligo de volta em 5 minutos',
+    call_reply_driving: 'Estou dirigindo, ligo quando chegar',
+    call_reply_custom: 'Resposta própria…',
+    call_reply_placeholder: 'Resposta para quem liga',
   },
 
   tr: {
@@ -579,6 +732,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: 'Davet gönderilemedi',
     friendRemoved: 'Arkadaş kaldırıldı',
     friendRemoveFailed: 'Arkadaş kaldırılamadı',
+    friendBlocked: 'Kullanıcı engellendi',
+    friendBlockFailed: 'Kullanıcı engellenemedi',
     avatarUploading: 'Avatar yükleniyor…',
     avatarUploadingWait: 'Lütfen bekleyin, avatar yükleniyor…',
     saved: 'Kaydedildi',
@@ -616,6 +771,26 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_declined: 'İstek reddedildi',
     friend_request_sent: 'İstek gönderildi',
     friend_request_failed: 'İstek gönderilemedi',
+
+    // — Random chat filters
+    match_filters_title: 'Kimi ara',
+    match_filters_text: 'Dil: {lang}. İlgi alanları, virgülle ayrılmış:',
+    match_interests_placeholder: 'müzik, oyunlar, filmler',
+    match_strict: 'Yalnızca tam eşleşme',
+    match_strict_on_hint: 'Uygun birini bekle',
+    match_strict_off_hint: '{sec} saniye sonra herkes arasında ara',
+    match_criteria: 'Eşleşme — {list}',
+    match_criteria_language: 'dil: {value}',
+    match_criteria_interests: 'ilgi alanları: {value}',
+    match_relaxed: 'Filtreler genişletildi: eşleşme yok',
+
+    // — Call quick replies
+    call_reply_call_later: 'Şu an konuşamam, sonra ararım',
+    call_reply_busy_write: 'Şu an meşgulüm, mesaj yaz',
+    call_reply_in_5_min: '5 dakika içinde ararım',
+    call_reply_driving: 'Araba kullanıyorum, varınca ararım',
+    call_reply_custom: 'Kendi yanıtın…',
+    call_reply_placeholder: 'Arayana yanıt',
   },
   ar: {
     welcomeTitle: 'مرحبًا',
@@ -648,6 +823,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: 'فشل إرسال الدعوة',
     friendRemoved: 'تم حذف الصديق',
     friendRemoveFailed: 'فشل حذف الصديق',
+    friendBlocked: 'تم حظر المستخدم',
+    friendBlockFailed: 'فشل حظر المستخدم',
     avatarUploading: 'جارٍ رفع الصورة الرمزية…',
     avatarUploadingWait: 'يرجى الانتظار، جارٍ رفع الصورة…',
     saved: 'تم الحفظ',
@@ -685,6 +862,26 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_declined: 'تم رفض الطلب',
     friend_request_sent: 'تم إرسال الطلب',
     friend_request_failed: 'فشل إرسال الطلب',
+
+    // — Random chat filters
+    match_filters_title: 'من تبحث عنه',
+    match_filters_text: 'اللغة: {lang}. الاهتمامات مفصولة بفواصل:',
+    match_interests_placeholder: 'موسيقى، ألعاب، أفلام',
+    match_strict: 'تطابق تام فقط',
+    match_strict_on_hint: 'انتظر شريكًا مناسبًا',
+    match_strict_off_hint: 'بعد {sec} ثانية ابحث بين الجميع',
+    match_criteria: 'تطابق — {list}',
+    match_criteria_language: 'اللغة: {value}',
+    match_criteria_interests: 'الاهتمامات: {value}',
+    match_relaxed: 'تم توسيع الفلاتر: لا توجد تطابقات',
+
+    // — Call quick replies
+    call_reply_call_later: 'لا أستطيع التحدث الآن، سأعاود الاتصال لاحقًا',
+    call_reply_busy_write: 'مشغول الآن، أرسل لي رسالة',
+    call_reply_in_5_min: 'سأعاود الاتصال بعد 5 دقائق',
+    call_reply_driving: 'أقود السيارة، سأتصل عند الوصول',
+    call_reply_custom: 'ردّ مخصص…',
+    call_reply_placeholder: 'ردّ على المتصل',
   },
   ja: {
     welcomeTitle: 'ようこそ',
@@ -717,6 +914,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: '招待の送信に失敗しました',
     friendRemoved: 'フレンドを削除しました',
     friendRemoveFailed: 'フレンドを削除できませんでした',
+    friendBlocked: 'ユーザーをブロックしました',
+    friendBlockFailed: 'ユーザーをブロックできませんでした',
     avatarUploading: 'アバターをアップロード中…',
     avatarUploadingWait: 'お待ちください、アバターをアップロード中…',
     saved: '保存しました',
@@ -754,6 +953,26 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_declined: 'リクエスト拒否',
     friend_request_sent: 'リクエスト送信済み',
     friend_request_failed: 'リクエスト送信失敗',
+
+    // — Random chat filters
+    match_filters_title: '誰を探すか',
+    match_filters_text: '言語: {lang}。興味（カンマ区切り）:',
+    match_interests_placeholder: '音楽, ゲーム, 映画',
+    match_strict: '完全一致のみ',
+    match_strict_on_hint: '条件に合う相手を待つ',
+    match_strict_off_hint: '{sec}秒後に全員から探す',
+    match_criteria: '一致 — {list}',
+    match_criteria_language: '言語: {value}',
+    match_criteria_interests: '興味: {value}',
+    match_relaxed: 'フィルターを緩和: 一致なし',
+
+    // — Call quick replies
+    call_reply_call_later: '今は話せません、後でかけ直します',
+    call_reply_busy_write: '今忙しいので、メッセージをください',
+    call_reply_in_5_min: '5分後にかけ直します',
+    call_reply_driving: '運転中です、着いたら電話します',
+    call_reply_custom: '自分で返信…',
+    call_reply_placeholder: '発信者への返信',
   },
   ko: {
     welcomeTitle: '환영합니다',
@@ -786,6 +1005,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: '초대 전송 실패',
     friendRemoved: '친구 삭제됨',
     friendRemoveFailed: '친구를 삭제할 수 없습니다',
+    friendBlocked: '사용자를 차단했습니다',
+    friendBlockFailed: '사용자를 차단할 수 없습니다',
     avatarUploading: '아바타 업로드 중…',
     avatarUploadingWait: '잠시만요, 아바타 업로드 중…',
     saved: '저장됨',
@@ -823,6 +1044,26 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_declined: '요청 거절됨',
     friend_request_sent: '요청 전송됨',
     friend_request_failed: '요청 전송 실패',
+
+    // — Random chat filters
+    match_filters_title: '누구를 찾을까요',
+    match_filters_text: '언어: {lang}. 관심사 (쉼표로 구분):',
+    match_interests_placeholder: '음악, 게임, 영화',
+    match_strict: '정확히 일치하는 경우만',
+    match_strict_on_hint: '맞는 상대를 기다리기',
+    match_strict_off_hint: '{sec}초 후 모두 중에서 찾기',
+    match_criteria: '일치 — {list}',
+    match_criteria_language: '언어: {value}',
+    match_criteria_interests: '관심사: {value}',
+    match_relaxed: '필터 완화됨: 일치 없음',
+
+    // — Call quick replies
+    call_reply_call_later: '지금 통화할 수 없어요, 나중에 다시 걸게요',
+    call_reply_busy_write: '지금 바빠요, 메시지 남겨 주세요',
+    call_reply_in_5_min: '5분 후에 다시 걸게요',
+    call_reply_driving: '운전 중이에요, 도착하면 전화할게요',
+    call_reply_custom: '직접 답장…',
+    call_reply_placeholder: '발신자에게 답장',
   },
   zh: {
     welcomeTitle: '欢迎',
@@ -855,6 +1096,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: '邀请发送失败',
     friendRemoved: '好友已删除',
     friendRemoveFailed: '无法删除好友',
+    friendBlocked: '已屏蔽该用户',
+    friendBlockFailed: '无法屏蔽该用户',
     avatarUploading: '正在上传头像…',
     avatarUploadingWait: '请稍候，正在上传头像…',
     saved: '已保存',
@@ -892,6 +1135,26 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_declined: '请求被拒绝',
     friend_request_sent: '请求已发送',
     friend_request_failed: '发送请求失败',
+
+    // — Random chat filters
+    match_filters_title: '寻找谁',
+    match_filters_text: '语言：{lang}。兴趣（用逗号分隔）：',
+    match_interests_placeholder: '音乐, 游戏, 电影',
+    match_strict: '仅精确匹配',
+    match_strict_on_hint: '等待合适的对象',
+    match_strict_off_hint: '{sec} 秒后在所有人中搜索',
+    match_criteria: '匹配 — {list}',
+    match_criteria_language: '语言：{value}',
+    match_criteria_interests: '兴趣：{value}',
+    match_relaxed: '已放宽筛选：无匹配',
+
+    // — Call quick replies
+    call_reply_call_later: '现在不方便接听，稍后回电',
+    call_reply_busy_write: '现在忙，请发消息',
+    call_reply_in_5_min: '5 分钟后回电',
+    call_reply_driving: '正在开车，到了给你打电话',
+    call_reply_custom: '自定义回复…',
+    call_reply_placeholder: '回复来电者',
   },
   'zh-TW': {
     welcomeTitle: '歡迎',
@@ -924,6 +1187,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: '邀請傳送失敗',
     friendRemoved: '已移除朋友',
     friendRemoveFailed: '無法移除朋友',
+    friendBlocked: '已封鎖該使用者',
+    friendBlockFailed: '無法封鎖該使用者',
     avatarUploading: '正在上傳頭像…',
     avatarUploadingWait: '請稍候，正在上傳頭像…',
     saved: '已儲存',
@@ -961,6 +1226,26 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_declined: '請求被拒絕',
     friend_request_sent: '請求已送出',
     friend_request_failed: '請求送出失敗',
+
+    // — Random chat filters
+    match_filters_title: '尋找誰',
+    match_filters_text: '語言：{lang}。興趣（用逗號分隔）：',
+    match_interests_placeholder: '音樂, 遊戲, 電影',
+    match_strict: '僅精確匹配',
+    match_strict_on_hint: '等待合適的對象',
+    match_strict_off_hint: '{sec} 秒後在所有人中搜尋',
+    match_criteria: '匹配 — {list}',
+    match_criteria_language: '語言：{value}',
+    match_criteria_interests: '興趣：{value}',
+    match_relaxed: '已放寬篩選：無匹配',
+
+    // — Call quick replies
+    call_reply_call_later: '現在不方便接聽，稍後回電',
+    call_reply_busy_write: '現在忙，請傳訊息',
+    call_reply_in_5_min: '5 分鐘後回電',
+    call_reply_driving: '正在開車，到了給你打電話',
+    call_reply_custom: '自訂回覆…',
+    call_reply_placeholder: '回覆來電者',
   },
   hi: {
     welcomeTitle: 'स्वागत है',
@@ -993,6 +1278,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: 'निमंत्रण भेजना विफल',
     friendRemoved: 'दोस्त हटाया गया',
     friendRemoveFailed: 'दोस्त हटाने में विफल',
+    friendBlocked: 'उपयोगकर्ता ब्लॉक किया गया',
+    friendBlockFailed: 'उपयोगकर्ता को ब्लॉक करने में विफल',
     avatarUploading: 'अवतार अपलोड हो रहा है…',
     avatarUploadingWait: 'कृपया प्रतीक्षा करें, अवतार अपलोड हो रहा है…',
     saved: 'सहेजा गया',
@@ -1030,6 +1317,26 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_declined: 'अनुरोध अस्वीकृत',
     friend_request_sent: 'अनुरोध भेजा गया',
     friend_request_failed: 'अनुरोध भेजने में विफल',
+
+    // — Random chat filters
+    match_filters_title: 'किसे खोजें',
+    match_filters_text: 'भाषा: {lang}। रुचियाँ, अल्पविराम से अलग:',
+    match_interests_placeholder: 'संगीत, खेल, फ़िल्में',
+    match_strict: 'केवल सटीक मिलान',
+    match_strict_on_hint: 'उपयुक्त साथी की प्रतीक्षा करें',
+    match_strict_off_hint: '{sec} सेकंड बाद सभी में खोजें',
+    match_criteria: 'मिलान — {list}',
+    match_criteria_language: 'भाषा: {value}',
+    match_criteria_interests: 'रुचियाँ: {value}',
+    match_relaxed: 'फ़िल्टर बढ़ाए गए: कोई मिलान नहीं',
+
+    // — Call quick replies
+    call_reply_call_later: 'अभी बात नहीं कर सकता, बाद में कॉल करूँगा',
+    call_reply_busy_write: 'अभी व्यस्त हूँ, संदेश भेजें',
+    call_reply_in_5_min: '5 मिनट में कॉल करूँगा',
+    call_reply_driving: 'गाड़ी चला रहा हूँ, पहुँचकर कॉल करूँगा',
+    call_reply_custom: 'अपना जवाब…',
+    call_reply_placeholder: 'कॉल करने वाले को जवाब',
   },
   vi: {
     welcomeTitle: 'Chào mừng',
@@ -1062,6 +1369,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: 'Gửi lời mời thất bại',
     friendRemoved: 'Đã xóa bạn',
     friendRemoveFailed: 'Không thể xóa bạn',
+    friendBlocked: 'Đã chặn người dùng',
+    friendBlockFailed: 'Không thể chặn người dùng',
     avatarUploading: 'Đang tải ảnh đại diện…',
     avatarUploadingWait: 'Vui lòng đợi, đang tải ảnh đại diện…',
     saved: 'Đã lưu',
@@ -1099,6 +1408,26 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_declined: 'Yêu cầu bị từ chối',
     friend_request_sent: 'Đã gửi yêu cầu',
     friend_request_failed: 'Không thể gửi yêu cầu',
+
+    // — Random chat filters
+    match_filters_title: 'Tìm ai',
+    match_filters_text: 'Ngôn ngữ: {lang}. Sở thích, cách nhau bằng dấu phẩy:',
+    match_interests_placeholder: 'âm nhạc, trò chơi, phim',
+    match_strict: 'Chỉ khớp chính xác',
+    match_strict_on_hint: 'Chờ người phù hợp',
+    match_strict_off_hint: 'Sau {sec} giây tìm trong tất cả mọi người',
+    match_criteria: 'Trùng khớp — {list}',
+    match_criteria_language: 'ngôn ngữ: {value}',
+    match_criteria_interests: 'sở thích: {value}',
+    match_relaxed: 'Đã mở rộng bộ lọc: không có kết quả trùng khớp',
+
+    // — Call quick replies
+    call_reply_call_later: 'Không nghe máy được, mình sẽ gọi lại sau',
+    call_reply_busy_write: 'Đang bận, nhắn tin cho mình nhé',
+    call_reply_in_5_min: 'Mình sẽ gọi lại sau 5 phút',
+    call_reply_driving: 'Đang lái xe, đến nơi sẽ gọi',
+    call_reply_custom: 'Trả lời riêng…',
+    call_reply_placeholder: 'Trả lời người gọi',
   },
   th: {
     welcomeTitle: 'ยินดีต้อนรับ',
@@ -1131,6 +1460,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: 'ส่งคำเชิญไม่สำเร็จ',
     friendRemoved: 'ลบเพื่อนแล้ว',
     friendRemoveFailed: 'ลบเพื่อนไม่สำเร็จ',
+    friendBlocked: 'บล็อกผู้ใช้แล้ว',
+    friendBlockFailed: 'บล็อกผู้ใช้ไม่สำเร็จ',
     avatarUploading: 'กำลังอัปโหลดอวาตาร์…',
     avatarUploadingWait: 'โปรดรอ กำลังอัปโหลดอวาตาร์…',
     saved: 'บันทึกแล้ว',
@@ -1168,6 +1499,26 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_declined: 'คำขอถูกปฏิเสธ',
     friend_request_sent: 'ส่งคำขอแล้ว',
     friend_request_failed: 'ไม่สามารถส่งคำขอได้',
+
+    // — Random chat filters
+    match_filters_title: 'ค้นหาใคร',
+    match_filters_text: 'ภาษา: {lang} ความสนใจ คั่นด้วยจุลภาค:',
+    match_interests_placeholder: 'เพลง, เกม, ภาพยนตร์',
+    match_strict: 'ตรงกันทุกข้อเท่านั้น',
+    match_strict_on_hint: 'รอคู่สนทนาที่เหมาะสม',
+    match_strict_off_hint: 'หลัง {sec} วินาที ค้นหาจากทุกคน',
+    match_criteria: 'ตรงกัน — {list}',
+    match_criteria_language: 'ภาษา: {value}',
+    match_criteria_interests: 'ความสนใจ: {value}',
+    match_relaxed: 'ขยายตัวกรองแล้ว: ไม่มีที่ตรงกัน',
+
+    // — Call quick replies
+    call_reply_call_later: 'ตอนนี้คุยไม่ได้ จะโทรกลับทีหลัง',
+    call_reply_busy_write: 'ตอนนี้ไม่ว่าง ส่งข้อความมาได้เลย',
+    call_reply_in_5_min: 'จะโทรกลับใน 5 นาที',
+    call_reply_driving: 'กำลังขับรถ ถึงแล้วจะโทรหา',
+    call_reply_custom: 'ตอบกลับเอง…',
+    call_reply_placeholder: 'ตอบกลับผู้โทร',
   },
   id: {
     cancel: 'Tutup',
@@ -1201,6 +1552,8 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     inviteFailed: 'Gagal mengirim undangan',
     friendRemoved: 'Teman dihapus',
     friendRemoveFailed: 'Gagal menghapus teman',
+    friendBlocked: 'Pengguna diblokir',
+    friendBlockFailed: 'Gagal memblokir pengguna',
     avatarUploading: 'Mengunggah avatar…',
     avatarUploadingWait: 'Harap tunggu, avatar sedang diunggah…',
     saved: 'Tersimpan',
@@ -1237,6 +1590,26 @@ const dict: Partial<Record<Lang, Record<string, string>>> = {
     friend_declined: 'Permintaan ditolak',
     friend_request_sent: 'Permintaan terkirim',
     friend_request_failed: 'Gagal mengirim permintaan',
+
+    // — Random chat filters
+    match_filters_title: 'Cari siapa',
+    match_filters_text: 'Bahasa: {lang}. Minat, pisahkan dengan koma:',
+    match_interests_placeholder: 'musik, game, film',
+    match_strict: 'Hanya yang cocok persis',
+    match_strict_on_hint: 'Tunggu teman bicara yang cocok',
+    match_strict_off_hint: 'Setelah {sec} detik cari di antara semua',
+    match_criteria: 'Cocok — {list}',
+    match_criteria_language: 'bahasa: {value}',
+    match_criteria_interests: 'minat: {value}',
+    match_relaxed: 'Filter diperluas: tidak ada yang cocok',
+
+    // — Call quick replies
+    call_reply_call_later: 'Tidak bisa bicara, nanti saya telepon balik',
+    call_reply_busy_write: 'Sedang sibuk, kirim pesan saja',
+    call_reply_in_5_min: 'Saya telepon balik 5 menit lagi',
+    call_reply_driving: 'Sedang menyetir, saya telepon setelah sampai',
+    call_reply_custom: 'Balasan sendiri…',
+    call_reply_placeholder: 'Balasan untuk penelepon',
   },
 };
 
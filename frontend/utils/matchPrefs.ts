@@ -0,0 +1,58 @@
+// utils/matchPrefs.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { loadLang } from './i18n';
+
+// Предпочтения для рандом-поиска (уходят в socket.emit('start', ...))
+export type MatchPrefs = {
+  interests: string[];
+  strict: boolean; // true — не расширять критерии со временем
+};
+
+// То, что сервер присылает в match_found.criteria
+export type MatchCriteria = {
+  language: string | null;
+  interests: string[];
+  relaxed: boolean;
+};
+
+export type StartPayload = MatchPrefs & { lang: string };
+
+const KEY = 'match_prefs';
+const MAX_INTERESTS = 10;
+
+export const defaultMatchPrefs: MatchPrefs = { interests: [], strict: false };
+
+/** "музыка, игры,  кино" -> ['музыка', 'игры', 'кино'] */
+export function parseInterests(text: string): string[] {
+  const list = String(text || '')
+    .split(/[,#\n]/)
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(list)).slice(0, MAX_INTERESTS);
+}
+
+export async function loadMatchPrefs(): Promise<MatchPrefs> {
+  try {
+    const raw = await AsyncStorage.getItem(KEY);
+    if (raw) {
+      const v = JSON.parse(raw);
+      return {
+        interests: Array.isArray(v?.interests) ? v.interests.map(String).slice(0, MAX_INTERESTS) : [],
+        strict: v?.strict === true,
+      };
+    }
+  } catch {}
+  return { ...defaultMatchPrefs };
+}
+
+export async function saveMatchPrefs(prefs: MatchPrefs): Promise<void> {
+  try {
+    await AsyncStorage.setItem(KEY, JSON.stringify(prefs));
+  } catch {}
+}
+
+/** Язык берём из настроек приложения (loadLang) */
+export async function buildStartPayload(prefs?: MatchPrefs): Promise<StartPayload> {
+  const p = prefs ?? (await loadMatchPrefs());
+  return { lang: await loadLang(), interests: p.interests, strict: p.strict };
+}
@@ -1,193 +1,274 @@
 // utils/mediaUpload.ts
-import { Platform } from 'react-native';
 import * as FileSystem from 'expo-file-system';
+import { API_BASE, authHeaders } from '../sockets/socket';
 import { logger } from './logger';
 
-// Получаем BASE_URL из переменных окружения
-// Приоритет: платформо-специфичная переменная > общая переменная > fallback
-// КРИТИЧНО: В production используйте домен с HTTPS, не IP адреса!
-const DEFAULT_URL = process.env.EXPO_PUBLIC_SERVER_URL || 'https://api.liviapp.com';
-const IOS_URL = process.env.EXPO_PUBLIC_SERVER_URL_IOS || process.env.EXPO_PUBLIC_SERVER_URL || 'https://api.liviapp.com';
-const ANDROID_URL = process.env.EXPO_PUBLIC_SERVER_URL_ANDROID || process.env.EXPO_PUBLIC_SERVER_URL || 'https://api.liviapp.com';
+// Файлы больше порога грузим resumable-чанками (большие видео), остальные — одним multipart-запросом
+const CHUNKED_THRESHOLD_BYTES = 20 * 1024 * 1024;
+// Сколько раз повторяем чанк при обрыве сети, прежде чем сдаться
+const CHUNK_RETRIES = 3;
 
-const API_BASE_URL = (Platform.OS === 'android' ? ANDROID_URL : IOS_URL).replace(/\/+$/, '');
+export type UploadedMedia = {
+  success: boolean;
+  url?: string;
+  kind?: 'image' | 'video' | 'audio' | 'document';
+  mime?: string;
+  size?: number;
+  duration?: number; // голосовые и видео: секунды
+  waveform?: number[]; // голосовые: превью волны 0..100
+  thumbnailUrl?: string; // видео: превью-кадр
+  error?: string;
+};
+
+const normalizeFileUri = (uri: string) => (uri.startsWith('file://') || uri.startsWith('content://') ? uri : `file://${uri}`);
+
+/**
+ * Определяем MIME по расширению — только как подсказка для multipart,
+ * реальный тип сервер определяет по сигнатуре файла
+ */
+const guessMimeType = (uri: string): string => {
+  const extension = uri.split('?')[0].split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'jpg':
+    case 'jpeg': return 'image/jpeg';
+    case 'png': return 'image/png';
+    case 'gif': return 'image/gif';
+    case 'webp': return 'image/webp';
+    case 'heic': return 'image/heic';
+    case 'mp4': return 'video/mp4';
+    case 'mov': return 'video/quicktime';
+    case 'webm': return 'video/webm';
+    case 'm4a': return 'audio/mp4';
+    case 'aac': return 'audio/aac';
+    case 'mp3': return 'audio/mpeg';
+    case 'wav': return 'audio/wav';
+    case 'pdf': return 'application/pdf';
+    case 'docx': return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    case 'xlsx': return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    case 'pptx': return 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+    case 'zip': return 'application/zip';
+    default: return 'application/octet-stream';
+  }
+};
+
+const parseBody = (body: string) => {
+  try {
+    return JSON.parse(body || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Загрузка одним multipart-запросом: файл читается нативно потоком, без base64 в JS
+ */
+async function uploadMultipart(
+  fileUri: string,
+  fileName: string,
+  onProgress?: (progress: number) => void,
+  endpoint = '/api/upload/media'
+): Promise<UploadedMedia> {
+  const task = FileSystem.createUploadTask(
+    `${API_BASE}${endpoint}`,
+    fileUri,
+    {
+      httpMethod: 'POST',
+      uploadType: FileSystem.FileSystemUploadType.MULTIPART,
+      fieldName: 'file',
+      mimeType: guessMimeType(fileName),
+      headers: await authHeaders(),
+    },
+    ({ totalBytesSent, totalBytesExpectedToSend }) => {
+      if (onProgress && totalBytesExpectedToSend > 0) {
+        // 100% отдаём только после ответа сервера
+        onProgress(Math.min(99, Math.round((totalBytesSent / totalBytesExpectedToSend) * 100)));
+      }
+    }
+  );
+
+  const result = await task.uploadAsync();
+  if (!result) return { success: false, error: 'Upload cancelled' };
+
+  const body = parseBody(result.body);
+  if (result.status < 200 || result.status >= 300 || !body.ok) {
+    logger.error('Server error response:', { status: result.status, error: body.error });
+    return { success: false, error: body.error || `Server error ${result.status}` };
+  }
+  return {
+    success: true,
+    url: body.url,
+    kind: body.kind,
+    mime: body.mime,
+    size: body.size,
+    duration: body.duration,
+    waveform: body.waveform,
+    thumbnailUrl: body.thumbnailUrl,
+  };
+}
 
 /**
- * Конвертирует локальный файл в dataUri
+ * Resumable-загрузка: init → PUT чанков с offset → complete.
+ * При обрыве спрашиваем у сервера, сколько принято, и продолжаем с этого места.
  */
-export const fileToDataUri = async (uri: string): Promise<string | null> => {
+async function uploadChunked(
+  fileUri: string,
+  fileName: string,
+  size: number,
+  onProgress?: (progress: number) => void
+): Promise<UploadedMedia> {
+  const headers = await authHeaders();
+  const base = `${API_BASE}/api/upload/media/chunked`;
+
+  const initRes = await fetch(base, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ name: fileName, size }),
+  });
+  const init = await initRes.json().catch(() => ({}));
+  if (!initRes.ok || !init.ok) return { success: false, error: init.error || `Server error ${initRes.status}` };
+
+  const uploadId: string = init.uploadId;
+  const chunkSize: number = init.chunkSize;
+  const chunkFile = `${FileSystem.cacheDirectory}upload_${uploadId}.chunk`;
+  let offset = 0;
+  let retries = 0;
+
   try {
-    // Нормализуем URI для разных платформ
-    const normalizedUri = uri.startsWith('file://') ? uri : `file://${uri}`;
-    
-    // Читаем файл как base64
-    const base64 = await FileSystem.readAsStringAsync(normalizedUri, {
-      encoding: FileSystem.EncodingType.Base64,
-    });
-    
-    // Определяем MIME тип по расширению файла
-    const extension = uri.split('.').pop()?.toLowerCase();
-    let mimeType = 'application/octet-stream';
-    
-    if (extension) {
-      switch (extension) {
-        case 'jpg':
-        case 'jpeg':
-          mimeType = 'image/jpeg';
-          break;
-        case 'png':
-          mimeType = 'image/png';
-          break;
-        case 'gif':
-          mimeType = 'image/gif';
-          break;
-        case 'webp':
-          mimeType = 'image/webp';
-          break;
-        case 'mp4':
-          mimeType = 'video/mp4';
-          break;
-        case 'mov':
-          mimeType = 'video/quicktime';
-          break;
-        case 'webm':
-          mimeType = 'video/webm';
-          break;
+    while (offset < size) {
+      const length = Math.min(chunkSize, size - offset);
+      // Вырезаем кусок исходного файла во временный файл и отдаём его нативной загрузке как есть
+      const slice = await FileSystem.readAsStringAsync(fileUri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: offset,
+        length,
+      });
+      await FileSystem.writeAsStringAsync(chunkFile, slice, { encoding: FileSystem.EncodingType.Base64 });
+
+      const chunkStart = offset;
+      try {
+        const res = await FileSystem.createUploadTask(
+          `${base}/${uploadId}?offset=${offset}`,
+          chunkFile,
+          {
+            httpMethod: 'PUT',
+            uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+            headers: { ...headers, 'Content-Type': 'application/octet-stream' },
+          },
+          ({ totalBytesSent }) => {
+            onProgress?.(Math.min(99, Math.round(((chunkStart + totalBytesSent) / size) * 100)));
+          }
+        ).uploadAsync();
+
+        const body = parseBody(res?.body || '');
+        if (res && res.status === 200 && body.ok) {
+          offset = body.received;
+          retries = 0;
+          continue;
+        }
+        // Сервер принял другое количество байт — продолжаем с его позиции
+        if (res && res.status === 409 && typeof body.received === 'number') {
+          offset = body.received;
+          continue;
+        }
+        throw new Error(body.error || `Server error ${res?.status}`);
+      } catch (e) {
+        if (++retries > CHUNK_RETRIES) throw e;
+        logger.warn('Chunk upload failed, resuming', { uploadId, offset, retries });
+        const stateRes = await fetch(`${base}/${uploadId}`, { headers });
+        const state = await stateRes.json().catch(() => ({}));
+        if (!state.ok) throw e;
+        offset = state.received;
       }
     }
-    
-    return `data:${mimeType};base64,${base64}`;
+
+    const doneRes = await fetch(`${base}/${uploadId}/complete`, { method: 'POST', headers });
+    const done = await doneRes.json().catch(() => ({}));
+    if (!doneRes.ok || !done.ok) return { success: false, error: done.error || `Server error ${doneRes.status}` };
+    return {
+      success: true,
+      url: done.url,
+      kind: done.kind,
+      mime: done.mime,
+      size: done.size,
+      duration: done.duration,
+      thumbnailUrl: done.thumbnailUrl,
+    };
   } catch (error) {
-    logger.error('Error converting file to dataUri:', error);
-    return null;
+    // Отменяем загрузку на сервере, чтобы не копить брошенные файлы
+    fetch(`${base}/${uploadId}`, { method: 'DELETE', headers }).catch(() => {});
+    throw error;
+  } finally {
+    FileSystem.deleteAsync(chunkFile, { idempotent: true }).catch(() => {});
   }
-};
+}
 
 /**
  * Загружает медиа файл на сервер и возвращает публичный URL
  */
 export const uploadMediaToServer = async (
-  localUri: string, 
-  type: 'image',
+  localUri: string,
+  type: 'image' | 'video' | 'audio' | 'document',
   onProgress?: (progress: number) => void,
-  from?: string,
-  to?: string
-): Promise<{ success: boolean; url?: string; error?: string; abortController?: AbortController }> => {
+  fileName?: string
+): Promise<UploadedMedia> => {
   try {
-    logger.debug('Starting upload to:', API_BASE_URL);
-    logger.debug('Local file:', localUri);
-    
-    // Конвертируем файл в dataUri
-    const dataUri = await fileToDataUri(localUri);
-    if (!dataUri) {
-      logger.error('Failed to convert file to dataUri');
-      return { success: false, error: 'Failed to convert file to dataUri' };
-    }
-    
-    const fileSizeMB = Math.round(dataUri.length / 1024 / 1024);
-    
-    // Проверяем размер файла (только для изображений)
-    const maxSizeMB = 100; // 100MB для изображений
-    if (fileSizeMB > maxSizeMB) {
-      logger.error(`File too large: ${fileSizeMB}MB (max: ${maxSizeMB}MB)`);
-      return { success: false, error: `File too large: ${fileSizeMB}MB (maximum allowed: ${maxSizeMB}MB)` };
-    }
+    const fileUri = normalizeFileUri(localUri);
+    const info = await FileSystem.getInfoAsync(fileUri);
+    if (!info.exists) return { success: false, error: 'File not found' };
 
-    // Показываем прогресс для всех файлов
-    if (onProgress) {
-      onProgress(10); // 10% - файл конвертирован
-    }
-    
-    // Симулируем прогресс загрузки для всех файлов
-    let progressInterval: NodeJS.Timeout | null = null;
-    if (onProgress) {
-      let currentProgress = 10;
-      progressInterval = setInterval(() => {
-        currentProgress += Math.random() * 3; // Увеличиваем на 0-3% каждые 150мс
-        if (currentProgress > 90) currentProgress = 90; // Не доходим до 100% до завершения
-        onProgress(Math.round(currentProgress));
-      }, 150);
-    }
-    
-    // Загружаем на сервер
-    
-    // Создаем AbortController для таймаута
-    const controller = new AbortController();
-    const timeoutMs = 300000; // 5 минут для изображений
-    const timeoutId = setTimeout(() => {
-      controller.abort();
-    }, timeoutMs);
-    
-    let result;
-    try {
-      
-      const response = await fetch(`${API_BASE_URL}/api/upload/media`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          dataUri,
-          type,
-          from,
-          to,
-        }),
-        signal: controller.signal,
-      });
-      
-      clearTimeout(timeoutId);
-      if (progressInterval) {
-        clearInterval(progressInterval);
-      }
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        logger.error('Server error response:', errorText);
-        return { success: false, error: `Server error ${response.status}: ${errorText}` };
-      }
-      
-      result = await response.json();
-    } catch (error) {
-      clearTimeout(timeoutId);
-      if (progressInterval) {
-        clearInterval(progressInterval);
-      }
-      if (error instanceof Error && error.name === 'AbortError') {
-        return { success: false, error: `Upload timeout after ${timeoutMs/1000} seconds` };
-      }
-      throw error;
-    }
-    
-    // Показываем прогресс для всех файлов
-    if (onProgress) {
-      onProgress(80); // 80% - ответ получен
-    }
-    
-    if (result.ok && (result.url || result.secure_url)) {
-      const url = result.url || result.secure_url;
-      
-      // Показываем финальный прогресс для всех файлов
-      if (onProgress) {
-        onProgress(100); // 100% - загрузка завершена
-      }
-      
-      return { success: true, url, abortController: controller };
-    } else {
-      console.error('📤 Upload failed:', result.error);
-      return { success: false, error: result.error || 'Upload failed' };
-    }
+    const size = info.size ?? 0;
+    const name = fileName || fileUri.split('/').pop() || `${type}_${Date.now()}`;
+    logger.debug('Starting media upload', { type, size, chunked: size > CHUNKED_THRESHOLD_BYTES });
+
+    onProgress?.(0);
+    const result = size > CHUNKED_THRESHOLD_BYTES
+      ? await uploadChunked(fileUri, name, size, onProgress)
+      : await uploadMultipart(fileUri, name, onProgress);
+
+    if (result.success) onProgress?.(100);
+    return result;
+  } catch (error) {
+    logger.error('Upload error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+};
+
+/**
+ * Загружает голосовое: сервер перекодирует его и вернёт длительность и волну
+ */
+export const uploadVoiceMessage = async (
+  localUri: string,
+  onProgress?: (progress: number) => void
+): Promise<UploadedMedia> => {
+  try {
+    const fileUri = normalizeFileUri(localUri);
+    const name = fileUri.split('/').pop() || `voice_${Date.now()}.wav`;
+    onProgress?.(0);
+    const result = await uploadMultipart(fileUri, name, onProgress, '/api/upload/voice');
+    if (result.success) onProgress?.(100);
+    return result;
   } catch (error) {
-    console.error('📤 Upload error:', error);
-    return { 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error' 
+    logger.error('Voice upload error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
     };
+  } finally {
+    // Исходный WAV больше не нужен — на сервере лежит перекодированный m4a
+    FileSystem.deleteAsync(normalizeFileUri(localUri), { idempotent: true }).catch(() => {});
   }
 };
 
 /**
  * Определяет тип медиа файла по URI
  */
-export const getMediaType = (uri: string): 'image' => {
-  return 'image';
+export const getMediaType = (uri: string): 'image' | 'video' | 'audio' | 'document' => {
+  const mime = guessMimeType(uri);
+  if (mime.startsWith('video/')) return 'video';
+  if (mime.startsWith('audio/')) return 'audio';
+  if (mime.startsWith('image/')) return 'image';
+  return 'document';
 };
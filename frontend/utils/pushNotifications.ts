@@ -0,0 +1,134 @@
+// utils/pushNotifications.ts
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import * as Device from 'expo-device';
+import Constants from 'expo-constants';
+import { emitAck, getCurrentUserId } from '../sockets/socket';
+import { getInstallId } from './installId';
+import { loadLang } from './i18n';
+import type { Lang } from './i18n';
+import { logger } from './logger';
+
+// Каналы Android должны совпадать с channelId, которые шлёт сервер (backend/utils/push.ts)
+export const PUSH_CHANNEL_MESSAGES = 'messages';
+export const PUSH_CHANNEL_CALLS = 'calls';
+
+/** data из push-уведомления: что открыть по нажатию */
+export type PushData =
+  | { type: 'message'; messageId: string; from: string }
+  | { type: 'friend_request'; from: string }
+  | { type: 'call'; callId: string; from: string; fromNick?: string }
+  | { type: 'callback'; from: string };
+
+// Пока приложение открыто, уведомления показываем как обычно (приходят они, только если сокет был офлайн)
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+let channelsReady = false;
+// Для кого токен уже зарегистрирован в этом запуске — сервер хранит его, повторять на каждом connect незачем
+let registeredUserId: string | null = null;
+
+async function ensureAndroidChannels() {
+  if (Platform.OS !== 'android' || channelsReady) return;
+  await Notifications.setNotificationChannelAsync(PUSH_CHANNEL_MESSAGES, {
+    name: 'Сообщения',
+    importance: Notifications.AndroidImportance.HIGH,
+    sound: 'default',
+  });
+  // Звонки: максимальная важность, видно на экране блокировки, длинная вибрация как у звонка
+  await Notifications.setNotificationChannelAsync(PUSH_CHANNEL_CALLS, {
+    name: 'Звонки',
+    importance: Notifications.AndroidImportance.MAX,
+    sound: 'default',
+    vibrationPattern: [0, 1000, 500, 1000, 500, 1000],
+    lockscreenVisibility: Notifications.AndroidNotificationVisibility.PUBLIC,
+    bypassDnd: true,
+  });
+  channelsReady = true;
+}
+
+/**
+ * Запрашивает разрешение, получает Expo push-токен и привязывает его к этому устройству на сервере.
+ * Безопасно вызывать на каждом connect / возврате в приложение: до появления userId и повторно не регистрирует.
+ * Возвращает true, если токен привязан к текущему пользователю.
+ */
+export async function registerForPushNotifications(): Promise<boolean> {
+  const userId = getCurrentUserId();
+  if (!userId) return false;
+  if (registeredUserId === userId) return true;
+  try {
+    if (!Device.isDevice) return false;
+    await ensureAndroidChannels();
+
+    const current = await Notifications.getPermissionsAsync();
+    let granted = current.granted;
+    if (!granted && current.canAskAgain) {
+      granted = (await Notifications.requestPermissionsAsync()).granted;
+    }
+    if (!granted) return false;
+
+    const projectId = (Constants.expoConfig as any)?.extra?.eas?.projectId || (Constants as any).easConfig?.projectId;
+    const { data: token } = await Notifications.getExpoPushTokenAsync(projectId ? { projectId } : undefined);
+
+    const res = await emitAck<{ ok: boolean; error?: string }>('push:register', {
+      installId: await getInstallId(),
+      token,
+      platform: Platform.OS,
+      lang: await loadLang(),
+    });
+    if (!res?.ok) {
+      logger.warn('[push] register rejected', { error: res?.error });
+      return false;
+    }
+    registeredUserId = userId;
+    return true;
+  } catch (e) {
+    logger.warn('[push] register failed', e);
+    return false;
+  }
+}
+
+/** Смена языка приложения: сервер шлёт уведомления этому устройству на новом языке */
+export async function setPushLanguage(lang: Lang): Promise<void> {
+  if (!registeredUserId) return;
+  try {
+    const res = await emitAck<{ ok: boolean; error?: string }>('push:lang', { lang });
+    if (!res?.ok) logger.warn('[push] lang rejected', { error: res?.error });
+  } catch (e) {
+    logger.warn('[push] lang update failed', e);
+  }
+}
+
+const parsePushData = (response: Notifications.NotificationResponse | null): PushData | null => {
+  const data = response?.notification?.request?.content?.data as any;
+  if (!data || typeof data.type !== 'string' || typeof data.from !== 'string') return null;
+  return data as PushData;
+};
+
+/**
+ * Нажатие на уведомление: и когда приложение уже запущено, и когда оно им было запущено.
+ * receivedAt — когда уведомление пришло (для звонков важно, не истёк ли дозвон).
+ */
+export function onPushNotificationTap(cb: (data: PushData, receivedAt: number) => void): () => void {
+  const handle = (response: Notifications.NotificationResponse | null) => {
+    const data = parsePushData(response);
+    if (data) cb(data, response!.notification.date);
+  };
+
+  Notifications.getLastNotificationResponseAsync()
+    .then((response) => {
+      handle(response);
+      // Чтобы при следующем монтировании не открыть тот же чат повторно
+      if (response) Notifications.clearLastNotificationResponseAsync?.().catch(() => {});
+    })
+    .catch(() => {});
+
+  const sub = Notifications.addNotificationResponseReceivedListener(handle);
+  return () => sub.remove();
+}
@@ -0,0 +1,50 @@
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Сессия, выданная сервером в identity:attach / /api/auth/refresh
+export type StoredSession = {
+  token: string;
+  refreshToken: string;
+  expiresAt: number; // ms
+};
+
+const KEY = 'livi.session';
+
+async function getSecure(k: string) { try { return await SecureStore.getItemAsync(k); } catch { return null; } }
+async function setSecure(k: string, v: string) { try { await SecureStore.setItemAsync(k, v); } catch {} }
+async function delSecure(k: string) { try { await SecureStore.deleteItemAsync(k); } catch {} }
+
+let cached: StoredSession | null | undefined;
+
+function parse(raw?: string | null): StoredSession | null {
+  if (!raw) return null;
+  try {
+    const s = JSON.parse(raw);
+    if (s && typeof s.token === 'string' && typeof s.refreshToken === 'string') {
+      return { token: s.token, refreshToken: s.refreshToken, expiresAt: Number(s.expiresAt) || 0 };
+    }
+  } catch {}
+  return null;
+}
+
+export async function getSession(): Promise<StoredSession | null> {
+  if (cached !== undefined) return cached;
+  // На web SecureStore нет — там храним только в AsyncStorage
+  const raw = Platform.OS !== 'web' ? await getSecure(KEY) : await AsyncStorage.getItem(KEY);
+  cached = parse(raw);
+  return cached;
+}
+
+export async function saveSession(s: StoredSession): Promise<void> {
+  cached = s;
+  const raw = JSON.stringify(s);
+  if (Platform.OS !== 'web') await setSecure(KEY, raw);
+  else await AsyncStorage.setItem(KEY, raw);
+}
+
+export async function clearSession(): Promise<void> {
+  cached = null;
+  if (Platform.OS !== 'web') await delSecure(KEY);
+  else await AsyncStorage.removeItem(KEY);
+}
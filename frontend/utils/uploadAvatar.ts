@@ -2,9 +2,7 @@
 import * as MediaLibrary from 'expo-media-library';
 import * as FileSystem from 'expo-file-system';
 import * as ImageManipulator from 'expo-image-manipulator';
-import { API_BASE } from '../sockets/socket';
-import { getInstallId } from './installId';
-import { useMe } from '../store/me';
+import { API_BASE, authHeaders } from '../sockets/socket';
 import { logger } from './logger';
 
 const isHttp = (s?: string) => !!s && /^https?:\/\//i.test(String(s).trim());
@@ -160,7 +158,7 @@ async function uploadViaBase64(fileUri: string, cloudUrl: string, preset: string
 }
 
 /** Серверный фолбэк */
-async function uploadViaServerFallback(fileUri: string, userId?: string, installId?: string): Promise<{ avatar: string; avatarVer: number }> {
+async function uploadViaServerFallback(fileUri: string): Promise<{ avatar: string; avatarVer: number }> {
 
   let working = fileUri;
   try {
@@ -176,9 +174,7 @@ async function uploadViaServerFallback(fileUri: string, userId?: string, install
   const dataUri = `data:image/jpeg;base64,${base64}`;
 
   const url = `${API_BASE}/api/upload/avatar/dataUri`;
-  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-  if (userId) headers['x-user-id'] = userId;
-  if (installId) headers['x-install-id'] = installId;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', ...(await authHeaders()) };
 
   const res = await fetchWithTimeout(url, {
     method: 'POST',
@@ -205,12 +201,8 @@ export async function uploadAvatarToCloudinary(localUri: string, assetId?: strin
   try {
     const fileUri = await normalizeLocalImageUri(localUri, assetId);
 
-    // Получаем userId и installId для авторизации
-    const userId = useMe.getState().me?.id;
-    const installId = await getInstallId();
-
-    // Загружаем на сервер через /api/upload/avatar/dataUri
-    const result = await uploadViaServerFallback(fileUri, userId, installId);
+    // Загружаем на сервер через /api/upload/avatar/dataUri (авторизация — сессионный токен)
+    const result = await uploadViaServerFallback(fileUri);
 
     return result;
   } catch (error) {
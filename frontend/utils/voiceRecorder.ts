@@ -0,0 +1,62 @@
+// utils/voiceRecorder.ts
+import AudioRecord from 'react-native-audio-record';
+import { Audio } from 'expo-av';
+import { logger } from './logger';
+
+// Пишем WAV 16 кГц моно — сервер всё равно перекодирует в AAC и посчитает волну
+const VOICE_SAMPLE_RATE = 16000;
+// Короче этого считаем случайным нажатием и не отправляем
+export const VOICE_MIN_DURATION_MS = 700;
+
+let recordingStartedAt = 0;
+let recording = false;
+
+export const isVoiceRecording = () => recording;
+
+/**
+ * Начать запись голосового (нативный AudioRecord — тот же, что у эквалайзеров звонков;
+ * init() перенастраивает его под голосовое)
+ */
+export async function startVoiceRecording(): Promise<boolean> {
+  if (recording) return true;
+  try {
+    const perm = await Audio.getPermissionsAsync();
+    if (perm.status !== 'granted') {
+      const requested = await Audio.requestPermissionsAsync();
+      if (requested.status !== 'granted') return false;
+    }
+
+    AudioRecord.init({
+      sampleRate: VOICE_SAMPLE_RATE,
+      channels: 1,
+      bitsPerSample: 16,
+      wavFile: `voice_${Date.now()}.wav`,
+    } as any);
+    AudioRecord.start();
+    recording = true;
+    recordingStartedAt = Date.now();
+    return true;
+  } catch (e) {
+    logger.warn('[voiceRecorder] Failed to start recording', e);
+    recording = false;
+    return false;
+  }
+}
+
+/**
+ * Остановить запись. Возвращает путь к WAV и длительность,
+ * либо null, если запись слишком короткая или не удалась.
+ */
+export async function stopVoiceRecording(): Promise<{ uri: string; durationMs: number } | null> {
+  if (!recording) return null;
+  recording = false;
+  const durationMs = Date.now() - recordingStartedAt;
+  try {
+    const path = await AudioRecord.stop();
+    if (!path || durationMs < VOICE_MIN_DURATION_MS) return null;
+    return { uri: path.startsWith('file://') ? path : `file://${path}`, durationMs };
+  } catch (e) {
+    logger.warn('[voiceRecorder] Failed to stop recording', e);
+    return null;
+  }
+}